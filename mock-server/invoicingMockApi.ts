@@ -0,0 +1,558 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Connect, Plugin } from 'vite';
+
+/**
+ * API de facturación simulada para desarrollo local y pruebas automatizadas.
+ * Replica los endpoints que consume `src/lib/api/invoicingApi.ts` con respuestas que
+ * cumplen sus esquemas Zod, guarda el estado en memoria y permite forzar fallos
+ * (rechazo SUNAT, timeout o payload malformado) de forma determinista.
+ *
+ * Control en tiempo de ejecución:
+ *  - GET    /__mock/invoicing/__config  → configuración vigente.
+ *  - POST   /__mock/invoicing/__config  → actualiza la configuración (JSON parcial).
+ *  - POST   /__mock/invoicing/__reset   → limpia documentos, correlativos y configuración.
+ *  - Cabecera `x-mock-failure: <modo>`  → fuerza un modo solo para esa petición.
+ *  - Cabecera `Idempotency-Key`          → repite la respuesta exitosa previa sin emitir de nuevo.
+ */
+
+export const INVOICING_MOCK_BASE_PATH = '/__mock/invoicing';
+
+export const INVOICING_MOCK_FAILURE_MODES = ['none', 'rejection', 'timeout', 'malformed'] as const;
+
+export type InvoicingMockFailureMode = typeof INVOICING_MOCK_FAILURE_MODES[number];
+
+export interface InvoicingMockConfig {
+  mode: InvoicingMockFailureMode;
+  routes: string[]; // Fragmentos de ruta a los que aplica el fallo; vacío = todas
+  remaining: number | null; // Peticiones que fallarán antes de volver a 'none'; null = sin límite
+  timeoutMs: number; // Espera antes de responder 504 en modo 'timeout'
+  latencyMs: number; // Demora artificial en todas las respuestas
+  pendingChecks: number; // Consultas de estado que responden PENDIENTE antes de resolverse
+}
+
+export interface InvoicingMockOptions {
+  enabled: boolean;
+  config?: Partial<InvoicingMockConfig>;
+}
+
+const DEFAULT_CONFIG: InvoicingMockConfig = {
+  mode: 'none',
+  routes: [],
+  remaining: null,
+  timeoutMs: 30000,
+  latencyMs: 0,
+  pendingChecks: 0,
+};
+
+type TipoDocumentoMock = 'boleta' | 'factura' | 'nota-credito' | 'nota-debito';
+
+interface DocumentoMock {
+  id: number;
+  tipo: TipoDocumentoMock;
+  numeroCompleto: string;
+  fechaEmision: string;
+  estadoSunat: string;
+  consultas: number;
+}
+
+interface LoteMock {
+  id: number;
+  numeroCompleto: string;
+  fecha: string;
+  correlativo: string;
+  ticket: string | null;
+  estadoSunat: string;
+  estadoProceso: string;
+  detalles: string[];
+  consultas: number;
+}
+
+interface MockState {
+  config: InvoicingMockConfig;
+  nextId: number;
+  correlativos: Map<string, number>;
+  documentos: Map<number, DocumentoMock>;
+  resumenes: Map<number, LoteMock>;
+  bajas: Map<number, LoteMock>;
+  idempotencia: Map<string, MockResult>; // Respuestas exitosas por cabecera Idempotency-Key
+}
+
+type MockResult =
+  | { status: number; body: unknown }
+  | { status: number; file: Buffer; contentType: string; filename: string };
+
+interface MockRequest {
+  method: string;
+  path: string;
+  params: string[];
+  body: Record<string, unknown>;
+}
+
+interface MockRoute {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  handler: (state: MockState, req: MockRequest, rejected: boolean) => MockResult;
+}
+
+const createState = (config: Partial<InvoicingMockConfig> = {}): MockState => ({
+  config: { ...DEFAULT_CONFIG, ...config },
+  nextId: 1,
+  correlativos: new Map(),
+  documentos: new Map(),
+  resumenes: new Map(),
+  bajas: new Map(),
+  idempotencia: new Map(),
+});
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const nextCorrelativo = (state: MockState, serie: string) => {
+  const numero = (state.correlativos.get(serie) ?? 0) + 1;
+  state.correlativos.set(serie, numero);
+  return numero;
+};
+
+const ok = (body: unknown): MockResult => ({ status: 200, body });
+
+const notFound = (descripcion: string): MockResult => ({ status: 404, body: { success: false, message: `${descripcion} no encontrado en la API simulada.` } });
+
+const rejection = (descripcion: string): MockResult => ({
+  status: 422,
+  body: { success: false, message: `SUNAT rechazó ${descripcion} (código 2800 simulado).` },
+});
+
+/** Devuelve PENDIENTE hasta agotar `pendingChecks` consultas y luego el estado final. */
+const resolveCheck = (state: MockState, item: { consultas: number; estadoSunat: string }, rejected: boolean) => {
+  item.consultas++;
+  if (item.consultas <= state.config.pendingChecks) return 'PENDIENTE';
+  item.estadoSunat = rejected ? 'RECHAZADO' : 'ACEPTADO';
+  return item.estadoSunat;
+};
+
+/** PDF mínimo válido para las descargas; basta para que el navegador lo abra. */
+const buildPdf = (titulo: string) => {
+  const contenido = `BT /F1 18 Tf 72 720 Td (${titulo.replace(/[()\\]/g, '')}) Tj ET`;
+  const objetos = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${contenido.length} >>\nstream\n${contenido}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objetos.forEach((objeto, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${objeto}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objetos.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objetos.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+};
+
+// --- COMPROBANTES INDIVIDUALES ---
+
+const DESCRIPCION_DOCUMENTO: Record<TipoDocumentoMock, string> = {
+  'boleta': 'la boleta',
+  'factura': 'la factura',
+  'nota-credito': 'la nota de crédito',
+  'nota-debito': 'la nota de débito',
+};
+
+const SERIE_POR_DEFECTO: Record<TipoDocumentoMock, string> = {
+  'boleta': 'B001',
+  'factura': 'F001',
+  'nota-credito': 'BC01',
+  'nota-debito': 'BD01',
+};
+
+const issueDocumento = (tipo: TipoDocumentoMock) => (state: MockState, req: MockRequest, rejected: boolean): MockResult => {
+  if (rejected) return rejection(`${DESCRIPCION_DOCUMENTO[tipo]} enviada`);
+  const serie = typeof req.body.serie === 'string' && req.body.serie ? req.body.serie : SERIE_POR_DEFECTO[tipo];
+  const numeroCompleto = `${serie}-${nextCorrelativo(state, serie)}`;
+  const documento: DocumentoMock = {
+    id: state.nextId++,
+    tipo,
+    numeroCompleto,
+    fechaEmision: typeof req.body.fecha_emision === 'string' ? req.body.fecha_emision.slice(0, 10) : today(),
+    estadoSunat: 'PENDIENTE',
+    consultas: 0,
+  };
+  state.documentos.set(documento.id, documento);
+
+  const data: Record<string, unknown> = {
+    id: documento.id,
+    numero_completo: numeroCompleto,
+    pdf_path: `files/${numeroCompleto}.pdf`,
+    xml_path: `files/${numeroCompleto}.xml`,
+    cdr_path: null,
+    sunat_status: 'PENDIENTE',
+  };
+
+  if (tipo === 'factura') {
+    const detalles = Array.isArray(req.body.detalles) ? req.body.detalles as Record<string, number | string>[] : [];
+    let gravadas = 0;
+    let exoneradas = 0;
+    let igv = 0;
+    detalles.forEach(detalle => {
+      const base = Number(detalle.cantidad) * Number(detalle.mto_valor_unitario);
+      if (detalle.tip_afe_igv === '10') {
+        gravadas += base;
+        igv += base * Number(detalle.porcentaje_igv) / 100;
+      } else {
+        exoneradas += base;
+      }
+    });
+    Object.assign(data, {
+      mto_oper_gravadas: round2(gravadas),
+      mto_oper_exoneradas: round2(exoneradas),
+      mto_igv: round2(igv),
+      mto_imp_venta: round2(gravadas + exoneradas + igv),
+    });
+  }
+
+  return ok({ success: true, message: `Comprobante ${numeroCompleto} registrado (simulado).`, data });
+};
+
+const findDocumento = (state: MockState, tipo: TipoDocumentoMock, id: string) => {
+  const documento = state.documentos.get(Number(id));
+  return documento && documento.tipo === tipo ? documento : undefined;
+};
+
+const sendDocumento = (tipo: TipoDocumentoMock) => (state: MockState, req: MockRequest, rejected: boolean): MockResult => {
+  const documento = findDocumento(state, tipo, req.params[0]);
+  if (!documento) return notFound(`Comprobante ${req.params[0]}`);
+  if (rejected) {
+    documento.estadoSunat = 'RECHAZADO';
+    return rejection(`${DESCRIPCION_DOCUMENTO[tipo]} ${documento.numeroCompleto}`);
+  }
+  documento.estadoSunat = 'ENVIADO';
+  return ok({ success: true, message: `${documento.numeroCompleto} enviado a SUNAT (simulado).` });
+};
+
+const checkDocumento = (tipo: TipoDocumentoMock) => (state: MockState, req: MockRequest, rejected: boolean): MockResult => {
+  const documento = findDocumento(state, tipo, req.params[0]);
+  if (!documento) return notFound(`Comprobante ${req.params[0]}`);
+  const estado = documento.estadoSunat === 'RECHAZADO' ? 'RECHAZADO' : resolveCheck(state, documento, rejected);
+  return ok({ success: true, data: { id: documento.id, estado_sunat: estado } });
+};
+
+const generatePdf = (tipo: TipoDocumentoMock) => (state: MockState, req: MockRequest): MockResult => {
+  const documento = findDocumento(state, tipo, req.params[0]);
+  if (!documento) return notFound(`Comprobante ${req.params[0]}`);
+  return ok({ success: true, message: `PDF de ${documento.numeroCompleto} generado (simulado).` });
+};
+
+const downloadPdf = (tipo: TipoDocumentoMock) => (state: MockState, req: MockRequest): MockResult => {
+  const documento = findDocumento(state, tipo, req.params[0]);
+  if (!documento) return notFound(`Comprobante ${req.params[0]}`);
+  return { status: 200, file: buildPdf(documento.numeroCompleto), contentType: 'application/pdf', filename: `${documento.numeroCompleto}.pdf` };
+};
+
+/** Sirve los `pdf_path` y `xml_path` devueltos al emitir, que el calendario enlaza. */
+const downloadFile = (state: MockState, req: MockRequest): MockResult => {
+  const [numeroCompleto, extension] = req.params;
+  const documento = Array.from(state.documentos.values()).find(d => d.numeroCompleto === numeroCompleto);
+  if (!documento) return notFound(`Archivo ${numeroCompleto}.${extension}`);
+  if (extension === 'pdf') {
+    return { status: 200, file: buildPdf(numeroCompleto), contentType: 'application/pdf', filename: `${numeroCompleto}.pdf` };
+  }
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<ComprobanteSimulado numero="${numeroCompleto}" estado="${documento.estadoSunat}"/>\n`;
+  return { status: 200, file: Buffer.from(xml, 'utf8'), contentType: 'application/xml', filename: `${numeroCompleto}.xml` };
+};
+
+// --- RESÚMENES DIARIOS Y COMUNICACIONES DE BAJA ---
+
+const serializeResumen = (resumen: LoteMock) => ({
+  id: resumen.id,
+  numero_completo: resumen.numeroCompleto,
+  fecha_resumen: resumen.fecha,
+  estado_proceso: resumen.estadoProceso,
+  estado_sunat: resumen.estadoSunat,
+  detalles: resumen.detalles.map(serie_numero => ({ serie_numero })),
+});
+
+const createLote = (state: MockState, prefijo: 'RC' | 'RA', fecha: string, detalles: string[]): LoteMock => {
+  const fechaCompacta = today().replace(/-/g, '');
+  const correlativo = String(nextCorrelativo(state, `${prefijo}-${fechaCompacta}`));
+  return {
+    id: state.nextId++,
+    numeroCompleto: `${prefijo}-${fechaCompacta}-${correlativo}`,
+    fecha,
+    correlativo,
+    ticket: null,
+    estadoSunat: 'PENDIENTE',
+    estadoProceso: 'GENERADO',
+    detalles,
+    consultas: 0,
+  };
+};
+
+const createDailySummary = (state: MockState, req: MockRequest, rejected: boolean): MockResult => {
+  if (rejected) return rejection('el resumen diario');
+  const fecha = typeof req.body.fecha_resumen === 'string' ? req.body.fecha_resumen : today();
+  const boletas = Array.from(state.documentos.values())
+    .filter(d => (d.tipo === 'boleta' || d.tipo === 'nota-credito') && d.fechaEmision === fecha)
+    .map(d => d.numeroCompleto);
+  const resumen = createLote(state, 'RC', fecha, boletas);
+  state.resumenes.set(resumen.id, resumen);
+  return ok({ success: true, message: `Resumen ${resumen.numeroCompleto} creado con ${boletas.length} comprobante(s) (simulado).`, data: serializeResumen(resumen) });
+};
+
+const sendDailySummary = (state: MockState, req: MockRequest, rejected: boolean): MockResult => {
+  const resumen = state.resumenes.get(Number(req.params[0]));
+  if (!resumen) return notFound(`Resumen ${req.params[0]}`);
+  if (rejected) {
+    resumen.estadoSunat = 'RECHAZADO';
+    return rejection(`el resumen ${resumen.numeroCompleto}`);
+  }
+  resumen.ticket = `MOCK-${Date.now()}-${resumen.id}`;
+  resumen.estadoProceso = 'ENVIADO';
+  return ok({
+    success: true,
+    message: `Resumen ${resumen.numeroCompleto} enviado a SUNAT (simulado).`,
+    data: {
+      id: resumen.id,
+      fecha_resumen: resumen.fecha,
+      numero_completo: resumen.numeroCompleto,
+      correlativo: resumen.correlativo,
+      ticket: resumen.ticket,
+      estado_sunat: resumen.estadoSunat,
+      detalles: resumen.detalles.map(serie_numero => ({ serie_numero })),
+    },
+  });
+};
+
+const checkLote = (coleccion: 'resumenes' | 'bajas') => (state: MockState, req: MockRequest, rejected: boolean): MockResult => {
+  const lote = state[coleccion].get(Number(req.params[0]));
+  if (!lote) return notFound(`Lote ${req.params[0]}`);
+  const estado = lote.estadoSunat === 'RECHAZADO' ? 'RECHAZADO' : resolveCheck(state, lote, rejected);
+  return ok({ success: true, data: { id: lote.id, estado_sunat: estado }, ticket: lote.ticket ?? undefined });
+};
+
+const serializeBaja = (baja: LoteMock) => ({
+  id: baja.id,
+  numero_completo: baja.numeroCompleto,
+  fecha_referencia: baja.fecha,
+  estado_proceso: baja.estadoProceso,
+  estado_sunat: baja.estadoSunat,
+  ticket: baja.ticket,
+  detalles: baja.detalles.map(serie_numero => ({ serie_numero })),
+});
+
+const createVoidedDocuments = (state: MockState, req: MockRequest, rejected: boolean): MockResult => {
+  if (rejected) return rejection('la comunicación de baja');
+  const fecha = typeof req.body.fecha_referencia === 'string' ? req.body.fecha_referencia : today();
+  const detalles = Array.isArray(req.body.detalles)
+    ? (req.body.detalles as Record<string, string>[]).map(d => `${d.serie}-${d.correlativo}`)
+    : [];
+  const baja = createLote(state, 'RA', fecha, detalles);
+  state.bajas.set(baja.id, baja);
+  return ok({ success: true, message: `Comunicación de baja ${baja.numeroCompleto} creada (simulado).`, data: serializeBaja(baja) });
+};
+
+const sendVoidedDocuments = (state: MockState, req: MockRequest, rejected: boolean): MockResult => {
+  const baja = state.bajas.get(Number(req.params[0]));
+  if (!baja) return notFound(`Comunicación de baja ${req.params[0]}`);
+  if (rejected) {
+    baja.estadoSunat = 'RECHAZADO';
+    return rejection(`la comunicación de baja ${baja.numeroCompleto}`);
+  }
+  baja.ticket = `MOCK-${Date.now()}-${baja.id}`;
+  baja.estadoProceso = 'ENVIADO';
+  return ok({ success: true, message: `Comunicación de baja ${baja.numeroCompleto} enviada a SUNAT (simulado).`, data: serializeBaja(baja) });
+};
+
+// --- TABLA DE RUTAS ---
+
+const ROUTES: MockRoute[] = [
+  { method: 'POST', pattern: /^\/boletas$/, handler: issueDocumento('boleta') },
+  { method: 'POST', pattern: /^\/boletas\/create-daily-summary$/, handler: createDailySummary },
+  { method: 'POST', pattern: /^\/boletas\/(\d+)\/generate-pdf$/, handler: generatePdf('boleta') },
+  { method: 'GET', pattern: /^\/boletas\/(\d+)\/download-pdf$/, handler: downloadPdf('boleta') },
+  { method: 'POST', pattern: /^\/boletas\/(\d+)\/check-status$/, handler: checkDocumento('boleta') },
+  { method: 'POST', pattern: /^\/invoices$/, handler: issueDocumento('factura') },
+  { method: 'POST', pattern: /^\/invoices\/(\d+)\/send-sunat$/, handler: sendDocumento('factura') },
+  { method: 'POST', pattern: /^\/invoices\/(\d+)\/generate-pdf$/, handler: generatePdf('factura') },
+  { method: 'GET', pattern: /^\/invoices\/(\d+)\/download-pdf$/, handler: downloadPdf('factura') },
+  { method: 'POST', pattern: /^\/invoices\/(\d+)\/check-status$/, handler: checkDocumento('factura') },
+  { method: 'POST', pattern: /^\/credit-notes$/, handler: issueDocumento('nota-credito') },
+  { method: 'POST', pattern: /^\/credit-notes\/(\d+)\/send-sunat$/, handler: sendDocumento('nota-credito') },
+  { method: 'POST', pattern: /^\/credit-notes\/(\d+)\/check-status$/, handler: checkDocumento('nota-credito') },
+  { method: 'POST', pattern: /^\/debit-notes$/, handler: issueDocumento('nota-debito') },
+  { method: 'POST', pattern: /^\/debit-notes\/(\d+)\/send-sunat$/, handler: sendDocumento('nota-debito') },
+  { method: 'POST', pattern: /^\/debit-notes\/(\d+)\/check-status$/, handler: checkDocumento('nota-debito') },
+  { method: 'POST', pattern: /^\/daily-summaries\/(\d+)\/send-sunat$/, handler: sendDailySummary },
+  { method: 'POST', pattern: /^\/daily-summaries\/(\d+)\/check-status$/, handler: checkLote('resumenes') },
+  { method: 'POST', pattern: /^\/voided-documents$/, handler: createVoidedDocuments },
+  { method: 'POST', pattern: /^\/voided-documents\/(\d+)\/send-sunat$/, handler: sendVoidedDocuments },
+  { method: 'POST', pattern: /^\/voided-documents\/(\d+)\/check-status$/, handler: checkLote('bajas') },
+  { method: 'GET', pattern: /^\/files\/([\w-]+)\.(pdf|xml)$/, handler: downloadFile },
+];
+
+// --- MODOS DE FALLO ---
+
+const isFailureMode = (value: unknown): value is InvoicingMockFailureMode =>
+  typeof value === 'string' && (INVOICING_MOCK_FAILURE_MODES as readonly string[]).includes(value);
+
+/**
+ * Determina el modo que aplica a la petición: la cabecera `x-mock-failure` tiene prioridad;
+ * si no, se usa la configuración global (consumiendo `remaining` cuando la ruta coincide).
+ */
+const resolveFailureMode = (state: MockState, req: IncomingMessage, path: string): InvoicingMockFailureMode => {
+  const header = req.headers['x-mock-failure'];
+  if (isFailureMode(header)) return header;
+
+  const { config } = state;
+  if (config.mode === 'none') return 'none';
+  if (config.routes.length > 0 && !config.routes.some(route => path.includes(route))) return 'none';
+
+  if (config.remaining !== null) {
+    config.remaining--;
+    if (config.remaining <= 0) {
+      state.config = { ...config, mode: 'none', remaining: null };
+    }
+  }
+  return config.mode;
+};
+
+/** Respuesta 200 que no cumple ningún esquema: identificadores como texto y sin `data` completa. */
+const MALFORMED_BODY = { success: 'true', data: { id: 'mock-malformado' } };
+
+// --- SERVIDOR ---
+
+const readBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  if (chunks.length === 0) return {};
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const applyConfig = (state: MockState, changes: Record<string, unknown>) => {
+  const next = { ...state.config };
+  if (isFailureMode(changes.mode)) next.mode = changes.mode;
+  if (Array.isArray(changes.routes)) next.routes = changes.routes.filter((r): r is string => typeof r === 'string');
+  if (changes.remaining === null) next.remaining = null;
+  if (typeof changes.remaining === 'number') next.remaining = changes.remaining;
+  if (typeof changes.timeoutMs === 'number') next.timeoutMs = changes.timeoutMs;
+  if (typeof changes.latencyMs === 'number') next.latencyMs = changes.latencyMs;
+  if (typeof changes.pendingChecks === 'number') next.pendingChecks = changes.pendingChecks;
+  state.config = next;
+};
+
+/**
+ * Middleware Connect con la API simulada. Se monta bajo `INVOICING_MOCK_BASE_PATH`,
+ * por lo que las rutas que recibe ya vienen sin ese prefijo.
+ */
+export const createInvoicingMockMiddleware = (initialConfig: Partial<InvoicingMockConfig> = {}): Connect.NextHandleFunction => {
+  let state = createState(initialConfig);
+
+  return async (req, res) => {
+    const method = (req.method || 'GET').toUpperCase();
+    const path = (req.url || '/').split('?')[0].replace(/\/+$/, '') || '/';
+
+    if (path === '/__config') {
+      if (method === 'POST') applyConfig(state, await readBody(req));
+      sendJson(res, 200, state.config);
+      return;
+    }
+    if (path === '/__reset' && method === 'POST') {
+      state = createState(initialConfig);
+      sendJson(res, 200, state.config);
+      return;
+    }
+
+    const route = ROUTES.find(r => r.method === method && r.pattern.test(path));
+    if (!route) {
+      sendJson(res, 404, { success: false, message: `Ruta ${method} ${path} no implementada en la API simulada.` });
+      return;
+    }
+
+    const body = method === 'POST' ? await readBody(req) : {};
+    const mode = resolveFailureMode(state, req, path);
+    if (state.config.latencyMs > 0) await wait(state.config.latencyMs);
+
+    if (mode === 'timeout') {
+      await wait(state.config.timeoutMs);
+      if (!res.writableEnded && !req.destroyed) {
+        sendJson(res, 504, { success: false, message: 'Tiempo de espera agotado al contactar a SUNAT (simulado).' });
+      }
+      return;
+    }
+    if (mode === 'malformed') {
+      sendJson(res, 200, MALFORMED_BODY);
+      return;
+    }
+
+    const idempotencyKey = req.headers['idempotency-key'];
+    const cacheKey = method === 'POST' && typeof idempotencyKey === 'string' ? `${path}:${idempotencyKey}` : null;
+    const cached = cacheKey ? state.idempotencia.get(cacheKey) : undefined;
+
+    const params = route.pattern.exec(path)?.slice(1) ?? [];
+    const result = cached ?? route.handler(state, { method, path, params, body }, mode === 'rejection');
+    if (cacheKey && !cached && result.status === 200) state.idempotencia.set(cacheKey, result);
+    if ('file' in result) {
+      res.statusCode = result.status;
+      res.setHeader('Content-Type', result.contentType);
+      res.setHeader('Content-Disposition', `inline; filename="${result.filename}"`);
+      res.end(result.file);
+      return;
+    }
+    sendJson(res, result.status, result.body);
+  };
+};
+
+/**
+ * Plugin de Vite que sirve la API simulada en `npm run dev` y `npm run preview`, y redirige
+ * `VITE_INVOICING_API_BASE_URL` hacia ella para que el frontend no necesite el backend real.
+ */
+export const invoicingMockApi = ({ enabled, config }: InvoicingMockOptions): Plugin => ({
+  name: 'invoicing-mock-api',
+  config: () => (enabled ? {
+    define: {
+      'import.meta.env.VITE_INVOICING_API_BASE_URL': JSON.stringify(INVOICING_MOCK_BASE_PATH),
+    },
+  } : undefined),
+  configureServer: (server) => {
+    if (enabled) server.middlewares.use(INVOICING_MOCK_BASE_PATH, createInvoicingMockMiddleware(config));
+  },
+  configurePreviewServer: (server) => {
+    if (enabled) server.middlewares.use(INVOICING_MOCK_BASE_PATH, createInvoicingMockMiddleware(config));
+  },
+});
+
+/**
+ * Lee la configuración inicial desde las variables de entorno:
+ * `INVOICING_MOCK_FAILURE`, `INVOICING_MOCK_FAILURE_ROUTES` (separadas por comas),
+ * `INVOICING_MOCK_TIMEOUT_MS`, `INVOICING_MOCK_LATENCY_MS` e `INVOICING_MOCK_PENDING_CHECKS`.
+ */
+export const readInvoicingMockConfig = (env: Record<string, string>): Partial<InvoicingMockConfig> => {
+  const config: Partial<InvoicingMockConfig> = {};
+  if (isFailureMode(env.INVOICING_MOCK_FAILURE)) config.mode = env.INVOICING_MOCK_FAILURE;
+  if (env.INVOICING_MOCK_FAILURE_ROUTES) config.routes = env.INVOICING_MOCK_FAILURE_ROUTES.split(',').map(r => r.trim()).filter(Boolean);
+  const numeric = (value: string | undefined) => (value && !Number.isNaN(Number(value)) ? Number(value) : undefined);
+  const timeoutMs = numeric(env.INVOICING_MOCK_TIMEOUT_MS);
+  const latencyMs = numeric(env.INVOICING_MOCK_LATENCY_MS);
+  const pendingChecks = numeric(env.INVOICING_MOCK_PENDING_CHECKS);
+  if (timeoutMs !== undefined) config.timeoutMs = timeoutMs;
+  if (latencyMs !== undefined) config.latencyMs = latencyMs;
+  if (pendingChecks !== undefined) config.pendingChecks = pendingChecks;
+  return config;
+};
@@ -0,0 +1,156 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Connect, Plugin } from 'vite';
+
+/**
+ * Servidor de captura de correos para desarrollo. Recibe los mensajes que el dashboard
+ * enviaría por SMTP (`src/lib/mailTransport.ts`, transporte `capture`), los guarda en memoria
+ * y permite revisarlos sin que lleguen a ningún destinatario real.
+ *
+ *  - POST   /__mock/mail/send                       → captura un mensaje y devuelve su `messageId`.
+ *  - GET    /__mock/mail                            → lista los mensajes capturados (sin adjuntos).
+ *  - GET    /__mock/mail/:id                        → muestra el cuerpo HTML del mensaje.
+ *  - GET    /__mock/mail/:id/attachments/:index     → descarga un adjunto.
+ *  - POST   /__mock/mail/__reset                    → borra los mensajes capturados.
+ *  - Cabecera `x-mock-failure: error`               → responde 502, para probar los reintentos.
+ */
+
+export const MAIL_CAPTURE_BASE_PATH = '/__mock/mail';
+
+export interface MailCaptureOptions {
+  enabled: boolean;
+}
+
+interface AdjuntoCapturado {
+  filename: string;
+  contentType: string;
+  contentBase64: string;
+}
+
+interface CorreoCapturado {
+  id: string;
+  receivedAt: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments: AdjuntoCapturado[];
+}
+
+const readBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  if (chunks.length === 0) return {};
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+const texto = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const toAdjuntos = (value: unknown): AdjuntoCapturado[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object')
+    .map(a => ({ filename: texto(a.filename), contentType: texto(a.contentType), contentBase64: texto(a.contentBase64) }));
+
+/**
+ * Middleware Connect con el buzón de captura. Se monta bajo `MAIL_CAPTURE_BASE_PATH`.
+ */
+export const createMailCaptureMiddleware = (): Connect.NextHandleFunction => {
+  let correos: CorreoCapturado[] = [];
+  let nextId = 1;
+
+  return async (req, res) => {
+    const method = (req.method || 'GET').toUpperCase();
+    const path = (req.url || '/').split('?')[0].replace(/\/+$/, '') || '/';
+
+    if (path === '/__reset' && method === 'POST') {
+      correos = [];
+      sendJson(res, 200, { success: true });
+      return;
+    }
+
+    if (path === '/send' && method === 'POST') {
+      if (req.headers['x-mock-failure'] === 'error') {
+        sendJson(res, 502, { success: false, message: 'El servidor SMTP rechazó la conexión (simulado).' });
+        return;
+      }
+      const body = await readBody(req);
+      const to = texto(body.to);
+      if (!to.includes('@')) {
+        sendJson(res, 422, { success: false, message: `Destinatario inválido: "${to}".` });
+        return;
+      }
+      const correo: CorreoCapturado = {
+        id: `captura-${nextId++}`,
+        receivedAt: new Date().toISOString(),
+        to,
+        subject: texto(body.subject),
+        text: texto(body.text),
+        html: texto(body.html),
+        attachments: toAdjuntos(body.attachments),
+      };
+      correos.unshift(correo);
+      sendJson(res, 200, { success: true, messageId: correo.id });
+      return;
+    }
+
+    if (method !== 'GET') {
+      sendJson(res, 404, { success: false, message: `Ruta ${method} ${path} no implementada en el buzón de captura.` });
+      return;
+    }
+
+    if (path === '/') {
+      sendJson(res, 200, correos.map(({ attachments, ...correo }) => ({
+        ...correo,
+        attachments: attachments.map(a => ({ filename: a.filename, contentType: a.contentType, size: Buffer.from(a.contentBase64, 'base64').length })),
+      })));
+      return;
+    }
+
+    const [, id, seccion, index] = path.split('/');
+    const correo = correos.find(c => c.id === id);
+    if (!correo) {
+      sendJson(res, 404, { success: false, message: `Correo ${id} no encontrado.` });
+      return;
+    }
+
+    if (seccion === 'attachments') {
+      const adjunto = correo.attachments[Number(index)];
+      if (!adjunto) {
+        sendJson(res, 404, { success: false, message: 'Adjunto no encontrado.' });
+        return;
+      }
+      res.statusCode = 200;
+      res.setHeader('Content-Type', adjunto.contentType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `inline; filename="${adjunto.filename}"`);
+      res.end(Buffer.from(adjunto.contentBase64, 'base64'));
+      return;
+    }
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.end(correo.html || `<pre>${correo.text}</pre>`);
+  };
+};
+
+/**
+ * Plugin de Vite que monta el buzón de captura en `npm run dev` y `npm run preview`.
+ */
+export const mailCaptureServer = ({ enabled }: MailCaptureOptions): Plugin => ({
+  name: 'mail-capture-server',
+  configureServer: (server) => {
+    if (enabled) server.middlewares.use(MAIL_CAPTURE_BASE_PATH, createMailCaptureMiddleware());
+  },
+  configurePreviewServer: (server) => {
+    if (enabled) server.middlewares.use(MAIL_CAPTURE_BASE_PATH, createMailCaptureMiddleware());
+  },
+});
@@ -0,0 +1,18 @@
+import { defineConfig, loadEnv } from 'vite';
+import { invoicingMockApi, readInvoicingMockConfig } from './invoicingMockApi';
+
+// Solo la API de facturación simulada, sin la aplicación: `npm run mock:invoicing`.
+// Pensado para pruebas automatizadas que necesitan levantar el mock por su cuenta.
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+
+  return {
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true },
+    plugins: [invoicingMockApi({ enabled: true, config: readInvoicingMockConfig(env) })],
+    server: {
+      port: Number(env.INVOICING_MOCK_PORT) || 4010,
+      strictPort: true,
+    },
+  };
+});
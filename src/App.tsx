@@ -11,13 +11,23 @@ const SociosPage = lazy(() => import('./pages/People'));
 const EditSocioPage = lazy(() => import('./pages/EditSocioPage'));
 const InvoicingLayout = lazy(() => import('./pages/invoicing/InvoicingLayout'));
 const BoletasPage = lazy(() => import('./pages/invoicing/BoletasPage'));
+const BoletasLotePage = lazy(() => import('./pages/invoicing/BoletasLotePage'));
+const FacturasPage = lazy(() => import('./pages/invoicing/FacturasPage'));
 const ResumenDiarioPage = lazy(() => import('./pages/invoicing/ResumenDiarioPage'));
+const ComunicacionBajaPage = lazy(() => import('./pages/invoicing/ComunicacionBajaPage'));
 const NotasCreditoPage = lazy(() => import('./pages/invoicing/NotasCreditoPage'));
+const NotasDebitoPage = lazy(() => import('./pages/invoicing/NotasDebitoPage'));
+const CalendarioPage = lazy(() => import('./pages/invoicing/CalendarioPage'));
+const CatalogoPage = lazy(() => import('./pages/invoicing/CatalogoPage'));
+const EmisionesPendientesPage = lazy(() => import('./pages/invoicing/EmisionesPendientesPage'));
+const RegistroVentasPage = lazy(() => import('./pages/invoicing/RegistroVentasPage'));
+const CorreosPage = lazy(() => import('./pages/invoicing/CorreosPage'));
 const RecibosPage = lazy(() => import('./pages/invoicing/RecibosPage')); // <-- NUEVO IMPORT
 const IngresosPage = lazy(() => import('./pages/Income'));
 const EgresosPage = lazy(() => import('./pages/Expenses'));
 const CuentasPage = lazy(() => import('./pages/Accounts'));
 const AccountDetails = lazy(() => import('./pages/AccountDetails'));
+const ConciliacionPage = lazy(() => import('./pages/ConciliacionPage'));
 const PartnerDocuments = lazy(() => import('./pages/PartnerDocuments'));
 const SettingsPage = lazy(() => import('./pages/Settings'));
 const JornadaPage = lazy(() => import('./pages/JornadaPage'));
@@ -52,8 +62,17 @@ function App() {
                 <Route path="invoicing" element={<InvoicingLayout />}>
                   <Route index element={<Navigate to="boletas" replace />} />
                   <Route path="boletas" element={<BoletasPage />} />
+                  <Route path="boletas-lote" element={<BoletasLotePage />} />
+                  <Route path="facturas" element={<FacturasPage />} />
                   <Route path="resumen-diario" element={<ResumenDiarioPage />} />
+                  <Route path="bajas" element={<ComunicacionBajaPage />} />
                   <Route path="notas-credito" element={<NotasCreditoPage />} />
+                  <Route path="notas-debito" element={<NotasDebitoPage />} />
+                  <Route path="calendario" element={<CalendarioPage />} />
+                  <Route path="catalogo" element={<CatalogoPage />} />
+                  <Route path="emisiones" element={<EmisionesPendientesPage />} />
+                  <Route path="registro-ventas" element={<RegistroVentasPage />} />
+                  <Route path="correos" element={<CorreosPage />} />
                   <Route path="recibos" element={<RecibosPage />} /> {/* <-- RUTA AÑADIDA */}
                 </Route>
               </Route>
@@ -73,6 +92,7 @@ function App() {
               <Route element={<ProtectedRoute resourcePath="/accounts" />}>
                 <Route path="accounts" element={<CuentasPage />} />
                 <Route path="accounts/:id" element={<AccountDetails />} />
+                <Route path="accounts/:id/conciliacion" element={<ConciliacionPage />} />
               </Route>
               
               <Route element={<ProtectedRoute resourcePath="/settings" />}>
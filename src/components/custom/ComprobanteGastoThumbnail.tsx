@@ -0,0 +1,47 @@
+import { FileText, ImageOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { esImagenComprobante, GastoComprobanteConUrl } from '@/lib/api/gastoComprobantesApi';
+
+interface ComprobanteGastoThumbnailProps {
+  comprobantes: GastoComprobanteConUrl[];
+  className?: string;
+}
+
+/**
+ * Miniatura del primer comprobante de un gasto; abre el archivo en otra pestaña.
+ * Las fotos se muestran tal cual y los PDF con un ícono.
+ */
+function ComprobanteGastoThumbnail({ comprobantes, className }: ComprobanteGastoThumbnailProps) {
+  if (comprobantes.length === 0) {
+    return <span className={cn('text-xs text-muted-foreground', className)}>Sin comprobante</span>;
+  }
+
+  const [principal] = comprobantes;
+  const title = comprobantes.map(c => c.nombre_archivo).join(', ');
+  const contenido = !principal.url ? (
+    <ImageOff className="h-5 w-5 text-muted-foreground" />
+  ) : esImagenComprobante(principal) ? (
+    <img src={principal.url} alt={principal.nombre_archivo} className="h-full w-full object-cover" loading="lazy" />
+  ) : (
+    <FileText className="h-5 w-5 text-primary" />
+  );
+
+  return (
+    <a
+      href={principal.url ?? undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={title}
+      className={cn('relative inline-flex h-10 w-10 items-center justify-center overflow-hidden rounded-md border border-border bg-muted', className)}
+    >
+      {contenido}
+      {comprobantes.length > 1 && (
+        <span className="absolute bottom-0 right-0 rounded-tl bg-primary px-1 text-[10px] font-semibold text-primary-foreground">
+          {comprobantes.length}
+        </span>
+      )}
+    </a>
+  );
+}
+
+export default ComprobanteGastoThumbnail;
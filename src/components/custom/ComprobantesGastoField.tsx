@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { FileText, Loader2, Paperclip, X } from 'lucide-react';
+import {
+  eliminarComprobanteGasto,
+  GastoComprobanteConUrl,
+  TIPOS_COMPROBANTE_GASTO,
+  validarArchivoComprobante,
+} from '@/lib/api/gastoComprobantesApi';
+import { Gasto } from '@/lib/types';
+
+interface ComprobantesGastoFieldProps {
+  archivos: File[];
+  onArchivosChange: (archivos: File[]) => void;
+  gasto?: Gasto | null; // Al editar, para listar y quitar los comprobantes ya subidos
+  comprobantes?: GastoComprobanteConUrl[];
+  onComprobanteEliminado?: () => void;
+}
+
+/**
+ * Campo del formulario de gastos para adjuntar fotos o PDF de la factura o ticket.
+ * Los archivos nuevos se suben al confirmar el gasto; los existentes se quitan al instante.
+ */
+function ComprobantesGastoField({ archivos, onArchivosChange, gasto, comprobantes = [], onComprobanteEliminado }: ComprobantesGastoFieldProps) {
+  const [eliminando, setEliminando] = useState<number | null>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const seleccionados = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    const errores = seleccionados.map(validarArchivoComprobante).filter((e): e is string => e !== null);
+    errores.forEach(e => toast.error('Archivo no válido', { description: e }));
+    onArchivosChange([...archivos, ...seleccionados.filter(f => validarArchivoComprobante(f) === null)]);
+  };
+
+  const handleEliminar = async (comprobante: GastoComprobanteConUrl) => {
+    if (!gasto || !window.confirm(`¿Quitar el comprobante ${comprobante.nombre_archivo}?`)) return;
+    setEliminando(comprobante.id);
+    try {
+      await eliminarComprobanteGasto(comprobante, gasto.date);
+      toast.success('Comprobante eliminado');
+      onComprobanteEliminado?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al eliminar el comprobante', { description: errorMessage });
+    } finally {
+      setEliminando(null);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-4 items-start gap-4">
+      <Label htmlFor="comprobantes" className="text-right text-textSecondary pt-2">
+        Comprobantes
+      </Label>
+      <div className="col-span-3 space-y-2">
+        <Input
+          id="comprobantes"
+          type="file"
+          multiple
+          accept={TIPOS_COMPROBANTE_GASTO.join(',')}
+          onChange={handleFileChange}
+          className="file:text-primary file:font-semibold hover:file:bg-primary/10"
+        />
+        {comprobantes.map(comprobante => (
+          <div key={comprobante.id} className="flex items-center gap-2 text-sm">
+            <FileText className="h-4 w-4 shrink-0 text-primary" />
+            <a href={comprobante.url ?? undefined} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+              {comprobante.nombre_archivo}
+            </a>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="ml-auto h-6 w-6 text-muted-foreground hover:text-destructive"
+              onClick={() => handleEliminar(comprobante)}
+              disabled={eliminando !== null}
+            >
+              {eliminando === comprobante.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <X className="h-3 w-3" />}
+            </Button>
+          </div>
+        ))}
+        {archivos.map((archivo, index) => (
+          <div key={`${archivo.name}-${index}`} className="flex items-center gap-2 text-sm text-textSecondary">
+            <Paperclip className="h-4 w-4 shrink-0" />
+            <span className="truncate">{archivo.name}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="ml-auto h-6 w-6 text-muted-foreground hover:text-destructive"
+              onClick={() => onArchivosChange(archivos.filter((_, i) => i !== index))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <p className="text-xs text-textSecondary">Fotos (JPG, PNG, WEBP) o PDF de hasta 10 MB. Se suben al confirmar el gasto.</p>
+      </div>
+    </div>
+  );
+}
+
+export default ComprobantesGastoField;
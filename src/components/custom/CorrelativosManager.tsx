@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CheckCircle2, Hash } from 'lucide-react';
+import { CorrelativoInterno, fetchCorrelativosInternos, fetchHuecosCorrelativo, HuecoCorrelativo, liberarCorrelativo } from '@/lib/api/correlativosApi';
+import { cn } from '@/lib/utils';
+
+const formatNumero = (correlativo: CorrelativoInterno, numero: number) =>
+  `${correlativo.prefijo}${String(numero).padStart(correlativo.longitud, '0')}`;
+
+/**
+ * Numeración interna (recibos, gastos, ...) asignada por la base de datos, con los huecos
+ * que dejaron las reservas que no llegaron a un documento.
+ */
+function CorrelativosManager() {
+  const queryClient = useQueryClient();
+  const [familia, setFamilia] = useState<string | null>(null);
+
+  const { data: correlativos = [], isLoading } = useQuery<CorrelativoInterno[]>({
+    queryKey: ['correlativosInternos'],
+    queryFn: fetchCorrelativosInternos,
+  });
+
+  const seleccionado = correlativos.find(c => c.familia === familia) ?? correlativos[0];
+
+  const { data: huecos = [], isLoading: isLoadingHuecos } = useQuery<HuecoCorrelativo[]>({
+    queryKey: ['huecosCorrelativo', seleccionado?.familia],
+    queryFn: () => fetchHuecosCorrelativo(seleccionado!.familia),
+    enabled: !!seleccionado,
+  });
+
+  const handleJustificar = async (hueco: HuecoCorrelativo) => {
+    const motivo = window.prompt(`Motivo por el que ${hueco.numero_completo} no se usó:`);
+    if (!motivo?.trim()) return;
+
+    try {
+      await liberarCorrelativo(hueco.id, motivo.trim());
+      queryClient.invalidateQueries({ queryKey: ['huecosCorrelativo'] });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al justificar el número', { description: errorMessage });
+    }
+  };
+
+  return (
+    <Card className="bg-surface border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5 text-primary" />
+          Numeración Interna
+        </CardTitle>
+        <CardDescription>
+          Los números de recibos y gastos los asigna la base de datos al emitir. Un número reservado que no llegó a usarse no se reasigna y aparece aquí como hueco.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-10 w-full rounded-lg" />
+        ) : correlativos.length === 0 ? (
+          <p className="text-textSecondary text-sm">No hay familias de numeración configuradas.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {correlativos.map(c => (
+                <Button
+                  key={c.familia}
+                  variant="outline"
+                  onClick={() => setFamilia(c.familia)}
+                  className={cn(c.familia === seleccionado?.familia && 'border-primary text-primary')}
+                >
+                  {c.descripcion || c.familia}
+                  <span className="ml-2 font-mono text-textSecondary">
+                    {c.ultimo_numero > 0 ? formatNumero(c, c.ultimo_numero) : 'sin emitir'}
+                  </span>
+                </Button>
+              ))}
+            </div>
+
+            {isLoadingHuecos ? (
+              <Skeleton className="h-10 w-full rounded-lg" />
+            ) : huecos.length === 0 ? (
+              <div className="flex items-center text-success text-sm">
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                La numeración no tiene huecos.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Número</TableHead>
+                    <TableHead>Reservado</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead>Motivo</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {huecos.map(hueco => (
+                    <TableRow key={hueco.id}>
+                      <TableCell className="font-mono">{hueco.numero_completo}</TableCell>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(hueco.created_at), 'dd MMM yyyy HH:mm', { locale: es })}</TableCell>
+                      <TableCell>
+                        {hueco.estado === 'liberado'
+                          ? <Badge variant="outline">Justificado</Badge>
+                          : <Badge variant="destructive">Sin documento</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm text-textSecondary">{hueco.motivo_liberacion || '—'}</TableCell>
+                      <TableCell className="text-right">
+                        {hueco.estado === 'reservado' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleJustificar(hueco)}>Justificar</Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CorrelativosManager;
@@ -0,0 +1,65 @@
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Mail } from 'lucide-react';
+import EstadoCorreoBadge from '@/components/invoicing/EstadoCorreoBadge';
+import { fetchCorreosSocio, TIPOS_DOCUMENTO_CORREO } from '@/lib/api/correosApi';
+
+interface CorreosSocioHistoryProps {
+  socioId: string;
+}
+
+/**
+ * Historial de los comprobantes enviados por correo al socio.
+ */
+function CorreosSocioHistory({ socioId }: CorreosSocioHistoryProps) {
+  const { data: correos = [], isLoading } = useQuery({
+    queryKey: ['correosSocio', socioId],
+    queryFn: () => fetchCorreosSocio(socioId),
+  });
+
+  return (
+    <div className="bg-surface p-6 rounded-xl shadow-2xl border border-border">
+      <h2 className="text-2xl font-bold text-primary border-b border-border pb-3 mb-6 flex items-center gap-2">
+        <Mail className="h-6 w-6" />
+        Historial de Correos
+      </h2>
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full rounded-lg" />
+          <Skeleton className="h-10 w-full rounded-lg" />
+        </div>
+      ) : correos.length === 0 ? (
+        <p className="text-textSecondary text-center py-6">No se han enviado comprobantes por correo a este socio.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Fecha</TableHead>
+              <TableHead>Comprobante</TableHead>
+              <TableHead>Destinatario</TableHead>
+              <TableHead>Estado</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {correos.map(correo => (
+              <TableRow key={correo.id}>
+                <TableCell className="whitespace-nowrap">{format(parseISO(correo.enviado_at || correo.created_at), 'dd/MM/yyyy HH:mm', { locale: es })}</TableCell>
+                <TableCell>
+                  <span className="font-mono">{correo.documento}</span>
+                  <span className="block text-xs text-textSecondary">{TIPOS_DOCUMENTO_CORREO.find(t => t.code === correo.tipo_documento)?.name}</span>
+                </TableCell>
+                <TableCell>{correo.destinatario}</TableCell>
+                <TableCell><EstadoCorreoBadge correo={correo} /></TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export default CorreosSocioHistory;
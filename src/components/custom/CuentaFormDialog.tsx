@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { actualizarCuenta, crearCuenta } from '@/lib/api/cuentasApi';
+import { TIPOS_CUENTA } from '@/lib/constants';
+import { Cuenta } from '@/lib/types';
+
+const cuentaFormSchema = z.object({
+  name: z.string().trim().min(1, { message: 'El nombre es requerido.' }),
+  tipo: z.string().min(1, { message: 'Selecciona un tipo.' }),
+  saldo_inicial: z.coerce.number({ invalid_type_error: 'Ingresa un monto válido.' }),
+  saldo_inicial_fecha: z.string().optional(),
+}).refine(data => data.saldo_inicial === 0 || !!data.saldo_inicial_fecha, {
+  message: 'Indica desde qué fecha rige el saldo inicial.',
+  path: ['saldo_inicial_fecha'],
+});
+
+type CuentaFormValues = z.infer<typeof cuentaFormSchema>;
+
+interface CuentaFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cuenta: Cuenta | null; // null para crear una cuenta nueva
+  onSaved: () => void;
+}
+
+/**
+ * Alta de una cuenta o edición de su tipo y saldo inicial. El saldo inicial es el saldo al comienzo
+ * de su fecha: los movimientos anteriores ya no se suman al saldo de la cuenta.
+ */
+function CuentaFormDialog({ open, onOpenChange, cuenta, onSaved }: CuentaFormDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<CuentaFormValues>({
+    resolver: zodResolver(cuentaFormSchema),
+    defaultValues: { name: '', tipo: TIPOS_CUENTA[0].code, saldo_inicial: 0, saldo_inicial_fecha: '' },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      name: cuenta?.name ?? '',
+      tipo: cuenta?.tipo ?? TIPOS_CUENTA[0].code,
+      saldo_inicial: cuenta?.saldo_inicial ?? 0,
+      saldo_inicial_fecha: cuenta?.saldo_inicial_fecha ?? '',
+    });
+  }, [open, cuenta, form]);
+
+  const onSubmit = async (values: CuentaFormValues) => {
+    setIsSaving(true);
+    try {
+      const saldo = {
+        tipo: values.tipo,
+        saldo_inicial: values.saldo_inicial,
+        saldo_inicial_fecha: values.saldo_inicial_fecha || null,
+      };
+      if (cuenta) {
+        await actualizarCuenta(cuenta.id, saldo);
+        toast.success('Cuenta actualizada', { description: `Se guardaron los datos de ${cuenta.name}.` });
+      } else {
+        await crearCuenta({ name: values.name, ...saldo });
+        toast.success('Cuenta creada', { description: `La cuenta ${values.name} ya está disponible.` });
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al guardar la cuenta', { description: errorMessage });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] bg-card text-text border-border rounded-xl shadow-2xl p-6">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-primary">{cuenta ? `Configurar ${cuenta.name}` : 'Nueva Cuenta'}</DialogTitle>
+          <DialogDescription className="text-textSecondary">
+            El saldo inicial es el saldo de la cuenta al comienzo de la fecha indicada.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nombre</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ej: BBVA Soles" disabled={!!cuenta} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tipo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tipo</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TIPOS_CUENTA.map(t => (
+                        <SelectItem key={t.code} value={t.code}>{t.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="saldo_inicial"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Saldo Inicial (S/)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="saldo_inicial_fecha"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vigente desde</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CuentaFormDialog;
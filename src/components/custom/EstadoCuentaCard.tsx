@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FileDown, FileSpreadsheet, Loader2, ScrollText } from 'lucide-react';
+import { fetchMovimientosEstadoCuenta } from '@/lib/api/cuentasApi';
+import { construirEstadoCuenta, estadoCuentaCsv, generateEstadoCuentaPdf, nombreArchivoEstadoCuenta } from '@/lib/accountStatement';
+import { downloadBlob, downloadPdfBlob } from '@/lib/printing';
+import { formatCurrency } from '@/lib/utils';
+import { Cuenta } from '@/lib/types';
+
+interface EstadoCuentaCardProps {
+  cuenta: Cuenta;
+}
+
+const formatFecha = (fecha: string) => format(parseISO(fecha), 'dd/MM/yyyy');
+
+/**
+ * Libro de la cuenta en un rango de fechas: cada movimiento con su contraparte, documento,
+ * debe, haber y saldo acumulado, exportable a PDF con membrete y a CSV.
+ */
+function EstadoCuentaCard({ cuenta }: EstadoCuentaCardProps) {
+  const [desde, setDesde] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [hasta, setHasta] = useState(() => format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const rangoValido = !!desde && !!hasta && desde <= hasta;
+
+  const { data: movimientos = [], isLoading } = useQuery({
+    queryKey: ['movimientosEstadoCuenta', cuenta.id, hasta],
+    queryFn: () => fetchMovimientosEstadoCuenta(cuenta, hasta),
+    enabled: rangoValido,
+  });
+
+  const estado = useMemo(() => construirEstadoCuenta(cuenta, movimientos, desde, hasta), [cuenta, movimientos, desde, hasta]);
+
+  const handleExportPdf = async () => {
+    setIsExportingPdf(true);
+    try {
+      const pdf = await generateEstadoCuentaPdf(cuenta, estado);
+      downloadPdfBlob(pdf, nombreArchivoEstadoCuenta(cuenta, estado, 'pdf'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al generar el PDF', { description: errorMessage });
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    const csv = estadoCuentaCsv(cuenta, estado);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), nombreArchivoEstadoCuenta(cuenta, estado, 'csv'));
+  };
+
+  return (
+    <Card className="bg-surface border-border rounded-xl shadow-lg">
+      <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-4">
+        <div>
+          <CardTitle className="text-2xl font-semibold text-primary flex items-center gap-2">
+            <ScrollText className="h-6 w-6" />
+            Estado de Cuenta
+          </CardTitle>
+          <CardDescription>Movimientos del rango con el saldo acumulado después de cada uno.</CardDescription>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="estado-cuenta-desde">Desde</Label>
+            <Input id="estado-cuenta-desde" type="date" value={desde} onChange={(e) => setDesde(e.target.value)} className="w-[160px]" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="estado-cuenta-hasta">Hasta</Label>
+            <Input id="estado-cuenta-hasta" type="date" value={hasta} onChange={(e) => setHasta(e.target.value)} className="w-[160px]" />
+          </div>
+          <Button variant="outline" onClick={handleExportCsv} disabled={!rangoValido || isLoading}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+          <Button onClick={handleExportPdf} disabled={!rangoValido || isLoading || isExportingPdf}>
+            {isExportingPdf ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+            PDF
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!rangoValido ? (
+          <p className="text-error text-sm">La fecha inicial debe ser anterior o igual a la final.</p>
+        ) : isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full rounded-lg" />
+            <Skeleton className="h-10 w-full rounded-lg" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Documento</TableHead>
+                <TableHead>Contraparte</TableHead>
+                <TableHead>Descripción</TableHead>
+                <TableHead className="text-right">Debe</TableHead>
+                <TableHead className="text-right">Haber</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell colSpan={7} className="font-semibold">Saldo anterior al {formatFecha(desde)}</TableCell>
+                <TableCell className="text-right font-semibold">{formatCurrency(estado.saldoAnterior, 'PEN')}</TableCell>
+              </TableRow>
+              {estado.lineas.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-textSecondary py-6">No hay movimientos en este rango.</TableCell>
+                </TableRow>
+              ) : estado.lineas.map(linea => (
+                <TableRow key={linea.id}>
+                  <TableCell className="whitespace-nowrap">{formatFecha(linea.fecha)}</TableCell>
+                  <TableCell>{linea.tipo}</TableCell>
+                  <TableCell className="font-mono text-sm">{linea.documento || '—'}</TableCell>
+                  <TableCell>{linea.contraparte || '—'}</TableCell>
+                  <TableCell className="text-sm text-textSecondary">{linea.descripcion || '—'}</TableCell>
+                  <TableCell className="text-right text-success">{linea.debe ? formatCurrency(linea.debe, 'PEN') : ''}</TableCell>
+                  <TableCell className="text-right text-error">{linea.haber ? formatCurrency(linea.haber, 'PEN') : ''}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(linea.saldo, 'PEN')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5}>Totales del periodo</TableCell>
+                <TableCell className="text-right">{formatCurrency(estado.totalDebe, 'PEN')}</TableCell>
+                <TableCell className="text-right">{formatCurrency(estado.totalHaber, 'PEN')}</TableCell>
+                <TableCell className="text-right">{formatCurrency(estado.saldoFinal, 'PEN')}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default EstadoCuentaCard;
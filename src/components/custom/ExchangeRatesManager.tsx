@@ -0,0 +1,212 @@
+import { useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { DollarSign, FileUp, Loader2, Save } from 'lucide-react';
+import { fetchTiposCambio, importTiposCambio, parseTiposCambioFile, saveTipoCambio, TipoCambio } from '@/lib/api/exchangeRatesApi';
+import { DEFAULT_MONEDA, MONEDAS } from '@/lib/constants';
+
+const MONEDAS_EXTRANJERAS = MONEDAS.filter(m => m.code !== DEFAULT_MONEDA);
+
+const tipoCambioFormSchema = z.object({
+  fecha: z.string().min(1, { message: 'La fecha es requerida.' }),
+  compra: z.coerce.number().positive({ message: 'Debe ser mayor a 0.' }),
+  venta: z.coerce.number().positive({ message: 'Debe ser mayor a 0.' }),
+});
+
+type TipoCambioFormValues = z.infer<typeof tipoCambioFormSchema>;
+
+const emptyTipoCambio = (): TipoCambioFormValues => ({ fecha: format(new Date(), 'yyyy-MM-dd'), compra: 0, venta: 0 });
+
+/**
+ * Registro de los tipos de cambio diarios de SUNAT, ingresados a mano o importados desde un archivo.
+ * Los ingresos, gastos y comprobantes en moneda extranjera se convierten a soles con el tipo venta.
+ */
+function ExchangeRatesManager() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [moneda, setMoneda] = useState(MONEDAS_EXTRANJERAS[0].code);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { data: tiposCambio = [], isLoading } = useQuery<TipoCambio[]>({
+    queryKey: ['tiposCambio', moneda],
+    queryFn: () => fetchTiposCambio(moneda),
+  });
+
+  const form = useForm<TipoCambioFormValues>({
+    resolver: zodResolver(tipoCambioFormSchema),
+    defaultValues: emptyTipoCambio(),
+  });
+
+  const invalidateTiposCambio = () => {
+    queryClient.invalidateQueries({ queryKey: ['tiposCambio'] });
+    queryClient.invalidateQueries({ queryKey: ['tipoCambio'] });
+  };
+
+  const onSubmit = async (values: TipoCambioFormValues) => {
+    setIsSaving(true);
+    try {
+      await saveTipoCambio({ ...values, moneda, fuente: 'manual' });
+      toast.success('Tipo de cambio guardado', { description: `${moneda} del ${values.fecha}: venta ${values.venta.toFixed(3)}.` });
+      invalidateTiposCambio();
+      form.reset(emptyTipoCambio());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al guardar el tipo de cambio', { description: errorMessage });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const { rows, errors } = parseTiposCambioFile(await file.text(), moneda);
+      if (rows.length === 0) {
+        toast.error('No se importó ningún tipo de cambio', { description: errors[0] || 'El archivo no tiene líneas con fecha, compra y venta.' });
+        return;
+      }
+      await importTiposCambio(rows);
+      invalidateTiposCambio();
+      if (errors.length > 0) {
+        toast.warning(`Se importaron ${rows.length} día(s); ${errors.length} línea(s) se omitieron`, { description: errors.slice(0, 3).join(' ') });
+      } else {
+        toast.success('Tipos de cambio importados', { description: `Se registraron ${rows.length} día(s) de ${moneda}.` });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al importar el archivo', { description: errorMessage });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card className="bg-surface border-border">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5 text-primary" />
+            Tipos de Cambio
+          </CardTitle>
+          <CardDescription>
+            Tipo de cambio SUNAT por día. Si una fecha no tiene registro se usa el último publicado antes de ella.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={moneda} onValueChange={setMoneda}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONEDAS_EXTRANJERAS.map(m => (
+                <SelectItem key={m.code} value={m.code}>{m.code} - {m.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt" className="hidden" onChange={handleImport} />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting} title="Archivo CSV/TXT con fecha, compra y venta">
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+            Importar Archivo
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <FormField
+              control={form.control}
+              name="fecha"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fecha</FormLabel>
+                  <FormControl><Input type="date" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="compra"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Compra</FormLabel>
+                  <FormControl><Input type="number" step="0.001" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="venta"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Venta</FormLabel>
+                  <FormControl><Input type="number" step="0.001" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Guardar
+            </Button>
+          </form>
+        </Form>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full rounded-lg" />
+            <Skeleton className="h-10 w-full rounded-lg" />
+          </div>
+        ) : tiposCambio.length === 0 ? (
+          <p className="text-textSecondary text-sm">
+            No hay tipos de cambio de {moneda} registrados. Sin ellos no se pueden registrar montos en esta moneda.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead className="text-right">Compra</TableHead>
+                <TableHead className="text-right">Venta</TableHead>
+                <TableHead>Origen</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tiposCambio.map(tc => (
+                <TableRow key={tc.id}>
+                  <TableCell>{format(parseISO(tc.fecha), 'dd MMM yyyy', { locale: es })}</TableCell>
+                  <TableCell className="text-right font-mono">{tc.compra.toFixed(3)}</TableCell>
+                  <TableCell className="text-right font-mono font-semibold">{tc.venta.toFixed(3)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{tc.fuente === 'importacion' ? 'Importado' : 'Manual'}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ExchangeRatesManager;
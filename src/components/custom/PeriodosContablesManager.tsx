@@ -0,0 +1,129 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO, subMonths } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CalendarCheck, Loader2 } from 'lucide-react';
+import { cerrarPeriodo, fetchPeriodosContables, formatPeriodo, PeriodoContable, reabrirPeriodo } from '@/lib/api/periodosApi';
+import { ROLES_REAPERTURA_PERIODO } from '@/lib/constants';
+import { useUser } from '@/context/UserContext';
+
+// Meses que se listan hacia atrás desde el actual.
+const MESES_VISIBLES = 12;
+
+/**
+ * Cierre mensual de ingresos, gastos y transferencias. En un mes cerrado no se registran,
+ * modifican ni eliminan movimientos; solo los roles autorizados pueden reabrirlo.
+ */
+function PeriodosContablesManager() {
+  const queryClient = useQueryClient();
+  const { user, roles } = useUser();
+  const [processing, setProcessing] = useState<string | null>(null);
+  const puedeReabrir = roles?.some(role => ROLES_REAPERTURA_PERIODO.includes(role)) ?? false;
+
+  const { data: registros = [], isLoading } = useQuery<PeriodoContable[]>({
+    queryKey: ['periodosContables'],
+    queryFn: fetchPeriodosContables,
+  });
+
+  const periodos = useMemo(() => {
+    const hoy = new Date();
+    return Array.from({ length: MESES_VISIBLES }, (_, i) => {
+      const periodo = format(subMonths(hoy, i), 'yyyy-MM');
+      return { periodo, registro: registros.find(r => r.periodo === periodo) };
+    });
+  }, [registros]);
+
+  const ejecutar = async (periodo: string, accion: () => Promise<void>, mensaje: string) => {
+    setProcessing(periodo);
+    try {
+      await accion();
+      toast.success(mensaje, { description: formatPeriodo(periodo) });
+      queryClient.invalidateQueries({ queryKey: ['periodosContables'] });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al actualizar el periodo', { description: errorMessage });
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const handleCerrar = (periodo: string) => {
+    if (!window.confirm(`¿Cerrar ${formatPeriodo(periodo)}? Ya no se podrán registrar, modificar ni eliminar movimientos de ese mes.`)) return;
+    ejecutar(periodo, () => cerrarPeriodo(periodo, user?.id ?? null), 'Periodo cerrado');
+  };
+
+  const handleReabrir = (periodo: string) => {
+    const motivo = window.prompt(`Motivo para reabrir ${formatPeriodo(periodo)}:`);
+    if (!motivo?.trim()) return;
+    ejecutar(periodo, () => reabrirPeriodo(periodo, user?.id ?? null, motivo.trim()), 'Periodo reabierto');
+  };
+
+  return (
+    <Card className="bg-surface border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="h-5 w-5 text-primary" />
+          Cierre de Periodos
+        </CardTitle>
+        <CardDescription>
+          Al cerrar un mes, sus ingresos, gastos y transferencias quedan bloqueados. Solo administración y finanzas senior pueden reabrirlo.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-10 w-full rounded-lg" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Periodo</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Detalle</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periodos.map(({ periodo, registro }) => {
+                const cerrado = registro?.estado === 'cerrado';
+                return (
+                  <TableRow key={periodo}>
+                    <TableCell className="capitalize">{formatPeriodo(periodo)}</TableCell>
+                    <TableCell>
+                      {cerrado ? <Badge variant="secondary">Cerrado</Badge> : <Badge variant="outline">Abierto</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm text-textSecondary">
+                      {cerrado && registro?.cerrado_at
+                        ? `Cerrado el ${format(parseISO(registro.cerrado_at), 'dd MMM yyyy HH:mm', { locale: es })}`
+                        : registro?.reabierto_at
+                          ? `Reabierto el ${format(parseISO(registro.reabierto_at), 'dd MMM yyyy', { locale: es })}: ${registro.motivo_reapertura}`
+                          : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {processing === periodo ? (
+                        <Loader2 className="h-4 w-4 animate-spin ml-auto" />
+                      ) : cerrado ? (
+                        puedeReabrir && (
+                          <Button variant="ghost" size="sm" disabled={processing !== null} onClick={() => handleReabrir(periodo)}>Reabrir</Button>
+                        )
+                      ) : (
+                        <Button variant="ghost" size="sm" disabled={processing !== null} onClick={() => handleCerrar(periodo)}>Cerrar</Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PeriodosContablesManager;
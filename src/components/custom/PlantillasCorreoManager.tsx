@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, Mail, RotateCcw, Save } from 'lucide-react';
+import {
+  fetchPlantillasCorreo,
+  PlantillaCorreo,
+  resetPlantillaCorreo,
+  savePlantillaCorreo,
+  TipoDocumentoCorreo,
+  TIPOS_DOCUMENTO_CORREO,
+  VARIABLES_PLANTILLA_CORREO,
+} from '@/lib/api/correosApi';
+
+/**
+ * Plantillas del correo con el que se envía cada tipo de comprobante.
+ * Las variables entre llaves se reemplazan con los datos del comprobante al enviarlo.
+ */
+function PlantillasCorreoManager() {
+  const queryClient = useQueryClient();
+  const [tipo, setTipo] = useState<TipoDocumentoCorreo>('boleta');
+  const [asunto, setAsunto] = useState('');
+  const [cuerpo, setCuerpo] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: plantillas = [], isLoading } = useQuery<PlantillaCorreo[]>({
+    queryKey: ['plantillasCorreo'],
+    queryFn: fetchPlantillasCorreo,
+  });
+
+  const plantilla = plantillas.find(p => p.tipo_documento === tipo);
+
+  useEffect(() => {
+    if (!plantilla) return;
+    setAsunto(plantilla.asunto);
+    setCuerpo(plantilla.cuerpo);
+  }, [plantilla]);
+
+  const tipoNombre = TIPOS_DOCUMENTO_CORREO.find(t => t.code === tipo)?.name;
+
+  const handleSave = async () => {
+    if (!asunto.trim() || !cuerpo.trim()) {
+      toast.error('Plantilla incompleta', { description: 'El asunto y el mensaje son requeridos.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await savePlantillaCorreo(tipo, asunto.trim(), cuerpo);
+      toast.success('Plantilla guardada', { description: `Se usará al enviar cada ${tipoNombre}.` });
+      queryClient.invalidateQueries({ queryKey: ['plantillasCorreo'] });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al guardar la plantilla', { description: errorMessage });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    try {
+      await resetPlantillaCorreo(tipo);
+      toast.success('Plantilla restablecida', { description: `${tipoNombre} vuelve a usar el texto predeterminado.` });
+      queryClient.invalidateQueries({ queryKey: ['plantillasCorreo'] });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al restablecer la plantilla', { description: errorMessage });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-surface border-border">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5 text-primary" />
+            Plantillas de Correo
+          </CardTitle>
+          <CardDescription>
+            Asunto y mensaje con los que se envían los comprobantes a los clientes. Se pueden ajustar antes de cada envío.
+          </CardDescription>
+        </div>
+        <Select value={tipo} onValueChange={(value) => setTipo(value as TipoDocumentoCorreo)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIPOS_DOCUMENTO_CORREO.map(t => (
+              <SelectItem key={t.code} value={t.code}>{t.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-textSecondary">
+              Variables disponibles:
+              {VARIABLES_PLANTILLA_CORREO.map(variable => (
+                <Badge key={variable} variant="secondary" className="font-mono">{`{{${variable}}}`}</Badge>
+              ))}
+              {plantilla && !plantilla.personalizada && <span className="ml-auto">Texto predeterminado</span>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plantilla-asunto">Asunto</Label>
+              <Input id="plantilla-asunto" value={asunto} onChange={e => setAsunto(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plantilla-cuerpo">Mensaje</Label>
+              <Textarea id="plantilla-cuerpo" rows={8} value={cuerpo} onChange={e => setCuerpo(e.target.value)} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleReset} disabled={isSaving || !plantilla?.personalizada}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Restablecer
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Guardar
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PlantillasCorreoManager;
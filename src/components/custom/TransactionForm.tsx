@@ -29,6 +29,9 @@ import { cn } from '@/lib/utils';
 import { supabase } from '@/lib/supabaseClient';
 import { Cuenta, TransactionFormValues } from '@/lib/types'; // Removed TransactionType
 import { toast } from 'sonner';
+import { registrarTransferencia } from '@/lib/api/cuentasApi';
+import { verificarPeriodosAbiertos } from '@/lib/api/periodosApi';
+import { useUser } from '@/context/UserContext';
 
 interface TransactionFormProps {
   onClose: () => void;
@@ -37,7 +40,7 @@ interface TransactionFormProps {
 
 const formSchema = z.object({
   accountName: z.string().min(1, { message: 'Selecciona una cuenta.' }),
-  transactionType: z.enum(['Ingreso', 'Anulacion', 'Devolucion', 'Gasto'], {
+  transactionType: z.enum(['Ingreso', 'Anulacion', 'Devolucion', 'Gasto', 'Transferencia'], {
     required_error: 'Selecciona un tipo de transacción.',
   }),
   amount: z.preprocess(
@@ -60,6 +63,7 @@ const formSchema = z.object({
   ),
   numeroGasto: z.string().optional(), // Only for Gasto
   colaboradorId: z.string().optional(), // Only for Gasto
+  destinationAccountName: z.string().optional(), // Only for Transferencia
 }).superRefine((data, ctx) => {
   if (data.transactionType === 'Anulacion' && data.amount !== 0) {
     ctx.addIssue({
@@ -89,11 +93,34 @@ const formSchema = z.object({
       path: ['amount'],
     });
   }
+  if (data.transactionType === 'Transferencia') {
+    if (data.amount <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Para Transferencia, el monto debe ser positivo.',
+        path: ['amount'],
+      });
+    }
+    if (!data.destinationAccountName) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Selecciona la cuenta de destino.',
+        path: ['destinationAccountName'],
+      });
+    } else if (data.destinationAccountName === data.accountName) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'La cuenta de destino debe ser distinta de la de origen.',
+        path: ['destinationAccountName'],
+      });
+    }
+  }
 });
 
 const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess }) => {
   const [accounts, setAccounts] = useState<Cuenta[]>([]);
   const [loading, setLoading] = useState(false);
+  const { user } = useUser();
 
   const form = useForm<TransactionFormValues>({
     resolver: zodResolver(formSchema),
@@ -111,6 +138,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess })
       numeroOperacion: '',
       numeroGasto: '',
       colaboradorId: '',
+      destinationAccountName: '',
     },
   });
 
@@ -118,7 +146,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess })
 
   useEffect(() => {
     const fetchAccounts = async () => {
-      const { data, error } = await supabase.from('cuentas').select('id, name, created_at');
+      const { data, error } = await supabase.from('cuentas').select('*');
       if (error) {
         console.error('Error fetching accounts:', error.message);
         toast.error('Error al cargar cuentas', { description: error.message });
@@ -141,7 +169,23 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess })
         finalAmount = 0;
       }
 
-      if (values.transactionType === 'Gasto') {
+      await verificarPeriodosAbiertos(transactionDate);
+
+      if (values.transactionType === 'Transferencia') {
+        // Una sola fila con ambas cuentas: no cuenta como ingreso ni como gasto.
+        const origen = accounts.find(a => a.name === values.accountName);
+        const destino = accounts.find(a => a.name === values.destinationAccountName);
+        if (!origen || !destino) throw new Error('No se encontraron las cuentas de la transferencia.');
+        await registrarTransferencia({
+          fecha: transactionDate,
+          cuenta_origen_id: origen.id,
+          cuenta_destino_id: destino.id,
+          monto: values.amount,
+          descripcion: values.description || null,
+          numero_operacion: values.numeroOperacion || null,
+          creado_por: user?.id ?? null,
+        });
+      } else if (values.transactionType === 'Gasto') {
         const { error } = await supabase.from('gastos').insert({
           account: values.accountName,
           amount: finalAmount,
@@ -168,7 +212,9 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess })
       }
 
       toast.success('Transacción registrada', {
-        description: `Se ha registrado un ${values.transactionType} de ${values.amount.toLocaleString('es-PE', { style: 'currency', currency: 'PEN' })} en la cuenta ${values.accountName}.`,
+        description: values.transactionType === 'Transferencia'
+          ? `Se han transferido ${values.amount.toLocaleString('es-PE', { style: 'currency', currency: 'PEN' })} de ${values.accountName} a ${values.destinationAccountName}.`
+          : `Se ha registrado un ${values.transactionType} de ${values.amount.toLocaleString('es-PE', { style: 'currency', currency: 'PEN' })} en la cuenta ${values.accountName}.`,
       });
       onSuccess();
       onClose();
@@ -188,7 +234,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess })
           name="accountName"
           render={({ field }) => (
             <FormItem>
-              <FormLabel className="text-text">Cuenta</FormLabel>
+              <FormLabel className="text-text">{selectedTransactionType === 'Transferencia' ? 'Cuenta de Origen' : 'Cuenta'}</FormLabel>
               <Select onValueChange={field.onChange} defaultValue={field.value}>
                 <FormControl>
                   <SelectTrigger className="bg-background border-border text-text focus:ring-primary focus:border-primary">
@@ -225,6 +271,7 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess })
                   <SelectItem value="Anulacion">Anulación</SelectItem>
                   <SelectItem value="Devolucion">Devolución</SelectItem>
                   <SelectItem value="Gasto">Gasto</SelectItem>
+                  <SelectItem value="Transferencia">Transferencia entre Cuentas</SelectItem>
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -311,6 +358,53 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess })
           )}
         />
 
+        {/* Conditional fields for Transferencia */}
+        {selectedTransactionType === 'Transferencia' && (
+          <>
+            <FormField
+              control={form.control}
+              name="destinationAccountName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-text">Cuenta de Destino</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="bg-background border-border text-text focus:ring-primary focus:border-primary">
+                        <SelectValue placeholder="Selecciona la cuenta de destino" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-surface border-border text-text">
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.name}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="numeroOperacion"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-text">Número de Operación (Opcional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Ej: OP12345"
+                      className="bg-background border-border text-text focus:ring-primary focus:border-primary"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
         {/* Conditional fields for Ingreso */}
         {(selectedTransactionType === 'Ingreso' || selectedTransactionType === 'Devolucion' || selectedTransactionType === 'Anulacion') && (
           <>
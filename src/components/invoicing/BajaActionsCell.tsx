@@ -0,0 +1,97 @@
+"use client"
+
+import { ComunicacionBaja } from "@/lib/types/invoicing"
+import { Row } from "@tanstack/react-table"
+import { useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/components/ui/use-toast"
+import { checkComunicacionBajaStatus, updateComunicacionBajaStatusInDb } from "@/lib/api/invoicingApi"
+import { MoreHorizontal, Loader2 } from "lucide-react"
+
+// Celda de acciones con su propio estado de carga (igual que en los resúmenes diarios).
+const BajaActionsCell = ({ row, onStatusUpdate }: { row: Row<ComunicacionBaja>; onStatusUpdate: (bajaId: number, newStatus: string) => void }) => {
+  const baja = row.original
+  const { toast } = useToast()
+  const [isChecking, setIsChecking] = useState(false)
+
+  const handleCheckStatus = async () => {
+    if (!baja.baja_api_id) {
+      toast({
+        variant: "destructive",
+        title: "Error de Consulta",
+        description: "Esta comunicación de baja no tiene un ID de API para consultar.",
+      })
+      return
+    }
+
+    setIsChecking(true)
+    try {
+      const newStatus = await checkComunicacionBajaStatus(baja.baja_api_id)
+      if (newStatus && newStatus !== baja.estado_sunat) {
+        await updateComunicacionBajaStatusInDb(baja.id, newStatus)
+        onStatusUpdate(baja.id, newStatus)
+        toast({
+          title: "Estado Actualizado",
+          description: newStatus.toLowerCase() === 'aceptado'
+            ? "Baja aceptada. Los comprobantes e ingresos relacionados fueron anulados."
+            : `El estado de la baja ahora es: ${newStatus}.`,
+          className: "bg-success/20 border-success/40 text-success-foreground",
+        })
+      } else if (newStatus) {
+        toast({
+          title: "Sin Cambios",
+          description: `El estado de la baja en SUNAT sigue siendo: ${newStatus}.`,
+        })
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Consulta Fallida",
+          description: "No se pudo obtener un nuevo estado desde la API.",
+        })
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Ocurrió un error desconocido."
+      toast({
+        variant: "destructive",
+        title: "Error al Consultar Ticket",
+        description: errorMessage,
+      })
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="h-8 w-8 p-0">
+          <span className="sr-only">Abrir menú</span>
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Acciones</DropdownMenuLabel>
+        <DropdownMenuItem onClick={handleCheckStatus} disabled={isChecking}>
+          {isChecking ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Consultando...
+            </>
+          ) : (
+            "Consultar Ticket"
+          )}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+export default BajaActionsCell
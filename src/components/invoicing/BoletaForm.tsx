@@ -6,9 +6,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { PlusCircle, Trash2, Loader2, Send, Search, CalendarIcon, FileText, RotateCcw, Banknote } from 'lucide-react';
-import { BoletaFormValues, BoletaFormSchema, Client, BoletaPayload } from '@/lib/types/invoicing';
-import { issueBoleta, fetchClientByDocument, generateBoletaPdf, saveBoletaPdfToSupabase, downloadBoletaPdfToBrowser, createIncomeFromBoleta } from '@/lib/api/invoicingApi';
+import { PlusCircle, Trash2, Loader2, Send, Search, CalendarIcon, FileText, RotateCcw, Banknote, Printer, Mail } from 'lucide-react';
+import { BoletaFormValues, BoletaFormSchema, Client, BoletaPayload, ProductoServicio, EmisionBoletaContexto } from '@/lib/types/invoicing';
+import { fetchClientByDocument, downloadBoletaPdfToBrowser, fetchOrCreateEmisionBoleta, generateBoletaPdf, fetchBoletaPdfBlob } from '@/lib/api/invoicingApi';
+import { buildPasosIniciales, PASO_EMISION_LABELS, PASOS_EMISION_BOLETA, processEmisionBoleta } from '@/lib/boletaIssuanceQueue';
+import { useUser } from '@/context/UserContext';
+import SerieSelect from './SerieSelect';
+import ProductoCombobox from './ProductoCombobox';
+import FormatoImpresionSelect from './FormatoImpresionSelect';
+import PrintPreviewDialog from './PrintPreviewDialog';
+import EnviarCorreoDialog from './EnviarCorreoDialog';
+import { useFormatoImpresion } from '@/hooks/useFormatoImpresion';
 import { useToast } from '@/components/ui/use-toast';
 import { 
   COMPANY_ID, 
@@ -22,29 +30,30 @@ import {
   DEFAULT_ITEM_CODE,
   DEFAULT_SUNAT_PRODUCT_CODE
 } from '@/lib/constants';
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import { format, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { Checkbox } from '../ui/checkbox';
 import { supabase } from '@/lib/supabaseClient';
+import { calculateBaseValue } from '@/lib/invoicingCalculations';
 
 const getTodayDate = () => new Date().toISOString().split('T')[0];
 
-const calculateBaseValue = (totalPrice: number, igvPercentage: number): number => {
-  if (igvPercentage === 0) return totalPrice;
-  const igvRate = igvPercentage / 100;
-  const baseValue = totalPrice / (1 + igvRate);
-  return parseFloat(baseValue.toFixed(2));
-};
-
 const DEFAULT_IGV_PERCENTAGE = 18;
 
 interface LastIssuedBoleta {
   id: number;
   numero_completo: string;
+  // Datos para enviar la boleta por correo
+  socioId: string | null;
+  cliente: string;
+  email: string;
+  monto: number;
+  moneda: string;
+  fecha: string;
 }
 
 const defaultClient: Client = {
@@ -91,13 +100,25 @@ const defaultValues: BoletaFormValues = {
 
 const BoletaForm = () => {
   const { toast } = useToast();
+  const { user } = useUser();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isClientSearching, setIsClientSearching] = useState(false);
   const [isProcessingPdf, setIsProcessingPdf] = useState(false);
   const [lastIssuedBoleta, setLastIssuedBoleta] = useState<LastIssuedBoleta | null>(null);
+  const { formato } = useFormatoImpresion();
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [previewPdf, setPreviewPdf] = useState<Blob | null>(null);
+  const [isCorreoOpen, setIsCorreoOpen] = useState(false);
   // FIX: currentSocioId debe ser string (UUID) para coincidir con el tipo de clientData.id y saveBoletaPdfToSupabase
   const [currentSocioId, setCurrentSocioId] = useState<string | null>(null); 
   const [accounts, setAccounts] = useState<{ name: string }[]>([]);
+  // Sucursal de la serie elegida; se envía como branch_id a la API de facturación.
+  const [serieBranchId, setSerieBranchId] = useState(BRANCH_ID);
+  // Clave de idempotencia del envío en curso y el payload al que corresponde. Se renueva cuando la
+  // boleta quedó emitida o cuando el payload cambió: la API repite el documento de la clave original,
+  // así que reutilizarla con otros datos dejaría registros locales distintos de lo emitido.
+  const idempotencyKey = useRef<string>(crypto.randomUUID());
+  const idempotencyPayload = useRef<string | null>(null);
 
 
   const form = useForm<BoletaFormValues>({
@@ -106,6 +127,25 @@ const BoletaForm = () => {
     mode: 'onChange',
   });
 
+  // Completa la línea de detalle con los datos del producto elegido en el catálogo, conservando la cantidad.
+  const handleProductoSelect = (index: number, producto: ProductoServicio) => {
+    form.setValue(`detalles.${index}`, {
+      codigo: producto.codigo,
+      descripcion: producto.descripcion,
+      unidad: producto.unidad,
+      cantidad: form.getValues(`detalles.${index}.cantidad`) || 1,
+      mto_valor_unitario: producto.precio_con_igv,
+      porcentaje_igv: producto.tip_afe_igv === '10' ? DEFAULT_IGV_PERCENTAGE : 0,
+      tip_afe_igv: producto.tip_afe_igv,
+      codigo_producto_sunat: producto.codigo_producto_sunat || DEFAULT_SUNAT_PRODUCT_CODE,
+    }, { shouldValidate: true });
+  };
+
+  const handleSerieChange = useCallback((serie: string, branchId: number) => {
+    form.setValue('serie', serie, { shouldValidate: true });
+    setSerieBranchId(branchId);
+  }, [form]);
+
   const { fields, append, remove } = useFieldArray({
     control: form.control,
     name: 'detalles',
@@ -136,7 +176,8 @@ const BoletaForm = () => {
     }
     
     try {
-      await downloadBoletaPdfToBrowser(lastIssuedBoleta.id, lastIssuedBoleta.numero_completo, 'A4');
+      await generateBoletaPdf(lastIssuedBoleta.id, formato);
+      await downloadBoletaPdfToBrowser(lastIssuedBoleta.id, lastIssuedBoleta.numero_completo, formato);
       toast({
         title: "Descarga Iniciada",
         description: `Descargando ${lastIssuedBoleta.numero_completo}.pdf.`,
@@ -152,6 +193,22 @@ const BoletaForm = () => {
     }
   };
 
+  const handlePrintPreview = async () => {
+    if (!lastIssuedBoleta) return;
+
+    setPreviewPdf(null);
+    setIsPreviewOpen(true);
+    try {
+      // La API genera cada formato por separado; el PDF A4 guardado en el perfil del socio no cambia.
+      await generateBoletaPdf(lastIssuedBoleta.id, formato);
+      setPreviewPdf(await fetchBoletaPdfBlob(lastIssuedBoleta.id, formato));
+    } catch (error) {
+      setIsPreviewOpen(false);
+      const errorMessage = error instanceof Error ? error.message : "Error al generar el PDF.";
+      toast({ title: "Error de Impresión", description: errorMessage, variant: "destructive" });
+    }
+  };
+
   const onSubmit = async (data: BoletaFormValues) => {
     setIsSubmitting(true);
     setLastIssuedBoleta(null);
@@ -185,7 +242,7 @@ const BoletaForm = () => {
 
     const payload: BoletaPayload = {
       company_id: COMPANY_ID,
-      branch_id: BRANCH_ID,
+      branch_id: serieBranchId,
       serie: data.serie,
       fecha_emision: data.fecha_emision,
       moneda: data.moneda,
@@ -197,42 +254,69 @@ const BoletaForm = () => {
       detalles: processedDetails,
     };
 
+    const totalAmount = parseFloat(data.detalles.reduce((acc, item) => {
+      // El precio unitario ya incluye IGV, así que lo usamos directamente
+      return acc + (Number(item.cantidad) * Number(item.mto_valor_unitario));
+    }, 0).toFixed(2));
+
+    // Datos que la cola necesita para registrar la boleta, guardar el PDF y crear el ingreso.
+    const contexto: EmisionBoletaContexto = {
+      socioId: currentSocioId,
+      montoTotal: totalAmount,
+      detalles: data.detalles,
+      ingreso: data.create_income_record && data.income_date && data.income_account ? {
+        account: data.income_account,
+        date: data.income_date,
+        numeroOperacion: data.income_numero_operacion ? Number(data.income_numero_operacion) : null,
+      } : null,
+    };
+
+    const payloadFirma = JSON.stringify(payload);
+    if (idempotencyPayload.current !== null && idempotencyPayload.current !== payloadFirma) {
+      // El intento anterior queda en la cola con sus propios datos y se puede retomar desde Facturación › Emisiones.
+      idempotencyKey.current = crypto.randomUUID();
+    }
+    idempotencyPayload.current = payloadFirma;
+
     try {
-      const result = await issueBoleta(payload);
-      const boletaId = result.data.id;
-      const numeroCompleto = result.data.numero_completo;
-      
-      setLastIssuedBoleta({ id: boletaId, numero_completo: numeroCompleto });
-      
+      // Se registra la emisión en la cola antes de llamar a la API: si falla aquí, no se emitió nada.
+      const emision = await fetchOrCreateEmisionBoleta(idempotencyKey.current, payload, contexto, buildPasosIniciales(contexto), user?.id ?? null);
+      const result = await processEmisionBoleta(emision, (actual) => {
+        setIsProcessingPdf(actual.pasos.pdf.estado === 'en_curso' || actual.pasos.almacenamiento.estado === 'en_curso');
+      });
+
+      if (result.pasos.emision.estado !== 'completado' || !result.api_invoice_id || !result.numero_completo) {
+        // Se conserva la clave: al reintentar, la API no duplicará la boleta si llegó a emitirla.
+        throw new Error(result.pasos.emision.error || "La boleta no se pudo emitir.");
+      }
+
+      const numeroCompleto = result.numero_completo;
+      setLastIssuedBoleta({
+        id: result.api_invoice_id,
+        numero_completo: numeroCompleto,
+        socioId: currentSocioId,
+        cliente: data.client.razon_social,
+        email: data.client.email || '',
+        monto: totalAmount,
+        moneda: data.moneda,
+        fecha: data.fecha_emision,
+      });
+      idempotencyKey.current = crypto.randomUUID();
+      idempotencyPayload.current = null;
+
       toast({
         title: "Boleta Emitida con Éxito",
-        description: `Documento ${numeroCompleto} procesado. Guardando PDF...`,
+        description: `Documento ${numeroCompleto} procesado.`,
         variant: "success",
       });
 
-      // --- LÓGICA AUTOMÁTICA DE PDF ---
-      if (currentSocioId) {
-        setIsProcessingPdf(true);
-        try {
-          await generateBoletaPdf(boletaId, 'A4');
-          // currentSocioId es ahora string | null, y se verifica que no sea null
-          await saveBoletaPdfToSupabase(boletaId, numeroCompleto, currentSocioId, 'A4');
-          toast({
-            title: "PDF Guardado Automáticamente",
-            description: `El comprobante ${numeroCompleto}.pdf se guardó en el repositorio del socio.`,
-            variant: "success",
-          });
-        } catch (pdfError) {
-          const errorMessage = pdfError instanceof Error ? pdfError.message : "Error desconocido.";
-          toast({
-            title: "Error al Guardar PDF",
-            description: `La boleta se emitió, pero no se pudo guardar el PDF: ${errorMessage}`,
-            variant: "destructive",
-          });
-        } finally {
-          setIsProcessingPdf(false);
-        }
-      } else {
+      if (result.pasos.almacenamiento.estado === 'completado') {
+        toast({
+          title: "PDF Guardado Automáticamente",
+          description: `El comprobante ${numeroCompleto}.pdf se guardó en el repositorio del socio.`,
+          variant: "success",
+        });
+      } else if (!currentSocioId) {
         toast({
           title: "Advertencia: PDF no guardado",
           description: "No se ha identificado un socio para asociar y guardar el comprobante.",
@@ -240,42 +324,23 @@ const BoletaForm = () => {
         });
       }
 
-      // --- LÓGICA PARA CREAR EL INGRESO ---
-      // MODIFICACIÓN: Se eliminó 'data.income_numero_operacion' de la condición obligatoria
-      if (data.create_income_record && data.income_date && data.income_account) {
-        try {
-          const totalAmount = data.detalles.reduce((acc, item) => {
-            // El precio unitario ya incluye IGV, así que lo usamos directamente
-            return acc + (Number(item.cantidad) * Number(item.mto_valor_unitario));
-          }, 0);
-
-          await createIncomeFromBoleta({
-            receipt_number: numeroCompleto,
-            dni: data.client.numero_documento,
-            full_name: data.client.razon_social,
-            amount: parseFloat(totalAmount.toFixed(2)),
-            account: data.income_account,
-            date: data.income_date,
-            transaction_type: 'Venta',
-            numeroOperacion: data.income_numero_operacion ? Number(data.income_numero_operacion) : null,
-          });
-
-          toast({
-            title: "Ingreso Registrado",
-            description: `Se creó un nuevo ingreso por S/ ${totalAmount.toFixed(2)}.`,
-            variant: "success",
-          });
-
-        } catch (incomeError) {
-          const errorMessage = incomeError instanceof Error ? incomeError.message : "Error desconocido.";
-          toast({
-            title: "Error al Registrar Ingreso",
-            description: `La boleta se emitió, pero no se pudo crear el ingreso: ${errorMessage}`,
-            variant: "destructive",
-          });
-        }
+      if (result.pasos.ingreso.estado === 'completado') {
+        toast({
+          title: "Ingreso Registrado",
+          description: `Se creó un nuevo ingreso por ${formatCurrency(totalAmount, data.moneda)}.`,
+          variant: "success",
+        });
       }
-      
+
+      const pasosConError = PASOS_EMISION_BOLETA.filter(paso => result.pasos[paso].estado === 'error');
+      if (pasosConError.length > 0) {
+        toast({
+          title: "Emisión Incompleta",
+          description: `La boleta se emitió, pero fallaron: ${pasosConError.map(paso => `${PASO_EMISION_LABELS[paso]} (${result.pasos[paso].error})`).join('; ')}. Puede reintentarlos desde Facturación › Emisiones.`,
+          variant: "destructive",
+        });
+      }
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Ocurrió un error inesperado.";
       toast({
@@ -364,7 +429,12 @@ const BoletaForm = () => {
                 <FormItem>
                   <FormLabel>Serie</FormLabel>
                   <FormControl>
-                    <Input {...field} disabled />
+                    <SerieSelect
+                      tipoDocumento="03"
+                      value={field.value}
+                      fallbackSerie={DEFAULT_SERIE_BOLETA}
+                      onChange={handleSerieChange}
+                    />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -632,7 +702,10 @@ const BoletaForm = () => {
           <CardContent className="space-y-6">
             {fields.map((item, index) => (
               <div key={item.id} className="p-4 border border-border rounded-lg bg-card/50 relative space-y-4 transition-all duration-300 hover:shadow-md">
-                <h4 className="text-lg font-semibold text-foreground/80">Item #{index + 1}</h4>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 pr-10">
+                  <h4 className="text-lg font-semibold text-foreground/80">Item #{index + 1}</h4>
+                  <ProductoCombobox onSelect={(producto) => handleProductoSelect(index, producto)} />
+                </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <FormField
@@ -890,10 +963,20 @@ const BoletaForm = () => {
         {/* SECCIÓN 5: ACCIONES POST-EMISIÓN (PDF) */}
         {lastIssuedBoleta && (
           <Card className="bg-surface border-success/30 shadow-xl">
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
               <CardTitle className="text-xl text-success">Documento Emitido: {lastIssuedBoleta.numero_completo}</CardTitle>
+              <FormatoImpresionSelect />
             </CardHeader>
             <CardContent className="flex flex-col md:flex-row gap-4">
+              <Button
+                type="button"
+                onClick={handlePrintPreview}
+                disabled={isProcessingPdf}
+                className="flex-1 py-3 transition-all duration-300"
+              >
+                <Printer className="mr-2 h-5 w-5" />
+                Imprimir
+              </Button>
               <Button 
                 type="button" 
                 onClick={handleDownloadPdfOnly}
@@ -903,6 +986,16 @@ const BoletaForm = () => {
                 <FileText className="mr-2 h-5 w-5" />
                 {isProcessingPdf ? 'Guardando PDF...' : 'Descargar PDF'}
               </Button>
+              <Button
+                type="button"
+                onClick={() => setIsCorreoOpen(true)}
+                disabled={isProcessingPdf}
+                variant="outline"
+                className="flex-1 py-3 transition-all duration-300"
+              >
+                <Mail className="mr-2 h-5 w-5" />
+                Enviar por Correo
+              </Button>
               <Button 
                 type="button" 
                 onClick={() => { 
@@ -920,6 +1013,38 @@ const BoletaForm = () => {
           </Card>
         )}
 
+        {lastIssuedBoleta && (
+          <PrintPreviewDialog
+            open={isPreviewOpen}
+            onOpenChange={setIsPreviewOpen}
+            title={`Imprimir ${lastIssuedBoleta.numero_completo}`}
+            fileName={`${lastIssuedBoleta.numero_completo}.pdf`}
+            formato={formato}
+            pdfBlob={previewPdf}
+            isLoading={!previewPdf}
+          />
+        )}
+
+        {lastIssuedBoleta && (
+          <EnviarCorreoDialog
+            open={isCorreoOpen}
+            onOpenChange={setIsCorreoOpen}
+            tipo="boleta"
+            socioId={lastIssuedBoleta.socioId}
+            destinatario={lastIssuedBoleta.email}
+            variables={{
+              cliente: lastIssuedBoleta.cliente,
+              documento: lastIssuedBoleta.numero_completo,
+              monto: formatCurrency(lastIssuedBoleta.monto, lastIssuedBoleta.moneda),
+              fecha: format(parseISO(lastIssuedBoleta.fecha), 'dd/MM/yyyy'),
+            }}
+            obtenerPdf={async () => {
+              await generateBoletaPdf(lastIssuedBoleta.id, 'A4');
+              return fetchBoletaPdfBlob(lastIssuedBoleta.id, 'A4');
+            }}
+          />
+        )}
+
         <Button 
           type="submit" 
           className="w-full py-6 text-lg font-semibold transition-all duration-300 hover:shadow-primary/50 shadow-lg"
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Mail } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useUser } from '@/context/UserContext';
+import {
+  encolarCorreo,
+  enviarCorreo,
+  fetchCorreosSocio,
+  fetchPlantillasCorreo,
+  guardarAdjuntoCorreo,
+  renderPlantillaCorreo,
+  rutaAdjuntoCorreo,
+  TipoDocumentoCorreo,
+  VariablesCorreo,
+} from '@/lib/api/correosApi';
+
+interface EnviarCorreoDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tipo: TipoDocumentoCorreo;
+  socioId: string | null;
+  destinatario?: string;
+  variables: VariablesCorreo;
+  obtenerPdf: () => Promise<Blob>; // Solo se usa si el PDF aún no está en el bucket
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Envía un comprobante por correo con la plantilla de su tipo, que se puede ajustar antes de enviar.
+ * El correo queda en la bandeja de salida aunque el envío falle, para reintentarlo después.
+ */
+function EnviarCorreoDialog({ open, onOpenChange, tipo, socioId, destinatario, variables, obtenerPdf }: EnviarCorreoDialogProps) {
+  const { toast } = useToast();
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const [para, setPara] = useState('');
+  const [asunto, setAsunto] = useState('');
+  const [cuerpo, setCuerpo] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const { data: plantillas } = useQuery({
+    queryKey: ['plantillasCorreo'],
+    queryFn: fetchPlantillasCorreo,
+    enabled: open,
+  });
+
+  // Sin correo en el formulario, se propone el último usado con el socio.
+  const { data: historial } = useQuery({
+    queryKey: ['correosSocio', socioId],
+    queryFn: () => fetchCorreosSocio(socioId!),
+    enabled: open && !!socioId && !destinatario,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setPara(destinatario || historial?.[0]?.destinatario || '');
+  }, [open, destinatario, historial]);
+
+  // Las variables llegan como objeto nuevo en cada render del padre: el efecto depende de sus campos.
+  const { cliente, documento, monto, fecha } = variables;
+  useEffect(() => {
+    const plantilla = plantillas?.find(p => p.tipo_documento === tipo);
+    if (!open || !plantilla) return;
+    const valores = { cliente, documento, monto, fecha };
+    setAsunto(renderPlantillaCorreo(plantilla.asunto, valores));
+    setCuerpo(renderPlantillaCorreo(plantilla.cuerpo, valores));
+  }, [open, plantillas, tipo, cliente, documento, monto, fecha]);
+
+  const handleSend = async () => {
+    if (!EMAIL_REGEX.test(para.trim())) {
+      toast({ title: "Correo Inválido", description: "Ingrese una dirección de correo válida.", variant: "destructive" });
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const adjuntoPath = rutaAdjuntoCorreo(tipo, variables.documento, socioId);
+      await guardarAdjuntoCorreo(adjuntoPath, obtenerPdf);
+      const correo = await encolarCorreo({
+        tipo_documento: tipo,
+        documento: variables.documento,
+        socio_id: socioId,
+        destinatario: para.trim(),
+        asunto,
+        cuerpo,
+        adjunto_path: adjuntoPath,
+        enviado_por: user?.id ?? null,
+      });
+      const resultado = await enviarCorreo(correo);
+
+      if (resultado.estado === 'enviado') {
+        toast({ title: "Correo Enviado", description: `${variables.documento} se envió a ${resultado.destinatario}.`, variant: "success" });
+        onOpenChange(false);
+      } else {
+        toast({ title: "Correo No Enviado", description: `${resultado.ultimo_error} Quedó en la bandeja de salida para reintentarlo.`, variant: "warning" });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast({ title: "Error al Enviar", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsSending(false);
+      queryClient.invalidateQueries({ queryKey: ['correosSalientes'] });
+      queryClient.invalidateQueries({ queryKey: ['correosSocio'] });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSending && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Enviar {variables.documento} por Correo</DialogTitle>
+          <DialogDescription>Se adjuntará el PDF del comprobante. Puede ajustar el mensaje antes de enviarlo.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="correo-para">Para</Label>
+            <Input id="correo-para" type="email" placeholder="cliente@correo.com" value={para} onChange={e => setPara(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="correo-asunto">Asunto</Label>
+            <Input id="correo-asunto" value={asunto} onChange={e => setAsunto(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="correo-cuerpo">Mensaje</Label>
+            <Textarea id="correo-cuerpo" rows={8} value={cuerpo} onChange={e => setCuerpo(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>Cancelar</Button>
+          <Button onClick={handleSend} disabled={isSending || !plantillas || !asunto.trim()}>
+            {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+            Enviar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default EnviarCorreoDialog;
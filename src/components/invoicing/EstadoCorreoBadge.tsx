@@ -0,0 +1,18 @@
+import { Badge } from '@/components/ui/badge';
+import { CorreoSaliente } from '@/lib/api/correosApi';
+
+const EstadoCorreoBadge = ({ correo }: { correo: CorreoSaliente }) => {
+  const title = correo.ultimo_error || `${correo.intentos} intento(s)`;
+  switch (correo.estado) {
+    case 'enviado':
+      return <Badge variant="success" title={title}>Enviado</Badge>;
+    case 'error':
+      return <Badge variant="destructive" title={title}>Error</Badge>;
+    case 'enviando':
+      return <Badge variant="secondary" title={title}>Enviando…</Badge>;
+    default:
+      return <Badge variant="outline" className="bg-warning/20 text-warning-foreground border-warning/40" title={title}>Pendiente</Badge>;
+  }
+};
+
+export default EstadoCorreoBadge;
@@ -0,0 +1,1152 @@
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PlusCircle, Trash2, Loader2, Send, Search, CalendarIcon, FileText, RotateCcw, Banknote, Calculator, CalendarClock } from 'lucide-react';
+import { FacturaFormValues, FacturaFormSchema, FacturaPayload } from '@/lib/types/invoicing';
+import {
+  issueFactura,
+  sendFacturaToSunat,
+  fetchClientByRuc,
+  fetchSocioDni,
+  generateFacturaPdf,
+  saveFacturaPdfToSupabase,
+  downloadFacturaPdfToBrowser,
+  saveFacturaToDb,
+  createIncomeFromBoleta,
+  toJsonDetalles,
+} from '@/lib/api/invoicingApi';
+import { convertirASoles } from '@/lib/api/exchangeRatesApi';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  COMPANY_ID,
+  BRANCH_ID,
+  DEFAULT_SERIE_FACTURA,
+  DEFAULT_MONEDA,
+  DEFAULT_TIPO_OPERACION,
+  DEFAULT_FORMA_PAGO,
+  FORMA_PAGO_CREDITO,
+  FORMAS_PAGO,
+  TIPO_AFECTACION_IGV,
+  DEFAULT_ITEM_CODE,
+  DEFAULT_SUNAT_PRODUCT_CODE
+} from '@/lib/constants';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { cn, formatCurrency } from '@/lib/utils';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Checkbox } from '../ui/checkbox';
+import { supabase } from '@/lib/supabaseClient';
+import { calculateBaseValue, calculateInvoiceTotals } from '@/lib/invoicingCalculations';
+
+const getTodayDate = () => new Date().toISOString().split('T')[0];
+
+const DEFAULT_IGV_PERCENTAGE = 18;
+
+interface LastIssuedFactura {
+  id: number;
+  numero_completo: string;
+}
+
+const defaultDetalle = {
+  codigo: DEFAULT_ITEM_CODE,
+  descripcion: 'Elaboracion de Expediente Tecnico',
+  unidad: 'ZZ',
+  cantidad: 1,
+  mto_valor_unitario: 250,
+  porcentaje_igv: DEFAULT_IGV_PERCENTAGE,
+  tip_afe_igv: '10',
+  codigo_producto_sunat: DEFAULT_SUNAT_PRODUCT_CODE,
+};
+
+const defaultValues: FacturaFormValues = {
+  serie: DEFAULT_SERIE_FACTURA,
+  fecha_emision: getTodayDate(),
+  fecha_vencimiento: '',
+  moneda: DEFAULT_MONEDA,
+  tipo_operacion: DEFAULT_TIPO_OPERACION,
+  forma_pago_tipo: DEFAULT_FORMA_PAGO,
+  forma_pago_cuotas: [],
+  usuario_creacion: 'admin_user',
+  client: {
+    tipo_documento: '6',
+    numero_documento: '',
+    razon_social: '',
+    nombre_comercial: '',
+    direccion: '',
+    ubigeo: '',
+    distrito: '',
+    provincia: '',
+    departamento: '',
+    telefono: '',
+    email: '',
+  },
+  detalles: [defaultDetalle],
+  // --- VALORES POR DEFECTO PARA INGRESO ---
+  create_income_record: true,
+  income_date: getTodayDate(),
+  income_numero_operacion: '',
+  income_account: 'Caja Principal',
+};
+
+const FacturaForm = () => {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isClientSearching, setIsClientSearching] = useState(false);
+  const [isProcessingPdf, setIsProcessingPdf] = useState(false);
+  const [lastIssuedFactura, setLastIssuedFactura] = useState<LastIssuedFactura | null>(null);
+  // UUID del socio titular cuando el RUC 10 corresponde a un socio
+  const [currentSocioId, setCurrentSocioId] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<{ name: string }[]>([]);
+
+  const form = useForm<FacturaFormValues>({
+    resolver: zodResolver(FacturaFormSchema),
+    defaultValues,
+    mode: 'onChange',
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'detalles',
+  });
+
+  const { fields: cuotaFields, append: appendCuota, remove: removeCuota } = useFieldArray({
+    control: form.control,
+    name: 'forma_pago_cuotas',
+  });
+
+  const createIncomeRecord = form.watch('create_income_record');
+  const formaPagoTipo = form.watch('forma_pago_tipo');
+  const watchedDetalles = form.watch('detalles');
+  const moneda = form.watch('moneda');
+
+  const totals = useMemo(() => calculateInvoiceTotals(watchedDetalles || []), [watchedDetalles]);
+
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      const { data, error } = await supabase.from('cuentas').select('name');
+      if (error) {
+        console.error('Error fetching accounts:', error);
+        toast({ title: "Error", description: "No se pudieron cargar las cuentas.", variant: "destructive" });
+      } else {
+        setAccounts(data || []);
+        if (data && data.length > 0 && !form.getValues('income_account')) {
+          form.setValue('income_account', data[0].name);
+        }
+      }
+    };
+    fetchAccounts();
+  }, [toast, form]);
+
+  // Una venta al crédito no ingresa dinero a caja en la fecha de emisión.
+  useEffect(() => {
+    if (formaPagoTipo === FORMA_PAGO_CREDITO) {
+      form.setValue('create_income_record', false, { shouldValidate: true });
+    } else {
+      form.setValue('forma_pago_cuotas', [], { shouldValidate: true });
+    }
+  }, [formaPagoTipo, form]);
+
+  const handleDownloadPdfOnly = async () => {
+    if (!lastIssuedFactura) {
+      toast({ title: "Error", description: "No hay una factura emitida para descargar.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      await downloadFacturaPdfToBrowser(lastIssuedFactura.id, lastIssuedFactura.numero_completo, 'A4');
+      toast({
+        title: "Descarga Iniciada",
+        description: `Descargando ${lastIssuedFactura.numero_completo}.pdf.`,
+        variant: "success",
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Error al descargar el PDF.";
+      toast({
+        title: "Error de Descarga",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const onSubmit = async (data: FacturaFormValues) => {
+    setIsSubmitting(true);
+    setLastIssuedFactura(null);
+
+    const processedDetails = data.detalles.map(d => {
+      const total_price = Number(d.mto_valor_unitario);
+      const igv_percent = Number(d.porcentaje_igv);
+      const base_value = d.tip_afe_igv === '10' ? calculateBaseValue(total_price, igv_percent) : total_price;
+
+      return {
+        ...d,
+        codigo: d.codigo || '',
+        codigo_producto_sunat: d.codigo_producto_sunat || '',
+        cantidad: Number(d.cantidad),
+        mto_valor_unitario: base_value,
+        porcentaje_igv: igv_percent,
+      };
+    });
+
+    const processedClient = {
+      ...data.client,
+      nombre_comercial: data.client.nombre_comercial || '',
+      direccion: data.client.direccion || '',
+      ubigeo: data.client.ubigeo || '',
+      distrito: data.client.distrito || '',
+      provincia: data.client.provincia || '',
+      departamento: data.client.departamento || '',
+      telefono: data.client.telefono || '',
+      email: data.client.email || '',
+    };
+
+    const isCredito = data.forma_pago_tipo === FORMA_PAGO_CREDITO;
+    const cuotas = isCredito
+      ? (data.forma_pago_cuotas || []).map(c => ({ monto: Number(c.monto), fecha_pago: c.fecha_pago }))
+      : undefined;
+
+    const payload: FacturaPayload = {
+      company_id: COMPANY_ID,
+      branch_id: BRANCH_ID,
+      serie: data.serie,
+      fecha_emision: data.fecha_emision,
+      fecha_vencimiento: data.fecha_vencimiento || undefined,
+      moneda: data.moneda,
+      tipo_operacion: data.tipo_operacion,
+      // Las facturas se envían de forma individual, no por resumen diario
+      metodo_envio: 'individual',
+      forma_pago_tipo: data.forma_pago_tipo,
+      forma_pago_cuotas: cuotas,
+      usuario_creacion: data.usuario_creacion,
+      client: processedClient,
+      detalles: processedDetails,
+    };
+
+    try {
+      const result = await issueFactura(payload);
+      const facturaId = result.data.id;
+      const numeroCompleto = result.data.numero_completo;
+      const [serie, numero] = numeroCompleto.split('-');
+
+      setLastIssuedFactura({ id: facturaId, numero_completo: numeroCompleto });
+
+      toast({
+        title: "Factura Emitida con Éxito",
+        description: `Documento ${numeroCompleto} creado. Enviando a SUNAT...`,
+        variant: "success",
+      });
+
+      let estadoSunat = result.data.sunat_status || 'PENDIENTE';
+      try {
+        await sendFacturaToSunat(facturaId);
+        estadoSunat = 'ENVIADO';
+      } catch (sunatError) {
+        const errorMessage = sunatError instanceof Error ? sunatError.message : "Error desconocido.";
+        toast({
+          title: "Error al Enviar a SUNAT",
+          description: `La factura se emitió, pero no se pudo enviar: ${errorMessage}`,
+          variant: "destructive",
+        });
+      }
+
+      // --- REGISTRO LOCAL (para notas de crédito y reportes) ---
+      try {
+        await saveFacturaToDb({
+          serie: serie || data.serie,
+          numero: numero || '',
+          fecha_emision: data.fecha_emision,
+          fecha_vencimiento: data.fecha_vencimiento || null,
+          moneda: data.moneda,
+          monto_total: totals.mto_imp_venta,
+          mto_oper_gravadas: totals.mto_oper_gravadas,
+          mto_oper_exoneradas: totals.mto_oper_exoneradas,
+          mto_igv: totals.mto_igv,
+          forma_pago_tipo: data.forma_pago_tipo,
+          cuotas: cuotas || null,
+          cliente_tipo_documento: data.client.tipo_documento,
+          cliente_numero_documento: data.client.numero_documento,
+          cliente_razon_social: data.client.razon_social,
+          cliente_direccion: data.client.direccion || null,
+          detalles: toJsonDetalles(data.detalles),
+          socio_id: currentSocioId,
+          api_invoice_id: facturaId,
+          estado_sunat: estadoSunat,
+          pdf_path: result.data.pdf_path ?? null,
+          xml_path: result.data.xml_path ?? null,
+          cdr_path: result.data.cdr_path ?? null,
+        });
+      } catch (dbError) {
+        const errorMessage = dbError instanceof Error ? dbError.message : "Error desconocido.";
+        toast({
+          title: "Error al Registrar Factura",
+          description: `La factura se emitió, pero no se guardó localmente: ${errorMessage}`,
+          variant: "destructive",
+        });
+      }
+
+      // --- LÓGICA AUTOMÁTICA DE PDF ---
+      setIsProcessingPdf(true);
+      try {
+        await generateFacturaPdf(facturaId, 'A4');
+        await saveFacturaPdfToSupabase(facturaId, numeroCompleto, data.client.numero_documento, currentSocioId, 'A4');
+        toast({
+          title: "PDF Guardado Automáticamente",
+          description: currentSocioId
+            ? `El comprobante ${numeroCompleto}.pdf se guardó en el repositorio del socio.`
+            : `El comprobante ${numeroCompleto}.pdf se guardó en el repositorio de facturas.`,
+          variant: "success",
+        });
+      } catch (pdfError) {
+        const errorMessage = pdfError instanceof Error ? pdfError.message : "Error desconocido.";
+        toast({
+          title: "Error al Guardar PDF",
+          description: `La factura se emitió, pero no se pudo guardar el PDF: ${errorMessage}`,
+          variant: "destructive",
+        });
+      } finally {
+        setIsProcessingPdf(false);
+      }
+
+      // --- LÓGICA PARA CREAR EL INGRESO ---
+      if (data.create_income_record && data.income_date && data.income_account) {
+        try {
+          // El ingreso se registra con el DNI del socio, así aparece en su historial.
+          // Un cliente que no es socio no tiene fila en `socio_titulares` y su ingreso no se puede registrar aquí.
+          const incomeDni = currentSocioId ? await fetchSocioDni(currentSocioId) : null;
+          if (!incomeDni) {
+            throw new Error('el cliente no está registrado como socio. Registre el cobro desde Ingresos o Cuentas.');
+          }
+
+          const monto = await convertirASoles(totals.mto_imp_venta, data.moneda, data.fecha_emision);
+          await createIncomeFromBoleta({
+            receipt_number: numeroCompleto,
+            dni: incomeDni,
+            full_name: data.client.razon_social,
+            ...monto,
+            account: data.income_account,
+            date: data.income_date,
+            transaction_type: 'Venta',
+            numeroOperacion: data.income_numero_operacion ? Number(data.income_numero_operacion) : null,
+          });
+
+          toast({
+            title: "Ingreso Registrado",
+            description: `Se creó un nuevo ingreso por ${formatCurrency(monto.amount)}.`,
+            variant: "success",
+          });
+
+        } catch (incomeError) {
+          const errorMessage = incomeError instanceof Error ? incomeError.message : "Error desconocido.";
+          toast({
+            title: "Error al Registrar Ingreso",
+            description: `La factura se emitió, pero no se pudo crear el ingreso: ${errorMessage}`,
+            variant: "destructive",
+          });
+        }
+      }
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Ocurrió un error inesperado.";
+      toast({
+        title: "Error de Emisión",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClientSearch = useCallback(async (e: React.FocusEvent<HTMLInputElement>) => {
+    const ruc = e.target.value.trim();
+    setCurrentSocioId(null);
+
+    if (ruc.length !== 11) {
+      return;
+    }
+
+    setIsClientSearching(true);
+    try {
+      const clientData = await fetchClientByRuc(ruc);
+
+      if (clientData) {
+        setCurrentSocioId(clientData.id || null);
+        form.setValue('client.razon_social', clientData.razon_social || '', { shouldValidate: true });
+        form.setValue('client.nombre_comercial', clientData.nombre_comercial || '', { shouldValidate: true });
+        form.setValue('client.direccion', clientData.direccion || '', { shouldValidate: true });
+        form.setValue('client.distrito', clientData.distrito || '', { shouldValidate: true });
+        form.setValue('client.provincia', clientData.provincia || '', { shouldValidate: true });
+        form.setValue('client.departamento', clientData.departamento || '', { shouldValidate: true });
+        form.setValue('client.ubigeo', clientData.ubigeo || '');
+        form.setValue('client.telefono', clientData.telefono || '');
+
+        toast({
+          title: "Cliente Encontrado",
+          description: `Datos de ${clientData.razon_social} cargados.`,
+          variant: "success",
+        });
+      } else {
+        toast({
+          title: "Cliente No Encontrado",
+          description: "No hay facturas previas ni socios para este RUC. Por favor, complete los datos manualmente.",
+          variant: "warning",
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Error al buscar cliente.";
+      toast({
+        title: "Error de Búsqueda",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsClientSearching(false);
+    }
+  }, [form, toast]);
+
+  const currencySymbol = moneda === 'USD' ? '$' : 'S/';
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+
+        {/* SECCIÓN 1: METADATOS DE LA FACTURA */}
+        <Card className="bg-surface border-primary/30 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-xl text-primary">Información General</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <FormField
+              control={form.control}
+              name="serie"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Serie</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="fecha_emision"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Fecha de Emisión</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant={"outline"}
+                          className={cn(
+                            "w-full justify-start text-left font-normal rounded-lg border-border bg-background text-foreground focus:ring-primary focus:border-primary transition-all duration-300",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          <CalendarIcon className="mr-2 h-4 w-4" />
+                          {field.value ? format(parseISO(field.value), "PPP", { locale: es }) : <span>Selecciona una fecha</span>}
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0 bg-card border-border rounded-xl shadow-lg" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ? parseISO(field.value) : undefined}
+                        onSelect={(date) => {
+                          field.onChange(date ? format(date, 'yyyy-MM-dd') : '');
+                        }}
+                        initialFocus
+                        locale={es}
+                        toDate={new Date()}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="fecha_vencimiento"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Fecha de Vencimiento (Opcional)</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant={"outline"}
+                          className={cn(
+                            "w-full justify-start text-left font-normal rounded-lg border-border bg-background text-foreground focus:ring-primary focus:border-primary transition-all duration-300",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          <CalendarIcon className="mr-2 h-4 w-4" />
+                          {field.value ? format(parseISO(field.value), "PPP", { locale: es }) : <span>Sin vencimiento</span>}
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0 bg-card border-border rounded-xl shadow-lg" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ? parseISO(field.value) : undefined}
+                        onSelect={(date) => {
+                          field.onChange(date ? format(date, 'yyyy-MM-dd') : '');
+                        }}
+                        initialFocus
+                        locale={es}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="moneda"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Moneda</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccione Moneda" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-card border-border">
+                      <SelectItem value="PEN">PEN - Soles</SelectItem>
+                      <SelectItem value="USD">USD - Dólares</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        {/* SECCIÓN 2: DATOS DEL CLIENTE */}
+        <Card className="bg-surface border-accent/30 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-xl text-accent">Datos del Cliente</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormItem>
+                <FormLabel>Tipo Doc.</FormLabel>
+                <Input value="RUC" disabled />
+              </FormItem>
+              <FormField
+                control={form.control}
+                name="client.numero_documento"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2 relative">
+                    <FormLabel>RUC</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ej: 20123456789"
+                        maxLength={11}
+                        {...field}
+                        onBlur={(e) => {
+                          field.onBlur();
+                          handleClientSearch(e);
+                        }}
+                        disabled={isClientSearching}
+                      />
+                    </FormControl>
+                    {isClientSearching ? (
+                      <Loader2 className="absolute right-3 top-9 h-5 w-5 text-primary animate-spin" />
+                    ) : (
+                      <Search className="absolute right-3 top-9 h-5 w-5 text-textSecondary" />
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="client.razon_social"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Razón Social</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ej: Tech Solutions S.A.C." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="client.nombre_comercial"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nombre Comercial (Opcional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ej: Tech Solutions" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <FormField
+                control={form.control}
+                name="client.departamento"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Departamento/Región</FormLabel>
+                    <FormControl><Input placeholder="Lima" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="client.provincia"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Provincia</FormLabel>
+                    <FormControl><Input placeholder="Lima" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="client.distrito"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Distrito</FormLabel>
+                    <FormControl><Input placeholder="Miraflores" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="client.ubigeo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ubigeo (Opcional)</FormLabel>
+                    <FormControl><Input placeholder="150101" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="client.direccion"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dirección Fiscal</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ej: Av. Los Negocios 456" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="client.telefono"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Teléfono/Celular (Opcional)</FormLabel>
+                    <FormControl><Input placeholder="987654321" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="client.email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email (Opcional)</FormLabel>
+                    <FormControl><Input placeholder="facturacion@empresa.com" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* SECCIÓN 3: DETALLES DE LA VENTA */}
+        <Card className="bg-surface border-secondary/30 shadow-xl">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-xl text-secondary">Detalles de Productos/Servicios</CardTitle>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => append({ ...defaultDetalle })}
+              className="text-secondary hover:bg-secondary/20 border-secondary"
+            >
+              <PlusCircle className="h-4 w-4 mr-2" />
+              Agregar Detalle
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {fields.map((item, index) => (
+              <div key={item.id} className="p-4 border border-border rounded-lg bg-card/50 relative space-y-4 transition-all duration-300 hover:shadow-md">
+                <h4 className="text-lg font-semibold text-foreground/80">Item #{index + 1}</h4>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <FormField
+                    control={form.control}
+                    name={`detalles.${index}.codigo`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Código</FormLabel>
+                        <FormControl><Input {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`detalles.${index}.unidad`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unidad</FormLabel>
+                        <FormControl><Input {...field} placeholder="NIU, ZZ" /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`detalles.${index}.cantidad`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cantidad</FormLabel>
+                        <FormControl>
+                          <Input type="number" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`detalles.${index}.mto_valor_unitario`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Precio Unitario (con IGV)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name={`detalles.${index}.descripcion`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Descripción</FormLabel>
+                      <FormControl><Textarea {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name={`detalles.${index}.tip_afe_igv`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Afectación IGV</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Tipo Afectación" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent className="bg-card border-border">
+                            {TIPO_AFECTACION_IGV.map(type => (
+                              <SelectItem key={type.code} value={type.code}>{type.code} - {type.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`detalles.${index}.porcentaje_igv`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>% IGV</FormLabel>
+                        <FormControl>
+                          <Input type="number" {...field} min="0" max="18" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`detalles.${index}.codigo_producto_sunat`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cód. Producto SUNAT</FormLabel>
+                        <FormControl><Input {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {fields.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => remove(index)}
+                    className="absolute top-2 right-2 h-8 w-8 p-0"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Eliminar detalle</span>
+                  </Button>
+                )}
+              </div>
+            ))}
+            {form.formState.errors.detalles && !form.formState.errors.detalles.root && (
+              <p className="text-sm font-medium text-destructive mt-2">
+                {form.formState.errors.detalles.message}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* SECCIÓN 4: RESUMEN DE IMPORTES (DESGLOSE IGV) */}
+        <Card className="bg-surface border-primary/30 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-xl text-primary flex items-center">
+              <Calculator className="mr-3 h-6 w-6" />
+              Resumen de Importes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <dt className="text-textSecondary">Op. Gravadas</dt>
+                <dd className="font-semibold text-foreground">{currencySymbol} {totals.mto_oper_gravadas.toFixed(2)}</dd>
+              </div>
+              <div>
+                <dt className="text-textSecondary">Op. Exoneradas</dt>
+                <dd className="font-semibold text-foreground">{currencySymbol} {totals.mto_oper_exoneradas.toFixed(2)}</dd>
+              </div>
+              <div>
+                <dt className="text-textSecondary">Op. Inafectas</dt>
+                <dd className="font-semibold text-foreground">{currencySymbol} {totals.mto_oper_inafectas.toFixed(2)}</dd>
+              </div>
+              <div>
+                <dt className="text-textSecondary">Exportación</dt>
+                <dd className="font-semibold text-foreground">{currencySymbol} {totals.mto_oper_exportacion.toFixed(2)}</dd>
+              </div>
+              <div>
+                <dt className="text-textSecondary">IGV</dt>
+                <dd className="font-semibold text-foreground">{currencySymbol} {totals.mto_igv.toFixed(2)}</dd>
+              </div>
+              <div>
+                <dt className="text-textSecondary">Importe Total</dt>
+                <dd className="text-lg font-bold text-primary">{currencySymbol} {totals.mto_imp_venta.toFixed(2)}</dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        {/* SECCIÓN 5: FORMA DE PAGO */}
+        <Card className="bg-surface border-accent/30 shadow-xl">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-xl text-accent flex items-center">
+              <CalendarClock className="mr-3 h-6 w-6" />
+              Forma de Pago
+            </CardTitle>
+            {formaPagoTipo === FORMA_PAGO_CREDITO && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => appendCuota({ monto: 0, fecha_pago: '' })}
+                className="text-accent hover:bg-accent/20 border-accent"
+              >
+                <PlusCircle className="h-4 w-4 mr-2" />
+                Agregar Cuota
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <FormField
+              control={form.control}
+              name="forma_pago_tipo"
+              render={({ field }) => (
+                <FormItem className="md:w-1/3">
+                  <FormLabel>Tipo</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccione forma de pago" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-card border-border">
+                      {FORMAS_PAGO.map(fp => (
+                        <SelectItem key={fp.code} value={fp.code}>{fp.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {formaPagoTipo === FORMA_PAGO_CREDITO && (
+              <div className="space-y-4">
+                {cuotaFields.map((cuota, index) => (
+                  <div key={cuota.id} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end p-4 border border-border rounded-lg bg-card/50">
+                    <FormField
+                      control={form.control}
+                      name={`forma_pago_cuotas.${index}.monto`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cuota #{index + 1} - Monto</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.01" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`forma_pago_cuotas.${index}.fecha_pago`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fecha de Pago</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => removeCuota(index)}
+                      className="h-10 w-10 p-0"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Eliminar cuota</span>
+                    </Button>
+                  </div>
+                ))}
+                {form.formState.errors.forma_pago_cuotas?.message && (
+                  <p className="text-sm font-medium text-destructive">
+                    {form.formState.errors.forma_pago_cuotas.message}
+                  </p>
+                )}
+                {form.formState.errors.forma_pago_cuotas?.root?.message && (
+                  <p className="text-sm font-medium text-destructive">
+                    {form.formState.errors.forma_pago_cuotas.root.message}
+                  </p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* SECCIÓN 6: REGISTRO DE INGRESO (OPCIONAL) */}
+        <Card className="bg-surface border-success/30 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-xl text-success flex items-center">
+              <Banknote className="mr-3 h-6 w-6" />
+              Registro de Ingreso (Opcional)
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <FormField
+              control={form.control}
+              name="create_income_record"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4 bg-card/50">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>
+                      Registrar Ingreso Automáticamente
+                    </FormLabel>
+                    <p className="text-sm text-muted-foreground">
+                      {formaPagoTipo === FORMA_PAGO_CREDITO
+                        ? 'Venta al crédito: registre el ingreso cuando se cobre cada cuota.'
+                        : currentSocioId
+                          ? 'Marque esta casilla para crear un registro en la sección de ingresos cuando la factura sea emitida.'
+                          : 'Solo para clientes registrados como socios; el cobro de otros clientes se registra desde Ingresos o Cuentas.'}
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+            {createIncomeRecord && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pt-4">
+                <FormField
+                  control={form.control}
+                  name="income_date"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Fecha del Ingreso</FormLabel>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant={"outline"}
+                              className={cn(
+                                "w-full justify-start text-left font-normal",
+                                !field.value && "text-muted-foreground"
+                              )}
+                            >
+                              <CalendarIcon className="mr-2 h-4 w-4" />
+                              {field.value ? format(parseISO(field.value), "PPP", { locale: es }) : <span>Selecciona una fecha</span>}
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value ? parseISO(field.value) : undefined}
+                            onSelect={(date) => field.onChange(date ? format(date, 'yyyy-MM-dd') : '')}
+                            initialFocus
+                            locale={es}
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="income_numero_operacion"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nº de Operación (Opcional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Ej: 0012345" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="income_account"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cuenta de Destino</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccione una cuenta" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {accounts.map(acc => (
+                            <SelectItem key={acc.name} value={acc.name}>{acc.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* SECCIÓN 7: ACCIONES POST-EMISIÓN (PDF) */}
+        {lastIssuedFactura && (
+          <Card className="bg-surface border-success/30 shadow-xl">
+            <CardHeader>
+              <CardTitle className="text-xl text-success">Documento Emitido: {lastIssuedFactura.numero_completo}</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col md:flex-row gap-4">
+              <Button
+                type="button"
+                onClick={handleDownloadPdfOnly}
+                disabled={isProcessingPdf}
+                className="flex-1 py-3 bg-success hover:bg-success/90 text-white transition-all duration-300"
+              >
+                <FileText className="mr-2 h-5 w-5" />
+                {isProcessingPdf ? 'Guardando PDF...' : 'Descargar PDF'}
+              </Button>
+              <Button
+                type="button"
+                onClick={() => {
+                  form.reset(defaultValues);
+                  setLastIssuedFactura(null);
+                  setCurrentSocioId(null);
+                }}
+                variant="outline"
+                className="flex-1 py-3 border-border text-foreground hover:bg-card transition-all duration-300"
+              >
+                <RotateCcw className="mr-2 h-5 w-5" />
+                Nueva Factura
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full py-6 text-lg font-semibold transition-all duration-300 hover:shadow-primary/50 shadow-lg"
+          disabled={isSubmitting || isClientSearching || !form.formState.isValid || !!lastIssuedFactura}
+        >
+          {isSubmitting ? (
+            <>
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Emitiendo Factura...
+            </>
+          ) : (
+            <>
+              <Send className="mr-2 h-5 w-5" />
+              Emitir Factura Electrónica
+            </>
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default FacturaForm;
@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Printer } from 'lucide-react';
+import { useFormatoImpresion } from '@/hooks/useFormatoImpresion';
+import { FORMATOS_IMPRESION } from '@/lib/constants';
+import { FormatoImpresion } from '@/lib/types/invoicing';
+
+interface FormatoImpresionSelectProps {
+  className?: string;
+}
+
+/**
+ * Selector del formato de impresión del usuario (A4 o ticket de 80 mm). La elección queda guardada
+ * y se usa en todas las impresiones de boletas y recibos.
+ */
+function FormatoImpresionSelect({ className }: FormatoImpresionSelectProps) {
+  const { formato, setFormato } = useFormatoImpresion();
+
+  return (
+    <Select value={formato} onValueChange={(value) => setFormato(value as FormatoImpresion)}>
+      <SelectTrigger className={className ?? 'w-[180px]'} title="Formato de impresión">
+        <Printer className="mr-2 h-4 w-4 text-textSecondary" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {FORMATOS_IMPRESION.map(f => (
+          <SelectItem key={f.code} value={f.code}>{f.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default FormatoImpresionSelect;
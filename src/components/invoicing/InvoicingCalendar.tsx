@@ -1,23 +1,31 @@
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { fetchRecentInvoices } from '@/lib/api/invoicingApi';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { fetchInvoicingCalendarMonth } from '@/lib/api/invoicingApi';
 import { InvoicingCalendarItem } from '@/lib/types/invoicing';
 import { useQuery } from '@tanstack/react-query';
-import { Loader2, FileText, CheckCircle, XCircle, Clock, DollarSign } from 'lucide-react';
-import { format } from 'date-fns';
+import { Loader2, FileText, CheckCircle, XCircle, Clock, Ban, ChevronLeft, ChevronRight, FileCode, FileCheck } from 'lucide-react';
+import { addMonths, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, isToday, startOfMonth, startOfWeek, subMonths } from 'date-fns';
 import { es } from 'date-fns/locale';
 
+const WEEK_DAYS = ['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'];
+const MAX_ITEMS_PER_DAY = 3;
+
 // Función para obtener el color y el ícono del estado
 const getStatusProps = (status: InvoicingCalendarItem['status']) => {
   switch (status) {
     case 'Aceptado':
-      return { icon: CheckCircle, color: 'text-success', bgColor: 'bg-success/10' };
+      return { icon: CheckCircle, color: 'text-success', bgColor: 'bg-success/10', dotColor: 'bg-success' };
     case 'Pendiente':
-      return { icon: Clock, color: 'text-warning', bgColor: 'bg-warning/10' };
+      return { icon: Clock, color: 'text-warning', bgColor: 'bg-warning/10', dotColor: 'bg-warning' };
     case 'Rechazado':
-      return { icon: XCircle, color: 'text-error', bgColor: 'bg-error/10' };
+      return { icon: XCircle, color: 'text-error', bgColor: 'bg-error/10', dotColor: 'bg-error' };
+    case 'Anulado':
+      return { icon: Ban, color: 'text-textSecondary', bgColor: 'bg-muted/30', dotColor: 'bg-muted-foreground' };
     default:
-      return { icon: FileText, color: 'text-textSecondary', bgColor: 'bg-surface' };
+      return { icon: FileText, color: 'text-secondary', bgColor: 'bg-secondary/10', dotColor: 'bg-secondary' };
   }
 };
 
@@ -29,109 +37,241 @@ const getTypeColor = (type: InvoicingCalendarItem['type']) => {
     case 'Boleta':
       return 'text-secondary';
     case 'Nota Crédito':
+    case 'Nota Débito':
       return 'text-accent';
     default:
       return 'text-textSecondary';
   }
 };
 
+const formatAmount = (item: InvoicingCalendarItem) =>
+  item.amount === null
+    ? '—'
+    : item.amount.toLocaleString('es-PE', { style: 'currency', currency: item.moneda || 'PEN' });
+
+const LEGEND: InvoicingCalendarItem['status'][] = ['Aceptado', 'Pendiente', 'Rechazado', 'Anulado', 'Interno'];
+
 const InvoicingCalendar = () => {
-  // Forzando la re-evaluación del módulo @tanstack/react-query
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [selectedItem, setSelectedItem] = useState<InvoicingCalendarItem | null>(null);
+
   const { data: invoices, isLoading, isError } = useQuery<InvoicingCalendarItem[]>({
-    queryKey: ['recentInvoices'],
-    queryFn: fetchRecentInvoices,
+    queryKey: ['invoicingCalendar', format(month, 'yyyy-MM')],
+    queryFn: () => fetchInvoicingCalendarMonth(month),
   });
 
-  if (isLoading) {
-    return (
-      <Card className="bg-surface border-border shadow-lg h-full min-h-[400px]">
-        <CardHeader>
-          <CardTitle className="text-xl text-primary">Actividad de Facturación Reciente</CardTitle>
-        </CardHeader>
-        <CardContent className="flex items-center justify-center h-64">
-          <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          <p className="ml-3 text-textSecondary">Cargando documentos...</p>
-        </CardContent>
-      </Card>
-    );
-  }
+  const itemsByDay = useMemo(() => {
+    const grouped = new Map<string, InvoicingCalendarItem[]>();
+    (invoices || []).forEach(item => {
+      const dayItems = grouped.get(item.date) || [];
+      dayItems.push(item);
+      grouped.set(item.date, dayItems);
+    });
+    return grouped;
+  }, [invoices]);
 
-  if (isError) {
-    return (
-      <Card className="bg-surface border-error/50 shadow-lg h-full min-h-[400px]">
-        <CardHeader>
-          <CardTitle className="text-xl text-primary">Actividad de Facturación Reciente</CardTitle>
-        </CardHeader>
-        <CardContent className="flex items-center justify-center h-64 text-error">
-          <XCircle className="h-8 w-8 mr-2" />
-          <p>Error al cargar la actividad de facturación.</p>
-        </CardContent>
-      </Card>
-    );
-  }
+  const days = useMemo(() => eachDayOfInterval({
+    start: startOfWeek(month, { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+  }), [month]);
 
-  if (!invoices || invoices.length === 0) {
-    return (
-      <Card className="bg-surface border-border shadow-lg h-full min-h-[400px]">
-        <CardHeader>
-          <CardTitle className="text-xl text-primary">Actividad de Facturación Reciente</CardTitle>
-        </CardHeader>
-        <CardContent className="flex items-center justify-center h-64 text-textSecondary">
-          <FileText className="h-8 w-8 mr-2" />
-          <p>No hay documentos emitidos recientemente.</p>
-        </CardContent>
-      </Card>
-    );
-  }
+  const changeMonth = (newMonth: Date) => {
+    setMonth(newMonth);
+    setSelectedDay(null);
+  };
+
+  const selectedDayItems = selectedDay ? itemsByDay.get(selectedDay) || [] : [];
 
   return (
     <Card className="bg-surface border-border shadow-lg h-full">
       <CardHeader className="flex flex-row items-center justify-between pb-2">
-        <CardTitle className="text-xl text-primary">Actividad de Facturación Reciente</CardTitle>
-        <DollarSign className="h-6 w-6 text-primary/70" />
+        <CardTitle className="text-xl text-primary">Calendario de Facturación</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => changeMonth(subMonths(month, 1))}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Mes anterior</span>
+          </Button>
+          <span className="min-w-[140px] text-center font-semibold capitalize">
+            {format(month, 'MMMM yyyy', { locale: es })}
+          </span>
+          <Button variant="outline" size="icon" onClick={() => changeMonth(addMonths(month, 1))}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Mes siguiente</span>
+          </Button>
+        </div>
       </CardHeader>
-      <CardContent className="p-0">
-        <ScrollArea className="h-[350px]">
-          <div className="space-y-1 p-4">
-            {invoices.map((item: InvoicingCalendarItem) => {
-              const { icon: StatusIcon, color: statusColor, bgColor: statusBgColor } = getStatusProps(item.status);
-              const typeColor = getTypeColor(item.type);
-              const formattedDate = format(new Date(item.date), 'dd MMM', { locale: es });
-              
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4 text-xs text-textSecondary">
+          {LEGEND.map(status => (
+            <div key={status} className="flex items-center gap-1">
+              <span className={`h-2 w-2 rounded-full ${getStatusProps(status).dotColor}`} />
+              {status}
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="ml-3 text-textSecondary">Cargando documentos...</p>
+          </div>
+        ) : isError ? (
+          <div className="flex items-center justify-center h-64 text-error">
+            <XCircle className="h-8 w-8 mr-2" />
+            <p>Error al cargar la actividad de facturación.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-7 gap-1">
+            {WEEK_DAYS.map(day => (
+              <div key={day} className="text-center text-xs font-semibold text-textSecondary py-1">{day}</div>
+            ))}
+            {days.map(day => {
+              const dayKey = format(day, 'yyyy-MM-dd');
+              const dayItems = itemsByDay.get(dayKey) || [];
+              const isSelected = selectedDay === dayKey;
+
               return (
-                <div 
-                  key={item.id} 
-                  className="flex items-center justify-between p-3 rounded-lg transition-colors duration-200 hover:bg-card/50 border-b border-border/50 last:border-b-0"
+                <div
+                  key={dayKey}
+                  onClick={() => setSelectedDay(dayItems.length > 0 ? dayKey : null)}
+                  className={`min-h-[88px] p-1 rounded-md border text-left transition-colors duration-200 ${
+                    isSameMonth(day, month) ? 'bg-card/50' : 'bg-transparent opacity-40'
+                  } ${isSelected ? 'border-primary' : 'border-border/50'} ${dayItems.length > 0 ? 'cursor-pointer hover:bg-card' : ''}`}
                 >
-                  {/* Fecha y Tipo */}
-                  <div className="flex items-center space-x-4">
-                    <div className={`flex flex-col items-center justify-center w-12 h-12 rounded-full ${statusBgColor} border border-border/50`}>
-                      <p className="text-xs font-bold text-textSecondary uppercase">{formattedDate.split(' ')[0]}</p>
-                      <p className="text-xs text-textSecondary uppercase">{formattedDate.split(' ')[1]}</p>
-                    </div>
-                    
-                    <div>
-                      <p className={`text-sm font-semibold ${typeColor}`}>{item.type} <span className="text-textSecondary/70 font-normal">({item.serie})</span></p>
-                      <p className="text-xs text-textSecondary truncate max-w-[150px]">{item.clientName}</p>
-                    </div>
-                  </div>
-
-                  {/* Monto y Estado */}
-                  <div className="flex flex-col items-end">
-                    <p className={`text-base font-bold ${item.amount < 0 ? 'text-error' : 'text-success'}`}>
-                      {item.amount.toLocaleString('es-PE', { style: 'currency', currency: 'PEN' })}
-                    </p>
-                    <div className="flex items-center mt-1">
-                      <StatusIcon className={`h-3 w-3 mr-1 ${statusColor}`} />
-                      <span className={`text-xs font-medium ${statusColor}`}>{item.status}</span>
-                    </div>
+                  <p className={`text-xs font-bold ${isToday(day) ? 'text-primary' : 'text-textSecondary'}`}>{format(day, 'd')}</p>
+                  <div className="space-y-0.5 mt-1">
+                    {dayItems.slice(0, MAX_ITEMS_PER_DAY).map(item => {
+                      const { bgColor, dotColor } = getStatusProps(item.status);
+                      return (
+                        <button
+                          key={item.key}
+                          type="button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            setSelectedItem(item);
+                          }}
+                          className={`w-full flex items-center gap-1 rounded px-1 text-[10px] leading-4 truncate ${bgColor}`}
+                        >
+                          <span className={`h-1.5 w-1.5 shrink-0 rounded-full ${dotColor}`} />
+                          <span className="truncate">{item.serie}</span>
+                        </button>
+                      );
+                    })}
+                    {dayItems.length > MAX_ITEMS_PER_DAY && (
+                      <p className="text-[10px] text-textSecondary px-1">+{dayItems.length - MAX_ITEMS_PER_DAY} más</p>
+                    )}
                   </div>
                 </div>
               );
             })}
           </div>
-        </ScrollArea>
+        )}
+
+        {selectedDay && selectedDayItems.length > 0 && (
+          <div className="border-t border-border pt-4">
+            <p className="text-sm font-semibold mb-2 capitalize">
+              {format(new Date(`${selectedDay}T00:00:00`), "EEEE d 'de' MMMM", { locale: es })}
+            </p>
+            <ScrollArea className="max-h-[300px]">
+              <div className="space-y-1">
+                {selectedDayItems.map(item => {
+                  const { icon: StatusIcon, color: statusColor } = getStatusProps(item.status);
+                  return (
+                    <div
+                      key={item.key}
+                      onClick={() => setSelectedItem(item)}
+                      className="flex items-center justify-between p-3 rounded-lg cursor-pointer transition-colors duration-200 hover:bg-card/50 border-b border-border/50 last:border-b-0"
+                    >
+                      <div>
+                        <p className={`text-sm font-semibold ${getTypeColor(item.type)}`}>{item.type} <span className="text-textSecondary/70 font-normal">({item.serie})</span></p>
+                        <p className="text-xs text-textSecondary truncate max-w-[220px]">{item.clientName}</p>
+                      </div>
+                      <div className="flex flex-col items-end">
+                        <p className={`text-base font-bold ${item.amount !== null && item.amount < 0 ? 'text-error' : 'text-success'}`}>
+                          {formatAmount(item)}
+                        </p>
+                        <div className="flex items-center mt-1">
+                          <StatusIcon className={`h-3 w-3 mr-1 ${statusColor}`} />
+                          <span className={`text-xs font-medium ${statusColor}`}>{item.status}</span>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        {!isLoading && !isError && invoices?.length === 0 && (
+          <div className="flex items-center justify-center text-textSecondary text-sm">
+            <FileText className="h-4 w-4 mr-2" />
+            <p>No hay documentos emitidos en este mes.</p>
+          </div>
+        )}
       </CardContent>
+
+      <Sheet open={!!selectedItem} onOpenChange={(open) => !open && setSelectedItem(null)}>
+        <SheetContent className="bg-surface border-border">
+          {selectedItem && (() => {
+            const { icon: StatusIcon, color: statusColor } = getStatusProps(selectedItem.status);
+            return (
+              <>
+                <SheetHeader>
+                  <SheetTitle className={getTypeColor(selectedItem.type)}>{selectedItem.type} {selectedItem.serie}</SheetTitle>
+                  <SheetDescription>
+                    {format(new Date(`${selectedItem.date}T00:00:00`), "d 'de' MMMM 'de' yyyy", { locale: es })}
+                  </SheetDescription>
+                </SheetHeader>
+                <div className="mt-6 space-y-4 text-sm">
+                  <div className="flex flex-col">
+                    <span className="text-textSecondary">Cliente / Detalle:</span>
+                    <span className="font-semibold">{selectedItem.clientName}</span>
+                  </div>
+                  {selectedItem.documentoAfectado && (
+                    <div className="flex flex-col">
+                      <span className="text-textSecondary">Documento Modificado:</span>
+                      <span className="font-semibold">{selectedItem.documentoAfectado}</span>
+                    </div>
+                  )}
+                  <div className="flex flex-col">
+                    <span className="text-textSecondary">Monto:</span>
+                    <span className="font-bold text-lg">{formatAmount(selectedItem)}</span>
+                  </div>
+                  <div className="flex flex-col">
+                    <span className="text-textSecondary">Estado:</span>
+                    <span className={`flex items-center font-semibold ${statusColor}`}>
+                      <StatusIcon className="h-4 w-4 mr-1" />
+                      {selectedItem.status}
+                      {selectedItem.estadoSunat && <span className="ml-2 text-xs text-textSecondary">({selectedItem.estadoSunat})</span>}
+                    </span>
+                  </div>
+                  <div className="flex flex-col gap-2 pt-4 border-t border-border">
+                    {[
+                      { label: 'PDF', url: selectedItem.pdfUrl, icon: FileText },
+                      { label: 'XML', url: selectedItem.xmlUrl, icon: FileCode },
+                      { label: 'CDR', url: selectedItem.cdrUrl, icon: FileCheck },
+                    ].map(({ label, url, icon: Icon }) => url ? (
+                      <Button key={label} variant="outline" asChild>
+                        <a href={url} target="_blank" rel="noopener noreferrer">
+                          <Icon className="mr-2 h-4 w-4" />
+                          Descargar {label}
+                        </a>
+                      </Button>
+                    ) : (
+                      <Button key={label} variant="outline" disabled>
+                        <Icon className="mr-2 h-4 w-4" />
+                        {label} no disponible
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            );
+          })()}
+        </SheetContent>
+      </Sheet>
     </Card>
   );
 };
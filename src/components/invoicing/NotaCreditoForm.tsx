@@ -6,14 +6,21 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Loader2, Send, Search, RotateCcw, Info, CheckCircle } from 'lucide-react';
-import { NotaCreditoFormValues, NotaCreditoFormSchema, DocumentoAfectado, NotaCreditoPayload, DetallePayloadSchema } from '@/lib/types/invoicing';
+import { Loader2, Send, Search, RotateCcw, Info, CheckCircle, Mail } from 'lucide-react';
+import { NotaCreditoFormValues, NotaCreditoFormSchema, DocumentoAfectado, NotaCreditoPayload, DetallePayloadSchema, DetalleBoletaSchema } from '@/lib/types/invoicing';
 import { 
   fetchDocumentoAfectado, 
+  fetchMontoAcreditado,
   issueNotaCredito,
   sendNotaCreditoToSunat,
-  updateIncomeOnCreditNote,
+  saveNotaCreditoToDb,
+  updateNotaCreditoStatusInDb,
+  createIncomeFromCreditNote,
+  registerCorrelativoEmitido,
+  fetchNotaCreditoPdfBlob,
 } from '@/lib/api/invoicingApi';
+import SerieSelect from './SerieSelect';
+import EnviarCorreoDialog from './EnviarCorreoDialog';
 import { useToast } from '@/components/ui/use-toast';
 import { 
   DEFAULT_SERIE_NOTA_CREDITO_BOLETA,
@@ -23,11 +30,28 @@ import {
   COMPANY_ID,
   BRANCH_ID,
 } from '@/lib/constants';
-import { useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { buildLineasNotaCredito, calculateInvoiceTotals, getModoNotaCredito, SeleccionLineaNota } from '@/lib/invoicingCalculations';
+import { formatCurrency } from '@/lib/utils';
 
 const getTodayDate = () => new Date().toISOString().split('T')[0];
 
+// Solo los clientes que son socios tienen un UUID; el historial de correos se enlaza con ellos.
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface IssuedCreditNote {
+  id: number;
+  numero_completo: string;
+  // Datos para enviar la nota por correo
+  socioId: string | null;
+  cliente: string;
+  email: string;
+  monto: string;
+  fecha: string;
+  devolucionRegistrada: boolean;
+}
+
 const defaultValues: NotaCreditoFormValues = {
   documento_afectado_tipo: 'boleta',
   documento_afectado_serie: '',
@@ -54,32 +78,13 @@ const defaultValues: NotaCreditoFormValues = {
   detalles: [],
 };
 
-const transformDataToPayload = (data: NotaCreditoFormValues, originalDocument: DocumentoAfectado): NotaCreditoPayload => {
-    const isAnulacion = ['01', '02', '06'].includes(data.motivo_codigo);
-    
-    let payloadDetalles: z.infer<typeof DetallePayloadSchema>[] = [];
-
-    if (isAnulacion && originalDocument.detalles.length > 0) {
-        const totalAmountWithTax = originalDocument.mto_imp_venta;
-        const taxPercentage = originalDocument.detalles[0].porcentaje_igv;
-        const preTaxAmount = parseFloat((totalAmountWithTax / (1 + taxPercentage / 100)).toFixed(2));
-
-        payloadDetalles.push({
-            codigo: 'ANULADO',
-            descripcion: 'OPERACION ANULADA COMPLETAMENTE',
-            unidad: 'ZZ',
-            cantidad: 1,
-            mto_valor_unitario: preTaxAmount,
-            porcentaje_igv: taxPercentage,
-            tip_afe_igv: originalDocument.detalles[0].tip_afe_igv,
-        });
-    } else {
-        payloadDetalles = data.detalles.map(d => ({
-            ...d,
-            // NOTE: mto_valor_unitario en el formulario es con IGV. El payload lo requiere sin IGV.
-            mto_valor_unitario: parseFloat((d.mto_valor_unitario / (1 + d.porcentaje_igv / 100)).toFixed(2)),
-        }));
-    }
+const transformDataToPayload = (data: NotaCreditoFormValues, lineasNota: z.infer<typeof DetalleBoletaSchema>[], branchId: number): NotaCreditoPayload => {
+    // Las líneas conservan la afectación de la línea original, así SUNAT recibe las bases e IGV separados.
+    const payloadDetalles: z.infer<typeof DetallePayloadSchema>[] = lineasNota.map(d => ({
+        ...d,
+        // NOTE: mto_valor_unitario en el formulario es con IGV. El payload lo requiere sin IGV.
+        mto_valor_unitario: parseFloat((d.mto_valor_unitario / (1 + d.porcentaje_igv / 100)).toFixed(2)),
+    }));
 
     const clientPayload = { ...data.client };
     // El ID del cliente en el formulario es un string (UUID) o undefined.
@@ -88,7 +93,7 @@ const transformDataToPayload = (data: NotaCreditoFormValues, originalDocument: D
 
     const payload: NotaCreditoPayload = {
         company_id: COMPANY_ID,
-        branch_id: BRANCH_ID,
+        branch_id: branchId,
         serie: data.serie,
         fecha_emision: data.fecha_emision,
         moneda: data.moneda,
@@ -123,7 +128,14 @@ const NotaCreditoForm = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [documentoEncontrado, setDocumentoEncontrado] = useState<DocumentoAfectado | null>(null);
-  const [issuedCreditNote, setIssuedCreditNote] = useState<{ id: number; numero_completo: string } | null>(null);
+  const [issuedCreditNote, setIssuedCreditNote] = useState<IssuedCreditNote | null>(null);
+  const [isCorreoOpen, setIsCorreoOpen] = useState(false);
+  // Sucursal de la serie elegida; se envía como branch_id a la API de facturación.
+  const [serieBranchId, setSerieBranchId] = useState(BRANCH_ID);
+  // Monto ya cubierto por notas de crédito anteriores del mismo comprobante.
+  const [montoAcreditado, setMontoAcreditado] = useState(0);
+  const [seleccion, setSeleccion] = useState<SeleccionLineaNota[]>([]);
+  const [descuentoGlobal, setDescuentoGlobal] = useState(0);
 
   const form = useForm<NotaCreditoFormValues>({
     resolver: zodResolver(NotaCreditoFormSchema),
@@ -131,6 +143,13 @@ const NotaCreditoForm = () => {
     mode: 'onChange',
   });
 
+  const documentoAfectadoTipo = form.watch('documento_afectado_tipo');
+
+  const handleSerieChange = useCallback((serie: string, branchId: number) => {
+    form.setValue('serie', serie, { shouldValidate: true });
+    setSerieBranchId(branchId);
+  }, [form]);
+
   const { fields, replace } = useFieldArray({
     control: form.control,
     name: 'detalles',
@@ -146,6 +165,9 @@ const NotaCreditoForm = () => {
     setIsSearching(true);
     setDocumentoEncontrado(null);
     setIssuedCreditNote(null);
+    setMontoAcreditado(0);
+    setSeleccion([]);
+    setDescuentoGlobal(0);
     form.reset({ ...defaultValues, documento_afectado_tipo, documento_afectado_serie, documento_afectado_numero });
 
     try {
@@ -179,7 +201,11 @@ const NotaCreditoForm = () => {
           id: sanitizedClientId, // Aseguramos que sea string | undefined
         };
 
+        const acreditado = await fetchMontoAcreditado(`${documento_afectado_serie}-${documento_afectado_numero}`);
+
         setDocumentoEncontrado(result);
+        setMontoAcreditado(acreditado);
+        setSeleccion(result.detalles.map(() => ({ cantidad: 0, descuento: 0 })));
         form.setValue('client', sanitizedClient);
         form.setValue('moneda', result.moneda);
         replace(result.detalles);
@@ -200,17 +226,48 @@ const NotaCreditoForm = () => {
     setDocumentoEncontrado(null);
     setIssuedCreditNote(null);
     setIsSubmitting(false);
+    setMontoAcreditado(0);
+    setSeleccion([]);
+    setDescuentoGlobal(0);
+  };
+
+  const updateSeleccion = (index: number, changes: Partial<SeleccionLineaNota>) => {
+    setSeleccion(prev => prev.map((linea, i) => (i === index ? { ...linea, ...changes } : linea)));
   };
 
+  const selectedReasonCode = form.watch('motivo_codigo');
+  const modo = getModoNotaCredito(selectedReasonCode);
+
+  const lineasNota = useMemo(
+    () => (documentoEncontrado ? buildLineasNotaCredito(modo, documentoEncontrado.detalles, seleccion, descuentoGlobal) : []),
+    [documentoEncontrado, modo, seleccion, descuentoGlobal]
+  );
+  const totalesNota = useMemo(() => calculateInvoiceTotals(lineasNota), [lineasNota]);
+  const saldoPorAcreditar = documentoEncontrado ? parseFloat((documentoEncontrado.mto_imp_venta - montoAcreditado).toFixed(2)) : 0;
+  const excedeSaldo = totalesNota.mto_imp_venta > saldoPorAcreditar;
+
   const onSubmit = async (data: NotaCreditoFormValues) => {
     if (!documentoEncontrado) {
         toast({ title: "Error", description: "No hay un documento original cargado.", variant: "destructive" });
         return;
     }
+    if (totalesNota.mto_imp_venta <= 0) {
+        toast({ title: "Sin Monto a Acreditar", description: "Indique las cantidades o el descuento de la nota de crédito.", variant: "warning" });
+        return;
+    }
     setIsSubmitting(true);
+    const originalSerieNumero = `${data.documento_afectado_serie}-${data.documento_afectado_numero}`;
     try {
+        // 0. Verificar el saldo justo antes de emitir: otra nota pudo registrarse desde la búsqueda
+        const acreditado = await fetchMontoAcreditado(originalSerieNumero);
+        const saldo = parseFloat((documentoEncontrado.mto_imp_venta - acreditado).toFixed(2));
+        if (totalesNota.mto_imp_venta > saldo) {
+            setMontoAcreditado(acreditado);
+            throw new Error(`El monto de la nota (${totalesNota.mto_imp_venta.toFixed(2)}) supera el saldo por acreditar del comprobante (${saldo.toFixed(2)}).`);
+        }
+
         // 1. Crear Payload y emitir la Nota de Crédito
-        const payload = transformDataToPayload(data, documentoEncontrado);
+        const payload = transformDataToPayload(data, lineasNota, serieBranchId);
         const response = await issueNotaCredito(payload);
 
         if (!response.success) {
@@ -219,26 +276,70 @@ const NotaCreditoForm = () => {
         
         const newCreditNoteId = response.data.id;
         const newCreditNoteNumero = response.data.numero_completo;
-        setIssuedCreditNote({ id: newCreditNoteId, numero_completo: newCreditNoteNumero });
-        toast({ title: "Paso 1/3: Nota de Crédito Creada", description: `Documento ${newCreditNoteNumero} generado.`, variant: "success" });
+        const socioId = data.client.id && UUID_REGEX.test(data.client.id) ? data.client.id : null;
+        setIssuedCreditNote({
+          id: newCreditNoteId,
+          numero_completo: newCreditNoteNumero,
+          socioId,
+          cliente: data.client.razon_social,
+          email: data.client.email || '',
+          monto: formatCurrency(totalesNota.mto_imp_venta, data.moneda),
+          fecha: data.fecha_emision,
+          devolucionRegistrada: false,
+        });
+        registerCorrelativoEmitido('07', newCreditNoteNumero).catch(err => console.error("No se pudo actualizar el correlativo de la serie:", err));
+        toast({ title: "Paso 1/4: Nota de Crédito Creada", description: `Documento ${newCreditNoteNumero} generado.`, variant: "success" });
+
+        const creditNoteAmount = totalesNota.mto_imp_venta;
+
+        // 2. Registrar la Nota de Crédito enlazada al comprobante original antes de enviarla: de este
+        //    registro sale el monto ya acreditado, así que sin él no se envía a SUNAT.
+        let notaCreditoDbId: number;
+        try {
+            const [serie, numero] = newCreditNoteNumero.split('-');
+            notaCreditoDbId = await saveNotaCreditoToDb({
+                serie: serie || data.serie,
+                numero: numero || '',
+                fecha_emision: data.fecha_emision,
+                moneda: data.moneda,
+                monto_total: creditNoteAmount,
+                documento_afectado_serie_numero: originalSerieNumero,
+                motivo_codigo: data.motivo_codigo,
+                motivo_descripcion: data.motivo_descripcion,
+                boleta_id: documentoEncontrado.origen === 'boletas_electronicas' ? documentoEncontrado.id : null,
+                factura_id: documentoEncontrado.origen === 'facturas_electronicas' ? documentoEncontrado.id : null,
+                api_credit_note_id: newCreditNoteId,
+                estado_sunat: response.data.sunat_status || 'PENDIENTE',
+                pdf_path: response.data.pdf_path ?? null,
+                xml_path: response.data.xml_path ?? null,
+                cdr_path: response.data.cdr_path ?? null,
+            });
+            toast({ title: "Paso 2/4: Nota de Crédito Registrada", description: "El documento quedó enlazado al comprobante original.", variant: "success" });
+        } catch (dbError) {
+            console.error("Error al registrar la nota de crédito:", dbError);
+            const dbMessage = dbError instanceof Error ? dbError.message : "Error desconocido.";
+            throw new Error(`La nota ${newCreditNoteNumero} se generó pero no se pudo registrar, por lo que no se envió a SUNAT ni se registró la devolución. ${dbMessage}`);
+        }
 
-        // 2. Enviar la Nota de Crédito a SUNAT
+        // 3. Enviar la Nota de Crédito a SUNAT
         try {
             await sendNotaCreditoToSunat(newCreditNoteId);
-            toast({ title: "Paso 2/3: Enviado a SUNAT", description: "El comprobante ha sido enviado para validación.", variant: "success" });
+            toast({ title: "Paso 3/4: Enviado a SUNAT", description: "El comprobante ha sido enviado para validación.", variant: "success" });
+            updateNotaCreditoStatusInDb(notaCreditoDbId, 'ENVIADO').catch(err => console.error("No se pudo actualizar el estado de la nota de crédito:", err));
         } catch (sunatError) {
             console.error("Error al enviar a SUNAT:", sunatError);
-            toast({ title: "Error Crítico en Paso 2", description: "No se pudo enviar a SUNAT. La NC fue creada pero debe enviarse manualmente.", variant: "destructive" });
+            toast({ title: "Error Crítico en Paso 3", description: "No se pudo enviar a SUNAT. La NC fue creada pero debe enviarse manualmente.", variant: "destructive" });
         }
 
-        // 3. Actualizar el registro de ingreso original
+        // 4. Registrar la devolución como un nuevo ingreso negativo
         try {
-            const originalSerieNumero = `${data.documento_afectado_serie}-${data.documento_afectado_numero}`;
-            await updateIncomeOnCreditNote(originalSerieNumero, documentoEncontrado.mto_imp_venta, newCreditNoteNumero);
-            toast({ title: "Paso 3/3: Ingreso Original Actualizado", description: "El registro de ingreso ha sido modificado.", variant: "success" });
+            await createIncomeFromCreditNote(originalSerieNumero, creditNoteAmount, newCreditNoteNumero, data.fecha_emision);
+            setIssuedCreditNote(prev => prev && { ...prev, devolucionRegistrada: true });
+            toast({ title: "Paso 4/4: Devolución Registrada", description: `Se registró un ingreso de -${creditNoteAmount.toFixed(2)}.`, variant: "success" });
         } catch (incomeError) {
-            console.error("Error al actualizar ingreso:", incomeError);
-            toast({ title: "Advertencia en Paso 3", description: "No se pudo actualizar el registro de ingreso original.", variant: "warning" });
+            console.error("Error al registrar la devolución:", incomeError);
+            const incomeMessage = incomeError instanceof Error ? incomeError.message : "Error desconocido.";
+            toast({ title: "Advertencia en Paso 4", description: `No se registró el ingreso de devolución. ${incomeMessage}`, variant: "warning" });
         }
 
     } catch (error) {
@@ -259,23 +360,40 @@ const NotaCreditoForm = () => {
     });
   };
 
-  const selectedReasonCode = form.watch('motivo_codigo');
-  const isAnulacion = ['01', '02', '06'].includes(selectedReasonCode);
-
   if (issuedCreditNote) {
     return (
       <Card className="bg-surface border-success/50 shadow-xl text-center p-8">
         <CheckCircle className="mx-auto h-16 w-16 text-success mb-4" />
         <CardTitle className="text-2xl text-success">¡Nota de Crédito Emitida con Éxito!</CardTitle>
         <CardDescription className="text-lg mt-2">
-          El documento <span className="font-bold text-white">{issuedCreditNote.numero_completo}</span> ha sido procesado y el ingreso original ha sido actualizado.
+          El documento <span className="font-bold text-white">{issuedCreditNote.numero_completo}</span> ha sido procesado{issuedCreditNote.devolucionRegistrada
+            ? ' y la devolución quedó registrada en ingresos.'
+            : '. La devolución no se registró en ingresos: regístrela manualmente.'}
         </CardDescription>
-        <CardContent className="mt-6 flex justify-center">
+        <CardContent className="mt-6 flex flex-col md:flex-row justify-center gap-4">
+          <Button onClick={() => setIsCorreoOpen(true)} className="w-full md:w-auto">
+            <Mail className="mr-2 h-4 w-4" />
+            Enviar por Correo
+          </Button>
           <Button onClick={handleReset} variant="outline" className="w-full md:w-auto">
             <RotateCcw className="mr-2 h-4 w-4" />
             Emitir Nueva Nota de Crédito
           </Button>
         </CardContent>
+        <EnviarCorreoDialog
+          open={isCorreoOpen}
+          onOpenChange={setIsCorreoOpen}
+          tipo="nota_credito"
+          socioId={issuedCreditNote.socioId}
+          destinatario={issuedCreditNote.email}
+          variables={{
+            cliente: issuedCreditNote.cliente,
+            documento: issuedCreditNote.numero_completo,
+            monto: issuedCreditNote.monto,
+            fecha: new Date(issuedCreditNote.fecha + 'T00:00:00').toLocaleDateString('es-PE'),
+          }}
+          obtenerPdf={() => fetchNotaCreditoPdfBlob(issuedCreditNote.id)}
+        />
       </Card>
     );
   }
@@ -372,15 +490,46 @@ const NotaCreditoForm = () => {
                   <span className="text-textSecondary">Monto Total:</span>
                   <span className="font-bold text-lg text-secondary">{documentoEncontrado.moneda} {documentoEncontrado.mto_imp_venta.toFixed(2)}</span>
                 </div>
+                {montoAcreditado > 0 && (
+                  <>
+                    <div className="flex flex-col">
+                      <span className="text-textSecondary">Acreditado en Notas Anteriores:</span>
+                      <span className="font-semibold text-base">{formatCurrency(montoAcreditado, documentoEncontrado.moneda)}</span>
+                    </div>
+                    <div className="flex flex-col">
+                      <span className="text-textSecondary">Saldo por Acreditar:</span>
+                      <span className="font-bold text-lg text-primary">{formatCurrency(saldoPorAcreditar, documentoEncontrado.moneda)}</span>
+                    </div>
+                  </>
+                )}
               </CardContent>
             </Card>
 
             {/* SECCIÓN 2: MOTIVO DE LA NOTA DE CRÉDITO */}
             <Card className="bg-surface border-accent/30 shadow-xl">
               <CardHeader>
-                <CardTitle className="text-xl text-accent">2. Motivo de la Emisión</CardTitle>
+                <CardTitle className="text-xl text-accent">2. Serie y Motivo de la Emisión</CardTitle>
               </CardHeader>
-              <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <FormField
+                  control={form.control}
+                  name="serie"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Serie de la Nota</FormLabel>
+                      <FormControl>
+                        <SerieSelect
+                          tipoDocumento="07"
+                          tipoDocumentoAfectado={documentoAfectadoTipo === 'boleta' ? '03' : '01'}
+                          value={field.value}
+                          fallbackSerie={documentoAfectadoTipo === 'boleta' ? DEFAULT_SERIE_NOTA_CREDITO_BOLETA : DEFAULT_SERIE_NOTA_CREDITO_FACTURA}
+                          onChange={handleSerieChange}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="motivo_codigo"
@@ -424,30 +573,98 @@ const NotaCreditoForm = () => {
             {/* SECCIÓN 3: DETALLES Y TOTALES */}
             <Card className="bg-surface border-primary/30 shadow-xl">
               <CardHeader>
-                <CardTitle className="text-xl text-primary">3. Detalles del Comprobante Original</CardTitle>
+                <CardTitle className="text-xl text-primary">3. Detalle de la Nota de Crédito</CardTitle>
+                <CardDescription>
+                  {modo === 'total' && 'Se acreditan todas las líneas del comprobante original.'}
+                  {modo === 'items' && 'Indique cuántas unidades de cada línea se devuelven.'}
+                  {modo === 'descuento_item' && 'Indique el descuento (con IGV) que corresponde a cada línea.'}
+                  {modo === 'descuento_global' && 'El descuento se reparte entre las líneas en proporción a su importe.'}
+                </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                {isAnulacion && (
+                {modo === 'total' && (
                   <Alert variant="default" className="bg-primary/10 border-primary/30 text-primary">
                     <Info className="h-4 w-4 !text-primary" />
                     <AlertTitle>Modo Anulación</AlertTitle>
                     <AlertDescription>
-                      Para motivos de anulación, todos los items del documento original se incluirán como un único monto total en la nota de crédito.
+                      Para motivos de anulación, la nota de crédito incluye todas las líneas del documento original por su importe total.
                     </AlertDescription>
                   </Alert>
                 )}
-                {fields.map((item) => (
+                {documentoEncontrado.origen === 'ingresos' && (
+                  <Alert variant="default" className="bg-warning/10 border-warning/30 text-warning">
+                    <Info className="h-4 w-4 !text-warning" />
+                    <AlertTitle>Detalle Reconstruido</AlertTitle>
+                    <AlertDescription>
+                      Este comprobante se emitió antes del registro de boletas, por lo que su detalle se generó a partir del ingreso (un solo ítem con IGV 18%). No es posible una devolución por ítem.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {fields.map((item, index) => (
                   <div key={item.id} className="p-4 border border-border rounded-lg bg-card/50 space-y-2">
                     <p className="font-semibold">{item.descripcion}</p>
                     <div className="flex justify-between text-sm text-textSecondary">
                       <span>Cantidad: {item.cantidad}</span>
-                      <span>P. Unitario (con IGV): S/ {Number(item.mto_valor_unitario).toFixed(2)}</span>
-                      <span>Subtotal: S/ {(Number(item.cantidad) * Number(item.mto_valor_unitario)).toFixed(2)}</span>
+                      <span>P. Unitario (con IGV): {formatCurrency(Number(item.mto_valor_unitario), documentoEncontrado.moneda)}</span>
+                      <span>Subtotal: {formatCurrency(Number(item.cantidad) * Number(item.mto_valor_unitario), documentoEncontrado.moneda)}</span>
                     </div>
+                    {modo === 'items' && (
+                      <div className="flex items-center justify-end gap-2 text-sm">
+                        <label htmlFor={`nc-cantidad-${index}`} className="text-textSecondary">Cantidad a devolver:</label>
+                        <Input
+                          id={`nc-cantidad-${index}`}
+                          type="number"
+                          min={0}
+                          max={item.cantidad}
+                          step="any"
+                          className="w-28"
+                          value={seleccion[index]?.cantidad ?? 0}
+                          onChange={(e) => updateSeleccion(index, { cantidad: Math.min(Number(e.target.value) || 0, Number(item.cantidad)) })}
+                        />
+                      </div>
+                    )}
+                    {modo === 'descuento_item' && (
+                      <div className="flex items-center justify-end gap-2 text-sm">
+                        <label htmlFor={`nc-descuento-${index}`} className="text-textSecondary">Descuento (con IGV):</label>
+                        <Input
+                          id={`nc-descuento-${index}`}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          className="w-28"
+                          value={seleccion[index]?.descuento ?? 0}
+                          onChange={(e) => updateSeleccion(index, { descuento: Number(e.target.value) || 0 })}
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
-                <div className="text-right font-bold text-xl mt-4">
-                  Total a Anular/Corregir: S/ {documentoEncontrado.mto_imp_venta.toFixed(2)}
+                {modo === 'descuento_global' && (
+                  <div className="flex items-center justify-end gap-2">
+                    <label htmlFor="nc-descuento-global" className="text-textSecondary">Monto del descuento (con IGV):</label>
+                    <Input
+                      id="nc-descuento-global"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      className="w-36"
+                      value={descuentoGlobal}
+                      onChange={(e) => setDescuentoGlobal(Number(e.target.value) || 0)}
+                    />
+                  </div>
+                )}
+                <div className="flex flex-col items-end gap-1 pt-4 border-t border-border text-sm">
+                  {totalesNota.mto_oper_gravadas > 0 && <p className="text-textSecondary">Op. Gravadas: {formatCurrency(totalesNota.mto_oper_gravadas, documentoEncontrado.moneda)}</p>}
+                  {totalesNota.mto_oper_exoneradas > 0 && <p className="text-textSecondary">Op. Exoneradas: {formatCurrency(totalesNota.mto_oper_exoneradas, documentoEncontrado.moneda)}</p>}
+                  {totalesNota.mto_oper_inafectas > 0 && <p className="text-textSecondary">Op. Inafectas: {formatCurrency(totalesNota.mto_oper_inafectas, documentoEncontrado.moneda)}</p>}
+                  {totalesNota.mto_oper_exportacion > 0 && <p className="text-textSecondary">Op. Exportación: {formatCurrency(totalesNota.mto_oper_exportacion, documentoEncontrado.moneda)}</p>}
+                  <p className="text-textSecondary">IGV: {formatCurrency(totalesNota.mto_igv, documentoEncontrado.moneda)}</p>
+                  <p className="font-bold text-xl mt-2">Total de la Nota de Crédito: {formatCurrency(totalesNota.mto_imp_venta, documentoEncontrado.moneda)}</p>
+                  {excedeSaldo && (
+                    <p className="text-error font-medium">
+                      Supera el saldo por acreditar del comprobante ({formatCurrency(saldoPorAcreditar, documentoEncontrado.moneda)}).
+                    </p>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -456,7 +673,7 @@ const NotaCreditoForm = () => {
               <Button 
                 type="submit" 
                 className="w-full py-6 text-lg font-semibold"
-                disabled={isSubmitting}
+                disabled={isSubmitting || excedeSaldo || totalesNota.mto_imp_venta <= 0}
               >
                 {isSubmitting ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Send className="mr-2 h-5 w-5" />}
                 Emitir Nota de Crédito
@@ -0,0 +1,640 @@
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, Send, Search, RotateCcw, CheckCircle, PlusCircle, Trash2, Banknote } from 'lucide-react';
+import { NotaDebitoFormValues, NotaDebitoFormSchema, DocumentoAfectado, NotaDebitoPayload } from '@/lib/types/invoicing';
+import {
+  fetchDocumentoAfectado,
+  issueNotaDebito,
+  sendNotaDebitoToSunat,
+  saveNotaDebitoToDb,
+  createIncomeFromDebitNote,
+  toJsonDetalles,
+} from '@/lib/api/invoicingApi';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  DEFAULT_SERIE_NOTA_DEBITO_BOLETA,
+  DEFAULT_SERIE_NOTA_DEBITO_FACTURA,
+  DEBIT_NOTE_REASONS,
+  DEFAULT_MONEDA,
+  COMPANY_ID,
+  BRANCH_ID,
+  TIPO_AFECTACION_IGV,
+} from '@/lib/constants';
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { calculateBaseValue, calculateInvoiceTotals } from '@/lib/invoicingCalculations';
+import { formatCurrency } from '@/lib/utils';
+
+const getTodayDate = () => new Date().toISOString().split('T')[0];
+
+const defaultCargo = {
+  codigo: 'CARGO001',
+  descripcion: 'Intereses moratorios',
+  unidad: 'ZZ',
+  cantidad: 1,
+  mto_valor_unitario: 0,
+  porcentaje_igv: 18,
+  tip_afe_igv: '10',
+  codigo_producto_sunat: '',
+};
+
+const defaultValues: NotaDebitoFormValues = {
+  documento_afectado_tipo: 'boleta',
+  documento_afectado_serie: '',
+  documento_afectado_numero: '',
+  motivo_codigo: '',
+  motivo_descripcion: '',
+  serie: DEFAULT_SERIE_NOTA_DEBITO_BOLETA,
+  fecha_emision: getTodayDate(),
+  moneda: DEFAULT_MONEDA,
+  client: {
+    tipo_documento: '',
+    numero_documento: '',
+    razon_social: '',
+    nombre_comercial: '',
+    direccion: '',
+    ubigeo: '',
+    distrito: '',
+    provincia: '',
+    departamento: '',
+    telefono: '',
+    email: '',
+    pais: '',
+  },
+  detalles: [defaultCargo],
+  create_income_record: true,
+  income_date: getTodayDate(),
+  income_numero_operacion: '',
+  income_account: 'Caja Principal',
+};
+
+const transformDataToPayload = (data: NotaDebitoFormValues): NotaDebitoPayload => ({
+  company_id: COMPANY_ID,
+  branch_id: BRANCH_ID,
+  serie: data.serie,
+  fecha_emision: data.fecha_emision,
+  moneda: data.moneda,
+  tipo_doc_afectado: data.documento_afectado_tipo === 'boleta' ? '03' : '01',
+  num_doc_afectado: `${data.documento_afectado_serie}-${data.documento_afectado_numero}`,
+  cod_motivo: data.motivo_codigo,
+  des_motivo: data.motivo_descripcion,
+  client: {
+    tipo_documento: data.client.tipo_documento,
+    numero_documento: data.client.numero_documento,
+    razon_social: data.client.razon_social,
+    nombre_comercial: data.client.nombre_comercial || undefined,
+    direccion: data.client.direccion || undefined,
+    ubigeo: data.client.ubigeo || undefined,
+    distrito: data.client.distrito || undefined,
+    provincia: data.client.provincia || undefined,
+    departamento: data.client.departamento || undefined,
+    telefono: data.client.telefono || undefined,
+    email: data.client.email || undefined,
+    pais: data.client.pais || undefined,
+  },
+  detalles: data.detalles.map(d => ({
+    ...d,
+    cantidad: Number(d.cantidad),
+    porcentaje_igv: Number(d.porcentaje_igv),
+    // NOTE: mto_valor_unitario en el formulario es con IGV. El payload lo requiere sin IGV.
+    mto_valor_unitario: d.tip_afe_igv === '10'
+      ? calculateBaseValue(Number(d.mto_valor_unitario), Number(d.porcentaje_igv))
+      : Number(d.mto_valor_unitario),
+  })),
+});
+
+const NotaDebitoForm = () => {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [documentoEncontrado, setDocumentoEncontrado] = useState<DocumentoAfectado | null>(null);
+  const [issuedDebitNote, setIssuedDebitNote] = useState<{ id: number; numero_completo: string } | null>(null);
+  const [accounts, setAccounts] = useState<{ name: string }[]>([]);
+
+  const form = useForm<NotaDebitoFormValues>({
+    resolver: zodResolver(NotaDebitoFormSchema),
+    defaultValues,
+    mode: 'onChange',
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'detalles',
+  });
+
+  const createIncomeRecord = form.watch('create_income_record');
+  const watchedDetalles = form.watch('detalles');
+  const totals = useMemo(() => calculateInvoiceTotals(watchedDetalles || []), [watchedDetalles]);
+
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      const { data, error } = await supabase.from('cuentas').select('name');
+      if (error) {
+        console.error('Error fetching accounts:', error);
+        toast({ title: "Error", description: "No se pudieron cargar las cuentas.", variant: "destructive" });
+      } else {
+        setAccounts(data || []);
+        if (data && data.length > 0 && !form.getValues('income_account')) {
+          form.setValue('income_account', data[0].name);
+        }
+      }
+    };
+    fetchAccounts();
+  }, [toast, form]);
+
+  const handleDocumentSearch = async () => {
+    const { documento_afectado_tipo, documento_afectado_serie, documento_afectado_numero } = form.getValues();
+    if (!documento_afectado_serie || !documento_afectado_numero) {
+      toast({ title: "Datos incompletos", description: "Por favor, ingrese la serie y el número del documento.", variant: "warning" });
+      return;
+    }
+
+    setIsSearching(true);
+    setDocumentoEncontrado(null);
+    setIssuedDebitNote(null);
+
+    try {
+      const result = await fetchDocumentoAfectado(documento_afectado_tipo, documento_afectado_serie, documento_afectado_numero);
+      if (result) {
+        setDocumentoEncontrado(result);
+        form.setValue('client', {
+          ...defaultValues.client,
+          ...result.client,
+          id: result.client.id ? String(result.client.id) : undefined,
+        });
+        form.setValue('moneda', result.moneda);
+        toast({ title: "Documento Encontrado", description: `Se cargaron los datos del comprobante.`, variant: "success" });
+      } else {
+        toast({ title: "No Encontrado", description: "No se encontró ningún documento con la serie y número especificados.", variant: "destructive" });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Error desconocido.";
+      toast({ title: "Error de Búsqueda", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleReset = () => {
+    form.reset(defaultValues);
+    setDocumentoEncontrado(null);
+    setIssuedDebitNote(null);
+    setIsSubmitting(false);
+  };
+
+  const onSubmit = async (data: NotaDebitoFormValues) => {
+    if (!documentoEncontrado) {
+        toast({ title: "Error", description: "No hay un documento original cargado.", variant: "destructive" });
+        return;
+    }
+    setIsSubmitting(true);
+    try {
+        // 1. Emitir la Nota de Débito
+        const response = await issueNotaDebito(transformDataToPayload(data));
+        if (!response.success) {
+            throw new Error(response.message || "Ocurrió un error desconocido al emitir.");
+        }
+
+        const newDebitNoteId = response.data.id;
+        const newDebitNoteNumero = response.data.numero_completo;
+        setIssuedDebitNote({ id: newDebitNoteId, numero_completo: newDebitNoteNumero });
+        toast({ title: "Paso 1/4: Nota de Débito Creada", description: `Documento ${newDebitNoteNumero} generado.`, variant: "success" });
+
+        let estadoSunat = response.data.sunat_status || 'PENDIENTE';
+
+        // 2. Enviar a SUNAT
+        try {
+            await sendNotaDebitoToSunat(newDebitNoteId);
+            estadoSunat = 'ENVIADO';
+            toast({ title: "Paso 2/4: Enviado a SUNAT", description: "El comprobante ha sido enviado para validación.", variant: "success" });
+        } catch (sunatError) {
+            console.error("Error al enviar a SUNAT:", sunatError);
+            toast({ title: "Error Crítico en Paso 2", description: "No se pudo enviar a SUNAT. La ND fue creada pero debe enviarse manualmente.", variant: "destructive" });
+        }
+
+        const originalSerieNumero = `${data.documento_afectado_serie}-${data.documento_afectado_numero}`;
+
+        // 3. Registrar la Nota de Débito enlazada al comprobante original
+        try {
+            const [serie, numero] = newDebitNoteNumero.split('-');
+            await saveNotaDebitoToDb({
+                serie: serie || data.serie,
+                numero: numero || '',
+                fecha_emision: data.fecha_emision,
+                moneda: data.moneda,
+                monto_total: totals.mto_imp_venta,
+                documento_afectado_serie_numero: originalSerieNumero,
+                motivo_codigo: data.motivo_codigo,
+                motivo_descripcion: data.motivo_descripcion,
+                detalles: toJsonDetalles(data.detalles),
+                boleta_id: documentoEncontrado.origen === 'boletas_electronicas' ? documentoEncontrado.id : null,
+                factura_id: documentoEncontrado.origen === 'facturas_electronicas' ? documentoEncontrado.id : null,
+                api_debit_note_id: newDebitNoteId,
+                estado_sunat: estadoSunat,
+                pdf_path: response.data.pdf_path ?? null,
+                xml_path: response.data.xml_path ?? null,
+                cdr_path: response.data.cdr_path ?? null,
+            });
+            toast({ title: "Paso 3/4: Nota de Débito Registrada", description: "El documento quedó enlazado al comprobante original.", variant: "success" });
+        } catch (dbError) {
+            console.error("Error al registrar la nota de débito:", dbError);
+            toast({ title: "Advertencia en Paso 3", description: "No se pudo registrar la nota de débito en la base de datos.", variant: "warning" });
+        }
+
+        // 4. Registrar el cargo como ingreso
+        if (data.create_income_record && data.income_date && data.income_account) {
+            try {
+                await createIncomeFromDebitNote(originalSerieNumero, { moneda: data.moneda, fecha_emision: data.fecha_emision }, {
+                    receipt_number: newDebitNoteNumero,
+                    dni: data.client.numero_documento,
+                    full_name: data.client.razon_social,
+                    amount: totals.mto_imp_venta,
+                    account: data.income_account,
+                    date: data.income_date,
+                    numeroOperacion: data.income_numero_operacion ? Number(data.income_numero_operacion) : null,
+                });
+                toast({ title: "Paso 4/4: Ingreso Registrado", description: `Se creó un ingreso por ${formatCurrency(totals.mto_imp_venta, data.moneda)}.`, variant: "success" });
+            } catch (incomeError) {
+                console.error("Error al registrar el ingreso:", incomeError);
+                const errorMessage = incomeError instanceof Error ? incomeError.message : "Error desconocido.";
+                toast({ title: "Advertencia en Paso 4", description: `No se pudo registrar el ingreso de la nota de débito: ${errorMessage}`, variant: "warning" });
+            }
+        }
+
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Error Crítico de Emisión.";
+        toast({ title: "Error Crítico de Emisión", description: errorMessage, variant: "destructive" });
+        setIssuedDebitNote(null);
+    } finally {
+        setIsSubmitting(false);
+    }
+  };
+
+  if (issuedDebitNote) {
+    return (
+      <Card className="bg-surface border-success/50 shadow-xl text-center p-8">
+        <CheckCircle className="mx-auto h-16 w-16 text-success mb-4" />
+        <CardTitle className="text-2xl text-success">¡Nota de Débito Emitida con Éxito!</CardTitle>
+        <CardDescription className="text-lg mt-2">
+          El documento <span className="font-bold text-white">{issuedDebitNote.numero_completo}</span> ha sido procesado.
+        </CardDescription>
+        <CardContent className="mt-6 flex justify-center">
+          <Button onClick={handleReset} variant="outline" className="w-full md:w-auto">
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Emitir Nueva Nota de Débito
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+
+        {/* SECCIÓN 1: BÚSQUEDA DEL DOCUMENTO A MODIFICAR */}
+        <Card className="bg-surface border-primary/30 shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-xl text-primary">1. Comprobante de Venta a Modificar</CardTitle>
+            <CardDescription>Ingrese los datos del documento original sobre el que se aplicará el cargo.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
+            <FormField
+              control={form.control}
+              name="documento_afectado_tipo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tipo</FormLabel>
+                  <Select onValueChange={(value) => {
+                      field.onChange(value);
+                      const newSerie = value === 'boleta' ? DEFAULT_SERIE_NOTA_DEBITO_BOLETA : DEFAULT_SERIE_NOTA_DEBITO_FACTURA;
+                      form.setValue('serie', newSerie);
+                  }} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccione tipo" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="boleta">Boleta de Venta</SelectItem>
+                      <SelectItem value="factura">Factura</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="documento_afectado_serie"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Serie</FormLabel>
+                  <FormControl><Input placeholder="B001" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="documento_afectado_numero"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Número</FormLabel>
+                  <FormControl><Input placeholder="12345" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" onClick={handleDocumentSearch} disabled={isSearching} className="w-full">
+              {isSearching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+              Buscar Documento
+            </Button>
+          </CardContent>
+        </Card>
+
+        {documentoEncontrado && (
+          <>
+            {/* SECCIÓN 1.5: RESUMEN DEL DOCUMENTO ENCONTRADO */}
+            <Card className="bg-surface border-secondary/30 shadow-xl">
+              <CardHeader>
+                <CardTitle className="text-xl text-secondary">Resumen del Comprobante Original</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 text-sm">
+                <div className="flex flex-col">
+                  <span className="text-textSecondary">Cliente:</span>
+                  <span className="font-semibold text-base">{documentoEncontrado.client.razon_social}</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-textSecondary">RUC/DNI:</span>
+                  <span className="font-semibold text-base">{documentoEncontrado.client.numero_documento}</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-textSecondary">Fecha Emisión:</span>
+                  <span className="font-semibold text-base">{new Date(documentoEncontrado.fecha_emision + 'T00:00:00').toLocaleDateString('es-PE', { year: 'numeric', month: 'long', day: 'numeric' })}</span>
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-textSecondary">Monto Total:</span>
+                  <span className="font-bold text-lg text-secondary">{documentoEncontrado.moneda} {documentoEncontrado.mto_imp_venta.toFixed(2)}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* SECCIÓN 2: MOTIVO DE LA NOTA DE DÉBITO */}
+            <Card className="bg-surface border-accent/30 shadow-xl">
+              <CardHeader>
+                <CardTitle className="text-xl text-accent">2. Motivo de la Emisión</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <FormField
+                  control={form.control}
+                  name="motivo_codigo"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-1">
+                      <FormLabel>Motivo SUNAT</FormLabel>
+                      <Select onValueChange={(value) => {
+                          field.onChange(value);
+                          const reasonName = DEBIT_NOTE_REASONS.find(r => r.code === value)?.name;
+                          form.setValue('motivo_descripcion', reasonName || '', { shouldValidate: true });
+                      }} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccione un motivo" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {DEBIT_NOTE_REASONS.map(reason => (
+                            <SelectItem key={reason.code} value={reason.code}>{reason.code} - {reason.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="motivo_descripcion"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Descripción del Motivo</FormLabel>
+                      <FormControl><Input placeholder="Ej: Intereses por pago fuera de plazo" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            {/* SECCIÓN 3: CARGOS */}
+            <Card className="bg-surface border-primary/30 shadow-xl">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="text-xl text-primary">3. Cargos a Aplicar</CardTitle>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => append({ ...defaultCargo })}
+                  className="text-primary hover:bg-primary/20 border-primary"
+                >
+                  <PlusCircle className="h-4 w-4 mr-2" />
+                  Agregar Cargo
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {fields.map((item, index) => (
+                  <div key={item.id} className="p-4 border border-border rounded-lg bg-card/50 relative grid grid-cols-1 md:grid-cols-6 gap-4">
+                    <FormField
+                      control={form.control}
+                      name={`detalles.${index}.descripcion`}
+                      render={({ field }) => (
+                        <FormItem className="md:col-span-2">
+                          <FormLabel>Descripción</FormLabel>
+                          <FormControl><Input {...field} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`detalles.${index}.cantidad`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cantidad</FormLabel>
+                          <FormControl><Input type="number" {...field} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`detalles.${index}.mto_valor_unitario`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Monto (con IGV)</FormLabel>
+                          <FormControl><Input type="number" step="0.01" {...field} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`detalles.${index}.tip_afe_igv`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Afectación IGV</FormLabel>
+                          <Select onValueChange={(value) => {
+                              field.onChange(value);
+                              form.setValue(`detalles.${index}.porcentaje_igv`, value === '10' ? 18 : 0);
+                          }} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Tipo" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent className="bg-card border-border">
+                              {TIPO_AFECTACION_IGV.map(type => (
+                                <SelectItem key={type.code} value={type.code}>{type.code} - {type.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="flex items-end justify-between">
+                      <div className="text-sm">
+                        <span className="text-textSecondary block">Subtotal</span>
+                        <span className="font-semibold">{(Number(watchedDetalles?.[index]?.cantidad || 0) * Number(watchedDetalles?.[index]?.mto_valor_unitario || 0)).toFixed(2)}</span>
+                      </div>
+                      {fields.length > 1 && (
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => remove(index)}
+                          className="h-8 w-8 p-0"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Eliminar cargo</span>
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                <div className="text-right space-y-1">
+                  <p className="text-sm text-textSecondary">IGV: {totals.mto_igv.toFixed(2)}</p>
+                  <p className="font-bold text-xl">Total de la Nota de Débito: {documentoEncontrado.moneda} {totals.mto_imp_venta.toFixed(2)}</p>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* SECCIÓN 4: REGISTRO DE INGRESO */}
+            <Card className="bg-surface border-success/30 shadow-xl">
+              <CardHeader>
+                <CardTitle className="text-xl text-success flex items-center">
+                  <Banknote className="mr-3 h-6 w-6" />
+                  4. Registro de Ingreso
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="create_income_record"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4 bg-card/50">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Registrar Ingreso Automáticamente</FormLabel>
+                        <p className="text-sm text-muted-foreground">
+                          Crea un ingreso positivo a nombre del cliente del comprobante original.
+                        </p>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+                {createIncomeRecord && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="income_date"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fecha del Ingreso</FormLabel>
+                          <FormControl><Input type="date" {...field} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="income_numero_operacion"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Nº de Operación (Opcional)</FormLabel>
+                          <FormControl><Input placeholder="Ej: 0012345" {...field} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="income_account"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cuenta de Destino</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Seleccione una cuenta" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {accounts.map(acc => (
+                                <SelectItem key={acc.name} value={acc.name}>{acc.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="flex flex-col md:flex-row gap-4">
+              <Button
+                type="submit"
+                className="w-full py-6 text-lg font-semibold"
+                disabled={isSubmitting || totals.mto_imp_venta <= 0}
+              >
+                {isSubmitting ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Send className="mr-2 h-5 w-5" />}
+                Emitir Nota de Débito
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleReset}
+                className="w-full py-6 text-lg font-semibold"
+              >
+                <RotateCcw className="mr-2 h-5 w-5" />
+                Cancelar / Nueva Búsqueda
+              </Button>
+            </div>
+          </>
+        )}
+      </form>
+    </Form>
+  );
+};
+
+export default NotaDebitoForm;
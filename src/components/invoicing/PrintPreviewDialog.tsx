@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Download, Loader2, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import { downloadPdfBlob, printPdfBlob } from '@/lib/printing';
+import { FormatoImpresion } from '@/lib/types/invoicing';
+import { cn } from '@/lib/utils';
+
+interface PrintPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  fileName: string;
+  formato: FormatoImpresion;
+  pdfBlob: Blob | null;
+  isLoading?: boolean;
+}
+
+/**
+ * Vista previa de un comprobante antes de imprimirlo. En formato ticket el visor toma el ancho
+ * del rollo de 80 mm, para revisar los saltos de línea tal como saldrán en la impresora térmica.
+ */
+function PrintPreviewDialog({ open, onOpenChange, title, fileName, formato, pdfBlob, isLoading }: PrintPreviewDialogProps) {
+  const [isPrinting, setIsPrinting] = useState(false);
+  const esTicket = formato === 'TICKET';
+
+  const previewUrl = useMemo(() => (pdfBlob ? window.URL.createObjectURL(pdfBlob) : null), [pdfBlob]);
+  useEffect(() => () => {
+    if (previewUrl) window.URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const handlePrint = async () => {
+    if (!pdfBlob) return;
+    setIsPrinting(true);
+    try {
+      await printPdfBlob(pdfBlob);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('No se pudo imprimir', { description: errorMessage });
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={cn('bg-surface border-border', esTicket ? 'sm:max-w-[420px]' : 'sm:max-w-[860px]')}>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {esTicket ? 'Ticket de 80 mm para impresora térmica.' : 'Formato A4.'} En el diálogo de impresión elija la impresora y desactive los márgenes.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center rounded-md bg-muted/40 p-3">
+          {isLoading || !previewUrl ? (
+            <div className="flex h-[60vh] items-center justify-center text-textSecondary">
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Preparando vista previa...
+            </div>
+          ) : (
+            <iframe
+              src={`${previewUrl}#toolbar=0&view=FitH`}
+              title={title}
+              className={cn('h-[60vh] bg-white shadow', esTicket ? 'w-[320px]' : 'w-full')}
+            />
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => pdfBlob && downloadPdfBlob(pdfBlob, fileName)} disabled={!pdfBlob}>
+            <Download className="mr-2 h-4 w-4" />
+            Descargar
+          </Button>
+          <Button type="button" onClick={handlePrint} disabled={!pdfBlob || isPrinting}>
+            {isPrinting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+            Imprimir
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PrintPreviewDialog;
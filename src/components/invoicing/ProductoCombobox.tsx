@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Button } from '@/components/ui/button';
+import { ChevronsUpDown, Loader2, PackageSearch } from 'lucide-react';
+import { fetchProductosServicios } from '@/lib/api/invoicingApi';
+import { ProductoServicio } from '@/lib/types/invoicing';
+
+interface ProductoComboboxProps {
+  onSelect: (producto: ProductoServicio) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Buscador de productos/servicios activos del catálogo. Al elegir uno, delega en `onSelect`
+ * el llenado de la línea de detalle.
+ */
+function ProductoCombobox({ onSelect, disabled }: ProductoComboboxProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data: productos = [], isLoading } = useQuery<ProductoServicio[]>({
+    queryKey: ['productosServicios', 'activos'],
+    queryFn: () => fetchProductosServicios(true),
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled || isLoading}
+          className="w-full md:w-[320px] justify-between font-normal"
+        >
+          <span className="flex items-center text-textSecondary">
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PackageSearch className="mr-2 h-4 w-4" />}
+            Buscar en el catálogo...
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[360px] p-0 bg-card border-border" align="start">
+        <Command>
+          <CommandInput placeholder="Código o descripción..." className="h-9" />
+          <CommandList>
+            <CommandEmpty>No se encontró ningún producto.</CommandEmpty>
+            <CommandGroup>
+              {productos.map(producto => (
+                <CommandItem
+                  key={producto.id}
+                  value={`${producto.codigo} ${producto.descripcion}`}
+                  onSelect={() => {
+                    onSelect(producto);
+                    setOpen(false);
+                  }}
+                >
+                  <div className="flex w-full items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate">{producto.descripcion}</p>
+                      <p className="text-xs text-textSecondary">{producto.codigo} · {producto.unidad}</p>
+                    </div>
+                    <span className="text-sm font-semibold whitespace-nowrap">S/ {producto.precio_con_igv.toFixed(2)}</span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default ProductoCombobox;
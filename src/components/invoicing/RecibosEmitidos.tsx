@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Ban, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useUser } from '@/context/UserContext';
+import { anularRecibo, fetchRecibosEmitidos, replaceReceiptPdf } from '@/lib/api/invoicingApi';
+import { AnularReciboFormValues, AnularReciboSchema, ReciboEmitido } from '@/lib/types/invoicing';
+import { formatCurrency } from '@/lib/utils';
+
+const RECIBOS_EMITIDOS_QUERY_KEY = ['recibosEmitidos'];
+
+interface RecibosEmitidosProps {
+  /** Se llama tras anular con "emitir recibo corregido" marcado, para precargar el formulario. */
+  onReemitir: (recibo: ReciboEmitido) => void;
+}
+
+/**
+ * Últimos recibos emitidos, con la acción de anularlos.
+ */
+function RecibosEmitidos({ onReemitir }: RecibosEmitidosProps) {
+  const { toast } = useToast();
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const [reciboAAnular, setReciboAAnular] = useState<ReciboEmitido | null>(null);
+  const [isVoiding, setIsVoiding] = useState(false);
+
+  const { data: recibos = [], isLoading } = useQuery<ReciboEmitido[]>({
+    queryKey: RECIBOS_EMITIDOS_QUERY_KEY,
+    queryFn: () => fetchRecibosEmitidos(),
+  });
+
+  const form = useForm<AnularReciboFormValues>({
+    resolver: zodResolver(AnularReciboSchema),
+    defaultValues: { motivo: '', concepto: '', reemitir: false },
+  });
+
+  useEffect(() => {
+    if (reciboAAnular) {
+      form.reset({ motivo: '', concepto: reciboAAnular.concepto ?? '', reemitir: false });
+    }
+  }, [reciboAAnular, form]);
+
+  const onSubmit = async (values: AnularReciboFormValues) => {
+    if (!reciboAAnular) return;
+
+    setIsVoiding(true);
+    try {
+      // 1. Registrar la reversión y marcar el recibo como anulado
+      const anulado = await anularRecibo(reciboAAnular, values, user?.id ?? null);
+
+      // 2. Reemplazar el PDF archivado por uno con el sello; un fallo aquí no revierte la anulación
+      if (anulado.socioId) {
+        try {
+          const { generateReceiptPdf } = await import('@/lib/receiptPdfGenerator');
+          const pdfBlob = await generateReceiptPdf({
+            correlative: anulado.numero,
+            client_full_name: anulado.clienteNombre,
+            client_dni: anulado.clienteDni,
+            fecha_emision: anulado.fechaEmision,
+            monto: anulado.monto,
+            concepto: values.concepto,
+            metodo_pago: anulado.metodoPago,
+            numero_operacion: anulado.numeroOperacion ?? undefined,
+            reemplaza_a: anulado.reemplazaA,
+            anulacion: { motivo: values.motivo, fecha: anulado.fechaAnulacion! },
+          });
+          await replaceReceiptPdf(pdfBlob, anulado.numero, anulado.socioId);
+        } catch (pdfError) {
+          console.error("Error al regenerar el PDF del recibo anulado:", pdfError);
+          toast({
+            title: "PDF No Actualizado",
+            description: `El recibo ${anulado.numero} quedó anulado, pero no se pudo sellar su PDF: ${(pdfError as Error).message}`,
+            variant: "warning",
+          });
+        }
+      }
+
+      toast({
+        title: "Recibo Anulado",
+        description: `El recibo ${anulado.numero} fue anulado y su ingreso revertido.`,
+        variant: "success",
+      });
+      setReciboAAnular(null);
+      if (values.reemitir) onReemitir(anulado);
+    } catch (error) {
+      toast({
+        title: "Error al Anular",
+        description: (error as Error).message || "Ocurrió un error inesperado.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVoiding(false);
+      queryClient.invalidateQueries({ queryKey: RECIBOS_EMITIDOS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['invoicingCalendar'] });
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-surface p-6 md:p-8 rounded-lg border border-border shadow-md">
+      <h2 className="text-2xl font-semibold text-text mb-4">Recibos Emitidos</h2>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full rounded-lg" />
+          <Skeleton className="h-10 w-full rounded-lg" />
+        </div>
+      ) : recibos.length === 0 ? (
+        <p className="text-textSecondary text-sm">Aún no se han emitido recibos.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recibo</TableHead>
+              <TableHead>Fecha</TableHead>
+              <TableHead>Socio</TableHead>
+              <TableHead className="text-right">Monto</TableHead>
+              <TableHead>Estado</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {recibos.map(recibo => (
+              <TableRow key={recibo.numero} className={recibo.anulado ? 'opacity-60' : undefined}>
+                <TableCell className="font-mono">
+                  {recibo.numero}
+                  {recibo.reemplazaA && <span className="block text-xs text-textSecondary">Reemplaza a {recibo.reemplazaA}</span>}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{format(parseISO(recibo.fechaEmision), 'dd MMM yyyy', { locale: es })}</TableCell>
+                <TableCell>{recibo.clienteNombre}</TableCell>
+                <TableCell className="text-right font-semibold">{formatCurrency(recibo.monto)}</TableCell>
+                <TableCell>
+                  {recibo.anulado ? (
+                    <div title={recibo.motivoAnulacion ?? undefined}>
+                      <Badge variant="destructive">Anulado</Badge>
+                      {recibo.reemplazadoPor && <span className="block text-xs text-textSecondary mt-1">Corregido en {recibo.reemplazadoPor}</span>}
+                    </div>
+                  ) : (
+                    <Badge variant="success">Vigente</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {!recibo.anulado && (
+                    <Button variant="ghost" size="icon" onClick={() => setReciboAAnular(recibo)} title="Anular recibo">
+                      <Ban className="h-4 w-4 text-error" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={!!reciboAAnular} onOpenChange={(open) => !open && !isVoiding && setReciboAAnular(null)}>
+        <DialogContent className="sm:max-w-[520px] bg-surface border-border">
+          <DialogHeader>
+            <DialogTitle>Anular Recibo {reciboAAnular?.numero}</DialogTitle>
+            <DialogDescription>
+              Se registrará un ingreso negativo de {formatCurrency(reciboAAnular?.monto ?? 0)} en {reciboAAnular?.metodoPago} con fecha de hoy, y el PDF del recibo quedará sellado como ANULADO.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="motivo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motivo de la Anulación</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Ej: Monto equivocado, socio incorrecto." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {reciboAAnular && !reciboAAnular.concepto && (
+                <FormField
+                  control={form.control}
+                  name="concepto"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Concepto del Recibo</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormDescription>Este recibo es anterior al registro de recibos; indique el concepto con el que se emitió.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="reemitir"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="cursor-pointer">Emitir un recibo corregido a continuación</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setReciboAAnular(null)} disabled={isVoiding}>
+                  Cancelar
+                </Button>
+                <Button type="submit" variant="destructive" disabled={isVoiding}>
+                  {isVoiding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+                  Anular Recibo
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default RecibosEmitidos;
@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, CheckCircle2, Clock, Loader2, ListChecks, Send, XCircle } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { createDailySummary, fetchCoberturaResumenes, saveDailySummaryResult, sendSummaryToSunat } from '@/lib/api/invoicingApi';
+import { CoberturaResumenDia } from '@/lib/types/invoicing';
+import { AVISO_PLAZO_RESUMEN_DIAS } from '@/lib/constants';
+
+type BatchStep = 'pendiente' | 'creando' | 'enviando' | 'registrando' | 'completado' | 'error';
+
+interface BatchItemState {
+  step: BatchStep;
+  message?: string;
+}
+
+const RANGOS_DIAS = [15, 30, 60];
+
+const BATCH_STEP_LABELS: Record<BatchStep, string> = {
+  pendiente: 'En cola',
+  creando: 'Creando resumen...',
+  enviando: 'Enviando a SUNAT...',
+  registrando: 'Registrando resultado...',
+  completado: 'Completado',
+  error: 'Error',
+};
+
+const formatFecha = (fecha: string) => format(new Date(`${fecha}T00:00:00`), 'EEE dd/MM/yyyy', { locale: es });
+
+const PlazoBadge = ({ dia }: { dia: CoberturaResumenDia }) => {
+  if (dia.diasRestantes < 0) {
+    return <Badge variant="destructive">Vencido el {format(new Date(`${dia.fechaLimite}T00:00:00`), 'dd/MM')}</Badge>;
+  }
+  if (dia.diasRestantes <= AVISO_PLAZO_RESUMEN_DIAS) {
+    return (
+      <Badge variant="outline" className="bg-warning/20 text-warning-foreground border-warning/40">
+        {dia.diasRestantes === 0 ? 'Vence hoy' : `Vence en ${dia.diasRestantes} día(s)`}
+      </Badge>
+    );
+  }
+  return <Badge variant="outline">Quedan {dia.diasRestantes} días</Badge>;
+};
+
+const BatchStepIndicator = ({ state }: { state: BatchItemState }) => {
+  switch (state.step) {
+    case 'completado':
+      return <span className="flex items-center text-success text-sm"><CheckCircle2 className="h-4 w-4 mr-1" />{BATCH_STEP_LABELS.completado}</span>;
+    case 'error':
+      return <span className="flex items-center text-error text-sm" title={state.message}><XCircle className="h-4 w-4 mr-1" />{state.message || BATCH_STEP_LABELS.error}</span>;
+    case 'pendiente':
+      return <span className="flex items-center text-textSecondary text-sm"><Clock className="h-4 w-4 mr-1" />{BATCH_STEP_LABELS.pendiente}</span>;
+    default:
+      return <span className="flex items-center text-primary text-sm"><Loader2 className="h-4 w-4 mr-1 animate-spin" />{BATCH_STEP_LABELS[state.step]}</span>;
+  }
+};
+
+interface ResumenesPendientesProps {
+  onBatchCompleted?: () => void;
+}
+
+function ResumenesPendientes({ onBatchCompleted }: ResumenesPendientesProps) {
+  const [rangoDias, setRangoDias] = useState(30);
+  const [dias, setDias] = useState<CoberturaResumenDia[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [batch, setBatch] = useState<Record<string, BatchItemState>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { toast } = useToast();
+
+  const loadCobertura = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const hoy = new Date();
+      const data = await fetchCoberturaResumenes(format(subDays(hoy, rangoDias), 'yyyy-MM-dd'), format(hoy, 'yyyy-MM-dd'));
+      setDias(data);
+      // Por defecto se seleccionan todos los días pendientes.
+      setSelected(new Set(data.map(d => d.fecha)));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
+      toast({ variant: "destructive", title: "Error al Verificar Resúmenes", description: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rangoDias, toast]);
+
+  useEffect(() => {
+    loadCobertura();
+  }, [loadCobertura]);
+
+  const toggleDia = (fecha: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) next.add(fecha); else next.delete(fecha);
+      return next;
+    });
+  };
+
+  const updateBatchItem = (fecha: string, state: BatchItemState) => {
+    setBatch(current => ({ ...current, [fecha]: state }));
+  };
+
+  const handleProcessBatch = async () => {
+    // Se procesan en orden cronológico para respetar los plazos más próximos a vencer.
+    const fechas = dias.map(d => d.fecha).filter(fecha => selected.has(fecha));
+    if (fechas.length === 0) return;
+
+    setIsProcessing(true);
+    setBatch(Object.fromEntries(fechas.map(fecha => [fecha, { step: 'pendiente' as const }])));
+
+    let completados = 0;
+    for (const fecha of fechas) {
+      try {
+        updateBatchItem(fecha, { step: 'creando' });
+        const created = await createDailySummary(fecha);
+        if (!created.success) throw new Error(created.message);
+
+        updateBatchItem(fecha, { step: 'enviando' });
+        const sent = await sendSummaryToSunat(created.data.id);
+        if (!sent.success) throw new Error(sent.message);
+
+        updateBatchItem(fecha, { step: 'registrando' });
+        await saveDailySummaryResult(sent.data);
+
+        updateBatchItem(fecha, { step: 'completado', message: `Ticket: ${sent.data.ticket}` });
+        completados++;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Error desconocido.';
+        updateBatchItem(fecha, { step: 'error', message: errorMessage });
+      }
+    }
+
+    setIsProcessing(false);
+    toast({
+      title: "Proceso por Lotes Finalizado",
+      description: `${completados} de ${fechas.length} resumen(es) generados y enviados.`,
+      variant: completados === fechas.length ? "success" : "warning",
+    });
+    onBatchCompleted?.();
+  };
+
+  const handleFinishBatch = () => {
+    setBatch({});
+    loadCobertura();
+  };
+
+  const hasBatch = Object.keys(batch).length > 0;
+  const vencidos = dias.filter(d => d.diasRestantes < 0);
+  const porVencer = dias.filter(d => d.diasRestantes >= 0 && d.diasRestantes <= AVISO_PLAZO_RESUMEN_DIAS);
+
+  return (
+    <Card className="bg-surface border-border shadow-lg">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-xl text-primary flex items-center">
+            <ListChecks className="mr-2 h-5 w-5" />
+            Boletas Pendientes de Resumen
+          </CardTitle>
+          <CardDescription>
+            Días con boletas emitidas que no figuran en un resumen diario enviado a SUNAT.
+          </CardDescription>
+        </div>
+        <Select value={String(rangoDias)} onValueChange={(value) => setRangoDias(Number(value))} disabled={isProcessing}>
+          <SelectTrigger className="w-[170px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGOS_DIAS.map(rango => (
+              <SelectItem key={rango} value={String(rango)}>Últimos {rango} días</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {vencidos.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Plazo Vencido</AlertTitle>
+            <AlertDescription>
+              {vencidos.length} día(s) superaron el plazo legal de envío. Envíelos cuanto antes; SUNAT puede rechazarlos o aplicar sanciones.
+            </AlertDescription>
+          </Alert>
+        )}
+        {porVencer.length > 0 && (
+          <Alert className="bg-warning/10 border-warning/40">
+            <Clock className="h-4 w-4" />
+            <AlertTitle>Plazo por Vencer</AlertTitle>
+            <AlertDescription>
+              El plazo para informar las boletas de {porVencer.map(d => formatFecha(d.fecha)).join(', ')} vence en {AVISO_PLAZO_RESUMEN_DIAS} día(s) o menos.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full rounded-lg" />
+            <Skeleton className="h-10 w-full rounded-lg" />
+          </div>
+        ) : dias.length === 0 ? (
+          <div className="flex items-center justify-center py-6 text-success">
+            <CheckCircle2 className="h-5 w-5 mr-2" />
+            Todas las boletas del periodo están incluidas en un resumen diario.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Fecha de Emisión</TableHead>
+                <TableHead>Resumidas</TableHead>
+                <TableHead>Pendientes</TableHead>
+                <TableHead>Plazo</TableHead>
+                {hasBatch && <TableHead>Progreso</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dias.map(dia => (
+                <TableRow key={dia.fecha}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(dia.fecha)}
+                      onCheckedChange={(checked) => toggleDia(dia.fecha, !!checked)}
+                      disabled={isProcessing || hasBatch}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium capitalize">{formatFecha(dia.fecha)}</TableCell>
+                  <TableCell>{dia.resumidas} / {dia.totalBoletas}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col text-sm" title={[...dia.sinResumen, ...dia.enResumenRechazado].join(', ')}>
+                      {dia.sinResumen.length > 0 && <span>{dia.sinResumen.length} sin resumen</span>}
+                      {dia.enResumenRechazado.length > 0 && <span className="text-error">{dia.enResumenRechazado.length} en resumen rechazado</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell><PlazoBadge dia={dia} /></TableCell>
+                  {hasBatch && (
+                    <TableCell>{batch[dia.fecha] ? <BatchStepIndicator state={batch[dia.fecha]} /> : <span className="text-textSecondary text-sm">—</span>}</TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      {dias.length > 0 && (
+        <CardFooter className="flex justify-end gap-2">
+          {hasBatch && !isProcessing ? (
+            <Button variant="outline" onClick={handleFinishBatch}>
+              Actualizar Verificación
+            </Button>
+          ) : (
+            <Button onClick={handleProcessBatch} disabled={isProcessing || selected.size === 0} className="bg-success hover:bg-success/90">
+              {isProcessing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Generar y Enviar {selected.size} Resumen(es)
+            </Button>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
+
+export default ResumenesPendientes;
@@ -0,0 +1,80 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchSeriesActivas, fetchUserDefaultSerieIds } from '@/lib/api/invoicingApi';
+import { SerieComprobante } from '@/lib/types/invoicing';
+import { useUser } from '@/context/UserContext';
+import { BRANCH_ID } from '@/lib/constants';
+
+interface SerieSelectProps {
+  tipoDocumento: string;
+  tipoDocumentoAfectado?: string;
+  value: string;
+  // Serie del sistema a usar mientras no haya series registradas para el tipo.
+  fallbackSerie: string;
+  onChange: (serie: string, branchId: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Selector de series activas. Al cargar, elige la serie predeterminada del usuario,
+ * luego la predeterminada de la sucursal y, por último, la primera disponible.
+ */
+function SerieSelect({ tipoDocumento, tipoDocumentoAfectado, value, fallbackSerie, onChange, disabled }: SerieSelectProps) {
+  const { user } = useUser();
+
+  const { data: series = [], isLoading } = useQuery<SerieComprobante[]>({
+    queryKey: ['seriesActivas', tipoDocumento, tipoDocumentoAfectado ?? null],
+    queryFn: () => fetchSeriesActivas(tipoDocumento, tipoDocumentoAfectado),
+  });
+
+  const { data: userDefaultIds = [] } = useQuery<number[]>({
+    queryKey: ['seriesUsuario', user?.id],
+    queryFn: () => fetchUserDefaultSerieIds(user!.id),
+    enabled: !!user?.id,
+  });
+
+  const defaultSerie = useMemo(() => (
+    series.find(s => userDefaultIds.includes(s.id))
+      || series.find(s => s.predeterminada && s.branch_id === BRANCH_ID)
+      || series.find(s => s.predeterminada)
+      || series[0]
+  ), [series, userDefaultIds]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (series.length === 0) {
+      if (value !== fallbackSerie) onChange(fallbackSerie, BRANCH_ID);
+      return;
+    }
+    if (!series.some(s => s.serie === value) && defaultSerie) {
+      onChange(defaultSerie.serie, defaultSerie.branch_id);
+    }
+  }, [isLoading, series, value, defaultSerie, fallbackSerie, onChange]);
+
+  const handleChange = (serie: string) => {
+    const selected = series.find(s => s.serie === serie);
+    onChange(serie, selected?.branch_id ?? BRANCH_ID);
+  };
+
+  return (
+    <Select value={value} onValueChange={handleChange} disabled={disabled || isLoading || series.length === 0}>
+      <SelectTrigger>
+        <SelectValue placeholder={isLoading ? 'Cargando series...' : 'Seleccione una serie'} />
+      </SelectTrigger>
+      <SelectContent>
+        {series.length === 0 ? (
+          <SelectItem value={fallbackSerie}>{fallbackSerie}</SelectItem>
+        ) : (
+          series.map(s => (
+            <SelectItem key={s.id} value={s.serie}>
+              {s.serie} — Nº actual {s.correlativo_actual}{s.descripcion ? ` (${s.descripcion})` : ''}
+            </SelectItem>
+          ))
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default SerieSelect;
@@ -0,0 +1,331 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Hash, Loader2, Pencil, PlusCircle, Star } from 'lucide-react';
+import { fetchSeriesComprobantes, fetchUserDefaultSerieIds, saveSerieComprobante, setUserDefaultSerie } from '@/lib/api/invoicingApi';
+import { SerieComprobante, SerieComprobanteFormSchema, SerieComprobanteFormValues } from '@/lib/types/invoicing';
+import { BRANCH_ID, TIPOS_DOCUMENTO_SERIE } from '@/lib/constants';
+import { useUser } from '@/context/UserContext';
+
+const emptySerie: SerieComprobanteFormValues = {
+  tipo_documento: '03',
+  tipo_documento_afectado: null,
+  serie: '',
+  branch_id: BRANCH_ID,
+  correlativo_actual: 0,
+  activo: true,
+  predeterminada: false,
+  descripcion: '',
+};
+
+const getTipoNombre = (code: string | null) => TIPOS_DOCUMENTO_SERIE.find(t => t.code === code)?.name || '—';
+
+/**
+ * Administración del registro de series: alta/edición por tipo de comprobante y sucursal,
+ * y elección de la serie predeterminada del usuario actual.
+ */
+function SeriesManager() {
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<SerieComprobante | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: series = [], isLoading } = useQuery<SerieComprobante[]>({
+    queryKey: ['seriesComprobantes'],
+    queryFn: fetchSeriesComprobantes,
+  });
+
+  const { data: userDefaultIds = [] } = useQuery<number[]>({
+    queryKey: ['seriesUsuario', user?.id],
+    queryFn: () => fetchUserDefaultSerieIds(user!.id),
+    enabled: !!user?.id,
+  });
+
+  const form = useForm<SerieComprobanteFormValues>({
+    resolver: zodResolver(SerieComprobanteFormSchema),
+    defaultValues: emptySerie,
+  });
+
+  const tipoDocumento = form.watch('tipo_documento');
+  const esNota = tipoDocumento === '07' || tipoDocumento === '08';
+
+  const invalidateSeries = () => {
+    queryClient.invalidateQueries({ queryKey: ['seriesComprobantes'] });
+    queryClient.invalidateQueries({ queryKey: ['seriesActivas'] });
+    queryClient.invalidateQueries({ queryKey: ['seriesUsuario'] });
+  };
+
+  const openDialog = (serie: SerieComprobante | null) => {
+    setEditing(serie);
+    form.reset(serie ? {
+      tipo_documento: serie.tipo_documento as SerieComprobanteFormValues['tipo_documento'],
+      tipo_documento_afectado: serie.tipo_documento_afectado as SerieComprobanteFormValues['tipo_documento_afectado'],
+      serie: serie.serie,
+      branch_id: serie.branch_id,
+      correlativo_actual: serie.correlativo_actual,
+      activo: serie.activo,
+      predeterminada: serie.predeterminada,
+      descripcion: serie.descripcion || '',
+    } : emptySerie);
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = async (values: SerieComprobanteFormValues) => {
+    setIsSaving(true);
+    try {
+      await saveSerieComprobante(values, editing?.id);
+      toast.success(editing ? 'Serie actualizada' : 'Serie registrada', { description: `La serie ${values.serie} quedó guardada.` });
+      invalidateSeries();
+      setIsDialogOpen(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al guardar la serie', { description: errorMessage });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetUserDefault = async (serie: SerieComprobante) => {
+    if (!user) return;
+    try {
+      await setUserDefaultSerie(user.id, serie);
+      toast.success('Serie predeterminada actualizada', { description: `${serie.serie} se usará por defecto en sus emisiones.` });
+      invalidateSeries();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al definir la serie predeterminada', { description: errorMessage });
+    }
+  };
+
+  return (
+    <Card className="bg-surface border-border">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Hash className="h-5 w-5 text-primary" />
+            Series de Comprobantes
+          </CardTitle>
+          <CardDescription>
+            Defina las series por tipo de comprobante y sucursal. La estrella marca su serie predeterminada.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Nueva Serie
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full rounded-lg" />
+            <Skeleton className="h-10 w-full rounded-lg" />
+          </div>
+        ) : series.length === 0 ? (
+          <p className="text-textSecondary text-sm">
+            No hay series registradas. Mientras tanto, los formularios usan las series por defecto del sistema.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Serie</TableHead>
+                <TableHead>Sucursal</TableHead>
+                <TableHead>Correlativo Actual</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {series.map(serie => {
+                const isUserDefault = userDefaultIds.includes(serie.id);
+                return (
+                  <TableRow key={serie.id}>
+                    <TableCell>
+                      {getTipoNombre(serie.tipo_documento)}
+                      {serie.tipo_documento_afectado && (
+                        <span className="block text-xs text-textSecondary">Modifica: {getTipoNombre(serie.tipo_documento_afectado)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono font-semibold">
+                      {serie.serie}
+                      {serie.descripcion && <span className="block text-xs font-sans font-normal text-textSecondary">{serie.descripcion}</span>}
+                    </TableCell>
+                    <TableCell>{serie.branch_id}</TableCell>
+                    <TableCell>{serie.correlativo_actual}</TableCell>
+                    <TableCell className="space-x-1">
+                      <Badge variant={serie.activo ? 'success' : 'outline'}>{serie.activo ? 'Activa' : 'Inactiva'}</Badge>
+                      {serie.predeterminada && <Badge variant="secondary">Predeterminada de sucursal</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleSetUserDefault(serie)}
+                        disabled={!serie.activo || isUserDefault}
+                        title={isUserDefault ? 'Es su serie predeterminada' : 'Usar como mi serie predeterminada'}
+                      >
+                        <Star className={`h-4 w-4 ${isUserDefault ? 'fill-warning text-warning' : ''}`} />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(serie)} title="Editar serie">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="bg-surface border-border">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Editar Serie ${editing.serie}` : 'Nueva Serie'}</DialogTitle>
+            <DialogDescription>
+              El correlativo actual es el último número emitido; la API asigna el siguiente.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="tipo_documento"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de Comprobante</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {TIPOS_DOCUMENTO_SERIE.map(tipo => (
+                          <SelectItem key={tipo.code} value={tipo.code}>{tipo.code} - {tipo.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {esNota ? (
+                <FormField
+                  control={form.control}
+                  name="tipo_documento_afectado"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Modifica a</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? undefined}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccione" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="03">Boletas</SelectItem>
+                          <SelectItem value="01">Facturas</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : <div />}
+              <FormField
+                control={form.control}
+                name="serie"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Serie</FormLabel>
+                    <FormControl>
+                      <Input placeholder="B002" maxLength={4} {...field} onChange={(e) => field.onChange(e.target.value.toUpperCase())} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="branch_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sucursal (ID)</FormLabel>
+                    <FormControl><Input type="number" min={1} {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="correlativo_actual"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Correlativo Actual</FormLabel>
+                    <FormControl><Input type="number" min={0} {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="descripcion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descripción (Opcional)</FormLabel>
+                    <FormControl><Input placeholder="Ej: Caja 2" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="activo"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-3">
+                    <FormLabel>Activa</FormLabel>
+                    <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="predeterminada"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-3">
+                    <FormLabel>Predeterminada de la sucursal</FormLabel>
+                    <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter className="col-span-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancelar</Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar Serie
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default SeriesManager;
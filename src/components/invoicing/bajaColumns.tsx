@@ -0,0 +1,62 @@
+"use client"
+
+import { ComunicacionBaja } from "@/lib/types/invoicing"
+import { ColumnDef } from "@tanstack/react-table"
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ArrowUpDown } from "lucide-react"
+import { getStatusColorClass, getStatusVariant } from "./columns"
+import BajaActionsCell from "./BajaActionsCell"
+
+export const getBajaColumns = (onStatusUpdate: (bajaId: number, newStatus: string) => void): ColumnDef<ComunicacionBaja>[] => [
+  {
+    accessorKey: "fecha_referencia",
+    header: ({ column }) => {
+        return (
+          <Button
+            variant="ghost"
+            onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+          >
+            Fecha de Emisión
+            <ArrowUpDown className="ml-2 h-4 w-4" />
+          </Button>
+        )
+      },
+    cell: ({ row }) => {
+      const date = new Date(row.getValue("fecha_referencia") + 'T00:00:00');
+      return <div className="font-medium">{format(date, "dd 'de' MMMM, yyyy", { locale: es })}</div>;
+    },
+  },
+  {
+    accessorKey: "numero_completo",
+    header: "Número de Baja",
+  },
+  {
+    accessorKey: "motivo",
+    header: "Motivo",
+  },
+  {
+    accessorKey: "ticket",
+    header: "Ticket SUNAT",
+  },
+  {
+    accessorKey: "estado_sunat",
+    header: "Estado SUNAT",
+    cell: ({ row }) => {
+      const status = row.getValue("estado_sunat") as string | null;
+      const statusText = status || 'No disponible';
+      return (
+        <Badge variant={getStatusVariant(status)} className={`capitalize ${getStatusColorClass(status)}`}>
+          {statusText}
+        </Badge>
+      );
+    },
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <BajaActionsCell row={row} onStatusUpdate={onStatusUpdate} />,
+  },
+]
@@ -19,7 +19,7 @@ import { useToast } from "@/components/ui/use-toast"
 import { checkSummaryStatus, updateSummaryStatusInDb } from "@/lib/api/invoicingApi"
 import { ArrowUpDown, MoreHorizontal, Loader2 } from "lucide-react"
 
-const getStatusVariant = (status: string | null | undefined): "default" | "secondary" | "destructive" | "outline" => {
+export const getStatusVariant = (status: string | null | undefined): "default" | "secondary" | "destructive" | "outline" => {
   switch (status?.toLowerCase()) {
     case 'aceptado':
       return 'default';
@@ -32,7 +32,7 @@ const getStatusVariant = (status: string | null | undefined): "default" | "secon
   }
 };
 
-const getStatusColorClass = (status: string | null | undefined): string => {
+export const getStatusColorClass = (status: string | null | undefined): string => {
     switch (status?.toLowerCase()) {
       case 'aceptado':
         return 'bg-success/20 text-success-foreground border-success/40';
@@ -10,6 +10,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Loader2 } from 'lucide-react';
+import { formatCurrency } from '@/lib/utils';
 
 interface ConfirmationDialogProps {
   isOpen: boolean;
@@ -58,10 +59,10 @@ const ConfirmationDialog: React.FC<ConfirmationDialogProps> = ({
 
             let displayValue = value;
             if (typeof value === 'number' && key === 'amount') {
-              displayValue = new Intl.NumberFormat('es-CO', {
-                style: 'currency',
-                currency: 'COP',
-              }).format(value);
+              // amount siempre está en soles; monto_original, en la moneda del registro
+              displayValue = formatCurrency(value);
+            } else if (typeof value === 'number' && key === 'monto_original') {
+              displayValue = formatCurrency(value, data.moneda || 'PEN');
             } else if (key.includes('fecha') && typeof value === 'string') {
               // Assuming date is in YYYY-MM-DD or DD/MM/YYYY format
               try {
@@ -0,0 +1,28 @@
+import React from 'react';
+import { cn, formatCurrency } from '@/lib/utils';
+import { DEFAULT_MONEDA } from '@/lib/constants';
+
+interface MontoOriginalProps {
+  moneda: string | null | undefined;
+  montoOriginal: number | null | undefined;
+  tipoCambio: number | null | undefined;
+  className?: string;
+}
+
+/**
+ * Muestra el monto en su moneda de origen y el tipo de cambio usado, debajo del importe en soles.
+ * No renderiza nada para movimientos en soles.
+ */
+const MontoOriginal: React.FC<MontoOriginalProps> = ({ moneda, montoOriginal, tipoCambio, className }) => {
+  if (!moneda || moneda === DEFAULT_MONEDA || montoOriginal === null || montoOriginal === undefined) {
+    return null;
+  }
+
+  return (
+    <span className={cn('block text-xs font-normal text-textSecondary', className)}>
+      {formatCurrency(montoOriginal, moneda)}{tipoCambio ? ` · T.C. ${tipoCambio.toFixed(3)}` : ''}
+    </span>
+  );
+};
+
+export default MontoOriginal;
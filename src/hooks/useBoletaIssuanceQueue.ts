@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { resumeEmisionesBoleta } from '@/lib/boletaIssuanceQueue';
+
+export const EMISIONES_BOLETA_QUERY_KEY = ['emisionesBoleta'];
+
+/**
+ * Al iniciar la sesión, reanuda una sola vez las emisiones de boletas que el usuario dejó a medias.
+ */
+export function useResumeEmisionesBoleta(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const resumedFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!userId || resumedFor.current === userId) return;
+    resumedFor.current = userId;
+
+    resumeEmisionesBoleta(userId)
+      .then(result => {
+        if (result.resumed === 0) return;
+        queryClient.invalidateQueries({ queryKey: EMISIONES_BOLETA_QUERY_KEY });
+        queryClient.invalidateQueries({ queryKey: ['invoicingCalendar'] });
+        if (result.stuck > 0) {
+          toast.warning('Emisiones de boletas pendientes', {
+            description: `${result.stuck} de ${result.resumed} emisión(es) interrumpidas no pudieron completarse. Revíselas en Facturación › Emisiones.`,
+          });
+        } else {
+          toast.success('Emisiones reanudadas', {
+            description: `Se completaron ${result.completed} emisión(es) de boletas que habían quedado a medias.`,
+          });
+        }
+      })
+      .catch(error => console.error('Error al reanudar emisiones de boletas:', error));
+  }, [userId, queryClient]);
+}
@@ -0,0 +1,36 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useUser } from '@/context/UserContext';
+import { fetchFormatoImpresion, saveFormatoImpresion } from '@/lib/api/invoicingApi';
+import { DEFAULT_FORMATO_IMPRESION } from '@/lib/constants';
+import { FormatoImpresion } from '@/lib/types/invoicing';
+
+/**
+ * Formato de impresión del usuario actual. El cambio se aplica al instante y se guarda en su perfil.
+ */
+export function useFormatoImpresion() {
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const queryKey = ['formatoImpresion', user?.id];
+
+  const { data: formato = DEFAULT_FORMATO_IMPRESION as FormatoImpresion } = useQuery<FormatoImpresion>({
+    queryKey,
+    queryFn: () => fetchFormatoImpresion(user!.id),
+    enabled: !!user?.id,
+  });
+
+  const setFormato = async (nuevo: FormatoImpresion) => {
+    const anterior = formato;
+    queryClient.setQueryData(queryKey, nuevo);
+    if (!user) return;
+    try {
+      await saveFormatoImpresion(user.id, nuevo);
+    } catch (error) {
+      queryClient.setQueryData(queryKey, anterior);
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('No se pudo guardar el formato de impresión', { description: errorMessage });
+    }
+  };
+
+  return { formato, setFormato };
+}
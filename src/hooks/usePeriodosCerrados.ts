@@ -0,0 +1,22 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchPeriodosContables, periodoDeFecha } from '@/lib/api/periodosApi';
+
+/**
+ * Meses cerrados, para deshabilitar la edición de los movimientos que caen en ellos.
+ */
+export function usePeriodosCerrados() {
+  const { data: periodos = [] } = useQuery({
+    queryKey: ['periodosContables'],
+    queryFn: fetchPeriodosContables,
+  });
+
+  const cerrados = useMemo(
+    () => new Set(periodos.filter(p => p.estado === 'cerrado').map(p => p.periodo)),
+    [periodos]
+  );
+
+  const estaCerrado = useCallback((fecha: string | null | undefined) => !!fecha && cerrados.has(periodoDeFecha(fecha)), [cerrados]);
+
+  return { estaCerrado };
+}
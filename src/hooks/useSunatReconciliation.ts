@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { fetchRejectedDocumentsCount } from '@/lib/api/invoicingApi';
+import { runSunatReconciliation } from '@/lib/sunatReconciliation';
+import { SUNAT_RECONCILIATION_INTERVAL_MS } from '@/lib/constants';
+
+export const REJECTED_DOCUMENTS_QUERY_KEY = ['sunatRejectedCount'];
+
+/**
+ * Ejecuta la conciliación de estados SUNAT en segundo plano mientras el componente esté montado.
+ */
+export function useSunatReconciliation(enabled = true) {
+  const queryClient = useQueryClient();
+  const isRunning = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const tick = async () => {
+      if (isRunning.current) return;
+      isRunning.current = true;
+      try {
+        const result = await runSunatReconciliation();
+        if (result.updated > 0) {
+          queryClient.invalidateQueries({ queryKey: REJECTED_DOCUMENTS_QUERY_KEY });
+          queryClient.invalidateQueries({ queryKey: ['invoicingCalendar'] });
+        }
+        if (result.rejected > 0) {
+          toast.error('SUNAT rechazó documentos', {
+            description: `${result.rejected} documento(s) fueron rechazados. Revise el calendario de facturación.`,
+          });
+        }
+      } catch (error) {
+        console.error('Error en la conciliación de estados SUNAT:', error);
+      } finally {
+        isRunning.current = false;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, SUNAT_RECONCILIATION_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, queryClient]);
+}
+
+/**
+ * Cantidad de documentos rechazados por SUNAT, compartida entre componentes vía react-query.
+ */
+export function useRejectedDocumentsCount() {
+  return useQuery({
+    queryKey: REJECTED_DOCUMENTS_QUERY_KEY,
+    queryFn: fetchRejectedDocumentsCount,
+    refetchInterval: SUNAT_RECONCILIATION_INTERVAL_MS,
+  });
+}
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchTipoCambio, TipoCambio } from '@/lib/api/exchangeRatesApi';
+import { DEFAULT_MONEDA } from '@/lib/constants';
+
+/**
+ * Tipo de cambio vigente para mostrar la conversión en los formularios. En soles no consulta nada.
+ */
+export function useTipoCambio(fecha: string | undefined, moneda: string | undefined) {
+  return useQuery<TipoCambio | null>({
+    queryKey: ['tipoCambio', moneda, fecha],
+    queryFn: () => fetchTipoCambio(fecha!, moneda!),
+    enabled: !!fecha && !!moneda && moneda !== DEFAULT_MONEDA,
+  });
+}
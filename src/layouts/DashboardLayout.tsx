@@ -25,6 +25,8 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { cn } from '@/lib/utils';
 import { useUser } from '@/context/UserContext';
 import { supabase } from '@/lib/supabaseClient';
+import { useSunatReconciliation } from '@/hooks/useSunatReconciliation';
+import { useResumeEmisionesBoleta } from '@/hooks/useBoletaIssuanceQueue';
 
 const navItems = [
   { name: 'Resumen', path: '/', icon: LayoutDashboard },
@@ -45,6 +47,11 @@ function DashboardLayout() {
   const navigate = useNavigate();
   const { user, roles, loading } = useUser();
 
+  // Conciliación de estados SUNAT en segundo plano para toda la sesión.
+  useSunatReconciliation(!!user);
+  // Reanuda las emisiones de boletas interrumpidas por una recarga o caída de red.
+  useResumeEmisionesBoleta(user?.id);
+
   useEffect(() => {
     if (!loading && !user) {
       navigate('/auth');
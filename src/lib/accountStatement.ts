@@ -0,0 +1,244 @@
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import membreteUrl from '../assets/logos/membrete-fimagadi-23.png';
+import { preloadImage } from './receiptPdfGenerator';
+import { toCsv } from './spreadsheet';
+import { TIPOS_CUENTA } from './constants';
+import { Cuenta } from './types';
+
+// --- Estado de cuenta: movimientos de una cuenta en un rango con saldo acumulado ---
+
+export type TipoMovimientoEstadoCuenta = 'Ingreso' | 'Devolución' | 'Gasto' | 'Transferencia';
+
+// Ingreso, gasto o transferencia de la cuenta, con el signo con el que mueve su saldo.
+export interface MovimientoEstadoCuenta {
+  id: string; // Único entre tablas: `${tipo}-${id}`
+  fecha: string; // yyyy-MM-dd
+  tipo: TipoMovimientoEstadoCuenta;
+  documento: string | null; // Recibo, N° de gasto o N° de operación
+  contraparte: string;
+  descripcion: string;
+  monto: number;
+}
+
+/**
+ * Línea del libro. Como la cuenta es un activo, el debe son las entradas y el haber las salidas.
+ */
+export interface LineaEstadoCuenta extends MovimientoEstadoCuenta {
+  debe: number;
+  haber: number;
+  saldo: number;
+}
+
+export interface EstadoCuenta {
+  desde: string;
+  hasta: string;
+  saldoAnterior: number;
+  lineas: LineaEstadoCuenta[];
+  totalDebe: number;
+  totalHaber: number;
+  saldoFinal: number;
+}
+
+const redondear = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Arma el estado de cuenta entre dos fechas. El saldo anterior es el saldo inicial de la cuenta
+ * más los movimientos previos a `desde`; los movimientos deben venir ya filtrados desde la fecha
+ * del saldo inicial (ver `cuentaIncluyeMovimiento`). Los movimientos en cero (anulaciones) se omiten.
+ */
+export const construirEstadoCuenta = (cuenta: Cuenta, movimientos: MovimientoEstadoCuenta[], desde: string, hasta: string): EstadoCuenta => {
+  const ordenados = movimientos
+    .filter(m => m.monto !== 0 && m.fecha <= hasta)
+    .sort((a, b) => a.fecha.localeCompare(b.fecha) || a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+  let saldo = cuenta.saldo_inicial;
+  const lineas: LineaEstadoCuenta[] = [];
+  ordenados.forEach(m => {
+    saldo = redondear(saldo + m.monto);
+    if (m.fecha >= desde) {
+      lineas.push({ ...m, debe: m.monto > 0 ? m.monto : 0, haber: m.monto < 0 ? -m.monto : 0, saldo });
+    }
+  });
+
+  const totalDebe = redondear(lineas.reduce((sum, l) => sum + l.debe, 0));
+  const totalHaber = redondear(lineas.reduce((sum, l) => sum + l.haber, 0));
+  const saldoFinal = saldo;
+  return { desde, hasta, saldoAnterior: redondear(saldoFinal - totalDebe + totalHaber), lineas, totalDebe, totalHaber, saldoFinal };
+};
+
+const formatFecha = (fecha: string) => format(parseISO(fecha), 'dd/MM/yyyy');
+
+const formatMonto = (value: number) => value.toLocaleString('es-PE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const nombreArchivoEstadoCuenta = (cuenta: Cuenta, estado: EstadoCuenta, extension: 'pdf' | 'csv') =>
+  `estado-cuenta-${cuenta.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${estado.desde}-${estado.hasta}.${extension}`;
+
+/**
+ * Estado de cuenta en CSV: una fila por movimiento, con el saldo anterior al inicio y los totales al final.
+ * Los importes van con punto decimal y sin separador de miles.
+ */
+export const estadoCuentaCsv = (cuenta: Cuenta, estado: EstadoCuenta): string => toCsv([
+  ['Cuenta', cuenta.name],
+  ['Periodo', `${formatFecha(estado.desde)} al ${formatFecha(estado.hasta)}`],
+  [],
+  ['Fecha', 'Tipo', 'Documento', 'Contraparte', 'Descripción', 'Debe', 'Haber', 'Saldo'],
+  ['', '', '', '', 'Saldo anterior', '', '', estado.saldoAnterior.toFixed(2)],
+  ...estado.lineas.map(l => [
+    formatFecha(l.fecha),
+    l.tipo,
+    l.documento,
+    l.contraparte,
+    l.descripcion,
+    l.debe ? l.debe.toFixed(2) : '',
+    l.haber ? l.haber.toFixed(2) : '',
+    l.saldo.toFixed(2),
+  ]),
+  ['', '', '', '', 'Totales', estado.totalDebe.toFixed(2), estado.totalHaber.toFixed(2), estado.saldoFinal.toFixed(2)],
+]);
+
+// Filas por hoja A4: el membrete ocupa la cabecera y el pie de cada página.
+const FILAS_POR_PAGINA = 26;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * HTML de una hoja del estado de cuenta sobre el membrete. La primera lleva los datos de la cuenta
+ * y el saldo anterior; la última, los totales.
+ */
+const generateEstadoCuentaPageHtml = (
+  cuenta: Cuenta,
+  estado: EstadoCuenta,
+  lineas: LineaEstadoCuenta[],
+  pagina: number,
+  totalPaginas: number
+): string => {
+  const primaryColor = '#003366';
+  const tipoCuenta = TIPOS_CUENTA.find(t => t.code === cuenta.tipo)?.name ?? cuenta.tipo;
+  const filas = lineas.map(l => `
+                <tr>
+                    <td>${formatFecha(l.fecha)}</td>
+                    <td>${l.tipo}</td>
+                    <td>${escapeHtml(l.documento || '—')}</td>
+                    <td>${escapeHtml(l.contraparte)}</td>
+                    <td>${escapeHtml(l.descripcion)}</td>
+                    <td class="num">${l.debe ? formatMonto(l.debe) : ''}</td>
+                    <td class="num">${l.haber ? formatMonto(l.haber) : ''}</td>
+                    <td class="num">${formatMonto(l.saldo)}</td>
+                </tr>`).join('');
+
+  return `
+        <div class="statement-page" style="
+            width: 794px;
+            height: 1123px;
+            padding: 190px 45px 110px 45px;
+            font-family: 'Helvetica Neue', 'Helvetica', 'Arial', sans-serif;
+            font-size: 8pt;
+            color: #212529;
+            background-color: #FFFFFF;
+            background-image: url('${membreteUrl}');
+            background-size: 100% 100%;
+            background-repeat: no-repeat;
+            box-sizing: border-box;
+            position: relative;
+        ">
+            <style>
+                .statement-page * { box-sizing: border-box; }
+                .statement-page table { width: 100%; border-collapse: collapse; background-color: rgba(255, 255, 255, 0.9); }
+                .statement-page th { padding: 6px 4px; text-align: left; border-bottom: 2px solid ${primaryColor}; color: ${primaryColor}; text-transform: uppercase; font-size: 7pt; }
+                .statement-page td { padding: 5px 4px; border-bottom: 1px solid #e9ecef; vertical-align: top; word-break: break-word; }
+                .statement-page .num { text-align: right; white-space: nowrap; }
+                .statement-page .resumen td { font-weight: bold; background-color: #f1f5f9; }
+            </style>
+            ${pagina === 1 ? `
+            <div style="display: flex; justify-content: space-between; align-items: flex-end; margin-bottom: 16px;">
+                <div>
+                    <h1 style="font-size: 18pt; font-weight: bold; color: ${primaryColor}; margin: 0;">ESTADO DE CUENTA</h1>
+                    <p style="font-size: 10pt; margin: 4px 0 0 0;">${escapeHtml(cuenta.name)} · ${escapeHtml(tipoCuenta)}</p>
+                </div>
+                <div style="text-align: right; font-size: 9pt;">
+                    <p style="margin: 0;">Del ${formatFecha(estado.desde)} al ${formatFecha(estado.hasta)}</p>
+                    <p style="margin: 2px 0 0 0; color: #6c757d;">Emitido el ${format(new Date(), "dd 'de' MMMM 'de' yyyy", { locale: es })}</p>
+                </div>
+            </div>` : ''}
+            <table>
+                <thead>
+                    <tr>
+                        <th style="width: 62px;">Fecha</th>
+                        <th style="width: 70px;">Tipo</th>
+                        <th style="width: 80px;">Documento</th>
+                        <th style="width: 120px;">Contraparte</th>
+                        <th>Descripción</th>
+                        <th class="num" style="width: 70px;">Debe</th>
+                        <th class="num" style="width: 70px;">Haber</th>
+                        <th class="num" style="width: 76px;">Saldo</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${pagina === 1 ? `<tr class="resumen"><td colspan="7">Saldo anterior</td><td class="num">${formatMonto(estado.saldoAnterior)}</td></tr>` : ''}
+                    ${filas}
+                    ${pagina === totalPaginas ? `
+                    <tr class="resumen">
+                        <td colspan="5">Totales del periodo</td>
+                        <td class="num">${formatMonto(estado.totalDebe)}</td>
+                        <td class="num">${formatMonto(estado.totalHaber)}</td>
+                        <td class="num">${formatMonto(estado.saldoFinal)}</td>
+                    </tr>` : ''}
+                </tbody>
+            </table>
+            <p style="position: absolute; bottom: 80px; right: 45px; margin: 0; font-size: 8pt; color: #6c757d;">Página ${pagina} de ${totalPaginas}</p>
+        </div>
+    `;
+};
+
+/**
+ * Genera el PDF del estado de cuenta en A4 con el membrete, una imagen por hoja como en los recibos.
+ * @returns Blob del archivo PDF.
+ */
+export const generateEstadoCuentaPdf = async (cuenta: Cuenta, estado: EstadoCuenta): Promise<Blob> => {
+  try {
+    await preloadImage(membreteUrl);
+  } catch (error) {
+    console.error("Error preloading images for PDF:", error);
+    throw new Error("Fallo al cargar la imagen de membrete.");
+  }
+
+  const paginas: LineaEstadoCuenta[][] = [];
+  for (let i = 0; i < estado.lineas.length; i += FILAS_POR_PAGINA) {
+    paginas.push(estado.lineas.slice(i, i + FILAS_POR_PAGINA));
+  }
+  if (paginas.length === 0) paginas.push([]);
+
+  const tempDiv = document.createElement('div');
+  tempDiv.style.position = 'absolute';
+  tempDiv.style.left = '-9999px';
+  document.body.appendChild(tempDiv);
+
+  try {
+    const pdf = new jsPDF('p', 'mm', 'a4');
+    const pdfWidth = pdf.internal.pageSize.getWidth();
+    const pdfHeight = pdf.internal.pageSize.getHeight();
+
+    for (let i = 0; i < paginas.length; i++) {
+      tempDiv.innerHTML = generateEstadoCuentaPageHtml(cuenta, estado, paginas[i], i + 1, paginas.length);
+      const canvas = await html2canvas(tempDiv.querySelector('.statement-page') as HTMLElement, {
+        scale: 2,
+        useCORS: true,
+        logging: false,
+        backgroundColor: null,
+      });
+      if (i > 0) pdf.addPage();
+      pdf.addImage(canvas.toDataURL('image/jpeg', 1.0), 'JPEG', 0, 0, pdfWidth, pdfHeight);
+    }
+
+    return pdf.output('blob');
+  } catch (error) {
+    console.error("Error al generar el PDF del estado de cuenta:", error);
+    throw new Error("Fallo en la generación del PDF.");
+  } finally {
+    document.body.removeChild(tempDiv);
+  }
+};
@@ -0,0 +1,330 @@
+import { supabase } from '../supabaseClient';
+import { Tables } from '../database.types';
+import { Cuenta } from '../types';
+import { FAMILIA_CORRELATIVO_GASTO } from '../constants';
+import { CriterioConciliacion, FormatoExtracto, LineaExtracto, MovimientoConciliable, normalizarOperacion, sugerirConciliacion } from '../bankStatement';
+import { confirmarCorrelativo, liberarCorrelativo, reservarCorrelativo } from './correlativosApi';
+import { montoTransferenciaEnCuenta, TransferenciaConCuentas } from './cuentasApi';
+import { verificarPeriodosAbiertos } from './periodosApi';
+
+export type ConciliacionBancaria = Tables<'conciliaciones_bancarias'>;
+
+export type LineaConciliacion = Tables<'conciliacion_lineas'>;
+
+export type EstadoConciliacion = 'abierta' | 'cerrada';
+
+/**
+ * `sugerida`: la importación encontró un movimiento que coincide y falta confirmarlo.
+ * `pendiente`: sin movimiento en el sistema. Las demás son decisiones del usuario.
+ */
+export type EstadoLineaConciliacion = 'pendiente' | 'sugerida' | 'confirmada' | 'creada' | 'ignorada';
+
+export const ESTADO_LINEA_CONCILIACION_LABELS: Record<EstadoLineaConciliacion, string> = {
+  pendiente: 'Sin coincidencia',
+  sugerida: 'Sugerida',
+  confirmada: 'Confirmada',
+  creada: 'Registrada',
+  ignorada: 'Ignorada',
+};
+
+// Estados en los que la línea ocupa su ingreso, gasto o transferencia: no se vuelve a proponer en otra línea.
+const ESTADOS_VINCULADOS: EstadoLineaConciliacion[] = ['sugerida', 'confirmada', 'creada'];
+
+export type ConciliacionConResumen = ConciliacionBancaria & {
+  resumen: Record<EstadoLineaConciliacion, number>;
+};
+
+type LineaVinculo = Pick<LineaConciliacion, 'conciliacion_id' | 'ingreso_id' | 'gasto_id' | 'transferencia_id'> & {
+  conciliacion: { cuenta_id: number } | null;
+};
+
+/**
+ * Ingresos, gastos y transferencias de la cuenta entre dos fechas, con el signo con el que mueven
+ * el saldo y la sesión de conciliación en la que ya están vinculados, si la hay.
+ */
+export const fetchMovimientosCuenta = async (cuenta: Cuenta, desde: string, hasta: string): Promise<MovimientoConciliable[]> => {
+  const [ingresosResult, gastosResult, transferenciasResult] = await Promise.all([
+    supabase.from('ingresos').select('id, date, amount, numeroOperacion, transaction_type, receipt_number, full_name')
+      .eq('account', cuenta.name).gte('date', desde).lte('date', hasta),
+    supabase.from('gastos').select('id, date, amount, numero_gasto, description')
+      .eq('account', cuenta.name).gte('date', desde).lte('date', hasta),
+    supabase.from('transferencias')
+      .select('*, origen:cuentas!transferencias_cuenta_origen_id_fkey(name), destino:cuentas!transferencias_cuenta_destino_id_fkey(name)')
+      .or(`cuenta_origen_id.eq.${cuenta.id},cuenta_destino_id.eq.${cuenta.id}`).gte('fecha', desde).lte('fecha', hasta),
+  ]);
+  const error = ingresosResult.error || gastosResult.error || transferenciasResult.error;
+  if (error) {
+    console.error("Error al obtener los movimientos de la cuenta:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  const ingresos = ingresosResult.data || [];
+  const gastos = gastosResult.data || [];
+  const transferencias: TransferenciaConCuentas[] = transferenciasResult.data || [];
+  const vinculos: LineaVinculo[] = [];
+  if (ingresos.length > 0 || gastos.length > 0 || transferencias.length > 0) {
+    const filtros = [
+      ingresos.length > 0 ? `ingreso_id.in.(${ingresos.map(i => i.id).join(',')})` : null,
+      gastos.length > 0 ? `gasto_id.in.(${gastos.map(g => g.id).join(',')})` : null,
+      transferencias.length > 0 ? `transferencia_id.in.(${transferencias.map(t => t.id).join(',')})` : null,
+    ].filter(Boolean).join(',');
+    const { data, error: vinculosError } = await supabase
+      .from('conciliacion_lineas')
+      .select('conciliacion_id, ingreso_id, gasto_id, transferencia_id, conciliacion:conciliaciones_bancarias(cuenta_id)')
+      .in('estado', ESTADOS_VINCULADOS)
+      .or(filtros);
+    if (vinculosError) {
+      console.error("Error al obtener los movimientos conciliados:", vinculosError);
+      throw new Error(`Error de base de datos: ${vinculosError.message}`);
+    }
+    vinculos.push(...((data || []) as unknown as LineaVinculo[]));
+  }
+
+  return [
+    ...ingresos.map(i => ({
+      tipo: 'ingreso' as const,
+      id: i.id,
+      fecha: i.date,
+      monto: i.amount,
+      numeroOperacion: normalizarOperacion(i.numeroOperacion),
+      descripcion: [i.transaction_type, i.receipt_number, i.full_name].filter(Boolean).join(' · '),
+      conciliacionId: vinculos.find(v => v.ingreso_id === i.id)?.conciliacion_id ?? null,
+    })),
+    ...gastos.map(g => ({
+      tipo: 'gasto' as const,
+      id: g.id,
+      fecha: g.date,
+      monto: g.amount,
+      numeroOperacion: null,
+      descripcion: [g.numero_gasto, g.description].filter(Boolean).join(' · '),
+      conciliacionId: vinculos.find(v => v.gasto_id === g.id)?.conciliacion_id ?? null,
+    })),
+    ...transferencias.map(t => {
+      // Una transferencia aparece en el extracto de ambas cuentas, cada una con su signo:
+      // solo cuenta como conciliada por las sesiones de esta cuenta.
+      const monto = montoTransferenciaEnCuenta(t, cuenta.id);
+      return {
+        tipo: 'transferencia' as const,
+        id: t.id,
+        fecha: t.fecha,
+        monto,
+        numeroOperacion: normalizarOperacion(t.numero_operacion),
+        descripcion: [monto >= 0 ? `Desde ${t.origen?.name ?? ''}` : `Hacia ${t.destino?.name ?? ''}`, t.descripcion].filter(Boolean).join(' · '),
+        conciliacionId: vinculos.find(v => v.transferencia_id === t.id && v.conciliacion?.cuenta_id === cuenta.id)?.conciliacion_id ?? null,
+      };
+    }),
+  ].sort((a, b) => a.fecha.localeCompare(b.fecha));
+};
+
+/**
+ * Crea una sesión de conciliación con las líneas del extracto y las coincidencias propuestas.
+ * @returns La sesión creada.
+ */
+export const importarExtracto = async (
+  cuenta: Cuenta,
+  archivo: string,
+  formato: FormatoExtracto,
+  lineas: LineaExtracto[],
+  userId: string | null
+): Promise<ConciliacionBancaria> => {
+  if (lineas.length === 0) {
+    throw new Error('El extracto no tiene movimientos para conciliar.');
+  }
+  const fechas = lineas.map(l => l.fecha).sort();
+  const desde = fechas[0];
+  const hasta = fechas[fechas.length - 1];
+
+  const movimientos = await fetchMovimientosCuenta(cuenta, desde, hasta);
+  const sugerencias = sugerirConciliacion(lineas, movimientos);
+
+  const { data: conciliacion, error } = await supabase
+    .from('conciliaciones_bancarias')
+    .insert({ cuenta_id: cuenta.id, archivo_nombre: archivo, formato, fecha_desde: desde, fecha_hasta: hasta, estado: 'abierta', creado_por: userId })
+    .select()
+    .single();
+  if (error) {
+    console.error("Error al crear la conciliación:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  const { error: lineasError } = await supabase.from('conciliacion_lineas').insert(lineas.map((linea, index) => {
+    const sugerencia = sugerencias[index];
+    return {
+      conciliacion_id: conciliacion.id,
+      fecha: linea.fecha,
+      descripcion: linea.descripcion,
+      numero_operacion: linea.numeroOperacion,
+      monto: linea.monto,
+      estado: sugerencia ? 'sugerida' : 'pendiente',
+      ingreso_id: sugerencia?.movimiento.tipo === 'ingreso' ? sugerencia.movimiento.id : null,
+      gasto_id: sugerencia?.movimiento.tipo === 'gasto' ? sugerencia.movimiento.id : null,
+      transferencia_id: sugerencia?.movimiento.tipo === 'transferencia' ? sugerencia.movimiento.id : null,
+      criterio: sugerencia?.criterio ?? null,
+    };
+  }));
+  if (lineasError) {
+    console.error("Error al guardar las líneas del extracto:", lineasError);
+    // Sin líneas la sesión no sirve: se elimina para que el extracto se pueda volver a importar.
+    await supabase.from('conciliaciones_bancarias').delete().eq('id', conciliacion.id);
+    throw new Error(`Error de base de datos: ${lineasError.message}`);
+  }
+
+  return conciliacion;
+};
+
+/**
+ * Sesiones de conciliación de una cuenta, de la más reciente a la más antigua, con el conteo de líneas por estado.
+ */
+export const fetchConciliaciones = async (cuentaId: number): Promise<ConciliacionConResumen[]> => {
+  const { data, error } = await supabase
+    .from('conciliaciones_bancarias')
+    .select('*, lineas:conciliacion_lineas(estado)')
+    .eq('cuenta_id', cuentaId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error("Error al obtener las conciliaciones:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  return (data || []).map(({ lineas, ...conciliacion }: ConciliacionBancaria & { lineas: { estado: string }[] | null }) => {
+    const resumen: Record<EstadoLineaConciliacion, number> = { pendiente: 0, sugerida: 0, confirmada: 0, creada: 0, ignorada: 0 };
+    (lineas || []).forEach(l => { resumen[l.estado as EstadoLineaConciliacion] += 1; });
+    return { ...conciliacion, resumen };
+  });
+};
+
+export const fetchLineasConciliacion = async (conciliacionId: number): Promise<LineaConciliacion[]> => {
+  const { data, error } = await supabase
+    .from('conciliacion_lineas')
+    .select('*')
+    .eq('conciliacion_id', conciliacionId)
+    .order('fecha')
+    .order('id');
+
+  if (error) {
+    console.error("Error al obtener las líneas de la conciliación:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data || [];
+};
+
+/**
+ * Registra la decisión sobre una o varias líneas: confirmar la coincidencia, vincular otro movimiento,
+ * ignorarlas o devolverlas a pendiente (sin movimiento).
+ */
+export const resolverLineasConciliacion = async (
+  ids: number[],
+  estado: EstadoLineaConciliacion,
+  userId: string | null,
+  vinculo?: { movimiento: MovimientoConciliable; criterio: CriterioConciliacion }
+): Promise<void> => {
+  const changes: Partial<LineaConciliacion> = estado === 'pendiente' || estado === 'ignorada'
+    ? { estado, ingreso_id: null, gasto_id: null, transferencia_id: null, criterio: null }
+    : { estado };
+  if (vinculo) {
+    changes.ingreso_id = vinculo.movimiento.tipo === 'ingreso' ? vinculo.movimiento.id : null;
+    changes.gasto_id = vinculo.movimiento.tipo === 'gasto' ? vinculo.movimiento.id : null;
+    changes.transferencia_id = vinculo.movimiento.tipo === 'transferencia' ? vinculo.movimiento.id : null;
+    changes.criterio = vinculo.criterio;
+  }
+
+  const { error } = await supabase
+    .from('conciliacion_lineas')
+    .update({ ...changes, resuelta_por: userId, resuelta_at: estado === 'pendiente' ? null : new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) {
+    console.error("Error al actualizar las líneas de la conciliación:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Registra en el sistema el movimiento de una línea sin coincidencia: un abono como ingreso
+ * del socio indicado y un cargo como gasto (con su número GA), y deja la línea como `creada`.
+ * @param dniSocio DNI del socio que hizo el abono; obligatorio para los abonos (`ingresos.dni` referencia a `socio_titulares`).
+ */
+export const registrarMovimientoDesdeLinea = async (linea: LineaConciliacion, cuenta: string, userId: string | null, dniSocio?: string): Promise<void> => {
+  let vinculo: MovimientoConciliable;
+  await verificarPeriodosAbiertos(linea.fecha);
+  const base = { fecha: linea.fecha, monto: linea.monto, numeroOperacion: linea.numero_operacion, descripcion: linea.descripcion, conciliacionId: linea.conciliacion_id };
+
+  if (linea.monto > 0) {
+    if (!dniSocio) throw new Error('Indique el DNI del socio que realizó el abono.');
+    // `ingresos.numeroOperacion` es numérico: no se guarda un valor que no lo sea o que pierda precisión.
+    const numeroOperacion = linea.numero_operacion ? Number(linea.numero_operacion) : null;
+    if (numeroOperacion !== null && !Number.isSafeInteger(numeroOperacion)) {
+      throw new Error(`El N° de operación "${linea.numero_operacion}" no es un número válido; registre el ingreso desde Ingresos.`);
+    }
+
+    const { data: socio, error: socioError } = await supabase
+      .from('socio_titulares')
+      .select('dni, nombres, apellidoPaterno, apellidoMaterno')
+      .eq('dni', dniSocio)
+      .maybeSingle();
+    if (socioError) {
+      console.error("Error al buscar el socio del abono:", socioError);
+      throw new Error(`Error de base de datos: ${socioError.message}`);
+    }
+    if (!socio) throw new Error(`No existe un socio con DNI ${dniSocio}.`);
+
+    const { data, error } = await supabase
+      .from('ingresos')
+      .insert({
+        account: cuenta,
+        amount: linea.monto,
+        date: linea.fecha,
+        transaction_type: 'Ingreso',
+        receipt_number: '',
+        dni: socio.dni,
+        full_name: `${socio.nombres || ''} ${socio.apellidoPaterno || ''} ${socio.apellidoMaterno || ''}`.trim(),
+        numeroOperacion,
+      })
+      .select('id')
+      .single();
+    if (error) {
+      console.error("Error al registrar el ingreso del extracto:", error);
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+    vinculo = { ...base, tipo: 'ingreso', id: data.id };
+  } else {
+    const reserva = await reservarCorrelativo(FAMILIA_CORRELATIVO_GASTO);
+    const { data, error } = await supabase
+      .from('gastos')
+      .insert({
+        account: cuenta,
+        amount: linea.monto,
+        date: linea.fecha,
+        category: 'Otros',
+        description: linea.descripcion || 'Cargo según extracto',
+        numero_gasto: reserva.numero_completo,
+      })
+      .select('id')
+      .single();
+    if (error) {
+      console.error("Error al registrar el gasto del extracto:", error);
+      liberarCorrelativo(reserva.id, 'No se pudo registrar el gasto del extracto bancario.').catch(err => console.error('No se pudo liberar el número de gasto:', err));
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+    confirmarCorrelativo(reserva.id).catch(err => console.error('No se pudo confirmar el número de gasto:', err));
+    vinculo = { ...base, tipo: 'gasto', id: data.id };
+  }
+
+  await resolverLineasConciliacion([linea.id], 'creada', userId, { movimiento: vinculo, criterio: 'manual' });
+};
+
+/**
+ * Cierra la sesión: sus líneas quedan como registro de la conciliación y ya no se editan.
+ */
+export const cerrarConciliacion = async (id: number): Promise<void> => {
+  const { error } = await supabase
+    .from('conciliaciones_bancarias')
+    .update({ estado: 'cerrada', cerrada_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error("Error al cerrar la conciliación:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
@@ -0,0 +1,102 @@
+import { supabase } from '../supabaseClient';
+import { Tables } from '../database.types';
+
+export type CorrelativoInterno = Tables<'correlativos_internos'>;
+
+export type EstadoCorrelativo = 'reservado' | 'usado' | 'liberado';
+
+export interface CorrelativoReservado {
+  id: number;
+  numero: number;
+  numero_completo: string;
+}
+
+/**
+ * Número que se reservó pero no llegó a un documento: un hueco en la numeración.
+ * `liberado` es un hueco ya justificado; `reservado` es uno abandonado sin explicación.
+ */
+export type HuecoCorrelativo = Tables<'correlativos_reservados'> & { estado: Exclude<EstadoCorrelativo, 'usado'> };
+
+// Una reserva más antigua que esto ya no corresponde a un formulario en curso.
+const RESERVA_ABANDONADA_MS = 15 * 60 * 1000;
+
+/**
+ * Lista las familias de numeración interna (recibos, gastos, ...) con su último número asignado.
+ */
+export const fetchCorrelativosInternos = async (): Promise<CorrelativoInterno[]> => {
+  const { data, error } = await supabase
+    .from('correlativos_internos')
+    .select('*')
+    .order('familia');
+
+  if (error) {
+    console.error("Error al obtener los correlativos internos:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data || [];
+};
+
+/**
+ * Reserva el siguiente número de una familia. La función `reservar_correlativo` incrementa
+ * `correlativos_internos.ultimo_numero` en una sola sentencia y registra la reserva a nombre
+ * del usuario de la sesión, así dos usuarios simultáneos nunca reciben el mismo número.
+ */
+export const reservarCorrelativo = async (familia: string): Promise<CorrelativoReservado> => {
+  const { data, error } = await supabase.rpc('reservar_correlativo', { p_familia: familia });
+
+  if (error) {
+    console.error(`Error al reservar el correlativo de ${familia}:`, error);
+    throw new Error(`No se pudo reservar el número: ${error.message}`);
+  }
+
+  const reservado = (Array.isArray(data) ? data[0] : data) as CorrelativoReservado | null;
+  if (!reservado) {
+    throw new Error(`La familia de numeración ${familia} no está configurada.`);
+  }
+  return reservado;
+};
+
+/**
+ * Marca una reserva como usada, una vez guardado el documento que lleva el número.
+ */
+export const confirmarCorrelativo = async (id: number): Promise<void> => {
+  const { error } = await supabase.rpc('confirmar_correlativo', { p_id: id });
+
+  if (error) {
+    console.error("Error al confirmar el correlativo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Deja constancia de que un número reservado no se usará. El número no se reutiliza:
+ * queda como hueco justificado.
+ */
+export const liberarCorrelativo = async (id: number, motivo: string): Promise<void> => {
+  const { error } = await supabase.rpc('liberar_correlativo', { p_id: id, p_motivo: motivo });
+
+  if (error) {
+    console.error("Error al liberar el correlativo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Huecos de numeración de una familia: reservas liberadas y reservas abandonadas
+ * (sin confirmar tras unos minutos), de la más reciente a la más antigua.
+ */
+export const fetchHuecosCorrelativo = async (familia: string): Promise<HuecoCorrelativo[]> => {
+  const limiteReserva = new Date(Date.now() - RESERVA_ABANDONADA_MS).toISOString();
+  const { data, error } = await supabase
+    .from('correlativos_reservados')
+    .select('*')
+    .eq('familia', familia)
+    .or(`estado.eq.liberado,and(estado.eq.reservado,created_at.lt.${limiteReserva})`)
+    .order('numero', { ascending: false });
+
+  if (error) {
+    console.error("Error al obtener los huecos de numeración:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return (data || []) as HuecoCorrelativo[];
+};
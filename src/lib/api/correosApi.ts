@@ -0,0 +1,257 @@
+import { supabase } from '../supabaseClient';
+import { Tables, TablesInsert } from '../database.types';
+import { getMailTransport, MailAttachment } from '../mailTransport';
+
+export type TipoDocumentoCorreo = 'boleta' | 'nota_credito' | 'recibo';
+
+export type EstadoCorreo = 'pendiente' | 'enviando' | 'enviado' | 'error';
+
+export type CorreoSaliente = Tables<'correos_salientes'>;
+
+export interface PlantillaCorreo {
+  tipo_documento: TipoDocumentoCorreo;
+  asunto: string;
+  cuerpo: string;
+  personalizada: boolean; // false: aún se usa el texto predeterminado
+}
+
+// Datos del comprobante que se reemplazan en las plantillas como {{cliente}}, {{documento}}, ...
+export interface VariablesCorreo {
+  cliente: string;
+  documento: string;
+  monto: string;
+  fecha: string;
+}
+
+export const TIPOS_DOCUMENTO_CORREO: { code: TipoDocumentoCorreo; name: string }[] = [
+  { code: 'boleta', name: 'Boleta de Venta' },
+  { code: 'nota_credito', name: 'Nota de Crédito' },
+  { code: 'recibo', name: 'Recibo de Pago' },
+];
+
+export const VARIABLES_PLANTILLA_CORREO: (keyof VariablesCorreo)[] = ['cliente', 'documento', 'monto', 'fecha'];
+
+const PLANTILLAS_PREDETERMINADAS: Record<TipoDocumentoCorreo, { asunto: string; cuerpo: string }> = {
+  boleta: {
+    asunto: 'Boleta de Venta Electrónica {{documento}}',
+    cuerpo: 'Estimado(a) {{cliente}}:\n\nAdjuntamos su Boleta de Venta Electrónica {{documento}} del {{fecha}} por {{monto}}.\n\nGracias por su preferencia.',
+  },
+  nota_credito: {
+    asunto: 'Nota de Crédito Electrónica {{documento}}',
+    cuerpo: 'Estimado(a) {{cliente}}:\n\nAdjuntamos la Nota de Crédito Electrónica {{documento}} del {{fecha}} por {{monto}}.\n\nAtentamente.',
+  },
+  recibo: {
+    asunto: 'Recibo de Pago {{documento}}',
+    cuerpo: 'Estimado(a) {{cliente}}:\n\nAdjuntamos su Recibo de Pago {{documento}} del {{fecha}} por {{monto}}.\n\nGracias por su pago.',
+  },
+};
+
+const BUCKET_COMPROBANTES = 'comprobante-de-pago';
+
+/**
+ * Ruta del PDF en el bucket `comprobante-de-pago`. Boletas y recibos usan la misma carpeta en la
+ * que los guarda la emisión; los comprobantes sin socio van a una carpeta por tipo.
+ */
+export const rutaAdjuntoCorreo = (tipo: TipoDocumentoCorreo, documento: string, socioId: string | null): string => {
+  const carpeta = { boleta: '', nota_credito: 'notas-credito/', recibo: 'recibos/' }[tipo];
+  return socioId ? `${socioId}/${carpeta}${documento}.pdf` : `correos/${carpeta || 'boletas/'}${documento}.pdf`;
+};
+
+export const renderPlantillaCorreo = (texto: string, variables: VariablesCorreo): string =>
+  texto.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, nombre: string) =>
+    nombre in variables ? variables[nombre as keyof VariablesCorreo] : match);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toHtml = (cuerpo: string) =>
+  `<div style="font-family: Arial, sans-serif; font-size: 14px;">${escapeHtml(cuerpo).replace(/\n/g, '<br>')}</div>`;
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Por bloques: String.fromCharCode con millones de argumentos desborda la pila.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// --- PLANTILLAS ---
+
+/**
+ * Plantillas de los tres tipos de comprobante; los que no se han editado usan el texto predeterminado.
+ */
+export const fetchPlantillasCorreo = async (): Promise<PlantillaCorreo[]> => {
+  const { data, error } = await supabase.from('plantillas_correo').select('*');
+
+  if (error) {
+    console.error("Error al obtener las plantillas de correo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  return TIPOS_DOCUMENTO_CORREO.map(({ code }) => {
+    const guardada = (data || []).find(p => p.tipo_documento === code);
+    return guardada
+      ? { tipo_documento: code, asunto: guardada.asunto, cuerpo: guardada.cuerpo, personalizada: true }
+      : { tipo_documento: code, ...PLANTILLAS_PREDETERMINADAS[code], personalizada: false };
+  });
+};
+
+export const savePlantillaCorreo = async (tipo: TipoDocumentoCorreo, asunto: string, cuerpo: string): Promise<void> => {
+  const { error } = await supabase
+    .from('plantillas_correo')
+    .upsert({ tipo_documento: tipo, asunto, cuerpo, updated_at: new Date().toISOString() }, { onConflict: 'tipo_documento' });
+
+  if (error) {
+    console.error("Error al guardar la plantilla de correo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Vuelve al texto predeterminado borrando la versión editada.
+ */
+export const resetPlantillaCorreo = async (tipo: TipoDocumentoCorreo): Promise<void> => {
+  const { error } = await supabase.from('plantillas_correo').delete().eq('tipo_documento', tipo);
+
+  if (error) {
+    console.error("Error al restablecer la plantilla de correo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+// --- BANDEJA DE SALIDA ---
+
+/**
+ * Sube el PDF que se adjuntará, salvo que ya esté en el bucket (p. ej. guardado por la emisión).
+ */
+export const guardarAdjuntoCorreo = async (path: string, obtenerPdf: () => Promise<Blob>): Promise<void> => {
+  const carpeta = path.slice(0, path.lastIndexOf('/'));
+  const archivo = path.slice(path.lastIndexOf('/') + 1);
+  const { data: existentes } = await supabase.storage.from(BUCKET_COMPROBANTES).list(carpeta, { search: archivo });
+  if (existentes?.some(f => f.name === archivo)) return;
+
+  const pdf = await obtenerPdf();
+  const { error } = await supabase.storage
+    .from(BUCKET_COMPROBANTES)
+    .upload(path, new File([pdf], archivo, { type: 'application/pdf' }), { cacheControl: '3600', upsert: true });
+
+  if (error) {
+    console.error("Error al guardar el adjunto del correo:", error);
+    throw new Error(`Error al guardar en Storage: ${error.message}`);
+  }
+};
+
+/**
+ * Registra un correo en la bandeja de salida. El envío se hace aparte con `enviarCorreo`,
+ * así un fallo del transporte queda registrado y se puede reintentar.
+ */
+export const encolarCorreo = async (correo: TablesInsert<'correos_salientes'>): Promise<CorreoSaliente> => {
+  const { data, error } = await supabase
+    .from('correos_salientes')
+    .insert({ ...correo, estado: 'pendiente', intentos: 0 })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error al registrar el correo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data;
+};
+
+const updateCorreo = async (id: number, changes: Partial<CorreoSaliente>): Promise<CorreoSaliente> => {
+  const { data, error } = await supabase
+    .from('correos_salientes')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error al actualizar el correo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Envía (o reenvía) un correo de la bandeja con el PDF guardado en el bucket.
+ * Devuelve el registro actualizado: `enviado`, o `error` con el motivo en `ultimo_error`.
+ */
+export const enviarCorreo = async (correo: CorreoSaliente): Promise<CorreoSaliente> => {
+  const intentos = correo.intentos + 1;
+  await updateCorreo(correo.id, { estado: 'enviando', intentos });
+
+  try {
+    const transport = getMailTransport();
+    const attachments: MailAttachment[] = [];
+    if (correo.adjunto_path) {
+      const { data: pdf, error } = await supabase.storage.from(BUCKET_COMPROBANTES).download(correo.adjunto_path);
+      if (error || !pdf) {
+        throw new Error(`No se encontró el PDF ${correo.adjunto_path} en el almacenamiento.`);
+      }
+      attachments.push({
+        filename: `${correo.documento}.pdf`,
+        contentType: 'application/pdf',
+        contentBase64: await blobToBase64(pdf),
+      });
+    }
+
+    const { messageId } = await transport.send({
+      to: correo.destinatario,
+      subject: correo.asunto,
+      text: correo.cuerpo,
+      html: toHtml(correo.cuerpo),
+      attachments,
+    });
+
+    return await updateCorreo(correo.id, {
+      estado: 'enviado',
+      transporte: transport.name,
+      message_id: messageId,
+      enviado_at: new Date().toISOString(),
+      ultimo_error: null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido.';
+    return updateCorreo(correo.id, { estado: 'error', ultimo_error: message });
+  }
+};
+
+/**
+ * Bandeja de salida, del más reciente al más antiguo. `soloPendientes` deja los no enviados.
+ */
+export const fetchCorreosSalientes = async (soloPendientes = false, limit = 100): Promise<CorreoSaliente[]> => {
+  let query = supabase
+    .from('correos_salientes')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (soloPendientes) query = query.neq('estado', 'enviado');
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error al obtener la bandeja de salida:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data || [];
+};
+
+/**
+ * Historial de correos enviados a un socio.
+ */
+export const fetchCorreosSocio = async (socioId: string): Promise<CorreoSaliente[]> => {
+  const { data, error } = await supabase
+    .from('correos_salientes')
+    .select('*')
+    .eq('socio_id', socioId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error("Error al obtener los correos del socio:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data || [];
+};
@@ -0,0 +1,185 @@
+import { supabase } from '../supabaseClient';
+import { TablesInsert, TablesUpdate } from '../database.types';
+import { Cuenta, Gasto, Ingreso, Transferencia } from '../types';
+import { MovimientoEstadoCuenta, TipoMovimientoEstadoCuenta } from '../accountStatement';
+import { verificarPeriodosAbiertos } from './periodosApi';
+
+export type TransferenciaConCuentas = Transferencia & {
+  origen: { name: string } | null;
+  destino: { name: string } | null;
+};
+
+export const fetchCuenta = async (id: number): Promise<Cuenta> => {
+  const { data, error } = await supabase.from('cuentas').select('*').eq('id', id).single();
+
+  if (error) {
+    console.error("Error al obtener la cuenta:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Crea una cuenta. El nombre es la referencia que guardan ingresos y gastos, por eso no se edita después.
+ */
+export const crearCuenta = async (cuenta: TablesInsert<'cuentas'>): Promise<Cuenta> => {
+  const { data, error } = await supabase.from('cuentas').insert(cuenta).select().single();
+
+  if (error) {
+    console.error("Error al crear la cuenta:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Actualiza el tipo y el saldo inicial de una cuenta.
+ */
+export const actualizarCuenta = async (id: number, changes: Pick<TablesUpdate<'cuentas'>, 'tipo' | 'saldo_inicial' | 'saldo_inicial_fecha'>): Promise<void> => {
+  const { error } = await supabase.from('cuentas').update(changes).eq('id', id);
+
+  if (error) {
+    console.error("Error al actualizar la cuenta:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Indica si un movimiento entra en el saldo: los anteriores a la fecha del saldo inicial ya están incluidos en él.
+ */
+export const cuentaIncluyeMovimiento = (cuenta: Cuenta, fecha: string): boolean =>
+  !cuenta.saldo_inicial_fecha || fecha >= cuenta.saldo_inicial_fecha;
+
+/**
+ * Efecto de una transferencia en el saldo de una cuenta: resta en la de origen y suma en la de destino.
+ */
+export const montoTransferenciaEnCuenta = (transferencia: Transferencia, cuentaId: number): number =>
+  transferencia.cuenta_destino_id === cuentaId ? transferencia.monto
+    : transferencia.cuenta_origen_id === cuentaId ? -transferencia.monto
+      : 0;
+
+/**
+ * Saldo de la cuenta: el saldo inicial más sus ingresos, gastos y transferencias desde esa fecha.
+ * Todos los ingresos entran con su signo: recibos y ventas suman, las devoluciones y reversiones
+ * de recibos anulados se guardan en negativo y las anulaciones en cero. Es la misma regla del estado de cuenta.
+ */
+export const calcularSaldoCuenta = (
+  cuenta: Cuenta,
+  ingresos: Pick<Ingreso, 'account' | 'date' | 'amount'>[],
+  gastos: Pick<Gasto, 'account' | 'date' | 'amount'>[],
+  transferencias: Transferencia[]
+): number => {
+  let saldo = cuenta.saldo_inicial;
+  ingresos
+    .filter(ingreso => ingreso.account === cuenta.name && cuentaIncluyeMovimiento(cuenta, ingreso.date))
+    .forEach(ingreso => { saldo += ingreso.amount; });
+  gastos
+    .filter(gasto => gasto.account === cuenta.name && cuentaIncluyeMovimiento(cuenta, gasto.date))
+    .forEach(gasto => { saldo += gasto.amount; }); // Los gastos se guardan en negativo
+  transferencias
+    .filter(transferencia => cuentaIncluyeMovimiento(cuenta, transferencia.fecha))
+    .forEach(transferencia => { saldo += montoTransferenciaEnCuenta(transferencia, cuenta.id); });
+  return saldo;
+};
+
+/**
+ * Registra una transferencia entre cuentas. Es una sola fila con ambas cuentas, así el cargo
+ * y el abono no pueden quedar a medias.
+ */
+export const registrarTransferencia = async (transferencia: TablesInsert<'transferencias'>): Promise<Transferencia> => {
+  if (transferencia.cuenta_origen_id === transferencia.cuenta_destino_id) {
+    throw new Error('La cuenta de origen y la de destino deben ser distintas.');
+  }
+  if (!(transferencia.monto > 0)) {
+    throw new Error('El monto de la transferencia debe ser mayor a 0.');
+  }
+  await verificarPeriodosAbiertos(transferencia.fecha);
+
+  const { data, error } = await supabase.from('transferencias').insert(transferencia).select().single();
+
+  if (error) {
+    console.error("Error al registrar la transferencia:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Transferencias de todas las cuentas o, con `cuentaId`, las que salen o llegan a esa cuenta.
+ */
+export const fetchTransferencias = async (cuentaId?: number): Promise<TransferenciaConCuentas[]> => {
+  let query = supabase
+    .from('transferencias')
+    .select('*, origen:cuentas!transferencias_cuenta_origen_id_fkey(name), destino:cuentas!transferencias_cuenta_destino_id_fkey(name)')
+    .order('fecha', { ascending: false });
+  if (cuentaId !== undefined) {
+    query = query.or(`cuenta_origen_id.eq.${cuentaId},cuenta_destino_id.eq.${cuentaId}`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error al obtener las transferencias:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data || [];
+};
+
+/**
+ * Movimientos de la cuenta hasta una fecha, para el estado de cuenta. Incluye los anteriores al
+ * rango pedido porque de ellos sale el saldo anterior; los previos al saldo inicial no se traen.
+ */
+export const fetchMovimientosEstadoCuenta = async (cuenta: Cuenta, hasta: string): Promise<MovimientoEstadoCuenta[]> => {
+  const desde = cuenta.saldo_inicial_fecha ?? '0001-01-01';
+  const [ingresosResult, gastosResult, colaboradoresResult, transferencias] = await Promise.all([
+    supabase.from('ingresos').select('id, date, amount, transaction_type, receipt_number, dni, full_name, numeroOperacion')
+      .eq('account', cuenta.name).gte('date', desde).lte('date', hasta),
+    supabase.from('gastos').select('id, date, amount, numero_gasto, category, sub_category, description, colaborador_id')
+      .eq('account', cuenta.name).gte('date', desde).lte('date', hasta),
+    supabase.from('colaboradores').select('id, name, apellidos'),
+    fetchTransferencias(cuenta.id),
+  ]);
+  const error = ingresosResult.error || gastosResult.error || colaboradoresResult.error;
+  if (error) {
+    console.error("Error al obtener los movimientos del estado de cuenta:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  const colaboradores = new Map<string, string>(
+    (colaboradoresResult.data || []).map((c: { id: string; name: string; apellidos: string | null }) => [c.id, [c.name, c.apellidos].filter(Boolean).join(' ')])
+  );
+
+  return [
+    ...(ingresosResult.data || []).map((i: Pick<Ingreso, 'id' | 'date' | 'amount' | 'transaction_type' | 'receipt_number' | 'dni' | 'full_name' | 'numeroOperacion'>) => ({
+      id: `ingreso-${i.id}`,
+      fecha: i.date,
+      tipo: (i.amount < 0 ? 'Devolución' : 'Ingreso') as TipoMovimientoEstadoCuenta,
+      documento: i.receipt_number || (i.numeroOperacion ? `Op. ${i.numeroOperacion}` : null),
+      contraparte: [i.full_name, i.dni && `DNI ${i.dni}`].filter(Boolean).join(' · '),
+      descripcion: i.transaction_type,
+      monto: i.amount,
+    })),
+    ...(gastosResult.data || []).map((g: Pick<Gasto, 'id' | 'date' | 'amount' | 'numero_gasto' | 'category' | 'sub_category' | 'description' | 'colaborador_id'>) => ({
+      id: `gasto-${g.id}`,
+      fecha: g.date,
+      tipo: 'Gasto' as TipoMovimientoEstadoCuenta,
+      documento: g.numero_gasto,
+      contraparte: (g.colaborador_id && colaboradores.get(g.colaborador_id)) || [g.category, g.sub_category].filter(Boolean).join(' / '),
+      descripcion: g.description || '',
+      monto: g.amount,
+    })),
+    ...transferencias
+      .filter(t => t.fecha >= desde && t.fecha <= hasta)
+      .map(t => {
+        const monto = montoTransferenciaEnCuenta(t, cuenta.id);
+        return {
+          id: `transferencia-${t.id}`,
+          fecha: t.fecha,
+          tipo: 'Transferencia' as TipoMovimientoEstadoCuenta,
+          documento: t.numero_operacion ? `Op. ${t.numero_operacion}` : null,
+          contraparte: (monto >= 0 ? t.origen?.name : t.destino?.name) ?? '',
+          descripcion: [monto >= 0 ? 'Transferencia recibida' : 'Transferencia enviada', t.descripcion].filter(Boolean).join(' · '),
+          monto,
+        };
+      }),
+  ];
+};
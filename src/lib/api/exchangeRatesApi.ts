@@ -0,0 +1,147 @@
+import { supabase } from '../supabaseClient';
+import { Tables, TablesInsert } from '../database.types';
+import { format, isValid, parse } from 'date-fns';
+import { DEFAULT_MONEDA } from '../constants';
+
+export type TipoCambio = Tables<'tipos_cambio'>;
+
+/**
+ * Importe convertido a soles, con el monto y el tipo de cambio de origen
+ * tal como se guardan en `ingresos` y `gastos`.
+ */
+export interface MontoEnSoles {
+  amount: number;
+  moneda: string;
+  monto_original: number | null;
+  tipo_cambio: number | null;
+}
+
+export interface TiposCambioParseResult {
+  rows: TablesInsert<'tipos_cambio'>[];
+  errors: string[];
+}
+
+const redondear = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Convierte un monto con un tipo de cambio ya conocido. En soles no se guarda monto ni tipo de origen.
+ */
+export const toMontoEnSoles = (monto: number, moneda: string, tipoCambio: number | null): MontoEnSoles => {
+  if (moneda === DEFAULT_MONEDA || !tipoCambio) {
+    return { amount: monto, moneda: DEFAULT_MONEDA, monto_original: null, tipo_cambio: null };
+  }
+  return { amount: redondear(monto * tipoCambio), moneda, monto_original: monto, tipo_cambio: tipoCambio };
+};
+
+/**
+ * Lista los tipos de cambio registrados de una moneda, del más reciente al más antiguo.
+ */
+export const fetchTiposCambio = async (moneda: string, limit = 60): Promise<TipoCambio[]> => {
+  const { data, error } = await supabase
+    .from('tipos_cambio')
+    .select('*')
+    .eq('moneda', moneda)
+    .order('fecha', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error al obtener los tipos de cambio:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data || [];
+};
+
+/**
+ * Tipo de cambio vigente en una fecha. SUNAT no publica en feriados ni fines de semana,
+ * por lo que se usa el último publicado hasta esa fecha.
+ */
+export const fetchTipoCambio = async (fecha: string, moneda: string): Promise<TipoCambio | null> => {
+  const { data, error } = await supabase
+    .from('tipos_cambio')
+    .select('*')
+    .eq('moneda', moneda)
+    .lte('fecha', fecha)
+    .order('fecha', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error al obtener el tipo de cambio:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Convierte un monto a soles con el tipo de cambio venta de la fecha indicada.
+ * Falla si la moneda no es PEN y no hay un tipo de cambio registrado.
+ */
+export const convertirASoles = async (monto: number, moneda: string, fecha: string): Promise<MontoEnSoles> => {
+  if (moneda === DEFAULT_MONEDA) return toMontoEnSoles(monto, moneda, null);
+
+  const tipoCambio = await fetchTipoCambio(fecha, moneda);
+  if (!tipoCambio) {
+    throw new Error(`No hay tipo de cambio ${moneda} registrado al ${fecha}. Regístrelo en Configuración.`);
+  }
+  return toMontoEnSoles(monto, moneda, tipoCambio.venta);
+};
+
+/**
+ * Registra o corrige el tipo de cambio de un día.
+ */
+export const saveTipoCambio = async (values: TablesInsert<'tipos_cambio'>): Promise<void> => {
+  await importTiposCambio([values]);
+};
+
+/**
+ * Guarda varios tipos de cambio; los días ya registrados se sobrescriben.
+ */
+export const importTiposCambio = async (rows: TablesInsert<'tipos_cambio'>[]): Promise<void> => {
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('tipos_cambio')
+    .upsert(rows, { onConflict: 'fecha,moneda' });
+
+  if (error) {
+    console.error("Error al guardar los tipos de cambio:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+const FORMATOS_FECHA = ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd-MM-yyyy'];
+
+const parseFecha = (value: string): string | null => {
+  for (const formato of FORMATOS_FECHA) {
+    const date = parse(value, formato, new Date());
+    if (isValid(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+/**
+ * Lee un archivo CSV/TXT con columnas fecha, compra y venta (separadas por `,`, `;`, `|` o tabulación),
+ * como el que se descarga de la consulta de tipo de cambio de SUNAT. Las líneas que no son datos
+ * (p. ej. la cabecera) se ignoran; las inválidas se informan en `errors`.
+ */
+export const parseTiposCambioFile = (text: string, moneda: string): TiposCambioParseResult => {
+  const errors: string[] = [];
+  // Por fecha: si un día se repite, prevalece la última línea (el upsert no admite claves duplicadas).
+  const porFecha = new Map<string, TablesInsert<'tipos_cambio'>>();
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const cols = line.split(/[,;|\t]/).map(col => col.trim()).filter(Boolean);
+    if (cols.length === 0 || !/\d/.test(cols[0])) return;
+
+    const fecha = parseFecha(cols[0]);
+    const compra = Number(cols[1]);
+    const venta = Number(cols[2]);
+    if (!fecha || !(compra > 0) || !(venta > 0)) {
+      errors.push(`Línea ${index + 1}: "${line.trim()}" no tiene el formato fecha, compra, venta.`);
+      return;
+    }
+    porFecha.set(fecha, { fecha, moneda, compra, venta, fuente: 'importacion' });
+  });
+
+  return { rows: Array.from(porFecha.values()), errors };
+};
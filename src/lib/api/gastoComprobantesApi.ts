@@ -0,0 +1,203 @@
+import { supabase } from '../supabaseClient';
+import { Tables } from '../database.types';
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { Gasto } from '../types';
+import { toCsv } from '../spreadsheet';
+import { crearZip, ZipArchivo } from '../zip';
+import { verificarPeriodosAbiertos } from './periodosApi';
+
+export type GastoComprobante = Tables<'gasto_comprobantes'>;
+
+// Comprobante con un enlace firmado temporal para verlo (el bucket es privado).
+export type GastoComprobanteConUrl = GastoComprobante & { url: string | null };
+
+export interface ComprobantesMesZip {
+  zip: Blob;
+  archivos: number;
+  gastosSinComprobante: number;
+}
+
+// Bucket privado: facturas y tickets de gastos solo se ven con enlaces firmados.
+const BUCKET_COMPROBANTES_GASTO = 'comprobantes-gastos';
+
+// Duración de los enlaces firmados de las miniaturas.
+const URL_FIRMADA_SEGUNDOS = 60 * 60;
+
+export const TIPOS_COMPROBANTE_GASTO = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+export const MAX_TAMANO_COMPROBANTE_GASTO = 10 * 1024 * 1024;
+
+export const esImagenComprobante = (comprobante: Pick<GastoComprobante, 'tipo_mime'>) => comprobante.tipo_mime.startsWith('image/');
+
+/**
+ * Valida el archivo antes de subirlo. Devuelve el mensaje de error o null si se acepta.
+ */
+export const validarArchivoComprobante = (archivo: File): string | null => {
+  if (!TIPOS_COMPROBANTE_GASTO.includes(archivo.type)) {
+    return `${archivo.name}: solo se aceptan fotos (JPG, PNG, WEBP) o PDF.`;
+  }
+  if (archivo.size > MAX_TAMANO_COMPROBANTE_GASTO) {
+    return `${archivo.name}: supera el máximo de ${MAX_TAMANO_COMPROBANTE_GASTO / (1024 * 1024)} MB.`;
+  }
+  return null;
+};
+
+const nombreSeguro = (nombre: string) =>
+  nombre.normalize('NFD').replace(/[̀-ͯ]/g, '').replace(/[^\w.-]+/g, '_');
+
+/**
+ * Comprobantes de todos los gastos, con su enlace firmado, agrupables por `gasto_id`.
+ */
+export const fetchComprobantesGastos = async (): Promise<GastoComprobanteConUrl[]> => {
+  const { data, error } = await supabase
+    .from('gasto_comprobantes')
+    .select('*')
+    .order('created_at');
+
+  if (error) {
+    console.error("Error al obtener los comprobantes de gastos:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  const comprobantes: GastoComprobante[] = data || [];
+  if (comprobantes.length === 0) return [];
+
+  const { data: urls, error: urlsError } = await supabase.storage
+    .from(BUCKET_COMPROBANTES_GASTO)
+    .createSignedUrls(comprobantes.map(c => c.archivo_path), URL_FIRMADA_SEGUNDOS);
+  if (urlsError) {
+    console.warn('No se pudieron firmar los enlaces de los comprobantes:', urlsError.message);
+  }
+
+  return comprobantes.map(c => ({ ...c, url: urls?.find(u => u.path === c.archivo_path)?.signedUrl ?? null }));
+};
+
+/**
+ * Sube los archivos al bucket y los vincula al gasto. Si falla el registro de un archivo,
+ * se borra del bucket para no dejar archivos sueltos.
+ */
+export const subirComprobantesGasto = async (gastoId: number, archivos: File[], userId: string | null): Promise<void> => {
+  const invalido = archivos.map(validarArchivoComprobante).find(Boolean);
+  if (invalido) throw new Error(invalido);
+
+  for (const archivo of archivos) {
+    const path = `${gastoId}/${Date.now()}-${nombreSeguro(archivo.name)}`;
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET_COMPROBANTES_GASTO)
+      .upload(path, archivo, { cacheControl: '3600', contentType: archivo.type });
+    if (uploadError) {
+      console.error("Error al subir el comprobante del gasto:", uploadError);
+      throw new Error(`Error al guardar en Storage: ${uploadError.message}`);
+    }
+
+    const { error } = await supabase.from('gasto_comprobantes').insert({
+      gasto_id: gastoId,
+      archivo_path: path,
+      nombre_archivo: archivo.name,
+      tipo_mime: archivo.type,
+      tamano_bytes: archivo.size,
+      subido_por: userId,
+    });
+    if (error) {
+      console.error("Error al registrar el comprobante del gasto:", error);
+      await supabase.storage.from(BUCKET_COMPROBANTES_GASTO).remove([path]);
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+  }
+};
+
+const quitarArchivos = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(BUCKET_COMPROBANTES_GASTO).remove(paths);
+  if (error) {
+    console.warn(`Advertencia: No se pudieron eliminar archivos del almacenamiento (${BUCKET_COMPROBANTES_GASTO}): ${error.message}`);
+  }
+};
+
+/**
+ * Quita un comprobante de un gasto. En un mes cerrado no se permite: el respaldo forma parte del cierre.
+ */
+export const eliminarComprobanteGasto = async (comprobante: GastoComprobante, fechaGasto: string): Promise<void> => {
+  await verificarPeriodosAbiertos(fechaGasto);
+
+  const { error } = await supabase.from('gasto_comprobantes').delete().eq('id', comprobante.id);
+  if (error) {
+    console.error("Error al eliminar el comprobante del gasto:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  await quitarArchivos([comprobante.archivo_path]);
+};
+
+/**
+ * Quita del bucket los archivos de un gasto ya eliminado (sus filas se borran en cascada con el gasto).
+ * Se llama solo después de eliminar el gasto, para no perder los archivos si el borrado falla.
+ */
+export const eliminarArchivosDeGasto = async (gastoId: number): Promise<void> => {
+  const { data, error } = await supabase.storage.from(BUCKET_COMPROBANTES_GASTO).list(String(gastoId));
+  if (error) {
+    console.warn(`Advertencia: No se pudieron listar los archivos del gasto ${gastoId}: ${error.message}`);
+    return;
+  }
+  await quitarArchivos((data || []).map(archivo => `${gastoId}/${archivo.name}`));
+};
+
+type GastoConComprobantes = Pick<Gasto, 'id' | 'date' | 'amount' | 'numero_gasto' | 'category' | 'description'> & {
+  gasto_comprobantes: Pick<GastoComprobante, 'archivo_path' | 'nombre_archivo'>[];
+};
+
+/**
+ * Arma el ZIP del mes para el contador: los comprobantes de cada gasto, nombrados con la fecha
+ * y el N° de gasto, y un `indice.csv` con todos los gastos del mes, incluidos los que no tienen respaldo.
+ * @param periodo Mes en formato yyyy-MM.
+ */
+export const descargarComprobantesMes = async (periodo: string): Promise<ComprobantesMesZip> => {
+  const desde = `${periodo}-01`;
+  const hasta = format(endOfMonth(parseISO(desde)), 'yyyy-MM-dd');
+  const { data, error } = await supabase
+    .from('gastos')
+    .select('id, date, amount, numero_gasto, category, description, gasto_comprobantes(archivo_path, nombre_archivo)')
+    .gte('date', desde)
+    .lte('date', hasta)
+    .order('date')
+    .order('id');
+
+  if (error) {
+    console.error("Error al obtener los gastos del mes:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  const gastos = (data || []) as unknown as GastoConComprobantes[];
+  const archivos: ZipArchivo[] = [];
+  const indice: (string | number | null)[][] = [['Fecha', 'N° Gasto', 'Categoría', 'Descripción', 'Monto', 'Comprobantes']];
+
+  // Secuencial: son pocos archivos por mes y así no se satura la conexión del navegador.
+  for (const gasto of gastos) {
+    const base = `${gasto.date}_${nombreSeguro(gasto.numero_gasto || `gasto-${gasto.id}`)}`;
+    const nombres: string[] = [];
+    for (const [index, comprobante] of gasto.gasto_comprobantes.entries()) {
+      const { data: blob, error: downloadError } = await supabase.storage.from(BUCKET_COMPROBANTES_GASTO).download(comprobante.archivo_path);
+      if (downloadError || !blob) {
+        console.error("Error al descargar el comprobante:", downloadError);
+        throw new Error(`No se pudo descargar ${comprobante.nombre_archivo}: ${downloadError?.message ?? 'archivo vacío'}`);
+      }
+      const extension = comprobante.nombre_archivo.includes('.') ? comprobante.nombre_archivo.slice(comprobante.nombre_archivo.lastIndexOf('.')) : '';
+      const nombre = `${base}${gasto.gasto_comprobantes.length > 1 ? `_${index + 1}` : ''}${extension.toLowerCase()}`;
+      archivos.push({ nombre, datos: new Uint8Array(await blob.arrayBuffer()), fecha: parseISO(gasto.date) });
+      nombres.push(nombre);
+    }
+    indice.push([
+      format(parseISO(gasto.date), 'dd/MM/yyyy'),
+      gasto.numero_gasto,
+      gasto.category,
+      gasto.description,
+      Math.abs(gasto.amount).toFixed(2),
+      nombres.length > 0 ? nombres.join(' | ') : 'SIN COMPROBANTE',
+    ]);
+  }
+
+  archivos.push({ nombre: 'indice.csv', datos: new TextEncoder().encode(toCsv(indice)) });
+  return {
+    zip: crearZip(archivos),
+    archivos: archivos.length - 1,
+    gastosSinComprobante: gastos.filter(g => g.gasto_comprobantes.length === 0).length,
+  };
+};
@@ -1,9 +1,12 @@
 import axios from 'axios';
 import { z } from 'zod';
-import { BRANCH_ID, COMPANY_ID } from '../constants'; // Solo importamos COMPANY_ID y BRANCH_ID
-import { BoletaPayload, CheckSummaryStatusResponseSchema, Client, CreateSummaryResponse, CreateSummaryResponseSchema, DailySummary, DocumentoAfectado, InvoicingCalendarItem, IssueResponse, IssueResponseSchema, NotaCreditoPayload, SendSummaryData, SendSummaryResponse, SendSummaryResponseSchema, DetalleBoletaSchema, AnnulledIncomeSummary } from '../types/invoicing';
+import { addDays, differenceInCalendarDays, endOfMonth, format, parseISO, startOfDay, startOfMonth } from 'date-fns';
+import { BRANCH_ID, COMPANY_ID, DEFAULT_FORMATO_IMPRESION, DEFAULT_MONEDA, ESTADOS_SUNAT_PENDIENTES, PLAZO_RESUMEN_DIARIO_DIAS } from '../constants';
+import { BoletaPayload, CheckSummaryStatusResponseSchema, Client, CreateSummaryResponse, CreateSummaryResponseSchema, DailySummary, DocumentoAfectado, InvoicingCalendarItem, InvoicingCalendarStatus, IssueResponse, IssueResponseSchema, NotaCreditoPayload, SendSummaryData, SendSummaryResponse, SendSummaryResponseSchema, DetalleBoletaSchema, AnnulledIncomeSummary, FacturaPayload, FacturaIssueResponse, FacturaIssueResponseSchema, RUC_REGEX, ComunicacionBaja, ComunicacionBajaPayload, ComunicacionBajaResponse, ComunicacionBajaResponseSchema, DocumentoBajaCandidato, NotaDebitoPayload, DocumentoPendienteSunat, CoberturaResumenDia, SerieComprobante, SerieComprobanteFormValues, ProductoServicio, ProductoServicioFormValues, EmisionBoleta, EmisionBoletaContexto, PasoEmisionBoleta, PasoEmisionState, FormatoImpresion, ReciboEmitido, AnularReciboFormValues } from '../types/invoicing';
 import { supabase } from '../supabaseClient';
-import { TablesInsert } from '../database.types';
+import { Json, Tables, TablesInsert, TablesUpdate } from '../database.types';
+import { convertirASoles, toMontoEnSoles } from './exchangeRatesApi';
+import { verificarPeriodosAbiertos } from './periodosApi';
 
 const invoicingApi = axios.create({
   baseURL: import.meta.env.VITE_INVOICING_API_BASE_URL, // Acceso directo a la variable de entorno
@@ -15,10 +18,13 @@ const invoicingApi = axios.create({
 
 /**
  * Emite una Boleta de Venta Electrónica.
+ * Con `idempotencyKey`, la API devuelve la boleta ya emitida si la misma solicitud se reintenta.
  */
-export const issueBoleta = async (boletaData: BoletaPayload): Promise<IssueResponse> => {
+export const issueBoleta = async (boletaData: BoletaPayload, idempotencyKey?: string): Promise<IssueResponse> => {
   try {
-    const response = await invoicingApi.post('/boletas', boletaData);
+    const response = await invoicingApi.post('/boletas', boletaData, idempotencyKey ? {
+      headers: { 'Idempotency-Key': idempotencyKey },
+    } : undefined);
     const validatedResponse = IssueResponseSchema.parse(response.data);
     return validatedResponse;
   } catch (error) {
@@ -37,7 +43,7 @@ export const issueBoleta = async (boletaData: BoletaPayload): Promise<IssueRespo
 /**
  * Genera el PDF de una Boleta de Venta Electrónica.
  */
-export const generateBoletaPdf = async (boletaId: number, format: 'A4' | 'TICKET' = 'A4'): Promise<void> => {
+export const generateBoletaPdf = async (boletaId: number, format: FormatoImpresion = 'A4'): Promise<void> => {
   try {
     await invoicingApi.post(`/boletas/${boletaId}/generate-pdf`, { format });
   } catch (error) {
@@ -53,7 +59,7 @@ export const generateBoletaPdf = async (boletaId: number, format: 'A4' | 'TICKET
 /**
  * Downloads a Boleta PDF, saves it to Supabase Storage, and creates or updates a record in `socio_documentos`.
  */
-export const saveBoletaPdfToSupabase = async (boletaId: number, serieCorrelativo: string, socioId: string, format: 'A4' | 'TICKET' = 'A4'): Promise<void> => {
+export const saveBoletaPdfToSupabase = async (boletaId: number, serieCorrelativo: string, socioId: string, format: FormatoImpresion = 'A4'): Promise<void> => {
   try {
     // 1. Obtener el PDF como blob desde la API de facturación
     const response = await invoicingApi.get(`/boletas/${boletaId}/download-pdf`, {
@@ -125,17 +131,32 @@ export const saveBoletaPdfToSupabase = async (boletaId: number, serieCorrelativo
 
 
 /**
- * Downloads a Boleta PDF from the API and triggers a browser download.
+ * Obtiene el PDF de una boleta en el formato indicado, para previsualizarlo o imprimirlo.
+ * El PDF en ese formato debe haberse generado antes con `generateBoletaPdf`.
  */
-export const downloadBoletaPdfToBrowser = async (boletaId: number, serieCorrelativo: string, format: 'A4' | 'TICKET' = 'A4'): Promise<void> => {
+export const fetchBoletaPdfBlob = async (boletaId: number, format: FormatoImpresion = 'A4'): Promise<Blob> => {
   try {
-    // 1. Obtener el PDF como blob
     const response = await invoicingApi.get(`/boletas/${boletaId}/download-pdf`, {
       params: { format },
       responseType: 'blob',
     });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al obtener PDF de boleta:", error.response.data);
+      throw new Error(`Error de la API al obtener PDF. Código: ${error.response.status}`);
+    }
+    throw error;
+  }
+};
 
-    const pdfBlob = response.data;
+/**
+ * Downloads a Boleta PDF from the API and triggers a browser download.
+ */
+export const downloadBoletaPdfToBrowser = async (boletaId: number, serieCorrelativo: string, format: FormatoImpresion = 'A4'): Promise<void> => {
+  try {
+    // 1. Obtener el PDF como blob
+    const pdfBlob = await fetchBoletaPdfBlob(boletaId, format);
     const fileName = `${serieCorrelativo}.pdf`;
 
     // 2. Disparar la descarga en el navegador
@@ -148,15 +169,30 @@ export const downloadBoletaPdfToBrowser = async (boletaId: number, serieCorrelat
     link.remove();
     window.URL.revokeObjectURL(url);
   } catch (error) {
-    if (axios.isAxiosError(error) && error.response) {
-      console.error("Error al descargar PDF de boleta:", error.response.data);
-      throw new Error(`Error de la API al descargar PDF. Código: ${error.response.status}`);
-    }
+    console.error("Error al descargar PDF de boleta:", error);
     throw error;
   }
 };
 
 
+
+/**
+ * DNI del socio con el id indicado, o null si no existe. Los ingresos se registran con este DNI
+ * (`ingresos.dni` referencia a `socio_titulares`), no con el RUC del comprobante.
+ */
+export const fetchSocioDni = async (socioId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('socio_titulares')
+    .select('dni')
+    .eq('id', socioId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error al obtener el DNI del socio:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data?.dni ?? null;
+};
 /**
  * Busca datos de un cliente por su DNI en la tabla `socio_titulares`.
  * @param docNumber Número de documento del cliente (DNI).
@@ -211,9 +247,11 @@ export const fetchClientByDocument = async (docNumber: string): Promise<Client |
 
 /**
  * Crea un registro de ingreso en Supabase a partir de una boleta emitida.
+ * Lanza un error si la fecha del ingreso cae en un periodo cerrado.
  */
 export const createIncomeFromBoleta = async (incomeData: Omit<TablesInsert<'ingresos'>, 'id' | 'created_at'>): Promise<void> => {
   try {
+    await verificarPeriodosAbiertos(incomeData.date);
     const { error } = await supabase.from('ingresos').insert([incomeData]);
 
     if (error) {
@@ -231,18 +269,189 @@ export const createIncomeFromBoleta = async (incomeData: Omit<TablesInsert<'ingr
 
 
 /**
- * Simula la obtención de las últimas facturas/boletas para el calendario.
+ * Serializa los detalles del formulario para guardarlos en una columna JSON.
  */
-export const fetchRecentInvoices = async (): Promise<InvoicingCalendarItem[]> => {
-  await new Promise(resolve => setTimeout(resolve, 500));
-  return [
-    { id: 101, type: 'Boleta', serie: 'B001-1234', clientName: 'Juan Pérez', amount: 150.00, date: '2025-07-28', status: 'Aceptado' },
-    { id: 102, type: 'Factura', serie: 'F001-5678', clientName: 'Tech Solutions SAC', amount: 4500.50, date: '2025-07-27', status: 'Aceptado' },
-    { id: 103, type: 'Nota Crédito', serie: 'NC01-0012', clientName: 'María Sánchez', amount: -50.00, date: '2025-07-27', status: 'Aceptado' },
-    { id: 104, type: 'Boleta', serie: 'B001-1235', clientName: 'Cliente Anónimo', amount: 85.90, date: '2025-07-26', status: 'Pendiente' },
-    { id: 105, type: 'Factura', serie: 'F001-5679', clientName: 'Global Corp S.A.', amount: 12000.00, date: '2025-07-25', status: 'Rechazado' },
-    { id: 106, type: 'Boleta', serie: 'B001-1236', clientName: 'Pedro Gómez', amount: 25.00, date: '2025-07-25', status: 'Aceptado' },
+export const toJsonDetalles = (detalles: z.infer<typeof DetalleBoletaSchema>[]): Json =>
+  detalles.map(d => ({ ...d })) as Json;
+
+/**
+ * Registra la boleta emitida en `boletas_electronicas` con sus líneas reales y la copia del cliente.
+ * @returns ID del registro creado.
+ */
+export const saveBoletaToDb = async (boletaData: TablesInsert<'boletas_electronicas'>): Promise<number> => {
+  const { data, error } = await supabase
+    .from('boletas_electronicas')
+    .insert(boletaData)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error("Error al guardar la boleta en Supabase:", error);
+    throw new Error(`Error de base de datos al guardar la boleta: ${error?.message || 'sin datos'}`);
+  }
+  return data.id;
+};
+
+/**
+ * Convierte un path devuelto por la API de facturación (pdf/xml/cdr) en una URL navegable.
+ */
+const resolveInvoicingFileUrl = (path: string | null | undefined): string | null => {
+  if (!path) return null;
+  if (/^https?:\/\//.test(path)) return path;
+  const baseUrl = (import.meta.env.VITE_INVOICING_API_BASE_URL || '').replace(/\/+$/, '');
+  return `${baseUrl}/${path.replace(/^\/+/, '')}`;
+};
+
+/**
+ * Normaliza el estado SUNAT guardado en la base de datos a los estados del calendario.
+ */
+const toCalendarStatus = (estadoSunat: string | null): InvoicingCalendarStatus => {
+  switch (estadoSunat?.toUpperCase()) {
+    case 'ACEPTADO':
+      return 'Aceptado';
+    case 'RECHAZADO':
+      return 'Rechazado';
+    case 'ANULADO':
+      return 'Anulado';
+    default:
+      return 'Pendiente';
+  }
+};
+
+type ComprobanteCalendarRow = Pick<Tables<'boletas_electronicas'>, 'id' | 'serie' | 'numero' | 'fecha_emision' | 'moneda' | 'monto_total' | 'cliente_razon_social' | 'estado_sunat' | 'pdf_path' | 'xml_path' | 'cdr_path'>;
+
+type NotaCalendarRow = Pick<Tables<'notas_credito'>, 'id' | 'serie' | 'numero' | 'fecha_emision' | 'moneda' | 'monto_total' | 'documento_afectado_serie_numero' | 'estado_sunat' | 'pdf_path' | 'xml_path' | 'cdr_path'> & {
+  boleta: { cliente_razon_social: string } | null;
+  factura: { cliente_razon_social: string } | null;
+};
+
+type ReciboCalendarRow = Pick<Tables<'ingresos'>, 'id' | 'receipt_number' | 'full_name' | 'amount' | 'date' | 'transaction_type'> & {
+  socio: { id: string } | null;
+};
+
+type ResumenCalendarRow = Pick<Tables<'resumenes_diarios'>, 'id' | 'fecha_resumen' | 'numero_completo' | 'estado_sunat'> & {
+  resumen_diario_boletas: { count: number }[];
+};
+
+const COMPROBANTE_CALENDAR_COLUMNS = 'id, serie, numero, fecha_emision, moneda, monto_total, cliente_razon_social, estado_sunat, pdf_path, xml_path, cdr_path';
+const NOTA_CALENDAR_COLUMNS = 'id, serie, numero, fecha_emision, moneda, monto_total, documento_afectado_serie_numero, estado_sunat, pdf_path, xml_path, cdr_path, boleta:boletas_electronicas(cliente_razon_social), factura:facturas_electronicas(cliente_razon_social)';
+
+const comprobanteToCalendarItem = (type: 'Boleta' | 'Factura', row: ComprobanteCalendarRow): InvoicingCalendarItem => ({
+  key: `${type}-${row.id}`,
+  id: row.id,
+  type,
+  serie: `${row.serie}-${row.numero}`,
+  clientName: row.cliente_razon_social,
+  amount: row.monto_total,
+  moneda: row.moneda,
+  date: row.fecha_emision,
+  status: toCalendarStatus(row.estado_sunat),
+  estadoSunat: row.estado_sunat,
+  pdfUrl: resolveInvoicingFileUrl(row.pdf_path),
+  xmlUrl: resolveInvoicingFileUrl(row.xml_path),
+  cdrUrl: resolveInvoicingFileUrl(row.cdr_path),
+});
+
+const notaToCalendarItem = (type: 'Nota Crédito' | 'Nota Débito', row: NotaCalendarRow): InvoicingCalendarItem => ({
+  key: `${type}-${row.id}`,
+  id: row.id,
+  type,
+  serie: `${row.serie}-${row.numero}`,
+  clientName: row.boleta?.cliente_razon_social || row.factura?.cliente_razon_social || `Modifica ${row.documento_afectado_serie_numero}`,
+  // Las notas de crédito restan del total facturado.
+  amount: type === 'Nota Crédito' ? -row.monto_total : row.monto_total,
+  moneda: row.moneda,
+  date: row.fecha_emision,
+  status: toCalendarStatus(row.estado_sunat),
+  estadoSunat: row.estado_sunat,
+  documentoAfectado: row.documento_afectado_serie_numero,
+  pdfUrl: resolveInvoicingFileUrl(row.pdf_path),
+  xmlUrl: resolveInvoicingFileUrl(row.xml_path),
+  cdrUrl: resolveInvoicingFileUrl(row.cdr_path),
+});
+
+const reciboToCalendarItem = (row: ReciboCalendarRow, anulados: Set<string>): InvoicingCalendarItem => ({
+  key: `Recibo-${row.id}`,
+  id: row.id,
+  type: 'Recibo',
+  serie: row.receipt_number,
+  clientName: row.full_name,
+  amount: row.amount,
+  moneda: 'PEN',
+  date: row.date,
+  // Los recibos internos no pasan por SUNAT.
+  status: row.transaction_type === 'Anulacion' || anulados.has(row.receipt_number) ? 'Anulado' : 'Interno',
+  estadoSunat: null,
+  // El PDF del recibo se guarda en la carpeta del socio (ver saveReceiptPdfToSupabase).
+  pdfUrl: row.socio
+    ? supabase.storage.from('comprobante-de-pago').getPublicUrl(`${row.socio.id}/recibos/${row.receipt_number}.pdf`).data.publicUrl
+    : null,
+  xmlUrl: null,
+  cdrUrl: null,
+});
+
+const resumenToCalendarItem = (row: ResumenCalendarRow): InvoicingCalendarItem => ({
+  key: `Resumen Diario-${row.id}`,
+  id: row.id,
+  type: 'Resumen Diario',
+  serie: row.numero_completo,
+  clientName: `${row.resumen_diario_boletas?.[0]?.count ?? 0} boleta(s) resumidas`,
+  amount: null,
+  moneda: 'PEN',
+  date: row.fecha_resumen,
+  status: toCalendarStatus(row.estado_sunat),
+  estadoSunat: row.estado_sunat,
+  pdfUrl: null,
+  xmlUrl: null,
+  cdrUrl: null,
+});
+
+/**
+ * Obtiene los documentos emitidos en un mes (boletas, facturas, notas, recibos y resúmenes diarios)
+ * para el calendario de facturación, ordenados por fecha descendente.
+ */
+export const fetchInvoicingCalendarMonth = async (month: Date): Promise<InvoicingCalendarItem[]> => {
+  const desde = format(startOfMonth(month), 'yyyy-MM-dd');
+  const hasta = format(endOfMonth(month), 'yyyy-MM-dd');
+
+  const [boletas, facturas, notasCredito, notasDebito, recibos, recibosAnulados, resumenes] = await Promise.all([
+    supabase.from('boletas_electronicas').select(COMPROBANTE_CALENDAR_COLUMNS).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+    supabase.from('facturas_electronicas').select(COMPROBANTE_CALENDAR_COLUMNS).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+    supabase.from('notas_credito').select(NOTA_CALENDAR_COLUMNS).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+    supabase.from('notas_debito').select(NOTA_CALENDAR_COLUMNS).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+    supabase
+      .from('ingresos')
+      .select('id, receipt_number, full_name, amount, date, transaction_type, socio:socio_titulares(id)')
+      .like('receipt_number', 'R-%')
+      .neq('transaction_type', 'Devolucion') // Reversión de un recibo anulado
+      .gte('date', desde)
+      .lte('date', hasta),
+    supabase.from('recibos_pago').select('numero').eq('anulado', true).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+    supabase
+      .from('resumenes_diarios')
+      .select('id, fecha_resumen, numero_completo, estado_sunat, resumen_diario_boletas(count)')
+      .gte('fecha_resumen', desde)
+      .lte('fecha_resumen', hasta),
+  ]);
+
+  const firstError = [boletas, facturas, notasCredito, notasDebito, recibos, recibosAnulados, resumenes].find(r => r.error)?.error;
+  if (firstError) {
+    console.error("Error al obtener los documentos del calendario:", firstError);
+    throw new Error(`Error de base de datos: ${firstError.message}`);
+  }
+
+  const numerosAnulados = new Set((recibosAnulados.data || []).map(row => row.numero));
+  const items: InvoicingCalendarItem[] = [
+    // Los embeds de PostgREST (muchos-a-uno) llegan como objeto, aunque el cliente sin tipos los infiera como arreglo.
+    ...(boletas.data as ComprobanteCalendarRow[]).map(row => comprobanteToCalendarItem('Boleta', row)),
+    ...(facturas.data as ComprobanteCalendarRow[]).map(row => comprobanteToCalendarItem('Factura', row)),
+    ...(notasCredito.data as unknown as NotaCalendarRow[]).map(row => notaToCalendarItem('Nota Crédito', row)),
+    ...(notasDebito.data as unknown as NotaCalendarRow[]).map(row => notaToCalendarItem('Nota Débito', row)),
+    ...(recibos.data as unknown as ReciboCalendarRow[]).map(row => reciboToCalendarItem(row, numerosAnulados)),
+    ...(resumenes.data as unknown as ResumenCalendarRow[]).map(resumenToCalendarItem),
   ];
+
+  return items.sort((a, b) => b.date.localeCompare(a.date));
 };
 
 /**
@@ -346,6 +555,113 @@ export const saveDailySummaryResult = async (summaryData: SendSummaryData): Prom
   }
 };
 
+// PostgREST devuelve como máximo 1000 filas por consulta: las listas largas se piden por páginas.
+const FILAS_POR_PAGINA = 1000;
+
+// Comprobantes por consulta en un filtro `in`, para no exceder el largo máximo de la URL.
+const SERIE_NUMEROS_POR_CONSULTA = 200;
+
+/**
+ * Reúne todas las páginas de una consulta. `consulta` recibe el rango de filas (inclusivo) a pedir.
+ */
+const fetchTodasLasPaginas = async <T>(
+  consulta: (desde: number, hasta: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> => {
+  const filas: T[] = [];
+  for (let desde = 0; ; desde += FILAS_POR_PAGINA) {
+    const { data, error } = await consulta(desde, desde + FILAS_POR_PAGINA - 1);
+    if (error) throw new Error(`Error de base de datos: ${error.message}`);
+    filas.push(...(data || []));
+    if (!data || data.length < FILAS_POR_PAGINA) return filas;
+  }
+};
+
+/**
+ * Compara las boletas emitidas en un rango de fechas con las registradas en `resumen_diario_boletas`
+ * y devuelve, por día, las que todavía deben informarse a SUNAT. Solo incluye días con boletas pendientes.
+ */
+export const fetchCoberturaResumenes = async (desde: string, hasta: string): Promise<CoberturaResumenDia[]> => {
+  type BoletaCobertura = Pick<Tables<'boletas_electronicas'>, 'serie' | 'numero' | 'fecha_emision'>;
+  type DetalleResumen = { serie_numero: string; resumen: { estado_sunat: string | null } | null };
+
+  let boletas: BoletaCobertura[];
+  try {
+    boletas = await fetchTodasLasPaginas<BoletaCobertura>((inicio, fin) => supabase
+      .from('boletas_electronicas')
+      .select('serie, numero, fecha_emision')
+      .gte('fecha_emision', desde)
+      .lte('fecha_emision', hasta)
+      .order('id')
+      .range(inicio, fin));
+  } catch (boletasError) {
+    console.error("Error al obtener boletas para la cobertura de resúmenes:", boletasError);
+    throw boletasError;
+  }
+  if (boletas.length === 0) return [];
+
+  const serieNumeros = boletas.map(b => `${b.serie}-${b.numero}`);
+  const resumidas: DetalleResumen[] = [];
+  try {
+    for (let i = 0; i < serieNumeros.length; i += SERIE_NUMEROS_POR_CONSULTA) {
+      const lote = serieNumeros.slice(i, i + SERIE_NUMEROS_POR_CONSULTA);
+      resumidas.push(...await fetchTodasLasPaginas<DetalleResumen>((inicio, fin) => supabase
+        .from('resumen_diario_boletas')
+        .select('serie_numero, resumen:resumenes_diarios(estado_sunat)')
+        .in('serie_numero', lote)
+        .order('id')
+        .range(inicio, fin)
+        .then(result => result as unknown as { data: DetalleResumen[] | null; error: { message: string } | null })));
+    }
+  } catch (resumidasError) {
+    console.error("Error al obtener el detalle de resúmenes:", resumidasError);
+    throw resumidasError;
+  }
+
+  // Una boleta cuenta como informada si está en algún resumen que no fue rechazado.
+  const informadas = new Set<string>();
+  const rechazadas = new Set<string>();
+  for (const row of resumidas) {
+    if (row.resumen?.estado_sunat?.toLowerCase() === 'rechazado') {
+      rechazadas.add(row.serie_numero);
+    } else {
+      informadas.add(row.serie_numero);
+    }
+  }
+
+  const porDia = new Map<string, CoberturaResumenDia>();
+  const hoy = startOfDay(new Date());
+  for (const boleta of boletas) {
+    const serieNumero = `${boleta.serie}-${boleta.numero}`;
+    let dia = porDia.get(boleta.fecha_emision);
+    if (!dia) {
+      const fechaLimite = addDays(parseISO(boleta.fecha_emision), PLAZO_RESUMEN_DIARIO_DIAS);
+      dia = {
+        fecha: boleta.fecha_emision,
+        totalBoletas: 0,
+        resumidas: 0,
+        sinResumen: [],
+        enResumenRechazado: [],
+        fechaLimite: format(fechaLimite, 'yyyy-MM-dd'),
+        diasRestantes: differenceInCalendarDays(fechaLimite, hoy),
+      };
+      porDia.set(boleta.fecha_emision, dia);
+    }
+
+    dia.totalBoletas++;
+    if (informadas.has(serieNumero)) {
+      dia.resumidas++;
+    } else if (rechazadas.has(serieNumero)) {
+      dia.enResumenRechazado.push(serieNumero);
+    } else {
+      dia.sinResumen.push(serieNumero);
+    }
+  }
+
+  return [...porDia.values()]
+    .filter(dia => dia.sinResumen.length > 0 || dia.enResumenRechazado.length > 0)
+    .sort((a, b) => a.fecha.localeCompare(b.fecha));
+};
+
 /**
  * Obtiene todos los resúmenes diarios desde Supabase.
  */
@@ -401,6 +717,35 @@ export const checkSummaryStatus = async (summaryApiId: number): Promise<string |
   }
 };
 
+/**
+ * Propaga el estado final de un resumen diario a las boletas que incluye.
+ * Las boletas ya anuladas no se modifican.
+ */
+const applySummaryStatusToBoletas = async (summaryId: number, newStatus: string): Promise<void> => {
+  const { data: detalles, error } = await supabase
+    .from('resumen_diario_boletas')
+    .select('serie_numero')
+    .eq('resumen_id', summaryId);
+
+  if (error) {
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  for (const { serie_numero } of detalles || []) {
+    const [serie, numero] = serie_numero.split('-');
+    const { error: boletaError } = await supabase
+      .from('boletas_electronicas')
+      .update({ estado_sunat: newStatus.toUpperCase() })
+      .eq('serie', serie)
+      .eq('numero', numero)
+      .or('estado_sunat.is.null,estado_sunat.neq.ANULADO');
+
+    if (boletaError) {
+      throw new Error(`Error al actualizar ${serie_numero}: ${boletaError.message}`);
+    }
+  }
+};
+
 /**
  * Actualiza el estado de un resumen diario en la base de datos de Supabase.
  */
@@ -416,6 +761,10 @@ export const updateSummaryStatusInDb = async (summaryId: number, newStatus: stri
             console.error("Error al actualizar estado en Supabase:", error);
             throw new Error(`Error de base de datos: ${error.message}`);
         }
+
+        if (['aceptado', 'rechazado'].includes(newStatus.toLowerCase())) {
+            await applySummaryStatusToBoletas(summaryId, newStatus);
+        }
     } catch (error) {
         console.error("Error general al actualizar estado:", error);
         if (error instanceof Error) {
@@ -426,6 +775,50 @@ export const updateSummaryStatusInDb = async (summaryId: number, newStatus: stri
 };
 
 
+/**
+ * Busca un comprobante registrado localmente (boleta o factura) con sus líneas reales
+ * y los datos del cliente tal como se emitieron.
+ */
+const fetchComprobanteRegistrado = async (
+  tabla: 'boletas_electronicas' | 'facturas_electronicas',
+  serie: string,
+  numero: string
+): Promise<DocumentoAfectado | null> => {
+  const { data: comprobante, error } = await supabase
+    .from(tabla)
+    .select('*')
+    .eq('serie', serie)
+    .eq('numero', numero)
+    .single();
+
+  if (error || !comprobante) {
+    if (error && error.code !== 'PGRST116') { // PGRST116 = No rows found
+      console.error(`Error al buscar el comprobante en ${tabla}:`, error);
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+    console.log(`No se encontró ${serie}-${numero} en ${tabla}.`);
+    return null;
+  }
+
+  const client: Client = {
+    id: comprobante.socio_id || undefined,
+    tipo_documento: comprobante.cliente_tipo_documento,
+    numero_documento: comprobante.cliente_numero_documento,
+    razon_social: comprobante.cliente_razon_social,
+    direccion: comprobante.cliente_direccion || '',
+  };
+
+  return {
+    id: comprobante.id,
+    fecha_emision: comprobante.fecha_emision,
+    moneda: comprobante.moneda,
+    client,
+    detalles: (comprobante.detalles as z.infer<typeof DetalleBoletaSchema>[] | null) || [],
+    mto_imp_venta: comprobante.monto_total,
+    origen: tabla,
+  };
+};
+
 /**
  * Busca un documento (Boleta o Factura) en la base de datos para asociarlo a una Nota de Crédito.
  */
@@ -434,19 +827,24 @@ export const fetchDocumentoAfectado = async (
   serie: string,
   numero: string
 ): Promise<DocumentoAfectado | null> => {
-  const serieNumero = `${serie}-${numero}`;
-  console.log(`Buscando ingreso con receipt_number: ${serieNumero}`);
+  if (tipo === 'factura') {
+    return fetchComprobanteRegistrado('facturas_electronicas', serie, numero);
+  }
 
-  if (tipo !== 'boleta') {
-    console.warn("La búsqueda de facturas aún no está implementada.");
-    return null;
+  const boletaRegistrada = await fetchComprobanteRegistrado('boletas_electronicas', serie, numero);
+  if (boletaRegistrada) {
+    return boletaRegistrada;
   }
 
+  // Boletas emitidas antes de registrarse en `boletas_electronicas`: se reconstruyen a partir del ingreso.
+  const serieNumero = `${serie}-${numero}`;
+  console.log(`Buscando ingreso con receipt_number: ${serieNumero}`);
+
   try {
     // 1. Buscar el ingreso en la tabla `ingresos`
     const { data: ingresoData, error: findError } = await supabase
       .from('ingresos')
-      .select('id, date, amount, dni')
+      .select('id, date, amount, dni, moneda, monto_original')
       .eq('receipt_number', serieNumero)
       .single();
 
@@ -488,13 +886,14 @@ export const fetchDocumentoAfectado = async (
       departamento: socioData.regionDNI || '',
     };
 
-    // 4. Construir un detalle genérico a partir del monto total del ingreso.
+    // 4. Construir un detalle genérico a partir del monto total del ingreso, en la moneda en que se cobró.
+    const montoComprobante = ingresoData.monto_original ?? ingresoData.amount;
     const detalles: z.infer<typeof DetalleBoletaSchema>[] = [
         {
             descripcion: `Servicio según comprobante ${serieNumero}`,
             unidad: 'NIU',
             cantidad: 1,
-            mto_valor_unitario: ingresoData.amount, // Usamos 'amount'. Este es el precio CON IGV
+            mto_valor_unitario: montoComprobante, // Precio CON IGV
             porcentaje_igv: 18.00, // Asumimos 18%
             tip_afe_igv: '10', // Gravado - Operación Onerosa
         }
@@ -504,10 +903,11 @@ export const fetchDocumentoAfectado = async (
     const documento: DocumentoAfectado = {
       id: ingresoData.id,
       fecha_emision: ingresoData.date,
-      moneda: 'PEN',
+      moneda: ingresoData.moneda || DEFAULT_MONEDA,
       client: client,
       detalles: detalles,
-      mto_imp_venta: ingresoData.amount,
+      mto_imp_venta: montoComprobante,
+      origen: 'ingresos',
     };
 
     return documento;
@@ -556,41 +956,223 @@ export const sendNotaCreditoToSunat = async (creditNoteId: number): Promise<void
 };
 
 /**
- * Actualiza un registro de ingreso existente para reflejar una devolución por Nota de Crédito.
+ * Obtiene el PDF de una Nota de Crédito desde la API, p. ej. para adjuntarlo a un correo.
+ */
+export const fetchNotaCreditoPdfBlob = async (creditNoteId: number, format: FormatoImpresion = 'A4'): Promise<Blob> => {
+  try {
+    const response = await invoicingApi.get(`/credit-notes/${creditNoteId}/download-pdf`, {
+      params: { format },
+      responseType: 'blob',
+    });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al obtener PDF de nota de crédito:", error.response.data);
+      throw new Error(`Error de la API al obtener PDF. Código: ${error.response.status}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Registra la Nota de Crédito emitida en `notas_credito`, enlazada a su comprobante original.
+ * @returns ID del registro creado.
+ */
+export const saveNotaCreditoToDb = async (notaData: TablesInsert<'notas_credito'>): Promise<number> => {
+  const { data, error } = await supabase
+    .from('notas_credito')
+    .insert(notaData)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error("Error al guardar la nota de crédito en Supabase:", error);
+    throw new Error(`Error de base de datos al guardar la nota de crédito: ${error?.message || 'sin datos'}`);
+  }
+  return data.id;
+};
+
+/**
+ * Actualiza el estado SUNAT de una Nota de Crédito registrada (p. ej. tras enviarla).
+ */
+export const updateNotaCreditoStatusInDb = async (notaId: number, estadoSunat: string): Promise<void> => {
+  const { error } = await supabase
+    .from('notas_credito')
+    .update({ estado_sunat: estadoSunat })
+    .eq('id', notaId);
+
+  if (error) {
+    console.error("Error al actualizar el estado de la nota de crédito:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Suma lo ya acreditado a un comprobante con Notas de Crédito registradas (sin contar las rechazadas por SUNAT).
+ * Con ello se limita el monto de una nueva nota al saldo que queda por acreditar. Es confiable porque
+ * una nota solo se envía a SUNAT después de quedar registrada aquí (ver NotaCreditoForm).
  */
-export const updateIncomeOnCreditNote = async (originalSerieNumero: string, creditNoteAmount: number, creditNoteSerieNumero: string): Promise<void> => {
+export const fetchMontoAcreditado = async (originalSerieNumero: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from('notas_credito')
+    .select('monto_total, estado_sunat')
+    .eq('documento_afectado_serie_numero', originalSerieNumero);
+
+  if (error) {
+    console.error("Error al obtener las notas de crédito del comprobante:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  const total = (data || [])
+    .filter(nota => nota.estado_sunat?.toUpperCase() !== 'RECHAZADO')
+    .reduce((acc, nota) => acc + Number(nota.monto_total), 0);
+  return parseFloat(total.toFixed(2));
+};
+
+/**
+ * Crea un ingreso negativo (Devolucion) que revierte la venta original por el monto de la Nota de Crédito.
+ * El ingreso original no se modifica, así ambos movimientos quedan en reportes y saldos.
+ * Lanza un error si no hay un único ingreso del comprobante: sin él no se sabe a qué cuenta devolver.
+ */
+export const createIncomeFromCreditNote = async (
+  originalSerieNumero: string,
+  creditNoteAmount: number,
+  creditNoteSerieNumero: string,
+  fechaEmision: string
+): Promise<void> => {
   try {
-    // 1. Encontrar el ingreso original
-    const { data: originalIncome, error: findError } = await supabase
+    await verificarPeriodosAbiertos(fechaEmision);
+
+    // 1. Encontrar el ingreso original para heredar cliente y cuenta
+    const { data: ingresos, error: findError } = await supabase
       .from('ingresos')
-      .select('id, amount')
+      .select('id, dni, full_name, account, moneda, tipo_cambio')
       .eq('receipt_number', originalSerieNumero)
-      .single();
+      .neq('transaction_type', 'Devolucion');
 
-    if (findError || !originalIncome) {
-      console.warn(`No se encontró un registro de ingreso para el comprobante ${originalSerieNumero}. No se actualizará.`);
-      return;
+    if (findError) {
+      throw new Error(`Error al buscar el ingreso del comprobante ${originalSerieNumero}: ${findError.message}`);
+    }
+    if (!ingresos || ingresos.length === 0) {
+      throw new Error(`No se encontró un ingreso para el comprobante ${originalSerieNumero}. Registre la devolución manualmente.`);
     }
+    if (ingresos.length > 1) {
+      throw new Error(`Hay ${ingresos.length} ingresos con el comprobante ${originalSerieNumero}. Registre la devolución manualmente en la cuenta que corresponda.`);
+    }
+    const [originalIncome] = ingresos;
 
-    // 2. Actualizar el registro para reflejar la anulación
-    const { error: updateError } = await supabase
+    // 2. Registrar la reversión como un movimiento independiente, al tipo de cambio de la venta original
+    const monto = toMontoEnSoles(-Math.abs(creditNoteAmount), originalIncome.moneda, originalIncome.tipo_cambio);
+    const { error: insertError } = await supabase
       .from('ingresos')
-      .update({
-        transaction_type: 'Nota de Crédito',
+      .insert([{
         receipt_number: creditNoteSerieNumero,
-        amount: -Math.abs(creditNoteAmount),
-      })
-      .eq('id', originalIncome.id);
-
-    if (updateError) {
-      throw new Error(`Error al actualizar el ingreso en Supabase: ${updateError.message}`);
+        dni: originalIncome.dni,
+        full_name: originalIncome.full_name,
+        account: originalIncome.account,
+        ...monto,
+        date: fechaEmision,
+        transaction_type: 'Devolucion',
+      }]);
+
+    if (insertError) {
+      throw new Error(`Error al registrar la devolución en Supabase: ${insertError.message}`);
     }
   } catch (error) {
-    console.error("Error en updateIncomeOnCreditNote:", error);
+    console.error("Error en createIncomeFromCreditNote:", error);
     throw error;
   }
 };
 
+// --- NOTAS DE DÉBITO ---
+
+/**
+ * Emite una Nota de Débito (intereses, penalidades, aumentos de valor) sobre una boleta o factura.
+ */
+export const issueNotaDebito = async (payload: NotaDebitoPayload): Promise<IssueResponse> => {
+  try {
+    const response = await invoicingApi.post('/debit-notes', payload);
+    const validatedResponse = IssueResponseSchema.parse(response.data);
+    return validatedResponse;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al emitir nota de débito:", error.response.data);
+      const apiMessage = error.response.data.message || JSON.stringify(error.response.data);
+      throw new Error(`Error de la API de facturación: ${apiMessage}`);
+    }
+    if (error instanceof Error) {
+        throw new Error(`Error al procesar la respuesta o de red: ${error.message}`);
+    }
+    throw new Error('Error desconocido al emitir la nota de débito.');
+  }
+};
+
+/**
+ * Envía una Nota de Débito a la SUNAT.
+ */
+export const sendNotaDebitoToSunat = async (debitNoteId: number): Promise<void> => {
+  try {
+    await invoicingApi.post(`/debit-notes/${debitNoteId}/send-sunat`);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al enviar nota de débito a SUNAT:", error.response.data);
+      throw new Error(`Error de la API al enviar a SUNAT: ${error.response.data.message || 'Error desconocido'}`);
+    }
+    throw new Error('Error de red al enviar la Nota de Débito a SUNAT.');
+  }
+};
+
+/**
+ * Registra la Nota de Débito emitida en `notas_debito`, enlazada a su comprobante original.
+ * @returns ID del registro creado.
+ */
+export const saveNotaDebitoToDb = async (notaData: TablesInsert<'notas_debito'>): Promise<number> => {
+  const { data, error } = await supabase
+    .from('notas_debito')
+    .insert(notaData)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error("Error al guardar la nota de débito en Supabase:", error);
+    throw new Error(`Error de base de datos al guardar la nota de débito: ${error?.message || 'sin datos'}`);
+  }
+  return data.id;
+};
+
+/**
+ * Crea el ingreso (positivo) de una Nota de Débito.
+ * Hereda DNI y nombre del ingreso del comprobante original para que el cargo quede en el historial del mismo socio.
+ * El cargo está en la moneda de la nota y se convierte a soles con el tipo de cambio de su fecha de emisión;
+ * lanza un error si ese tipo de cambio no está registrado.
+ */
+export const createIncomeFromDebitNote = async (
+  originalSerieNumero: string,
+  nota: { moneda: string; fecha_emision: string },
+  incomeData: Omit<TablesInsert<'ingresos'>, 'id' | 'created_at' | 'transaction_type'>
+): Promise<void> => {
+  const monto = await convertirASoles(Math.abs(incomeData.amount), nota.moneda, nota.fecha_emision);
+
+  const { data: originalIncome, error: findError } = await supabase
+    .from('ingresos')
+    .select('dni, full_name')
+    .eq('receipt_number', originalSerieNumero)
+    .maybeSingle();
+
+  if (findError) {
+    console.error("Error al buscar el ingreso original:", findError);
+    throw new Error(`Error de base de datos: ${findError.message}`);
+  }
+
+  await createIncomeFromBoleta({
+    ...incomeData,
+    dni: originalIncome?.dni || incomeData.dni,
+    full_name: originalIncome?.full_name || incomeData.full_name,
+    ...monto,
+    transaction_type: 'Venta',
+  });
+};
+
 /**
  * Obtiene todos los ingresos que representan boletas anuladas o devoluciones (Notas de Crédito).
  * Ahora acepta un parámetro para filtrar por tipo de diálogo ('annulled' o 'returned').
@@ -656,88 +1238,750 @@ export const fetchAnnulledAndReturnedIncomes = async (dialogType: 'annulled' | '
   }
 };
 
-// --- NUEVAS FUNCIONES PARA RECIBOS DE PAGO INTERNOS ---
+// --- FACTURAS ELECTRÓNICAS ---
 
 /**
- * Obtiene el siguiente correlativo para Recibos de Pago (R-00xxx).
+ * Sube un PDF de comprobante al bucket `comprobante-de-pago` y devuelve su URL pública.
  */
-export const fetchNextReceiptCorrelative = async (): Promise<string> => {
-  try {
-    // 1. Buscar el último recibo (R-00xxx) en la tabla 'ingresos'
-    const { data, error } = await supabase
-      .from('ingresos')
-      .select('receipt_number')
-      .like('receipt_number', 'R-%')
-      .order('receipt_number', { ascending: false })
-      .limit(1); // Eliminamos .single() para mayor robustez
+const uploadComprobantePdf = async (pdfBlob: Blob, filePath: string): Promise<string> => {
+  const fileName = filePath.split('/').pop() || filePath;
+  const pdfFile = new File([pdfBlob], fileName, { type: 'application/pdf' });
+
+  const { error: uploadError } = await supabase.storage
+    .from('comprobante-de-pago')
+    .upload(filePath, pdfFile, {
+      cacheControl: '3600',
+      upsert: true,
+    });
 
-    if (error) {
-      console.error("Error al buscar el último correlativo de recibo:", error);
-      throw new Error(`Error de base de datos: ${error.message}`);
-    }
+  if (uploadError) {
+    console.error("Error al subir el comprobante a Supabase Storage:", uploadError);
+    throw new Error(`Error al guardar en Storage: ${uploadError.message}`);
+  }
 
-    let nextNumber = 1;
-    const lastReceipt = data?.[0]; // Obtenemos el primer elemento del array (si existe)
+  const { data: urlData } = supabase.storage
+    .from('comprobante-de-pago')
+    .getPublicUrl(filePath);
 
-    if (lastReceipt && lastReceipt.receipt_number) {
-      const lastNumberMatch = lastReceipt.receipt_number.match(/R-(\d+)/);
-      if (lastNumberMatch) {
-        const lastNumber = parseInt(lastNumberMatch[1], 10);
-        nextNumber = lastNumber + 1;
-      }
-    }
+  if (!urlData?.publicUrl) {
+    throw new Error("No se pudo obtener la URL pública del comprobante guardado.");
+  }
+  return urlData.publicUrl;
+};
 
-    // Formato R-00xxx (ej: R-00001)
-    const nextCorrelative = `R-${String(nextNumber).padStart(5, '0')}`;
-    return nextCorrelative;
+/**
+ * Dispara la descarga de un Blob en el navegador.
+ */
+const triggerBrowserDownload = (blob: Blob, fileName: string): void => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
 
+/**
+ * Emite una Factura Electrónica.
+ */
+export const issueFactura = async (facturaData: FacturaPayload): Promise<FacturaIssueResponse> => {
+  try {
+    const response = await invoicingApi.post('/invoices', facturaData);
+    const validatedResponse = FacturaIssueResponseSchema.parse(response.data);
+    return validatedResponse;
   } catch (error) {
-    console.error("Error general al obtener el siguiente correlativo de recibo:", error);
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al emitir factura:", error.response.data);
+      const apiMessage = error.response.data.message || JSON.stringify(error.response.data);
+      throw new Error(`Error de la API de facturación: ${apiMessage}`);
+    }
     if (error instanceof Error) {
-        throw error;
+        throw new Error(`Error al procesar la respuesta o de red: ${error.message}`);
     }
-    throw new Error('Error desconocido al obtener el correlativo.');
+    throw new Error('Error desconocido al emitir la factura.');
   }
 };
 
 /**
- * Sube el PDF del Recibo de Pago a Supabase Storage y crea/actualiza un registro en `socio_documentos`.
+ * Envía una Factura a la SUNAT. A diferencia de las boletas, las facturas no viajan en el resumen diario.
  */
-export const saveReceiptPdfToSupabase = async (
-  pdfBlob: Blob, 
-  serieCorrelativo: string, 
-  socioId: string // FIX: Changed type to string (UUID)
-): Promise<void> => {
+export const sendFacturaToSunat = async (facturaId: number): Promise<void> => {
   try {
-    const fileName = `${serieCorrelativo}.pdf`;
-    // Usamos una subcarpeta 'recibos' dentro del path del socio para distinguirlos de las boletas
-    const filePath = `${socioId}/recibos/${fileName}`; 
-    const pdfFile = new File([pdfBlob], fileName, { type: 'application/pdf' });
-
-    // 1. Subir el archivo a Supabase Storage
-    const { error: uploadError } = await supabase.storage
-      .from('comprobante-de-pago')
-      .upload(filePath, pdfFile, {
-        cacheControl: '3600',
-        upsert: true, // Sobrescribe si ya existe
-      });
-
-    if (uploadError) {
-      console.error("Error al subir el recibo a Supabase Storage:", uploadError);
-      throw new Error(`Error al guardar en Storage: ${uploadError.message}`);
-    }
-
-    // 2. Obtener la URL pública del archivo recién subido
-    const { data: urlData } = supabase.storage
-      .from('comprobante-de-pago')
-      .getPublicUrl(filePath);
-
-    if (!urlData?.publicUrl) {
-      throw new Error("No se pudo obtener la URL pública del recibo guardado.");
+    await invoicingApi.post(`/invoices/${facturaId}/send-sunat`);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al enviar factura a SUNAT:", error.response.data);
+      throw new Error(`Error de la API al enviar a SUNAT: ${error.response.data.message || 'Error desconocido'}`);
     }
-    const publicUrl = urlData.publicUrl;
+    throw new Error('Error de red al enviar la Factura a SUNAT.');
+  }
+};
 
-    // 3. Insertar o actualizar el registro en la tabla `socio_documentos` (Upsert).
+/**
+ * Genera el PDF de una Factura Electrónica.
+ */
+export const generateFacturaPdf = async (facturaId: number, format: FormatoImpresion = 'A4'): Promise<void> => {
+  try {
+    await invoicingApi.post(`/invoices/${facturaId}/generate-pdf`, { format });
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al generar PDF de factura:", error.response.data);
+      const apiMessage = error.response.data.message || JSON.stringify(error.response.data);
+      throw new Error(`Error de la API al generar PDF: ${apiMessage}`);
+    }
+    throw new Error('Error desconocido al solicitar la generación del PDF.');
+  }
+};
+
+/**
+ * Descarga el PDF de una Factura y lo guarda en Supabase Storage.
+ * Si la factura está asociada a un socio (RUC 10 de un socio titular), también se registra en `socio_documentos`.
+ * @returns URL pública del PDF guardado.
+ */
+export const saveFacturaPdfToSupabase = async (
+  facturaId: number,
+  serieCorrelativo: string,
+  ruc: string,
+  socioId: string | null,
+  format: FormatoImpresion = 'A4'
+): Promise<string> => {
+  try {
+    const response = await invoicingApi.get(`/invoices/${facturaId}/download-pdf`, {
+      params: { format },
+      responseType: 'blob',
+    });
+
+    const fileName = `${serieCorrelativo}.pdf`;
+    // Las facturas a empresas no tienen socio: se agrupan por RUC.
+    const filePath = socioId ? `${socioId}/facturas/${fileName}` : `facturas/${ruc}/${fileName}`;
+    const publicUrl = await uploadComprobantePdf(response.data, filePath);
+
+    if (socioId) {
+      const { data: upsertData, error: upsertError } = await supabase
+        .from('socio_documentos')
+        .upsert({
+          socio_id: socioId,
+          tipo_documento: 'Comprobante de Pago',
+          link_documento: publicUrl,
+        }, {
+          onConflict: 'socio_id, tipo_documento'
+        })
+        .select();
+
+      if (upsertError) {
+        console.error("Error al hacer upsert del registro de la factura en socio_documentos:", upsertError);
+        throw new Error(`Error al registrar el documento en la base de datos: ${upsertError.message}`);
+      }
+
+      if (!upsertData || upsertData.length === 0) {
+        console.error("Falla silenciosa: El upsert en socio_documentos no devolvió datos. Posible problema de RLS.");
+        throw new Error("No se pudo registrar el documento en la base de datos (verifique las políticas de seguridad).");
+      }
+    }
+
+    return publicUrl;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al obtener PDF de factura para guardar:", error.response.data);
+      throw new Error(`Error de la API al obtener PDF. Código: ${error.response.status}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Descarga el PDF de una Factura desde la API y dispara la descarga en el navegador.
+ */
+export const downloadFacturaPdfToBrowser = async (facturaId: number, serieCorrelativo: string, format: FormatoImpresion = 'A4'): Promise<void> => {
+  try {
+    const response = await invoicingApi.get(`/invoices/${facturaId}/download-pdf`, {
+      params: { format },
+      responseType: 'blob',
+    });
+    triggerBrowserDownload(response.data, `${serieCorrelativo}.pdf`);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al descargar PDF de factura:", error.response.data);
+      throw new Error(`Error de la API al descargar PDF. Código: ${error.response.status}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Busca un cliente por RUC.
+ * 1. Reutiliza los datos de la última factura emitida a ese RUC.
+ * 2. Si es un RUC 10 (persona natural), intenta encontrar al socio titular con el DNI contenido en el RUC.
+ * @returns Datos del cliente (con `id` del socio si corresponde) o null si no se encuentra.
+ */
+export const fetchClientByRuc = async (ruc: string): Promise<Client | null> => {
+  if (!RUC_REGEX.test(ruc)) {
+    return null;
+  }
+
+  try {
+    // Para RUC 10 el DNI está en las posiciones 3 a 10.
+    const embeddedDni = ruc.startsWith('10') ? ruc.substring(2, 10) : null;
+    const socio = embeddedDni ? await fetchClientByDocument(embeddedDni) : null;
+
+    const { data: lastFactura, error } = await supabase
+      .from('facturas_electronicas')
+      .select('cliente_numero_documento, cliente_razon_social, cliente_direccion, socio_id')
+      .eq('cliente_numero_documento', ruc)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error("Error al buscar facturas previas del RUC:", error);
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+
+    const previous = lastFactura?.[0];
+
+    if (previous) {
+      return {
+        ...(socio || {}),
+        id: previous.socio_id || socio?.id,
+        tipo_documento: '6',
+        numero_documento: ruc,
+        razon_social: previous.cliente_razon_social,
+        direccion: previous.cliente_direccion || socio?.direccion || '',
+      };
+    }
+
+    if (socio) {
+      return { ...socio, tipo_documento: '6', numero_documento: ruc };
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Error general al buscar cliente por RUC:", error);
+    if (error instanceof Error) throw error;
+    throw new Error('Error al buscar el cliente por RUC.');
+  }
+};
+
+/**
+ * Guarda la factura emitida en `facturas_electronicas` para consultas posteriores (notas de crédito, reportes).
+ * @returns ID del registro creado.
+ */
+export const saveFacturaToDb = async (facturaData: TablesInsert<'facturas_electronicas'>): Promise<number> => {
+  const { data, error } = await supabase
+    .from('facturas_electronicas')
+    .insert(facturaData)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error("Error al guardar la factura en Supabase:", error);
+    throw new Error(`Error de base de datos al guardar la factura: ${error?.message || 'sin datos'}`);
+  }
+  return data.id;
+};
+
+// --- COMUNICACIÓN DE BAJA ---
+
+/**
+ * Obtiene los comprobantes (boletas y facturas) emitidos en una fecha que aún pueden darse de baja.
+ * Excluye los ya anulados, los que tienen Notas de Crédito y los incluidos en una comunicación de baja
+ * pendiente o aceptada; si SUNAT rechazó la baja, el comprobante puede volver a informarse.
+ */
+export const fetchDocumentosParaBaja = async (fechaEmision: string): Promise<DocumentoBajaCandidato[]> => {
+  try {
+    const columns = 'id, serie, numero, fecha_emision, cliente_numero_documento, cliente_razon_social, moneda, monto_total, estado_sunat';
+    const [boletasResult, facturasResult, detallesResult] = await Promise.all([
+      supabase.from('boletas_electronicas').select(columns).eq('fecha_emision', fechaEmision),
+      supabase.from('facturas_electronicas').select(columns).eq('fecha_emision', fechaEmision),
+      supabase.from('comunicacion_baja_detalles').select('serie_numero, baja:comunicaciones_baja(estado_sunat)'),
+    ]);
+
+    const error = boletasResult.error || facturasResult.error || detallesResult.error;
+    if (error) {
+      console.error("Error al obtener comprobantes para baja:", error);
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+
+    const detalles = (detallesResult.data || []) as unknown as { serie_numero: string; baja: Pick<ComunicacionBaja, 'estado_sunat'> | null }[];
+    const yaInformados = new Set(detalles
+      .filter(d => d.baja?.estado_sunat?.toLowerCase() !== 'rechazado')
+      .map(d => d.serie_numero));
+
+    // Un comprobante con Notas de Crédito vigentes ya tiene devoluciones registradas: se corrige con otra nota, no con una baja.
+    const emitidos = [...(boletasResult.data || []), ...(facturasResult.data || [])].map(row => `${row.serie}-${row.numero}`);
+    const { data: notasCredito, error: notasError } = emitidos.length > 0
+      ? await supabase.from('notas_credito').select('documento_afectado_serie_numero, estado_sunat').in('documento_afectado_serie_numero', emitidos)
+      : { data: [], error: null };
+    if (notasError) {
+      console.error("Error al obtener las notas de crédito de los comprobantes:", notasError);
+      throw new Error(`Error de base de datos: ${notasError.message}`);
+    }
+    const conNotaCredito = new Set((notasCredito || [])
+      .filter(n => n.estado_sunat?.toUpperCase() !== 'RECHAZADO')
+      .map(n => n.documento_afectado_serie_numero));
+
+    const toCandidato = (tipo: DocumentoBajaCandidato['tipo']) => (row: Pick<Tables<'boletas_electronicas'>, 'id' | 'serie' | 'numero' | 'fecha_emision' | 'cliente_numero_documento' | 'cliente_razon_social' | 'moneda' | 'monto_total' | 'estado_sunat'>): DocumentoBajaCandidato => ({
+      id: row.id,
+      tipo,
+      serie_numero: `${row.serie}-${row.numero}`,
+      fecha_emision: row.fecha_emision,
+      cliente_numero_documento: row.cliente_numero_documento,
+      cliente_razon_social: row.cliente_razon_social,
+      moneda: row.moneda,
+      monto_total: row.monto_total,
+      estado_sunat: row.estado_sunat,
+    });
+
+    return [
+      ...(facturasResult.data || []).map(toCandidato('factura')),
+      ...(boletasResult.data || []).map(toCandidato('boleta')),
+    ].filter(doc => doc.estado_sunat?.toUpperCase() !== 'ANULADO' && !yaInformados.has(doc.serie_numero) && !conNotaCredito.has(doc.serie_numero));
+  } catch (error) {
+    console.error("Error general al obtener comprobantes para baja:", error);
+    if (error instanceof Error) throw error;
+    throw new Error('Error desconocido al obtener los comprobantes.');
+  }
+};
+
+/**
+ * Crea una comunicación de baja en la API de facturación.
+ * La API se encarga de enviar las facturas como Comunicación de Baja (RA) y las boletas como resumen con estado "anulado".
+ */
+export const createComunicacionBaja = async (payload: ComunicacionBajaPayload): Promise<ComunicacionBajaResponse> => {
+  try {
+    const response = await invoicingApi.post('/voided-documents', payload);
+    const validatedResponse = ComunicacionBajaResponseSchema.parse(response.data);
+    return validatedResponse;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al crear comunicación de baja:", error.response.data);
+      const apiMessage = error.response.data.message || JSON.stringify(error.response.data);
+      throw new Error(`Error de la API: ${apiMessage}`);
+    }
+    if (error instanceof Error) {
+        throw new Error(`Error de red o de procesamiento: ${error.message}`);
+    }
+    throw new Error('Error desconocido al crear la comunicación de baja.');
+  }
+};
+
+/**
+ * Envía una comunicación de baja previamente creada a la SUNAT.
+ */
+export const sendComunicacionBajaToSunat = async (bajaApiId: number): Promise<ComunicacionBajaResponse> => {
+  try {
+    const response = await invoicingApi.post(`/voided-documents/${bajaApiId}/send-sunat`);
+    const validatedResponse = ComunicacionBajaResponseSchema.parse(response.data);
+    return validatedResponse;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al enviar comunicación de baja a SUNAT:", error.response.data);
+      const apiMessage = error.response.data.message || JSON.stringify(error.response.data);
+      throw new Error(`Error de la API: ${apiMessage}`);
+    }
+    if (error instanceof Error) {
+        throw new Error(`Error de red o de procesamiento: ${error.message}`);
+    }
+    throw new Error('Error desconocido al enviar la comunicación de baja a SUNAT.');
+  }
+};
+
+/**
+ * Guarda la comunicación de baja enviada y sus comprobantes en Supabase.
+ * @returns ID del registro creado en `comunicaciones_baja`.
+ */
+export const saveComunicacionBajaResult = async (
+  bajaData: ComunicacionBajaResponse['data'],
+  motivo: string,
+  documentos: DocumentoBajaCandidato[]
+): Promise<number> => {
+  try {
+    // 1. Insertar la cabecera
+    const bajaToInsert: TablesInsert<'comunicaciones_baja'> = {
+      fecha_referencia: bajaData.fecha_referencia.split('T')[0],
+      numero_completo: bajaData.numero_completo,
+      motivo,
+      ticket: bajaData.ticket || null,
+      // Una baja ya aceptada se marca recién en `updateComunicacionBajaStatusInDb`, después de anular sus comprobantes.
+      estado_sunat: bajaData.estado_sunat?.toLowerCase() === 'aceptado' ? null : bajaData.estado_sunat,
+      baja_api_id: bajaData.id,
+    };
+
+    const { data: newBaja, error: bajaError } = await supabase
+      .from('comunicaciones_baja')
+      .insert(bajaToInsert)
+      .select('id')
+      .single();
+
+    if (bajaError || !newBaja) {
+      console.error("Error al guardar cabecera de la baja:", bajaError);
+      throw new Error(`Error en Supabase (cabecera): ${bajaError?.message || 'sin datos'}`);
+    }
+
+    // 2. Guardar los comprobantes incluidos
+    const detallesToInsert: TablesInsert<'comunicacion_baja_detalles'>[] = documentos.map(doc => ({
+      baja_id: newBaja.id,
+      tipo_documento: doc.tipo === 'factura' ? '01' : '03',
+      serie_numero: doc.serie_numero,
+    }));
+
+    const { error: detallesError } = await supabase
+      .from('comunicacion_baja_detalles')
+      .insert(detallesToInsert);
+
+    if (detallesError) {
+      console.error("Error al guardar detalle de la baja:", detallesError);
+      await supabase.from('comunicaciones_baja').delete().eq('id', newBaja.id);
+      throw new Error(`Error en Supabase (detalle): ${detallesError.message}`);
+    }
+
+    return newBaja.id;
+  } catch (error) {
+    console.error("Error general al guardar la comunicación de baja:", error);
+    throw error;
+  }
+};
+
+/**
+ * Obtiene todas las comunicaciones de baja registradas.
+ */
+export const fetchComunicacionesBaja = async (): Promise<ComunicacionBaja[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('comunicaciones_baja')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("Error al obtener comunicaciones de baja:", error);
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error general al obtener comunicaciones de baja:", error);
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Error desconocido al obtener las comunicaciones de baja.');
+  }
+};
+
+/**
+ * Consulta el estado del ticket de una comunicación de baja en la API externa.
+ */
+export const checkComunicacionBajaStatus = async (bajaApiId: number): Promise<string | null> => {
+  try {
+    const response = await invoicingApi.post(`/voided-documents/${bajaApiId}/check-status`, {});
+    const validatedResponse = CheckSummaryStatusResponseSchema.parse(response.data);
+
+    if (!validatedResponse.success) {
+      throw new Error(validatedResponse.message || "La API indicó un fallo al consultar el estado.");
+    }
+
+    return validatedResponse.data.estado_sunat;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error("Error al consultar estado de la baja:", error.response.data);
+      const apiMessage = error.response.data.message || JSON.stringify(error.response.data);
+      throw new Error(`Error de la API: ${apiMessage}`);
+    }
+    if (error instanceof z.ZodError) {
+        console.error("Error de validación de respuesta:", error.errors);
+        throw new Error("La respuesta de la API de consulta de estado tiene un formato inesperado.");
+    }
+    if (error instanceof Error) {
+        throw new Error(`Error de red o de procesamiento: ${error.message}`);
+    }
+    throw new Error('Error desconocido al consultar el estado de la baja.');
+  }
+};
+
+/**
+ * Marca como anulados los comprobantes de una baja aceptada:
+ * sus ingresos pasan a "Anulacion" (monto 0) y el comprobante queda con estado ANULADO.
+ * Las devoluciones de sus Notas de Crédito también pasan a "Anulacion": el comprobante ya no suma,
+ * y restarlas otra vez descontaría dos veces lo devuelto. Se puede repetir sin efectos adicionales.
+ */
+const applyComunicacionBajaAceptada = async (bajaId: number): Promise<void> => {
+  const { data: detalles, error } = await supabase
+    .from('comunicacion_baja_detalles')
+    .select('tipo_documento, serie_numero')
+    .eq('baja_id', bajaId);
+
+  if (error) {
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  if (!detalles || detalles.length === 0) return;
+
+  const serieNumeros = detalles.map(d => d.serie_numero);
+
+  const { data: notasCredito, error: notasError } = await supabase
+    .from('notas_credito')
+    .select('serie, numero')
+    .in('documento_afectado_serie_numero', serieNumeros);
+
+  if (notasError) {
+    throw new Error(`Error de base de datos: ${notasError.message}`);
+  }
+  const devoluciones = (notasCredito || []).map(n => `${n.serie}-${n.numero}`);
+
+  // Anular modifica los ingresos en su fecha original: si su mes está cerrado, hay que reabrirlo antes.
+  const { data: afectados, error: afectadosError } = await supabase
+    .from('ingresos')
+    .select('date')
+    .in('receipt_number', [...serieNumeros, ...devoluciones])
+    .neq('transaction_type', 'Anulacion');
+
+  if (afectadosError) {
+    throw new Error(`Error de base de datos: ${afectadosError.message}`);
+  }
+  await verificarPeriodosAbiertos(...(afectados || []).map(i => i.date));
+
+  if (devoluciones.length > 0) {
+    const { error: devolucionesError } = await supabase
+      .from('ingresos')
+      .update({ transaction_type: 'Anulacion', amount: 0 })
+      .in('receipt_number', devoluciones)
+      .eq('transaction_type', 'Devolucion');
+
+    if (devolucionesError) {
+      throw new Error(`Error al anular las devoluciones: ${devolucionesError.message}`);
+    }
+  }
+
+  const { error: ingresosError } = await supabase
+    .from('ingresos')
+    .update({ transaction_type: 'Anulacion', amount: 0 })
+    .in('receipt_number', serieNumeros)
+    .neq('transaction_type', 'Anulacion');
+
+  if (ingresosError) {
+    throw new Error(`Error al anular los ingresos: ${ingresosError.message}`);
+  }
+
+  for (const [tipoDocumento, tabla] of [['03', 'boletas_electronicas'], ['01', 'facturas_electronicas']] as const) {
+    const documentos = detalles.filter(d => d.tipo_documento === tipoDocumento);
+    for (const doc of documentos) {
+      const [serie, numero] = doc.serie_numero.split('-');
+      const { error: docError } = await supabase
+        .from(tabla)
+        .update({ estado_sunat: 'ANULADO' })
+        .eq('serie', serie)
+        .eq('numero', numero);
+
+      if (docError) {
+        throw new Error(`Error al actualizar ${doc.serie_numero}: ${docError.message}`);
+      }
+    }
+  }
+};
+
+/**
+ * Actualiza el estado de una comunicación de baja. Si SUNAT la aceptó, anula los comprobantes e ingresos relacionados.
+ * El estado se guarda al final: si la anulación falla, la baja sigue pendiente y la próxima consulta la reintenta.
+ */
+export const updateComunicacionBajaStatusInDb = async (bajaId: number, newStatus: string | null): Promise<void> => {
+  if (newStatus === null) return;
+  try {
+    if (newStatus.toLowerCase() === 'aceptado') {
+      await applyComunicacionBajaAceptada(bajaId);
+    }
+
+    const { error } = await supabase
+      .from('comunicaciones_baja')
+      .update({ estado_sunat: newStatus })
+      .eq('id', bajaId);
+
+    if (error) {
+      console.error("Error al actualizar estado de la baja:", error);
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+  } catch (error) {
+    console.error("Error general al actualizar estado de la baja:", error);
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Error desconocido al actualizar el estado de la baja.');
+  }
+};
+
+// --- CONCILIACIÓN DE ESTADOS SUNAT ---
+
+const PENDING_STATUS_FILTER = ['estado_sunat.is.null', ...ESTADOS_SUNAT_PENDIENTES.map(e => `estado_sunat.ilike.${e}`)].join(',');
+
+/**
+ * Obtiene los resúmenes diarios, boletas, facturas y notas de crédito y débito cuyo estado SUNAT aún no
+ * es definitivo: las mismas tablas que cuenta `fetchRejectedDocumentsCount`. Solo se incluyen los que
+ * tienen ID en la API, ya que sin él no se pueden consultar.
+ */
+export const fetchDocumentosPendientesSunat = async (): Promise<DocumentoPendienteSunat[]> => {
+  const [resumenes, boletas, facturas, notasCredito, notasDebito] = await Promise.all([
+    supabase.from('resumenes_diarios').select('id, summary_api_id, numero_completo, estado_sunat').or(PENDING_STATUS_FILTER).not('summary_api_id', 'is', null),
+    supabase.from('boletas_electronicas').select('id, api_invoice_id, serie, numero, estado_sunat').or(PENDING_STATUS_FILTER).not('api_invoice_id', 'is', null),
+    supabase.from('facturas_electronicas').select('id, api_invoice_id, serie, numero, estado_sunat').or(PENDING_STATUS_FILTER).not('api_invoice_id', 'is', null),
+    supabase.from('notas_credito').select('id, api_credit_note_id, serie, numero, estado_sunat').or(PENDING_STATUS_FILTER).not('api_credit_note_id', 'is', null),
+    supabase.from('notas_debito').select('id, api_debit_note_id, serie, numero, estado_sunat').or(PENDING_STATUS_FILTER).not('api_debit_note_id', 'is', null),
+  ]);
+
+  const firstError = [resumenes, boletas, facturas, notasCredito, notasDebito].find(r => r.error)?.error;
+  if (firstError) {
+    console.error("Error al obtener documentos pendientes de SUNAT:", firstError);
+    throw new Error(`Error de base de datos: ${firstError.message}`);
+  }
+
+  return [
+    ...(resumenes.data || []).map(r => ({ tabla: 'resumenes_diarios' as const, id: r.id, apiId: r.summary_api_id, numero: r.numero_completo, estadoSunat: r.estado_sunat })),
+    ...(boletas.data || []).map(b => ({ tabla: 'boletas_electronicas' as const, id: b.id, apiId: b.api_invoice_id, numero: `${b.serie}-${b.numero}`, estadoSunat: b.estado_sunat })),
+    ...(facturas.data || []).map(f => ({ tabla: 'facturas_electronicas' as const, id: f.id, apiId: f.api_invoice_id, numero: `${f.serie}-${f.numero}`, estadoSunat: f.estado_sunat })),
+    ...(notasCredito.data || []).map(n => ({ tabla: 'notas_credito' as const, id: n.id, apiId: n.api_credit_note_id, numero: `${n.serie}-${n.numero}`, estadoSunat: n.estado_sunat })),
+    ...(notasDebito.data || []).map(n => ({ tabla: 'notas_debito' as const, id: n.id, apiId: n.api_debit_note_id, numero: `${n.serie}-${n.numero}`, estadoSunat: n.estado_sunat })),
+  ];
+};
+
+/**
+ * Consulta el estado SUNAT de un comprobante individual (boleta, factura o nota) en la API externa.
+ */
+const checkComprobanteStatus = async (path: string, descripcion: string): Promise<string | null> => {
+  try {
+    const response = await invoicingApi.post(path, {});
+    const validatedResponse = CheckSummaryStatusResponseSchema.parse(response.data);
+
+    if (!validatedResponse.success) {
+      throw new Error(validatedResponse.message || "La API indicó un fallo al consultar el estado.");
+    }
+
+    return validatedResponse.data.estado_sunat;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      console.error(`Error al consultar estado de ${descripcion}:`, error.response.data);
+      const apiMessage = error.response.data.message || JSON.stringify(error.response.data);
+      throw new Error(`Error de la API: ${apiMessage}`);
+    }
+    if (error instanceof z.ZodError) {
+        console.error("Error de validación de respuesta:", error.errors);
+        throw new Error("La respuesta de la API de consulta de estado tiene un formato inesperado.");
+    }
+    if (error instanceof Error) {
+        throw new Error(`Error de red o de procesamiento: ${error.message}`);
+    }
+    throw new Error(`Error desconocido al consultar el estado de ${descripcion}.`);
+  }
+};
+
+/**
+ * Consulta en la API el estado de un documento pendiente y, si cambió, lo guarda en Supabase.
+ * Devuelve el estado vigente tras la consulta.
+ */
+export const reconcileDocumentoSunat = async (documento: DocumentoPendienteSunat): Promise<string | null> => {
+  let newStatus: string | null;
+  switch (documento.tabla) {
+    case 'resumenes_diarios':
+      newStatus = await checkSummaryStatus(documento.apiId);
+      break;
+    case 'boletas_electronicas':
+      newStatus = await checkComprobanteStatus(`/boletas/${documento.apiId}/check-status`, 'la boleta');
+      break;
+    case 'facturas_electronicas':
+      newStatus = await checkComprobanteStatus(`/invoices/${documento.apiId}/check-status`, 'la factura');
+      break;
+    case 'notas_credito':
+      newStatus = await checkComprobanteStatus(`/credit-notes/${documento.apiId}/check-status`, 'la nota de crédito');
+      break;
+    case 'notas_debito':
+      newStatus = await checkComprobanteStatus(`/debit-notes/${documento.apiId}/check-status`, 'la nota de débito');
+      break;
+  }
+
+  if (!newStatus || newStatus === documento.estadoSunat) {
+    return documento.estadoSunat;
+  }
+
+  if (documento.tabla === 'resumenes_diarios') {
+    await updateSummaryStatusInDb(documento.id, newStatus);
+  } else {
+    const { error } = await supabase
+      .from(documento.tabla)
+      .update({ estado_sunat: newStatus })
+      .eq('id', documento.id);
+
+    if (error) {
+      console.error(`Error al actualizar estado de ${documento.numero}:`, error);
+      throw new Error(`Error de base de datos: ${error.message}`);
+    }
+  }
+
+  return newStatus;
+};
+
+/**
+ * Cuenta los documentos electrónicos rechazados por SUNAT (resúmenes, comprobantes y notas).
+ */
+export const fetchRejectedDocumentsCount = async (): Promise<number> => {
+  const tablas = ['resumenes_diarios', 'boletas_electronicas', 'facturas_electronicas', 'notas_credito', 'notas_debito'] as const;
+  const results = await Promise.all(
+    tablas.map(tabla => supabase.from(tabla).select('id', { count: 'exact', head: true }).ilike('estado_sunat', 'rechazado'))
+  );
+
+  const firstError = results.find(r => r.error)?.error;
+  if (firstError) {
+    console.error("Error al contar documentos rechazados:", firstError);
+    throw new Error(`Error de base de datos: ${firstError.message}`);
+  }
+
+  return results.reduce((total, r) => total + (r.count || 0), 0);
+};
+
+// --- NUEVAS FUNCIONES PARA RECIBOS DE PAGO INTERNOS ---
+
+// El número de recibo lo asigna la base de datos (ver `reservarCorrelativo` en correlativosApi).
+
+/**
+ * Sube el PDF del Recibo de Pago a la carpeta del socio, sobrescribiendo el anterior.
+ * @returns URL pública del archivo.
+ */
+const uploadReceiptPdf = async (pdfBlob: Blob, serieCorrelativo: string, socioId: string): Promise<string> => {
+  const fileName = `${serieCorrelativo}.pdf`;
+  // Usamos una subcarpeta 'recibos' dentro del path del socio para distinguirlos de las boletas
+  const filePath = `${socioId}/recibos/${fileName}`; 
+  const pdfFile = new File([pdfBlob], fileName, { type: 'application/pdf' });
+
+  const { error: uploadError } = await supabase.storage
+    .from('comprobante-de-pago')
+    .upload(filePath, pdfFile, {
+      cacheControl: '3600',
+      upsert: true, // Sobrescribe si ya existe
+    });
+
+  if (uploadError) {
+    console.error("Error al subir el recibo a Supabase Storage:", uploadError);
+    throw new Error(`Error al guardar en Storage: ${uploadError.message}`);
+  }
+
+  const { data: urlData } = supabase.storage
+    .from('comprobante-de-pago')
+    .getPublicUrl(filePath);
+
+  if (!urlData?.publicUrl) {
+    throw new Error("No se pudo obtener la URL pública del recibo guardado.");
+  }
+  return urlData.publicUrl;
+};
+
+/**
+ * Sube el PDF del Recibo de Pago a Supabase Storage y crea/actualiza un registro en `socio_documentos`.
+ */
+export const saveReceiptPdfToSupabase = async (
+  pdfBlob: Blob, 
+  serieCorrelativo: string, 
+  socioId: string // FIX: Changed type to string (UUID)
+): Promise<void> => {
+  try {
+    // 1 y 2. Subir el archivo a Supabase Storage y obtener su URL pública
+    const publicUrl = await uploadReceiptPdf(pdfBlob, serieCorrelativo, socioId);
+
+    // 3. Insertar o actualizar el registro en la tabla `socio_documentos` (Upsert).
     // FIX: Usamos 'Comprobante de Pago' para satisfacer el check constraint.
     const { data: upsertData, error: upsertError } = await supabase
       .from('socio_documentos')
@@ -765,3 +2009,571 @@ export const saveReceiptPdfToSupabase = async (
     throw error;
   }
 };
+
+// --- ANULACIÓN DE RECIBOS DE PAGO ---
+
+type ReciboIngresoRow = Pick<Tables<'ingresos'>, 'receipt_number' | 'dni' | 'full_name' | 'amount' | 'date' | 'account' | 'numeroOperacion'> & {
+  socio: { id: string } | null;
+};
+
+const RECIBO_INGRESO_COLUMNS = 'receipt_number, dni, full_name, amount, date, account, numeroOperacion, socio:socio_titulares(id)';
+
+const toReciboEmitido = (ingreso: ReciboIngresoRow, registro?: Tables<'recibos_pago'>): ReciboEmitido => ({
+  numero: ingreso.receipt_number,
+  socioId: registro?.socio_id ?? ingreso.socio?.id ?? null,
+  clienteNombre: ingreso.full_name,
+  clienteDni: ingreso.dni,
+  fechaEmision: ingreso.date,
+  monto: ingreso.amount,
+  metodoPago: ingreso.account,
+  numeroOperacion: registro?.numero_operacion ?? (ingreso.numeroOperacion ? String(ingreso.numeroOperacion) : null),
+  concepto: registro?.concepto ?? null,
+  anulado: registro?.anulado ?? false,
+  motivoAnulacion: registro?.motivo_anulacion ?? null,
+  fechaAnulacion: registro?.fecha_anulacion ?? null,
+  reemplazaA: registro?.reemplaza_a ?? null,
+  reemplazadoPor: registro?.reemplazado_por ?? null,
+});
+
+const fetchRegistrosRecibo = async (numeros: string[]): Promise<Map<string, Tables<'recibos_pago'>>> => {
+  if (numeros.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('recibos_pago')
+    .select('*')
+    .in('numero', numeros);
+
+  if (error) {
+    console.error("Error al obtener el registro de recibos:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return new Map((data || []).map(registro => [registro.numero, registro]));
+};
+
+/**
+ * Lista los últimos recibos emitidos con su estado de anulación.
+ * El recibo es el ingreso original; su reversión (Devolucion) comparte el número y se excluye.
+ */
+export const fetchRecibosEmitidos = async (limit = 20): Promise<ReciboEmitido[]> => {
+  const { data, error } = await supabase
+    .from('ingresos')
+    .select(RECIBO_INGRESO_COLUMNS)
+    .like('receipt_number', 'R-%')
+    .neq('transaction_type', 'Devolucion')
+    .order('receipt_number', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error al obtener los recibos emitidos:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  const ingresos = (data || []) as unknown as ReciboIngresoRow[];
+  const registros = await fetchRegistrosRecibo(ingresos.map(ingreso => ingreso.receipt_number));
+  return ingresos.map(ingreso => toReciboEmitido(ingreso, registros.get(ingreso.receipt_number)));
+};
+
+/**
+ * Registra un recibo recién emitido. Si corrige a uno anulado, el anulado queda enlazado al nuevo.
+ */
+export const registerReciboPago = async (recibo: TablesInsert<'recibos_pago'>): Promise<void> => {
+  const { error } = await supabase.from('recibos_pago').insert([recibo]);
+
+  if (error) {
+    console.error("Error al registrar el recibo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  if (recibo.reemplaza_a) {
+    const { error: linkError } = await supabase
+      .from('recibos_pago')
+      .update({ reemplazado_por: recibo.numero })
+      .eq('numero', recibo.reemplaza_a);
+
+    if (linkError) {
+      console.error("Error al enlazar el recibo anulado con su reemplazo:", linkError);
+      throw new Error(`Error de base de datos: ${linkError.message}`);
+    }
+  }
+};
+
+/**
+ * Anula un recibo: registra un ingreso negativo (Devolucion) con el mismo número, fechado hoy,
+ * y marca el recibo como anulado con su motivo. El ingreso original no se modifica, así ambos
+ * movimientos quedan en reportes y saldos. El PDF con el sello se regenera aparte.
+ */
+export const anularRecibo = async (
+  recibo: ReciboEmitido,
+  values: Pick<AnularReciboFormValues, 'motivo' | 'concepto'>,
+  userId: string | null
+): Promise<ReciboEmitido> => {
+  // 1. Verificar que no se haya anulado mientras tanto (p. ej. desde otra pestaña)
+  const registro = (await fetchRegistrosRecibo([recibo.numero])).get(recibo.numero);
+  if (registro?.anulado) {
+    throw new Error(`El recibo ${recibo.numero} ya está anulado.`);
+  }
+
+  // 2. Registrar la reversión en la misma cuenta del cobro. Si un intento anterior ya la registró
+  //    pero no llegó a marcar el recibo, se reutiliza para no revertir el cobro dos veces.
+  const { data: reversionPrevia, error: previaError } = await supabase
+    .from('ingresos')
+    .select('id, date')
+    .eq('receipt_number', recibo.numero)
+    .eq('transaction_type', 'Devolucion')
+    .limit(1)
+    .maybeSingle();
+
+  if (previaError) {
+    console.error("Error al buscar la reversión del recibo:", previaError);
+    throw new Error(`Error de base de datos: ${previaError.message}`);
+  }
+
+  let reversion = reversionPrevia;
+  if (!reversion) {
+    await verificarPeriodosAbiertos(format(new Date(), 'yyyy-MM-dd'));
+    const { data, error: reversionError } = await supabase
+      .from('ingresos')
+      .insert([{
+        receipt_number: recibo.numero,
+        dni: recibo.clienteDni,
+        full_name: recibo.clienteNombre,
+        amount: -Math.abs(recibo.monto),
+        account: recibo.metodoPago,
+        date: format(new Date(), 'yyyy-MM-dd'),
+        transaction_type: 'Devolucion',
+      }])
+      .select('id, date')
+      .single();
+
+    if (reversionError || !data) {
+      console.error("Error al registrar la reversión del recibo:", reversionError);
+      throw new Error(`Error al registrar la reversión del recibo: ${reversionError?.message}`);
+    }
+    reversion = data;
+  }
+  const fechaAnulacion = reversion.date;
+
+  // 3. Marcar el recibo como anulado; los anteriores al registro se registran ahora
+  const anulado: TablesInsert<'recibos_pago'> = {
+    numero: recibo.numero,
+    socio_id: recibo.socioId,
+    cliente_nombre: recibo.clienteNombre,
+    cliente_dni: recibo.clienteDni,
+    fecha_emision: recibo.fechaEmision,
+    monto: recibo.monto,
+    concepto: values.concepto,
+    metodo_pago: recibo.metodoPago,
+    numero_operacion: recibo.numeroOperacion,
+    anulado: true,
+    motivo_anulacion: values.motivo,
+    fecha_anulacion: fechaAnulacion,
+    anulado_por: userId,
+    ingreso_reversion_id: reversion.id,
+  };
+  const { error: updateError } = await supabase
+    .from('recibos_pago')
+    .upsert(anulado, { onConflict: 'numero' });
+
+  if (updateError) {
+    console.error("Error al marcar el recibo como anulado:", updateError);
+    throw new Error(`La reversión se registró, pero no se pudo marcar el recibo como anulado: ${updateError.message}`);
+  }
+
+  return { ...recibo, concepto: values.concepto, anulado: true, motivoAnulacion: values.motivo, fechaAnulacion };
+};
+
+/**
+ * Reemplaza el PDF guardado de un recibo (p. ej. con el sello de anulado) sin tocar `socio_documentos`.
+ */
+export const replaceReceiptPdf = async (pdfBlob: Blob, serieCorrelativo: string, socioId: string): Promise<void> => {
+  await uploadReceiptPdf(pdfBlob, serieCorrelativo, socioId);
+};
+
+// --- SERIES DE COMPROBANTES ---
+
+/**
+ * Obtiene todas las series registradas, ordenadas por tipo de comprobante y serie.
+ */
+export const fetchSeriesComprobantes = async (): Promise<SerieComprobante[]> => {
+  const { data, error } = await supabase
+    .from('series_comprobantes')
+    .select('*')
+    .order('tipo_documento')
+    .order('serie');
+
+  if (error) {
+    console.error("Error al obtener las series:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+/**
+ * Obtiene las series activas de un tipo de comprobante. Para notas, filtra por el tipo de documento que modifican.
+ */
+export const fetchSeriesActivas = async (tipoDocumento: string, tipoDocumentoAfectado?: string): Promise<SerieComprobante[]> => {
+  let query = supabase
+    .from('series_comprobantes')
+    .select('*')
+    .eq('tipo_documento', tipoDocumento)
+    .eq('activo', true)
+    .order('serie');
+
+  if (tipoDocumentoAfectado) {
+    query = query.eq('tipo_documento_afectado', tipoDocumentoAfectado);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error al obtener las series activas:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+/**
+ * Crea o actualiza una serie. Si se marca como predeterminada, deja de serlo cualquier otra
+ * serie del mismo tipo y sucursal.
+ */
+export const saveSerieComprobante = async (values: SerieComprobanteFormValues, id?: number): Promise<void> => {
+  const serieData: TablesInsert<'series_comprobantes'> = {
+    tipo_documento: values.tipo_documento,
+    tipo_documento_afectado: ['07', '08'].includes(values.tipo_documento) ? values.tipo_documento_afectado ?? null : null,
+    serie: values.serie,
+    branch_id: values.branch_id,
+    correlativo_actual: values.correlativo_actual,
+    activo: values.activo,
+    predeterminada: values.predeterminada,
+    descripcion: values.descripcion || null,
+  };
+
+  if (serieData.predeterminada) {
+    let resetQuery = supabase
+      .from('series_comprobantes')
+      .update({ predeterminada: false })
+      .eq('tipo_documento', serieData.tipo_documento)
+      .eq('branch_id', serieData.branch_id);
+    resetQuery = serieData.tipo_documento_afectado
+      ? resetQuery.eq('tipo_documento_afectado', serieData.tipo_documento_afectado)
+      : resetQuery.is('tipo_documento_afectado', null);
+
+    const { error: resetError } = await resetQuery;
+    if (resetError) {
+      console.error("Error al actualizar la serie predeterminada:", resetError);
+      throw new Error(`Error de base de datos: ${resetError.message}`);
+    }
+  }
+
+  const { error } = id
+    ? await supabase.from('series_comprobantes').update(serieData).eq('id', id)
+    : await supabase.from('series_comprobantes').insert([serieData]);
+
+  if (error) {
+    console.error("Error al guardar la serie:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Obtiene los IDs de las series que el usuario eligió como predeterminadas.
+ */
+export const fetchUserDefaultSerieIds = async (userId: string): Promise<number[]> => {
+  const { data, error } = await supabase
+    .from('usuario_series_predeterminadas')
+    .select('serie_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error("Error al obtener las series del usuario:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  return (data || []).map(row => row.serie_id);
+};
+
+/**
+ * Define la serie predeterminada del usuario para el tipo de comprobante de la serie indicada,
+ * reemplazando la que tuviera para ese mismo tipo.
+ */
+export const setUserDefaultSerie = async (userId: string, serie: SerieComprobante): Promise<void> => {
+  let mismoTipoQuery = supabase
+    .from('series_comprobantes')
+    .select('id')
+    .eq('tipo_documento', serie.tipo_documento);
+  mismoTipoQuery = serie.tipo_documento_afectado
+    ? mismoTipoQuery.eq('tipo_documento_afectado', serie.tipo_documento_afectado)
+    : mismoTipoQuery.is('tipo_documento_afectado', null);
+
+  const { data: mismoTipo, error: findError } = await mismoTipoQuery;
+  if (findError) {
+    throw new Error(`Error de base de datos: ${findError.message}`);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('usuario_series_predeterminadas')
+    .delete()
+    .eq('user_id', userId)
+    .in('serie_id', (mismoTipo || []).map(s => s.id));
+
+  if (deleteError) {
+    console.error("Error al quitar la serie predeterminada anterior:", deleteError);
+    throw new Error(`Error de base de datos: ${deleteError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('usuario_series_predeterminadas')
+    .insert([{ user_id: userId, serie_id: serie.id }]);
+
+  if (error) {
+    console.error("Error al guardar la serie predeterminada del usuario:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Actualiza el correlativo actual de una serie tras emitir un comprobante (p. ej. "B001-125").
+ * Solo avanza el correlativo; nunca lo retrocede.
+ */
+export const registerCorrelativoEmitido = async (tipoDocumento: string, numeroCompleto: string): Promise<void> => {
+  const [serie, numero] = numeroCompleto.split('-');
+  const correlativo = parseInt(numero, 10);
+  if (!serie || Number.isNaN(correlativo)) return;
+
+  const { error } = await supabase
+    .from('series_comprobantes')
+    .update({ correlativo_actual: correlativo })
+    .eq('tipo_documento', tipoDocumento)
+    .eq('serie', serie)
+    .lt('correlativo_actual', correlativo);
+
+  if (error) {
+    console.error("Error al actualizar el correlativo de la serie:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+// --- CATÁLOGO DE PRODUCTOS Y SERVICIOS ---
+
+/**
+ * Obtiene el catálogo de productos y servicios ordenado por descripción.
+ */
+export const fetchProductosServicios = async (soloActivos = false): Promise<ProductoServicio[]> => {
+  let query = supabase
+    .from('productos_servicios')
+    .select('*')
+    .order('descripcion');
+
+  if (soloActivos) {
+    query = query.eq('activo', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error al obtener el catálogo de productos:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+/**
+ * Crea o actualiza un producto/servicio del catálogo.
+ */
+export const saveProductoServicio = async (values: ProductoServicioFormValues, id?: number): Promise<void> => {
+  const productoData: TablesInsert<'productos_servicios'> = {
+    codigo: values.codigo.trim().toUpperCase(),
+    descripcion: values.descripcion.trim(),
+    unidad: values.unidad.trim().toUpperCase(),
+    precio_con_igv: values.precio_con_igv,
+    tip_afe_igv: values.tip_afe_igv,
+    codigo_producto_sunat: values.codigo_producto_sunat || null,
+    activo: values.activo,
+  };
+
+  const { error } = id
+    ? await supabase.from('productos_servicios').update(productoData).eq('id', id)
+    : await supabase.from('productos_servicios').insert([productoData]);
+
+  if (error) {
+    console.error("Error al guardar el producto:", error);
+    // 23505: violación de unicidad sobre el código.
+    if (error.code === '23505') {
+      throw new Error(`Ya existe un producto con el código ${productoData.codigo}.`);
+    }
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+// --- COLA DE EMISIÓN DE BOLETAS ---
+
+const toEmisionBoleta = (row: Tables<'emisiones_boleta'>): EmisionBoleta => row as unknown as EmisionBoleta;
+
+/**
+ * Obtiene la emisión asociada a la clave de idempotencia o la registra si no existe.
+ * Si la emisión previa no llegó a emitirse en SUNAT, se actualiza con los datos actuales del formulario.
+ */
+export const fetchOrCreateEmisionBoleta = async (
+  idempotencyKey: string,
+  payload: BoletaPayload,
+  contexto: EmisionBoletaContexto,
+  pasos: Record<PasoEmisionBoleta, PasoEmisionState>,
+  userId: string | null,
+): Promise<EmisionBoleta> => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('emisiones_boleta')
+    .select('*')
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error("Error al buscar la emisión en cola:", fetchError);
+    throw new Error(`Error de base de datos: ${fetchError.message}`);
+  }
+
+  if (existing) {
+    const emision = toEmisionBoleta(existing);
+    if (emision.pasos.emision.estado === 'completado') return emision;
+    return updateEmisionBoleta(emision.id, {
+      payload: payload as unknown as Json,
+      contexto: contexto as unknown as Json,
+      pasos: { ...pasos, emision: emision.pasos.emision } as unknown as Json,
+      estado: 'en_proceso',
+      ultimo_error: null,
+    });
+  }
+
+  const { data, error } = await supabase
+    .from('emisiones_boleta')
+    .insert({
+      idempotency_key: idempotencyKey,
+      user_id: userId,
+      estado: 'en_proceso',
+      pasos: pasos as unknown as Json,
+      payload: payload as unknown as Json,
+      contexto: contexto as unknown as Json,
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error("Error al registrar la emisión en cola:", error);
+    throw new Error(`Error de base de datos al registrar la emisión: ${error?.message || 'sin datos'}`);
+  }
+  return toEmisionBoleta(data);
+};
+
+/**
+ * Actualiza el estado de una emisión en cola y devuelve el registro resultante.
+ */
+export const updateEmisionBoleta = async (id: number, changes: TablesUpdate<'emisiones_boleta'>): Promise<EmisionBoleta> => {
+  const { data, error } = await supabase
+    .from('emisiones_boleta')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error("Error al actualizar la emisión en cola:", error);
+    throw new Error(`Error de base de datos al actualizar la emisión: ${error?.message || 'sin datos'}`);
+  }
+  return toEmisionBoleta(data);
+};
+
+/**
+ * Lista las emisiones que no terminaron (en proceso o atascadas), de la más reciente a la más antigua.
+ * @param userId Si se indica, solo las iniciadas por ese usuario.
+ */
+export const fetchEmisionesBoletaIncompletas = async (userId?: string): Promise<EmisionBoleta[]> => {
+  let query = supabase
+    .from('emisiones_boleta')
+    .select('*')
+    .in('estado', ['en_proceso', 'atascada'])
+    .order('created_at', { ascending: false });
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error al obtener las emisiones pendientes:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  return (data || []).map(toEmisionBoleta);
+};
+
+/**
+ * Busca el registro local de una boleta a partir de su ID en la API de facturación.
+ * Permite reintentar el registro sin duplicar filas.
+ */
+export const fetchBoletaIdByApiInvoiceId = async (apiInvoiceId: number): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('boletas_electronicas')
+    .select('id')
+    .eq('api_invoice_id', apiInvoiceId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error al buscar la boleta registrada:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data?.id ?? null;
+};
+
+/**
+ * Indica si ya existe un ingreso de venta para el comprobante. Evita duplicar ingresos al reintentar.
+ */
+export const incomeExistsForReceipt = async (receiptNumber: string): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from('ingresos')
+    .select('id', { count: 'exact', head: true })
+    .eq('receipt_number', receiptNumber)
+    .eq('transaction_type', 'Venta');
+
+  if (error) {
+    console.error("Error al verificar el ingreso del comprobante:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return (count ?? 0) > 0;
+};
+
+// --- PREFERENCIAS DE IMPRESIÓN ---
+
+/**
+ * Formato de impresión elegido por el usuario; A4 si aún no eligió uno.
+ */
+export const fetchFormatoImpresion = async (userId: string): Promise<FormatoImpresion> => {
+  const { data, error } = await supabase
+    .from('preferencias_usuario')
+    .select('formato_impresion')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error al obtener las preferencias del usuario:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return (data?.formato_impresion || DEFAULT_FORMATO_IMPRESION) as FormatoImpresion;
+};
+
+/**
+ * Guarda el formato de impresión del usuario.
+ */
+export const saveFormatoImpresion = async (userId: string, formato: FormatoImpresion): Promise<void> => {
+  const { error } = await supabase
+    .from('preferencias_usuario')
+    .upsert({ user_id: userId, formato_impresion: formato, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error("Error al guardar las preferencias del usuario:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
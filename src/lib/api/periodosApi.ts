@@ -0,0 +1,85 @@
+import { supabase } from '../supabaseClient';
+import { Tables } from '../database.types';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+export type PeriodoContable = Tables<'periodos_contables'>;
+
+export type EstadoPeriodo = 'abierto' | 'cerrado';
+
+/**
+ * Periodo (yyyy-MM) al que pertenece una fecha yyyy-MM-dd.
+ */
+export const periodoDeFecha = (fecha: string): string => fecha.slice(0, 7);
+
+export const formatPeriodo = (periodo: string): string =>
+  format(parseISO(`${periodo}-01`), 'MMMM yyyy', { locale: es });
+
+/**
+ * Periodos con registro de cierre, del más reciente al más antiguo. Un mes sin registro está abierto.
+ */
+export const fetchPeriodosContables = async (): Promise<PeriodoContable[]> => {
+  const { data, error } = await supabase
+    .from('periodos_contables')
+    .select('*')
+    .order('periodo', { ascending: false });
+
+  if (error) {
+    console.error("Error al obtener los periodos contables:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  return data || [];
+};
+
+/**
+ * Lanza un error si alguna de las fechas cae en un periodo cerrado. Se llama antes de crear,
+ * modificar o eliminar ingresos, gastos y transferencias; al modificar se pasan la fecha anterior y la nueva.
+ */
+export const verificarPeriodosAbiertos = async (...fechas: (string | null | undefined)[]): Promise<void> => {
+  const periodos = [...new Set(fechas.filter((f): f is string => !!f).map(periodoDeFecha))];
+  if (periodos.length === 0) return;
+
+  const { data, error } = await supabase
+    .from('periodos_contables')
+    .select('periodo')
+    .eq('estado', 'cerrado')
+    .in('periodo', periodos);
+
+  if (error) {
+    console.error("Error al verificar los periodos contables:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+  if (data && data.length > 0) {
+    throw new Error(`El periodo ${formatPeriodo(data[0].periodo)} está cerrado: no se pueden registrar, modificar ni eliminar movimientos con esa fecha.`);
+  }
+};
+
+/**
+ * Cierra un mes. Si ya tuvo un cierre anterior (y fue reabierto), se vuelve a cerrar el mismo registro.
+ */
+export const cerrarPeriodo = async (periodo: string, userId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from('periodos_contables')
+    .upsert({ periodo, estado: 'cerrado', cerrado_por: userId, cerrado_at: new Date().toISOString() }, { onConflict: 'periodo' });
+
+  if (error) {
+    console.error("Error al cerrar el periodo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
+
+/**
+ * Reabre un mes cerrado, dejando constancia de quién lo hizo y por qué.
+ * Solo deben llamarla los roles de `ROLES_REAPERTURA_PERIODO`.
+ */
+export const reabrirPeriodo = async (periodo: string, userId: string | null, motivo: string): Promise<void> => {
+  const { error } = await supabase
+    .from('periodos_contables')
+    .update({ estado: 'abierto', reabierto_por: userId, reabierto_at: new Date().toISOString(), motivo_reapertura: motivo })
+    .eq('periodo', periodo);
+
+  if (error) {
+    console.error("Error al reabrir el periodo:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+};
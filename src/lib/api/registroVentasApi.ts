@@ -0,0 +1,169 @@
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { Json, Tables } from '../database.types';
+import { DEFAULT_MONEDA } from '../constants';
+import { calculateInvoiceTotals, InvoiceTotals, LineaCalculable } from '../invoicingCalculations';
+import { ComprobanteRegistroVentas, DocumentoModificado, TipoComprobanteVenta } from '../registroVentasPle';
+import { fetchTipoCambio } from './exchangeRatesApi';
+
+type Desglose = Pick<ComprobanteRegistroVentas, 'exportacion' | 'gravado' | 'igv' | 'exonerado' | 'inafecto' | 'total'>;
+
+const BOLETA_COLUMNS = 'serie, numero, fecha_emision, moneda, monto_total, cliente_tipo_documento, cliente_numero_documento, cliente_razon_social, detalles, estado_sunat';
+const FACTURA_COLUMNS = `${BOLETA_COLUMNS}, fecha_vencimiento, mto_oper_gravadas, mto_oper_exoneradas, mto_igv`;
+const NOTA_COLUMNS = `serie, numero, fecha_emision, moneda, monto_total, documento_afectado_serie_numero, estado_sunat, boleta:boletas_electronicas(${BOLETA_COLUMNS}), factura:facturas_electronicas(${FACTURA_COLUMNS})`;
+
+type BoletaRow = Pick<Tables<'boletas_electronicas'>, 'serie' | 'numero' | 'fecha_emision' | 'moneda' | 'monto_total' | 'cliente_tipo_documento' | 'cliente_numero_documento' | 'cliente_razon_social' | 'detalles' | 'estado_sunat'>;
+type FacturaRow = BoletaRow & Pick<Tables<'facturas_electronicas'>, 'fecha_vencimiento' | 'mto_oper_gravadas' | 'mto_oper_exoneradas' | 'mto_igv'>;
+type NotaRow = Pick<Tables<'notas_credito'>, 'serie' | 'numero' | 'fecha_emision' | 'moneda' | 'monto_total' | 'documento_afectado_serie_numero' | 'estado_sunat'> & {
+  detalles?: Json | null;
+  boleta: BoletaRow | null;
+  factura: FacturaRow | null;
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toDesglose = (totals: InvoiceTotals): Desglose => ({
+  exportacion: totals.mto_oper_exportacion,
+  gravado: totals.mto_oper_gravadas,
+  igv: totals.mto_igv,
+  exonerado: totals.mto_oper_exoneradas,
+  inafecto: totals.mto_oper_inafectas,
+  total: totals.mto_imp_venta,
+});
+
+const lineas = (detalles: Json | null | undefined): LineaCalculable[] =>
+  Array.isArray(detalles) ? (detalles as unknown as LineaCalculable[]) : [];
+
+/**
+ * Desglose de una boleta según sus líneas guardadas (precios con IGV).
+ * Sin detalle se asume una operación gravada con IGV 18%.
+ */
+const desgloseBoleta = (row: BoletaRow): Desglose => {
+  const detalles = lineas(row.detalles);
+  if (detalles.length > 0) return { ...toDesglose(calculateInvoiceTotals(detalles)), total: row.monto_total };
+  const gravado = round2(row.monto_total / 1.18);
+  return { exportacion: 0, gravado, igv: round2(row.monto_total - gravado), exonerado: 0, inafecto: 0, total: row.monto_total };
+};
+
+// Las facturas guardan sus bases; inafecto y exportación se obtienen de las líneas.
+const desgloseFactura = (row: FacturaRow): Desglose => {
+  const porLineas = calculateInvoiceTotals(lineas(row.detalles));
+  return {
+    exportacion: porLineas.mto_oper_exportacion,
+    gravado: row.mto_oper_gravadas,
+    igv: row.mto_igv,
+    exonerado: row.mto_oper_exoneradas,
+    inafecto: round2(row.monto_total - row.mto_oper_gravadas - row.mto_igv - row.mto_oper_exoneradas - porLineas.mto_oper_exportacion),
+    total: row.monto_total,
+  };
+};
+
+/**
+ * Las notas de crédito no guardan su detalle: se reparte su total en la misma proporción
+ * que el comprobante que modifican. El IGV absorbe la diferencia por redondeo.
+ */
+const desgloseProporcional = (total: number, origen: Desglose): Desglose => {
+  if (!origen.total) return { exportacion: 0, gravado: 0, igv: 0, exonerado: 0, inafecto: 0, total };
+  const factor = total / origen.total;
+  const exportacion = round2(origen.exportacion * factor);
+  const gravado = round2(origen.gravado * factor);
+  const exonerado = round2(origen.exonerado * factor);
+  const inafecto = round2(origen.inafecto * factor);
+  const igv = origen.igv ? round2(total - exportacion - gravado - exonerado - inafecto) : 0;
+  return { exportacion, gravado, igv, exonerado, inafecto, total };
+};
+
+const fromBoleta = (tipo: TipoComprobanteVenta, row: BoletaRow | FacturaRow, desglose: Desglose): Omit<ComprobanteRegistroVentas, 'tipoCambio'> => ({
+  tipo,
+  serie: row.serie,
+  numero: row.numero,
+  fechaEmision: row.fecha_emision,
+  fechaVencimiento: 'fecha_vencimiento' in row ? row.fecha_vencimiento : null,
+  clienteTipoDocumento: row.cliente_tipo_documento,
+  clienteNumeroDocumento: row.cliente_numero_documento,
+  clienteRazonSocial: row.cliente_razon_social,
+  moneda: row.moneda,
+  ...desglose,
+  estadoSunat: row.estado_sunat,
+  modificado: null,
+});
+
+const fromNota = (tipo: '07' | '08', row: NotaRow): Omit<ComprobanteRegistroVentas, 'tipoCambio'> => {
+  const [serie, numero = ''] = row.documento_afectado_serie_numero.split('-');
+  const origen = row.factura ?? row.boleta;
+  const tipoOrigen: TipoComprobanteVenta = row.factura || serie.startsWith('F') ? '01' : '03';
+  const modificado: DocumentoModificado = { tipo: tipoOrigen, serie, numero, fechaEmision: origen?.fecha_emision ?? null };
+
+  let desglose: Desglose;
+  if (lineas(row.detalles).length > 0) {
+    desglose = { ...toDesglose(calculateInvoiceTotals(lineas(row.detalles))), total: row.monto_total };
+  } else if (row.factura) {
+    desglose = desgloseProporcional(row.monto_total, desgloseFactura(row.factura));
+  } else if (row.boleta) {
+    desglose = desgloseProporcional(row.monto_total, desgloseBoleta(row.boleta));
+  } else {
+    desglose = desgloseProporcional(row.monto_total, { exportacion: 0, gravado: 0, igv: 0, exonerado: 0, inafecto: 0, total: 0 });
+  }
+
+  return {
+    tipo,
+    serie: row.serie,
+    numero: row.numero,
+    fechaEmision: row.fecha_emision,
+    fechaVencimiento: null,
+    clienteTipoDocumento: origen?.cliente_tipo_documento ?? '0',
+    clienteNumeroDocumento: origen?.cliente_numero_documento ?? '',
+    clienteRazonSocial: origen?.cliente_razon_social ?? '',
+    moneda: row.moneda,
+    ...desglose,
+    estadoSunat: row.estado_sunat,
+    modificado,
+  };
+};
+
+// Los comprobantes rechazados por SUNAT no existen tributariamente y no se anotan.
+const noRechazado = (row: { estado_sunat: string | null }) => row.estado_sunat?.toUpperCase() !== 'RECHAZADO';
+
+/**
+ * Comprobantes de venta emitidos en el mes (boletas, facturas, notas de crédito y de débito)
+ * listos para el Registro de Ventas, con el tipo de cambio del día para los emitidos en otra moneda.
+ */
+export const fetchComprobantesRegistroVentas = async (periodo: Date): Promise<ComprobanteRegistroVentas[]> => {
+  const desde = format(startOfMonth(periodo), 'yyyy-MM-dd');
+  const hasta = format(endOfMonth(periodo), 'yyyy-MM-dd');
+
+  const [boletas, facturas, notasCredito, notasDebito] = await Promise.all([
+    supabase.from('boletas_electronicas').select(BOLETA_COLUMNS).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+    supabase.from('facturas_electronicas').select(FACTURA_COLUMNS).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+    supabase.from('notas_credito').select(NOTA_COLUMNS).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+    supabase.from('notas_debito').select(`${NOTA_COLUMNS}, detalles`).gte('fecha_emision', desde).lte('fecha_emision', hasta),
+  ]);
+
+  const error = boletas.error || facturas.error || notasCredito.error || notasDebito.error;
+  if (error) {
+    console.error("Error al obtener los comprobantes del Registro de Ventas:", error);
+    throw new Error(`Error de base de datos: ${error.message}`);
+  }
+
+  const comprobantes = [
+    ...(boletas.data as BoletaRow[]).filter(noRechazado).map(row => fromBoleta('03', row, desgloseBoleta(row))),
+    ...(facturas.data as FacturaRow[]).filter(noRechazado).map(row => fromBoleta('01', row, desgloseFactura(row))),
+    ...(notasCredito.data as unknown as NotaRow[]).filter(noRechazado).map(row => fromNota('07', row)),
+    ...(notasDebito.data as unknown as NotaRow[]).filter(noRechazado).map(row => fromNota('08', row)),
+  ];
+
+  // Un tipo de cambio por moneda y fecha, aunque varios comprobantes lo compartan.
+  const tiposCambio = new Map<string, number | null>();
+  for (const c of comprobantes.filter(c => c.moneda !== DEFAULT_MONEDA)) {
+    const key = `${c.moneda}|${c.fechaEmision}`;
+    if (!tiposCambio.has(key)) {
+      const tipoCambio = await fetchTipoCambio(c.fechaEmision, c.moneda);
+      tiposCambio.set(key, tipoCambio?.venta ?? null);
+    }
+  }
+
+  return comprobantes.map(c => ({
+    ...c,
+    tipoCambio: c.moneda === DEFAULT_MONEDA ? null : tiposCambio.get(`${c.moneda}|${c.fechaEmision}`) ?? null,
+  }));
+};
@@ -0,0 +1,243 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { parseMontoTexto, readSpreadsheetFile } from './spreadsheet';
+
+// --- Extractos bancarios: lectura (CSV/XLSX/OFX) y conciliación con ingresos y gastos ---
+
+export type FormatoExtracto = 'csv' | 'xlsx' | 'ofx';
+
+export interface LineaExtracto {
+  fila: number; // Fila del archivo (o número de movimiento en OFX), para los mensajes de error
+  fecha: string; // yyyy-MM-dd
+  descripcion: string;
+  numeroOperacion: string | null;
+  monto: number; // Abonos positivos, cargos negativos
+}
+
+export interface ExtractoParseResult {
+  formato: FormatoExtracto;
+  lineas: LineaExtracto[];
+  errors: string[];
+}
+
+// Ingreso, gasto o transferencia registrado en la cuenta, con el signo con el que afecta al saldo.
+export interface MovimientoConciliable {
+  tipo: 'ingreso' | 'gasto' | 'transferencia';
+  id: number;
+  fecha: string;
+  monto: number;
+  numeroOperacion: string | null;
+  descripcion: string;
+  conciliacionId: number | null; // Sesión en la que ya está vinculado a una línea del extracto
+}
+
+export type CriterioConciliacion = 'operacion' | 'monto_fecha' | 'manual';
+
+export interface SugerenciaConciliacion {
+  movimiento: MovimientoConciliable;
+  criterio: CriterioConciliacion;
+}
+
+export const CRITERIO_CONCILIACION_LABELS: Record<CriterioConciliacion, string> = {
+  operacion: 'N° de operación',
+  monto_fecha: 'Monto y fecha',
+  manual: 'Manual',
+};
+
+// Días de diferencia aceptados entre la fecha del banco y la del registro al buscar por monto.
+export const TOLERANCIA_DIAS_CONCILIACION = 3;
+
+// Encabezados normalizados (sin tildes ni signos) que usan los extractos de BBVA y otros bancos.
+const ENCABEZADOS = {
+  fecha: ['fecha', 'f operacion', 'fecha operacion', 'fecha de operacion', 'fecha proceso', 'fecha valor', 'f valor'],
+  descripcion: ['concepto', 'descripcion', 'detalle', 'glosa', 'movimiento', 'descripcion operacion'],
+  operacion: ['n doc', 'nro doc', 'n operacion', 'nro operacion', 'nro de operacion', 'numero operacion', 'numero de operacion', 'operacion', 'referencia'],
+  monto: ['importe', 'monto', 'importe s'],
+  cargo: ['cargo', 'cargos', 'debito', 'retiros'],
+  abono: ['abono', 'abonos', 'credito', 'depositos'],
+};
+
+const normalizarEncabezado = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Número de operación comparable: solo dígitos y sin ceros a la izquierda
+ * (`ingresos.numeroOperacion` es numérico y los bancos suelen rellenar con ceros).
+ */
+export const normalizarOperacion = (value: string | number | null | undefined): string | null => {
+  if (value === null || value === undefined) return null;
+  return String(value).replace(/\D/g, '').replace(/^0+/, '') || null;
+};
+
+/**
+ * Fecha de una celda a yyyy-MM-dd. Acepta dd/MM/yyyy, dd-MM-yy, yyyy-MM-dd y el número de serie de Excel.
+ */
+const parseFechaCelda = (value: string): string | null => {
+  const texto = value.trim();
+  if (/^\d{5}(\.\d+)?$/.test(texto)) {
+    // Días desde el 30/12/1899 (así cuenta Excel por su error heredado del año 1900).
+    return format(addDays(new Date(1899, 11, 30), Math.floor(Number(texto))), 'yyyy-MM-dd');
+  }
+  let match = texto.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = texto.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+};
+
+/**
+ * Convierte las filas de un extracto en CSV/XLSX. El encabezado se busca entre las primeras filas
+ * (los bancos ponen antes el titular y el periodo) y debe tener la fecha y el importe, o cargo y abono.
+ */
+export const parseExtractoTabla = (rows: string[][]): Omit<ExtractoParseResult, 'formato'> => {
+  const errors: string[] = [];
+  const lineas: LineaExtracto[] = [];
+
+  const indiceEncabezado = rows.slice(0, 20).findIndex(row => {
+    const cols = row.map(normalizarEncabezado);
+    const tiene = (nombres: string[]) => cols.some(col => nombres.includes(col));
+    return tiene(ENCABEZADOS.fecha) && (tiene(ENCABEZADOS.monto) || (tiene(ENCABEZADOS.cargo) && tiene(ENCABEZADOS.abono)));
+  });
+  if (indiceEncabezado < 0) {
+    errors.push('No se encontró el encabezado del extracto: se necesitan las columnas Fecha e Importe (o Cargo y Abono).');
+    return { lineas, errors };
+  }
+
+  const encabezado = rows[indiceEncabezado].map(normalizarEncabezado);
+  const buscar = (nombres: string[]) => encabezado.findIndex(col => nombres.includes(col));
+  const columnas = {
+    fecha: buscar(ENCABEZADOS.fecha),
+    descripcion: buscar(ENCABEZADOS.descripcion),
+    operacion: buscar(ENCABEZADOS.operacion),
+    monto: buscar(ENCABEZADOS.monto),
+    cargo: buscar(ENCABEZADOS.cargo),
+    abono: buscar(ENCABEZADOS.abono),
+  };
+
+  rows.slice(indiceEncabezado + 1).forEach((row, index) => {
+    const fila = indiceEncabezado + index + 2;
+    const fecha = parseFechaCelda(row[columnas.fecha] ?? '');
+    if (!fecha) {
+      // Totales y saldos al pie del extracto no tienen fecha: se omiten sin avisar.
+      if ((row[columnas.fecha] ?? '').trim()) errors.push(`Fila ${fila}: "${row[columnas.fecha]}" no es una fecha válida.`);
+      return;
+    }
+
+    let monto: number | null;
+    if (columnas.monto >= 0) {
+      monto = parseMontoTexto(row[columnas.monto]);
+    } else {
+      const cargo = parseMontoTexto(row[columnas.cargo]) ?? 0;
+      const abono = parseMontoTexto(row[columnas.abono]) ?? 0;
+      monto = Math.abs(abono) - Math.abs(cargo);
+    }
+    if (monto === null || Number.isNaN(monto) || monto === 0) {
+      errors.push(`Fila ${fila}: el importe no es válido.`);
+      return;
+    }
+
+    lineas.push({
+      fila,
+      fecha,
+      descripcion: columnas.descripcion >= 0 ? (row[columnas.descripcion] ?? '').trim() : '',
+      numeroOperacion: columnas.operacion >= 0 ? normalizarOperacion(row[columnas.operacion]) : null,
+      monto: parseFloat(monto.toFixed(2)),
+    });
+  });
+
+  return { lineas, errors };
+};
+
+const valorOfx = (bloque: string, tag: string): string | null => {
+  // En OFX 1.x (SGML) las etiquetas no se cierran: el valor llega hasta el siguiente "<" o fin de línea.
+  const match = bloque.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Lee los movimientos (`<STMTTRN>`) de un archivo OFX/QFX, en su variante SGML o XML.
+ */
+export const parseExtractoOfx = (text: string): Omit<ExtractoParseResult, 'formato'> => {
+  const errors: string[] = [];
+  const lineas: LineaExtracto[] = [];
+  const bloques = text.split(/<STMTTRN>/i).slice(1);
+  if (bloques.length === 0) {
+    errors.push('El archivo OFX no tiene movimientos (<STMTTRN>).');
+  }
+
+  bloques.forEach((bloque, index) => {
+    const fila = index + 1;
+    const fechaRaw = valorOfx(bloque, 'DTPOSTED') ?? '';
+    const monto = Number((valorOfx(bloque, 'TRNAMT') ?? '').replace(',', '.'));
+    if (!/^\d{8}/.test(fechaRaw)) {
+      errors.push(`Movimiento ${fila}: fecha "${fechaRaw}" no válida.`);
+      return;
+    }
+    if (!Number.isFinite(monto) || monto === 0) {
+      errors.push(`Movimiento ${fila}: el importe no es válido.`);
+      return;
+    }
+    const fitId = valorOfx(bloque, 'FITID');
+    lineas.push({
+      fila,
+      fecha: `${fechaRaw.slice(0, 4)}-${fechaRaw.slice(4, 6)}-${fechaRaw.slice(6, 8)}`,
+      descripcion: [valorOfx(bloque, 'NAME'), valorOfx(bloque, 'MEMO')].filter(Boolean).join(' - '),
+      numeroOperacion: normalizarOperacion(valorOfx(bloque, 'CHECKNUM') ?? valorOfx(bloque, 'REFNUM') ?? (fitId && /^\d+$/.test(fitId) ? fitId : null)),
+      monto: parseFloat(monto.toFixed(2)),
+    });
+  });
+
+  return { lineas, errors };
+};
+
+/**
+ * Lee un extracto bancario en CSV/TXT, XLSX u OFX/QFX.
+ */
+export const readExtractoFile = async (file: File): Promise<ExtractoParseResult> => {
+  if (/\.(ofx|qfx)$/i.test(file.name)) {
+    return { formato: 'ofx', ...parseExtractoOfx(await file.text()) };
+  }
+  const rows = await readSpreadsheetFile(file);
+  return { formato: /\.xlsx$/i.test(file.name) ? 'xlsx' : 'csv', ...parseExtractoTabla(rows) };
+};
+
+const mismoMonto = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+/**
+ * Propone, para cada línea del extracto, el ingreso o gasto que le corresponde. Primero por
+ * número de operación e importe; luego por importe y la fecha más cercana dentro de la tolerancia.
+ * Cada movimiento se usa una sola vez; los ya conciliados en otra sesión no se proponen.
+ */
+export const sugerirConciliacion = (lineas: LineaExtracto[], movimientos: MovimientoConciliable[]): (SugerenciaConciliacion | null)[] => {
+  const disponibles = movimientos.filter(m => m.conciliacionId === null && m.monto !== 0);
+  const usados = new Set<MovimientoConciliable>();
+  const sugerencias: (SugerenciaConciliacion | null)[] = lineas.map(() => null);
+
+  lineas.forEach((linea, index) => {
+    if (!linea.numeroOperacion) return;
+    const movimiento = disponibles.find(m =>
+      !usados.has(m) && m.numeroOperacion === linea.numeroOperacion && mismoMonto(m.monto, linea.monto));
+    if (movimiento) {
+      usados.add(movimiento);
+      sugerencias[index] = { movimiento, criterio: 'operacion' };
+    }
+  });
+
+  lineas.forEach((linea, index) => {
+    if (sugerencias[index]) return;
+    const fecha = parseISO(linea.fecha);
+    const candidatos = disponibles
+      .filter(m => !usados.has(m) && mismoMonto(m.monto, linea.monto))
+      .map(m => ({ m, dias: Math.abs(differenceInCalendarDays(parseISO(m.fecha), fecha)) }))
+      .filter(c => c.dias <= TOLERANCIA_DIAS_CONCILIACION)
+      .sort((a, b) => a.dias - b.dias);
+    if (candidatos.length > 0) {
+      usados.add(candidatos[0].m);
+      sugerencias[index] = { movimiento: candidatos[0].m, criterio: 'monto_fecha' };
+    }
+  });
+
+  return sugerencias;
+};
@@ -0,0 +1,205 @@
+import { fetchClientByDocument, fetchOrCreateEmisionBoleta } from './api/invoicingApi';
+import { buildPasosIniciales, PASO_EMISION_LABELS, PASOS_EMISION_BOLETA, processEmisionBoleta } from './boletaIssuanceQueue';
+import { calculateBaseValue } from './invoicingCalculations';
+import { BoletaPayload, Client, EmisionBoleta, EmisionBoletaContexto } from './types/invoicing';
+import {
+  COMPANY_ID,
+  DEFAULT_FORMA_PAGO,
+  DEFAULT_ITEM_CODE,
+  DEFAULT_MONEDA,
+  DEFAULT_SUNAT_PRODUCT_CODE,
+  DEFAULT_TIPO_OPERACION,
+} from './constants';
+import { parseMontoTexto } from './spreadsheet';
+
+const IGV_PORCENTAJE = 18;
+
+export interface FilaLoteBoleta {
+  fila: number | null; // Línea del archivo; null si el socio se eligió desde la tabla de socios
+  dni: string;
+  monto: number | null; // null: se usa el monto común del lote
+  concepto: string | null; // null: se usa el concepto común del lote
+}
+
+export interface FilasLoteParseResult {
+  filas: FilaLoteBoleta[];
+  errors: string[];
+}
+
+export type EstadoItemLote = 'validando' | 'valido' | 'invalido' | 'emitiendo' | 'emitida' | 'incompleta' | 'error';
+
+export interface ItemLoteBoleta extends FilaLoteBoleta {
+  key: string; // Clave de idempotencia de la emisión: se conserva entre reintentos
+  cliente: Client | null;
+  estado: EstadoItemLote;
+  error?: string;
+  numeroCompleto?: string;
+}
+
+export interface OpcionesLoteBoleta {
+  serie: string;
+  branchId: number;
+  fechaEmision: string;
+  monto: number;
+  concepto: string;
+  ingreso: { account: string; numeroOperacion: number | null } | null;
+}
+
+const ENCABEZADOS = {
+  dni: ['dni', 'documento', 'nro documento', 'numero documento', 'n° documento'],
+  monto: ['monto', 'importe', 'total', 'precio'],
+  concepto: ['concepto', 'descripcion', 'descripción', 'detalle'],
+};
+
+/**
+ * Convierte las filas de la hoja en filas del lote. Si la primera fila tiene encabezados
+ * (DNI, Monto, Concepto) se usan para ubicar las columnas; si no, se asume ese orden.
+ * Monto y concepto vacíos toman los valores comunes del lote.
+ */
+export const parseFilasLote = (rows: string[][]): FilasLoteParseResult => {
+  const errors: string[] = [];
+  const filas: FilaLoteBoleta[] = [];
+  if (rows.length === 0) return { filas, errors };
+
+  const encabezado = rows[0].map(col => col.toLowerCase().trim());
+  const buscar = (nombres: string[]) => encabezado.findIndex(col => nombres.includes(col));
+  const tieneEncabezado = buscar(ENCABEZADOS.dni) >= 0;
+  const columnas = tieneEncabezado
+    ? { dni: buscar(ENCABEZADOS.dni), monto: buscar(ENCABEZADOS.monto), concepto: buscar(ENCABEZADOS.concepto) }
+    : { dni: 0, monto: 1, concepto: 2 };
+
+  const vistos = new Set<string>();
+  rows.slice(tieneEncabezado ? 1 : 0).forEach((row, index) => {
+    const linea = index + (tieneEncabezado ? 2 : 1);
+    const rawDni = (row[columnas.dni] ?? '').replace(/\s/g, '');
+    // Un DNI guardado como número en Excel pierde los ceros iniciales.
+    const dni = /^\d{1,8}$/.test(rawDni) ? rawDni.padStart(8, '0') : rawDni;
+    const monto = columnas.monto >= 0 ? parseMontoTexto(row[columnas.monto]) : null;
+    const concepto = columnas.concepto >= 0 ? (row[columnas.concepto] || '').trim() || null : null;
+
+    if (!/^\d{8}$/.test(dni)) {
+      errors.push(`Fila ${linea}: "${rawDni}" no es un DNI válido.`);
+      return;
+    }
+    if (monto !== null && !(monto > 0)) {
+      errors.push(`Fila ${linea}: el monto "${row[columnas.monto]}" no es válido.`);
+      return;
+    }
+    if (vistos.has(dni)) {
+      errors.push(`Fila ${linea}: el DNI ${dni} está repetido; se omitió.`);
+      return;
+    }
+    vistos.add(dni);
+    filas.push({ fila: linea, dni, monto, concepto });
+  });
+
+  return { filas, errors };
+};
+
+export const crearItemsLote = (filas: FilaLoteBoleta[]): ItemLoteBoleta[] =>
+  filas.map(fila => ({ ...fila, key: crypto.randomUUID(), cliente: null, estado: 'validando' }));
+
+/**
+ * Busca el socio de cada fila con `fetchClientByDocument`. Las filas sin socio quedan inválidas.
+ */
+export const validarItemLote = async (item: ItemLoteBoleta): Promise<ItemLoteBoleta> => {
+  try {
+    const cliente = await fetchClientByDocument(item.dni);
+    if (!cliente) {
+      return { ...item, cliente: null, estado: 'invalido', error: 'No hay un socio titular con este DNI.' };
+    }
+    return { ...item, cliente, estado: 'valido', error: undefined };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido.';
+    return { ...item, cliente: null, estado: 'invalido', error: message };
+  }
+};
+
+export const montoItemLote = (item: FilaLoteBoleta, opciones: Pick<OpcionesLoteBoleta, 'monto'>): number =>
+  item.monto ?? opciones.monto;
+
+/**
+ * Arma el payload y el contexto de la emisión de una fila, con una sola línea de servicio gravada.
+ */
+const buildEmisionLote = (item: ItemLoteBoleta, opciones: OpcionesLoteBoleta): { payload: BoletaPayload; contexto: EmisionBoletaContexto } => {
+  const cliente = item.cliente!;
+  const monto = montoItemLote(item, opciones);
+  const detalle = {
+    codigo: DEFAULT_ITEM_CODE,
+    descripcion: item.concepto || opciones.concepto,
+    unidad: 'ZZ',
+    cantidad: 1,
+    mto_valor_unitario: monto,
+    porcentaje_igv: IGV_PORCENTAJE,
+    tip_afe_igv: '10',
+    codigo_producto_sunat: DEFAULT_SUNAT_PRODUCT_CODE,
+  };
+
+  const payload: BoletaPayload = {
+    company_id: COMPANY_ID,
+    branch_id: opciones.branchId,
+    serie: opciones.serie,
+    fecha_emision: opciones.fechaEmision,
+    moneda: DEFAULT_MONEDA,
+    tipo_operacion: DEFAULT_TIPO_OPERACION,
+    metodo_envio: 'resumen_diario',
+    forma_pago_tipo: DEFAULT_FORMA_PAGO,
+    usuario_creacion: 'admin_user',
+    client: {
+      tipo_documento: cliente.tipo_documento,
+      numero_documento: cliente.numero_documento,
+      razon_social: cliente.razon_social,
+      nombre_comercial: cliente.nombre_comercial || '',
+      direccion: cliente.direccion || '',
+      ubigeo: cliente.ubigeo || '',
+      distrito: cliente.distrito || '',
+      provincia: cliente.provincia || '',
+      departamento: cliente.departamento || '',
+      telefono: cliente.telefono || '',
+      email: cliente.email || '',
+    },
+    // La API espera el valor unitario sin IGV.
+    detalles: [{ ...detalle, mto_valor_unitario: calculateBaseValue(monto, IGV_PORCENTAJE) }],
+  };
+
+  const contexto: EmisionBoletaContexto = {
+    socioId: cliente.id || null,
+    montoTotal: monto,
+    detalles: [detalle],
+    ingreso: opciones.ingreso ? { ...opciones.ingreso, date: opciones.fechaEmision } : null,
+  };
+
+  return { payload, contexto };
+};
+
+const toEstadoItem = (item: ItemLoteBoleta, result: EmisionBoleta): ItemLoteBoleta => {
+  if (result.pasos.emision.estado !== 'completado' || !result.numero_completo) {
+    return { ...item, estado: 'error', error: result.pasos.emision.error || 'La boleta no se pudo emitir.' };
+  }
+  const pasosConError = PASOS_EMISION_BOLETA.filter(paso => result.pasos[paso].estado === 'error');
+  if (pasosConError.length > 0) {
+    return {
+      ...item,
+      estado: 'incompleta',
+      numeroCompleto: result.numero_completo,
+      error: pasosConError.map(paso => `${PASO_EMISION_LABELS[paso]}: ${result.pasos[paso].error}`).join('; '),
+    };
+  }
+  return { ...item, estado: 'emitida', numeroCompleto: result.numero_completo, error: undefined };
+};
+
+/**
+ * Emite la boleta de una fila a través de la cola de emisiones: registro local, PDF en la carpeta
+ * del socio e ingreso se hacen igual que en el formulario individual. Reintentar una fila reutiliza
+ * su clave, así la API no duplica la boleta y solo se repiten los pasos que fallaron.
+ */
+export const emitirItemLote = async (item: ItemLoteBoleta, opciones: OpcionesLoteBoleta, userId: string | null): Promise<ItemLoteBoleta> => {
+  try {
+    const { payload, contexto } = buildEmisionLote(item, opciones);
+    const emision = await fetchOrCreateEmisionBoleta(item.key, payload, contexto, buildPasosIniciales(contexto), userId);
+    return toEstadoItem(item, await processEmisionBoleta(emision));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido.';
+    return { ...item, estado: 'error', error: message };
+  }
+};
@@ -0,0 +1,205 @@
+import {
+  createIncomeFromBoleta,
+  fetchBoletaIdByApiInvoiceId,
+  fetchEmisionesBoletaIncompletas,
+  generateBoletaPdf,
+  incomeExistsForReceipt,
+  issueBoleta,
+  registerCorrelativoEmitido,
+  saveBoletaPdfToSupabase,
+  saveBoletaToDb,
+  toJsonDetalles,
+  updateEmisionBoleta,
+} from './api/invoicingApi';
+import { convertirASoles } from './api/exchangeRatesApi';
+import { Json, TablesUpdate } from './database.types';
+import { EmisionBoleta, EmisionBoletaContexto, PasoEmisionBoleta, PasoEmisionState } from './types/invoicing';
+
+export const PASOS_EMISION_BOLETA: PasoEmisionBoleta[] = ['emision', 'registro', 'pdf', 'almacenamiento', 'ingreso'];
+
+export const PASO_EMISION_LABELS: Record<PasoEmisionBoleta, string> = {
+  emision: 'Emisión en SUNAT',
+  registro: 'Registro local',
+  pdf: 'Generación de PDF',
+  almacenamiento: 'Guardado del PDF',
+  ingreso: 'Registro del ingreso',
+};
+
+export interface EmisionesReanudadasResult {
+  resumed: number;
+  completed: number;
+  stuck: number;
+}
+
+// Claves en proceso en esta pestaña; evita que el formulario y la reanudación procesen la misma emisión.
+const enProceso = new Set<string>();
+
+/**
+ * Estado inicial de los pasos: el PDF solo se guarda si hay socio y el ingreso solo si se pidió.
+ */
+export const buildPasosIniciales = (contexto: EmisionBoletaContexto): Record<PasoEmisionBoleta, PasoEmisionState> => {
+  const paso = (aplica: boolean): PasoEmisionState => ({ estado: aplica ? 'pendiente' : 'omitido', intentos: 0 });
+  return {
+    emision: paso(true),
+    registro: paso(true),
+    pdf: paso(!!contexto.socioId),
+    almacenamiento: paso(!!contexto.socioId),
+    ingreso: paso(!!contexto.ingreso),
+  };
+};
+
+/**
+ * Ejecuta un paso a partir del estado actual de la emisión y devuelve los campos que cambian.
+ * Cada paso es seguro de reintentar: la emisión usa la clave de idempotencia y los registros
+ * locales se verifican antes de insertarse.
+ */
+const runPaso = async (paso: PasoEmisionBoleta, emision: EmisionBoleta): Promise<TablesUpdate<'emisiones_boleta'>> => {
+  const { payload, contexto, api_invoice_id: apiInvoiceId, numero_completo: numeroCompleto } = emision;
+
+  if (paso === 'emision') {
+    const result = await issueBoleta(payload, emision.idempotency_key);
+    // Avanza el correlativo de la serie en el registro local; no debe bloquear la emisión.
+    registerCorrelativoEmitido('03', result.data.numero_completo).catch(err => console.error("No se pudo actualizar el correlativo de la serie:", err));
+    return {
+      api_invoice_id: result.data.id,
+      numero_completo: result.data.numero_completo,
+      respuesta_api: result.data as unknown as Json,
+    };
+  }
+
+  if (!apiInvoiceId || !numeroCompleto) {
+    throw new Error('La boleta aún no tiene número asignado por la API.');
+  }
+
+  switch (paso) {
+    case 'registro': {
+      const existingId = await fetchBoletaIdByApiInvoiceId(apiInvoiceId);
+      if (existingId) return { boleta_id: existingId };
+
+      const [serie, numero] = numeroCompleto.split('-');
+      const boletaId = await saveBoletaToDb({
+        serie: serie || payload.serie,
+        numero: numero || '',
+        fecha_emision: payload.fecha_emision,
+        moneda: payload.moneda,
+        monto_total: contexto.montoTotal,
+        cliente_tipo_documento: payload.client.tipo_documento,
+        cliente_numero_documento: payload.client.numero_documento,
+        cliente_razon_social: payload.client.razon_social,
+        cliente_direccion: payload.client.direccion || null,
+        detalles: toJsonDetalles(contexto.detalles),
+        socio_id: contexto.socioId,
+        api_invoice_id: apiInvoiceId,
+        estado_sunat: emision.respuesta_api?.sunat_status || 'PENDIENTE',
+        pdf_path: emision.respuesta_api?.pdf_path ?? null,
+        xml_path: emision.respuesta_api?.xml_path ?? null,
+        cdr_path: emision.respuesta_api?.cdr_path ?? null,
+      });
+      return { boleta_id: boletaId };
+    }
+    case 'pdf':
+      await generateBoletaPdf(apiInvoiceId, 'A4');
+      return {};
+    case 'almacenamiento':
+      await saveBoletaPdfToSupabase(apiInvoiceId, numeroCompleto, contexto.socioId!, 'A4');
+      return {};
+    case 'ingreso': {
+      const ingreso = contexto.ingreso!;
+      if (await incomeExistsForReceipt(numeroCompleto)) return {};
+      // Los saldos se llevan en soles: una boleta en dólares se registra con el tipo de cambio de su emisión.
+      const monto = await convertirASoles(contexto.montoTotal, payload.moneda, payload.fecha_emision);
+      await createIncomeFromBoleta({
+        receipt_number: numeroCompleto,
+        dni: payload.client.numero_documento,
+        full_name: payload.client.razon_social,
+        ...monto,
+        account: ingreso.account,
+        date: ingreso.date,
+        transaction_type: 'Venta',
+        numeroOperacion: ingreso.numeroOperacion,
+      });
+      return {};
+    }
+    default:
+      return {};
+  }
+};
+
+/**
+ * Procesa los pasos pendientes de una emisión, guardando el estado de cada uno en la cola.
+ * Si la emisión en SUNAT falla se detiene; los pasos posteriores son independientes entre sí,
+ * salvo el guardado del PDF, que requiere haberlo generado.
+ * Si la cola no se puede actualizar (p. ej. sin conexión), se continúa en memoria: al recargar,
+ * los pasos se reintentan sin duplicar gracias a la clave de idempotencia.
+ */
+export const processEmisionBoleta = async (
+  inicial: EmisionBoleta,
+  onChange?: (emision: EmisionBoleta) => void,
+): Promise<EmisionBoleta> => {
+  if (enProceso.has(inicial.idempotency_key)) {
+    throw new Error('Esta emisión ya se está procesando.');
+  }
+  enProceso.add(inicial.idempotency_key);
+
+  let emision = inicial;
+  const persist = async (changes: Partial<EmisionBoleta>) => {
+    emision = { ...emision, ...changes };
+    onChange?.(emision);
+    try {
+      emision = await updateEmisionBoleta(emision.id, changes as unknown as TablesUpdate<'emisiones_boleta'>);
+    } catch (error) {
+      console.error("No se pudo guardar el progreso de la emisión:", error);
+    }
+  };
+  const setPaso = (paso: PasoEmisionBoleta, state: PasoEmisionState) => ({ ...emision.pasos, [paso]: state });
+
+  try {
+    for (const paso of PASOS_EMISION_BOLETA) {
+      const actual = emision.pasos[paso];
+      if (actual.estado === 'completado' || actual.estado === 'omitido') continue;
+      if (paso === 'almacenamiento' && emision.pasos.pdf.estado !== 'completado') continue;
+
+      const intentos = actual.intentos + 1;
+      await persist({ pasos: setPaso(paso, { estado: 'en_curso', intentos }) });
+
+      try {
+        const changes = await runPaso(paso, emision);
+        await persist({ ...(changes as Partial<EmisionBoleta>), pasos: setPaso(paso, { estado: 'completado', intentos }) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Error desconocido.';
+        await persist({ pasos: setPaso(paso, { estado: 'error', intentos, error: message }), ultimo_error: `${PASO_EMISION_LABELS[paso]}: ${message}` });
+        if (paso === 'emision') break;
+      }
+    }
+
+    const conError = PASOS_EMISION_BOLETA.some(paso => emision.pasos[paso].estado === 'error');
+    await persist({ estado: conError ? 'atascada' : 'completada', ...(conError ? {} : { ultimo_error: null }) });
+    return emision;
+  } finally {
+    enProceso.delete(inicial.idempotency_key);
+  }
+};
+
+/**
+ * Reanuda las emisiones del usuario que quedaron a medias (p. ej. por cerrar o recargar la página).
+ * Las atascadas por error no se reintentan solas; se revisan desde la pantalla de emisiones pendientes.
+ */
+export const resumeEmisionesBoleta = async (userId: string): Promise<EmisionesReanudadasResult> => {
+  const result: EmisionesReanudadasResult = { resumed: 0, completed: 0, stuck: 0 };
+  const pendientes = await fetchEmisionesBoletaIncompletas(userId);
+
+  // Secuencial, de la más antigua a la más reciente, para respetar el orden de los correlativos.
+  for (const emision of pendientes.filter(e => e.estado === 'en_proceso').reverse()) {
+    if (enProceso.has(emision.idempotency_key)) continue;
+    result.resumed++;
+    try {
+      const final = await processEmisionBoleta(emision);
+      if (final.estado === 'completada') result.completed++; else result.stuck++;
+    } catch (error) {
+      console.error(`Error al reanudar la emisión ${emision.idempotency_key}:`, error);
+      result.stuck++;
+    }
+  }
+
+  return result;
+};
@@ -1,15 +1,72 @@
 export const COMPANY_ID = 1;
 export const BRANCH_ID = 1;
+// RUC del emisor; identifica los libros electrónicos (PLE) que se exportan.
+export const COMPANY_RUC = import.meta.env.VITE_COMPANY_RUC || '';
 
 export const DEFAULT_SERIE_BOLETA = 'B001';
+export const DEFAULT_SERIE_FACTURA = 'F001';
 export const DEFAULT_MONEDA = 'PEN';
 export const DEFAULT_TIPO_OPERACION = '01'; // Venta Interna
 export const DEFAULT_FORMA_PAGO = 'Contado';
+export const FORMA_PAGO_CREDITO = 'Credito';
 export const DEFAULT_ITEM_CODE = 'SERV001';
 export const DEFAULT_SUNAT_PRODUCT_CODE = '00001'; // UPDATED: Changed from '50121500' to '00001'
 
 export const DEFAULT_SERIE_NOTA_CREDITO_BOLETA = 'BC01'; // Nueva constante
 export const DEFAULT_SERIE_NOTA_CREDITO_FACTURA = 'FC01'; // Nueva constante
+export const DEFAULT_SERIE_NOTA_DEBITO_BOLETA = 'BD01';
+export const DEFAULT_SERIE_NOTA_DEBITO_FACTURA = 'FD01';
+
+// Tipos de comprobante (catálogo 01 SUNAT) que admiten series configurables.
+export const TIPOS_DOCUMENTO_SERIE = [
+  { code: '03', name: 'Boleta de Venta', prefijo: 'B' },
+  { code: '01', name: 'Factura', prefijo: 'F' },
+  { code: '07', name: 'Nota de Crédito', prefijo: null },
+  { code: '08', name: 'Nota de Débito', prefijo: null },
+];
+
+// Familias de numeración interna (no SUNAT), asignadas por la base de datos con `reservar_correlativo`.
+export const FAMILIA_CORRELATIVO_RECIBO = 'RECIBO';
+export const FAMILIA_CORRELATIVO_GASTO = 'GASTO';
+
+// Tipos de cuenta donde se mueve el dinero.
+export const TIPOS_CUENTA = [
+  { code: 'banco', name: 'Banco' },
+  { code: 'efectivo', name: 'Efectivo' },
+  { code: 'billetera', name: 'Billetera digital' },
+];
+
+// Roles que pueden reabrir un periodo contable cerrado.
+export const ROLES_REAPERTURA_PERIODO = ['admin', 'finanzas_senior'];
+
+// SUNAT acepta comunicaciones de baja hasta 7 días calendario después de la emisión.
+export const PLAZO_COMUNICACION_BAJA_DIAS = 7;
+
+// Las boletas deben informarse en un resumen diario hasta 7 días calendario después de su emisión.
+export const PLAZO_RESUMEN_DIARIO_DIAS = 7;
+// Días restantes a partir de los cuales se advierte que el plazo del resumen está por vencer.
+export const AVISO_PLAZO_RESUMEN_DIAS = 2;
+
+// Estados SUNAT que todavía no son definitivos y deben reconsultarse.
+export const ESTADOS_SUNAT_PENDIENTES = ['PENDIENTE', 'ENVIADO'];
+
+// Conciliación en segundo plano: frecuencia del ciclo y backoff exponencial por documento.
+export const SUNAT_RECONCILIATION_INTERVAL_MS = 60 * 1000;
+export const SUNAT_RECONCILIATION_BASE_DELAY_MS = 60 * 1000;
+export const SUNAT_RECONCILIATION_MAX_DELAY_MS = 30 * 60 * 1000;
+
+// Monedas admitidas en comprobantes, ingresos y gastos. Los saldos y reportes se expresan en soles.
+export const MONEDAS = [
+  { code: 'PEN', name: 'Soles', simbolo: 'S/' },
+  { code: 'USD', name: 'Dólares', simbolo: 'US$' },
+];
+
+// Formatos de impresión de boletas y recibos; cada usuario elige el suyo.
+export const DEFAULT_FORMATO_IMPRESION = 'A4';
+export const FORMATOS_IMPRESION = [
+  { code: 'A4', name: 'A4' },
+  { code: 'TICKET', name: 'Ticket 80 mm' },
+];
 
 export const TIPO_DOCUMENTO_CLIENTE = [
   { code: '1', name: 'DNI' },
@@ -17,6 +74,11 @@ export const TIPO_DOCUMENTO_CLIENTE = [
   { code: '0', name: 'OTROS' },
 ];
 
+export const FORMAS_PAGO = [
+  { code: DEFAULT_FORMA_PAGO, name: 'Contado' },
+  { code: FORMA_PAGO_CREDITO, name: 'Crédito (Cuotas)' },
+];
+
 export const TIPO_AFECTACION_IGV = [
   { code: '10', name: 'Gravado - Operación Onerosa' },
   { code: '20', name: 'Exonerado - Operación Onerosa' },
@@ -36,3 +98,18 @@ export const CREDIT_NOTE_REASONS = [
   { code: '09', name: 'Disminución en el valor' },
   { code: '10', name: 'Otros' },
 ];
+
+// Catálogo 10 de SUNAT: motivos de Nota de Débito
+export const DEBIT_NOTE_REASONS = [
+  { code: '01', name: 'Intereses por mora' },
+  { code: '02', name: 'Aumento en el valor' },
+  { code: '03', name: 'Penalidades / otros conceptos' },
+  { code: '11', name: 'Ajustes de operaciones de exportación' },
+  { code: '12', name: 'Ajustes afectos al IVAP' },
+];
+
+// Motivos que anulan el comprobante completo (la NC se emite por el total original).
+export const CREDIT_NOTE_ANULACION_CODES = ['01', '02', '06'];
+// Motivos que rebajan un monto en lugar de devolver unidades: repartido entre las líneas o por ítem.
+export const CREDIT_NOTE_DESCUENTO_GLOBAL_CODES = ['04', '09'];
+export const CREDIT_NOTE_DESCUENTO_ITEM_CODES = ['05'];
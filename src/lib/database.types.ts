@@ -25,6 +25,10 @@ export interface Database {
           detalles: Json | null
           socio_id: string | null // FIX: Changed from number to string (UUID)
           api_invoice_id: number | null
+          estado_sunat: string | null
+          pdf_path: string | null
+          xml_path: string | null
+          cdr_path: string | null
         }
         Insert: {
           id?: number
@@ -41,6 +45,10 @@ export interface Database {
           detalles?: Json | null
           socio_id?: string | null // FIX: Changed from number to string (UUID)
           api_invoice_id?: number | null
+          estado_sunat?: string | null
+          pdf_path?: string | null
+          xml_path?: string | null
+          cdr_path?: string | null
         }
         Update: {
           id?: number
@@ -57,6 +65,10 @@ export interface Database {
           detalles?: Json | null
           socio_id?: string | null // FIX: Changed from number to string (UUID)
           api_invoice_id?: number | null
+          estado_sunat?: string | null
+          pdf_path?: string | null
+          xml_path?: string | null
+          cdr_path?: string | null
         }
         Relationships: [
           {
@@ -83,6 +95,10 @@ export interface Database {
           boleta_id: number | null
           factura_id: number | null
           api_credit_note_id: number | null
+          estado_sunat: string | null
+          pdf_path: string | null
+          xml_path: string | null
+          cdr_path: string | null
         }
         Insert: {
           id?: number
@@ -98,6 +114,10 @@ export interface Database {
           boleta_id?: number | null
           factura_id?: number | null
           api_credit_note_id?: number | null
+          estado_sunat?: string | null
+          pdf_path?: string | null
+          xml_path?: string | null
+          cdr_path?: string | null
         }
         Update: {
           id?: number
@@ -113,6 +133,10 @@ export interface Database {
           boleta_id?: number | null
           factura_id?: number | null
           api_credit_note_id?: number | null
+          estado_sunat?: string | null
+          pdf_path?: string | null
+          xml_path?: string | null
+          cdr_path?: string | null
         }
         Relationships: [
           {
@@ -121,6 +145,242 @@ export interface Database {
             isOneToOne: false
             referencedRelation: "boletas_electronicas"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notas_credito_factura_id_fkey"
+            columns: ["factura_id"]
+            isOneToOne: false
+            referencedRelation: "facturas_electronicas"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      comunicaciones_baja: {
+        Row: {
+          id: number
+          created_at: string
+          fecha_referencia: string
+          numero_completo: string
+          motivo: string
+          ticket: string | null
+          estado_sunat: string | null
+          baja_api_id: number | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          fecha_referencia: string
+          numero_completo: string
+          motivo: string
+          ticket?: string | null
+          estado_sunat?: string | null
+          baja_api_id?: number | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          fecha_referencia?: string
+          numero_completo?: string
+          motivo?: string
+          ticket?: string | null
+          estado_sunat?: string | null
+          baja_api_id?: number | null
+        }
+        Relationships: []
+      }
+      comunicacion_baja_detalles: {
+        Row: {
+          id: number
+          baja_id: number
+          tipo_documento: string
+          serie_numero: string
+        }
+        Insert: {
+          id?: number
+          baja_id: number
+          tipo_documento: string
+          serie_numero: string
+        }
+        Update: {
+          id?: number
+          baja_id?: number
+          tipo_documento?: string
+          serie_numero?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comunicacion_baja_detalles_baja_id_fkey"
+            columns: ["baja_id"]
+            isOneToOne: false
+            referencedRelation: "comunicaciones_baja"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      notas_debito: {
+        Row: {
+          id: number
+          created_at: string
+          serie: string
+          numero: string
+          fecha_emision: string
+          moneda: string
+          monto_total: number
+          documento_afectado_serie_numero: string
+          motivo_codigo: string
+          motivo_descripcion: string
+          detalles: Json | null
+          boleta_id: number | null
+          factura_id: number | null
+          api_debit_note_id: number | null
+          estado_sunat: string | null
+          pdf_path: string | null
+          xml_path: string | null
+          cdr_path: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          serie: string
+          numero: string
+          fecha_emision: string
+          moneda: string
+          monto_total: number
+          documento_afectado_serie_numero: string
+          motivo_codigo: string
+          motivo_descripcion: string
+          detalles?: Json | null
+          boleta_id?: number | null
+          factura_id?: number | null
+          api_debit_note_id?: number | null
+          estado_sunat?: string | null
+          pdf_path?: string | null
+          xml_path?: string | null
+          cdr_path?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          serie?: string
+          numero?: string
+          fecha_emision?: string
+          moneda?: string
+          monto_total?: number
+          documento_afectado_serie_numero?: string
+          motivo_codigo?: string
+          motivo_descripcion?: string
+          detalles?: Json | null
+          boleta_id?: number | null
+          factura_id?: number | null
+          api_debit_note_id?: number | null
+          estado_sunat?: string | null
+          pdf_path?: string | null
+          xml_path?: string | null
+          cdr_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notas_debito_boleta_id_fkey"
+            columns: ["boleta_id"]
+            isOneToOne: false
+            referencedRelation: "boletas_electronicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notas_debito_factura_id_fkey"
+            columns: ["factura_id"]
+            isOneToOne: false
+            referencedRelation: "facturas_electronicas"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      facturas_electronicas: {
+        Row: {
+          id: number
+          created_at: string
+          serie: string
+          numero: string
+          fecha_emision: string
+          fecha_vencimiento: string | null
+          moneda: string
+          monto_total: number
+          mto_oper_gravadas: number
+          mto_oper_exoneradas: number
+          mto_igv: number
+          forma_pago_tipo: string
+          cuotas: Json | null
+          cliente_tipo_documento: string
+          cliente_numero_documento: string
+          cliente_razon_social: string
+          cliente_direccion: string | null
+          detalles: Json | null
+          socio_id: string | null
+          api_invoice_id: number | null
+          estado_sunat: string | null
+          pdf_path: string | null
+          xml_path: string | null
+          cdr_path: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          serie: string
+          numero: string
+          fecha_emision: string
+          fecha_vencimiento?: string | null
+          moneda: string
+          monto_total: number
+          mto_oper_gravadas?: number
+          mto_oper_exoneradas?: number
+          mto_igv?: number
+          forma_pago_tipo: string
+          cuotas?: Json | null
+          cliente_tipo_documento: string
+          cliente_numero_documento: string
+          cliente_razon_social: string
+          cliente_direccion?: string | null
+          detalles?: Json | null
+          socio_id?: string | null
+          api_invoice_id?: number | null
+          estado_sunat?: string | null
+          pdf_path?: string | null
+          xml_path?: string | null
+          cdr_path?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          serie?: string
+          numero?: string
+          fecha_emision?: string
+          fecha_vencimiento?: string | null
+          moneda?: string
+          monto_total?: number
+          mto_oper_gravadas?: number
+          mto_oper_exoneradas?: number
+          mto_igv?: number
+          forma_pago_tipo?: string
+          cuotas?: Json | null
+          cliente_tipo_documento?: string
+          cliente_numero_documento?: string
+          cliente_razon_social?: string
+          cliente_direccion?: string | null
+          detalles?: Json | null
+          socio_id?: string | null
+          api_invoice_id?: number | null
+          estado_sunat?: string | null
+          pdf_path?: string | null
+          xml_path?: string | null
+          cdr_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "facturas_electronicas_socio_id_fkey"
+            columns: ["socio_id"]
+            isOneToOne: false
+            referencedRelation: "socio_titulares"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -136,6 +396,9 @@ export interface Database {
           transaction_type: string
           created_at: string
           numeroOperacion: number | null
+          moneda: string
+          monto_original: number | null
+          tipo_cambio: number | null
         }
         Insert: {
           id?: number
@@ -148,6 +411,9 @@ export interface Database {
           transaction_type: string
           created_at?: string
           numeroOperacion?: number | null
+          moneda?: string
+          monto_original?: number | null
+          tipo_cambio?: number | null
         }
         Update: {
           id?: number
@@ -160,6 +426,9 @@ export interface Database {
           transaction_type?: string
           created_at?: string
           numeroOperacion?: number | null
+          moneda?: string
+          monto_original?: number | null
+          tipo_cambio?: number | null
         }
         Relationships: [
           {
@@ -178,24 +447,191 @@ export interface Database {
           }
         ]
       }
+      recibos_pago: {
+        Row: {
+          id: number
+          created_at: string
+          numero: string
+          socio_id: string | null
+          cliente_nombre: string
+          cliente_dni: string
+          fecha_emision: string
+          monto: number
+          concepto: string
+          metodo_pago: string
+          numero_operacion: string | null
+          anulado: boolean
+          motivo_anulacion: string | null
+          fecha_anulacion: string | null
+          anulado_por: string | null
+          ingreso_reversion_id: number | null
+          reemplaza_a: string | null
+          reemplazado_por: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          numero: string
+          socio_id?: string | null
+          cliente_nombre: string
+          cliente_dni: string
+          fecha_emision: string
+          monto: number
+          concepto: string
+          metodo_pago: string
+          numero_operacion?: string | null
+          anulado?: boolean
+          motivo_anulacion?: string | null
+          fecha_anulacion?: string | null
+          anulado_por?: string | null
+          ingreso_reversion_id?: number | null
+          reemplaza_a?: string | null
+          reemplazado_por?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          numero?: string
+          socio_id?: string | null
+          cliente_nombre?: string
+          cliente_dni?: string
+          fecha_emision?: string
+          monto?: number
+          concepto?: string
+          metodo_pago?: string
+          numero_operacion?: string | null
+          anulado?: boolean
+          motivo_anulacion?: string | null
+          fecha_anulacion?: string | null
+          anulado_por?: string | null
+          ingreso_reversion_id?: number | null
+          reemplaza_a?: string | null
+          reemplazado_por?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recibos_pago_socio_id_fkey"
+            columns: ["socio_id"]
+            isOneToOne: false
+            referencedRelation: "socio_titulares"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       cuentas: {
         Row: {
           id: number
           name: string
           created_at: string
+          tipo: string
+          saldo_inicial: number
+          saldo_inicial_fecha: string | null
         }
         Insert: {
           id?: number
           name: string
           created_at?: string
+          tipo?: string
+          saldo_inicial?: number
+          saldo_inicial_fecha?: string | null
         }
         Update: {
           id?: number
           name?: string
           created_at?: string
+          tipo?: string
+          saldo_inicial?: number
+          saldo_inicial_fecha?: string | null
+        }
+        Relationships: []
+      }
+      periodos_contables: {
+        Row: {
+          id: number
+          created_at: string
+          periodo: string
+          estado: string
+          cerrado_por: string | null
+          cerrado_at: string | null
+          reabierto_por: string | null
+          reabierto_at: string | null
+          motivo_reapertura: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          periodo: string
+          estado?: string
+          cerrado_por?: string | null
+          cerrado_at?: string | null
+          reabierto_por?: string | null
+          reabierto_at?: string | null
+          motivo_reapertura?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          periodo?: string
+          estado?: string
+          cerrado_por?: string | null
+          cerrado_at?: string | null
+          reabierto_por?: string | null
+          reabierto_at?: string | null
+          motivo_reapertura?: string | null
         }
         Relationships: []
       }
+      transferencias: {
+        Row: {
+          id: number
+          created_at: string
+          fecha: string
+          cuenta_origen_id: number
+          cuenta_destino_id: number
+          monto: number
+          descripcion: string | null
+          numero_operacion: string | null
+          creado_por: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          fecha: string
+          cuenta_origen_id: number
+          cuenta_destino_id: number
+          monto: number
+          descripcion?: string | null
+          numero_operacion?: string | null
+          creado_por?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          fecha?: string
+          cuenta_origen_id?: number
+          cuenta_destino_id?: number
+          monto?: number
+          descripcion?: string | null
+          numero_operacion?: string | null
+          creado_por?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transferencias_cuenta_origen_id_fkey"
+            columns: ["cuenta_origen_id"]
+            isOneToOne: false
+            referencedRelation: "cuentas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transferencias_cuenta_destino_id_fkey"
+            columns: ["cuenta_destino_id"]
+            isOneToOne: false
+            referencedRelation: "cuentas"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       gastos: {
         Row: {
           id: number
@@ -208,6 +644,9 @@ export interface Database {
           sub_category: string | null
           numero_gasto: string | null
           colaborador_id: string | null
+          moneda: string
+          monto_original: number | null
+          tipo_cambio: number | null
         }
         Insert: {
           id?: number
@@ -220,6 +659,9 @@ export interface Database {
           sub_category?: string | null
           numero_gasto?: string | null
           colaborador_id?: string | null
+          moneda?: string
+          monto_original?: number | null
+          tipo_cambio?: number | null
         }
         Update: {
           id?: number
@@ -232,6 +674,98 @@ export interface Database {
           sub_category?: string | null
           numero_gasto?: string | null
           colaborador_id?: string | null
+          moneda?: string
+          monto_original?: number | null
+          tipo_cambio?: number | null
+        }
+        Relationships: []
+      }
+      gasto_comprobantes: {
+        Row: {
+          id: number
+          created_at: string
+          gasto_id: number
+          archivo_path: string
+          nombre_archivo: string
+          tipo_mime: string
+          tamano_bytes: number
+          subido_por: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          gasto_id: number
+          archivo_path: string
+          nombre_archivo: string
+          tipo_mime: string
+          tamano_bytes: number
+          subido_por?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          gasto_id?: number
+          archivo_path?: string
+          nombre_archivo?: string
+          tipo_mime?: string
+          tamano_bytes?: number
+          subido_por?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gasto_comprobantes_gasto_id_fkey"
+            columns: ["gasto_id"]
+            isOneToOne: false
+            referencedRelation: "gastos"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      preferencias_usuario: {
+        Row: {
+          user_id: string
+          formato_impresion: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          formato_impresion?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          formato_impresion?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tipos_cambio: {
+        Row: {
+          id: number
+          created_at: string
+          fecha: string
+          moneda: string
+          compra: number
+          venta: number
+          fuente: string
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          fecha: string
+          moneda: string
+          compra: number
+          venta: number
+          fuente?: string
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          fecha?: string
+          moneda?: string
+          compra?: number
+          venta?: number
+          fuente?: string
         }
         Relationships: []
       }
@@ -573,6 +1107,455 @@ export interface Database {
         }
         Relationships: []
       }
+      emisiones_boleta: {
+        Row: {
+          id: number
+          created_at: string
+          updated_at: string
+          idempotency_key: string
+          user_id: string | null
+          estado: string
+          pasos: Json
+          payload: Json
+          contexto: Json
+          api_invoice_id: number | null
+          numero_completo: string | null
+          respuesta_api: Json | null
+          boleta_id: number | null
+          ultimo_error: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          idempotency_key: string
+          user_id?: string | null
+          estado?: string
+          pasos: Json
+          payload: Json
+          contexto: Json
+          api_invoice_id?: number | null
+          numero_completo?: string | null
+          respuesta_api?: Json | null
+          boleta_id?: number | null
+          ultimo_error?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          idempotency_key?: string
+          user_id?: string | null
+          estado?: string
+          pasos?: Json
+          payload?: Json
+          contexto?: Json
+          api_invoice_id?: number | null
+          numero_completo?: string | null
+          respuesta_api?: Json | null
+          boleta_id?: number | null
+          ultimo_error?: string | null
+        }
+        Relationships: []
+      }
+      productos_servicios: {
+        Row: {
+          id: number
+          created_at: string
+          codigo: string
+          descripcion: string
+          unidad: string
+          precio_con_igv: number
+          tip_afe_igv: string
+          codigo_producto_sunat: string | null
+          activo: boolean
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          codigo: string
+          descripcion: string
+          unidad: string
+          precio_con_igv: number
+          tip_afe_igv: string
+          codigo_producto_sunat?: string | null
+          activo?: boolean
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          codigo?: string
+          descripcion?: string
+          unidad?: string
+          precio_con_igv?: number
+          tip_afe_igv?: string
+          codigo_producto_sunat?: string | null
+          activo?: boolean
+        }
+        Relationships: []
+      }
+      series_comprobantes: {
+        Row: {
+          id: number
+          created_at: string
+          tipo_documento: string
+          tipo_documento_afectado: string | null
+          serie: string
+          branch_id: number
+          correlativo_actual: number
+          activo: boolean
+          predeterminada: boolean
+          descripcion: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          tipo_documento: string
+          tipo_documento_afectado?: string | null
+          serie: string
+          branch_id: number
+          correlativo_actual?: number
+          activo?: boolean
+          predeterminada?: boolean
+          descripcion?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          tipo_documento?: string
+          tipo_documento_afectado?: string | null
+          serie?: string
+          branch_id?: number
+          correlativo_actual?: number
+          activo?: boolean
+          predeterminada?: boolean
+          descripcion?: string | null
+        }
+        Relationships: []
+      }
+      usuario_series_predeterminadas: {
+        Row: {
+          id: number
+          user_id: string
+          serie_id: number
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          serie_id: number
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          serie_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usuario_series_predeterminadas_serie_id_fkey"
+            columns: ["serie_id"]
+            isOneToOne: false
+            referencedRelation: "series_comprobantes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usuario_series_predeterminadas_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      correlativos_internos: {
+        Row: {
+          familia: string
+          prefijo: string
+          longitud: number
+          ultimo_numero: number
+          descripcion: string | null
+          updated_at: string
+        }
+        Insert: {
+          familia: string
+          prefijo: string
+          longitud?: number
+          ultimo_numero?: number
+          descripcion?: string | null
+          updated_at?: string
+        }
+        Update: {
+          familia?: string
+          prefijo?: string
+          longitud?: number
+          ultimo_numero?: number
+          descripcion?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      correlativos_reservados: {
+        Row: {
+          id: number
+          created_at: string
+          familia: string
+          numero: number
+          numero_completo: string
+          estado: string
+          reservado_por: string | null
+          usado_at: string | null
+          motivo_liberacion: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          familia: string
+          numero: number
+          numero_completo: string
+          estado?: string
+          reservado_por?: string | null
+          usado_at?: string | null
+          motivo_liberacion?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          familia?: string
+          numero?: number
+          numero_completo?: string
+          estado?: string
+          reservado_por?: string | null
+          usado_at?: string | null
+          motivo_liberacion?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "correlativos_reservados_familia_fkey"
+            columns: ["familia"]
+            isOneToOne: false
+            referencedRelation: "correlativos_internos"
+            referencedColumns: ["familia"]
+          }
+        ]
+      }
+      plantillas_correo: {
+        Row: {
+          tipo_documento: string
+          asunto: string
+          cuerpo: string
+          updated_at: string
+        }
+        Insert: {
+          tipo_documento: string
+          asunto: string
+          cuerpo: string
+          updated_at?: string
+        }
+        Update: {
+          tipo_documento?: string
+          asunto?: string
+          cuerpo?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      correos_salientes: {
+        Row: {
+          id: number
+          created_at: string
+          updated_at: string
+          tipo_documento: string
+          documento: string
+          socio_id: string | null
+          destinatario: string
+          asunto: string
+          cuerpo: string
+          adjunto_path: string | null
+          estado: string
+          intentos: number
+          ultimo_error: string | null
+          transporte: string | null
+          message_id: string | null
+          enviado_at: string | null
+          enviado_por: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          tipo_documento: string
+          documento: string
+          socio_id?: string | null
+          destinatario: string
+          asunto: string
+          cuerpo: string
+          adjunto_path?: string | null
+          estado?: string
+          intentos?: number
+          ultimo_error?: string | null
+          transporte?: string | null
+          message_id?: string | null
+          enviado_at?: string | null
+          enviado_por?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          tipo_documento?: string
+          documento?: string
+          socio_id?: string | null
+          destinatario?: string
+          asunto?: string
+          cuerpo?: string
+          adjunto_path?: string | null
+          estado?: string
+          intentos?: number
+          ultimo_error?: string | null
+          transporte?: string | null
+          message_id?: string | null
+          enviado_at?: string | null
+          enviado_por?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "correos_salientes_socio_id_fkey"
+            columns: ["socio_id"]
+            isOneToOne: false
+            referencedRelation: "socio_titulares"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      conciliaciones_bancarias: {
+        Row: {
+          id: number
+          created_at: string
+          updated_at: string
+          cuenta_id: number
+          archivo_nombre: string
+          formato: string
+          fecha_desde: string | null
+          fecha_hasta: string | null
+          estado: string
+          creado_por: string | null
+          cerrada_at: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          cuenta_id: number
+          archivo_nombre: string
+          formato: string
+          fecha_desde?: string | null
+          fecha_hasta?: string | null
+          estado?: string
+          creado_por?: string | null
+          cerrada_at?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          updated_at?: string
+          cuenta_id?: number
+          archivo_nombre?: string
+          formato?: string
+          fecha_desde?: string | null
+          fecha_hasta?: string | null
+          estado?: string
+          creado_por?: string | null
+          cerrada_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conciliaciones_bancarias_cuenta_id_fkey"
+            columns: ["cuenta_id"]
+            isOneToOne: false
+            referencedRelation: "cuentas"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      conciliacion_lineas: {
+        Row: {
+          id: number
+          created_at: string
+          conciliacion_id: number
+          fecha: string
+          descripcion: string
+          numero_operacion: string | null
+          monto: number
+          estado: string
+          ingreso_id: number | null
+          gasto_id: number | null
+          transferencia_id: number | null
+          criterio: string | null
+          resuelta_por: string | null
+          resuelta_at: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          conciliacion_id: number
+          fecha: string
+          descripcion: string
+          numero_operacion?: string | null
+          monto: number
+          estado?: string
+          ingreso_id?: number | null
+          gasto_id?: number | null
+          transferencia_id?: number | null
+          criterio?: string | null
+          resuelta_por?: string | null
+          resuelta_at?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          conciliacion_id?: number
+          fecha?: string
+          descripcion?: string
+          numero_operacion?: string | null
+          monto?: number
+          estado?: string
+          ingreso_id?: number | null
+          gasto_id?: number | null
+          transferencia_id?: number | null
+          criterio?: string | null
+          resuelta_por?: string | null
+          resuelta_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conciliacion_lineas_conciliacion_id_fkey"
+            columns: ["conciliacion_id"]
+            isOneToOne: false
+            referencedRelation: "conciliaciones_bancarias"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conciliacion_lineas_ingreso_id_fkey"
+            columns: ["ingreso_id"]
+            isOneToOne: false
+            referencedRelation: "ingresos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conciliacion_lineas_gasto_id_fkey"
+            columns: ["gasto_id"]
+            isOneToOne: false
+            referencedRelation: "gastos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conciliacion_lineas_transferencia_id_fkey"
+            columns: ["transferencia_id"]
+            isOneToOne: false
+            referencedRelation: "transferencias"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       resumen_diario_boletas: {
         Row: {
           id: number
@@ -604,7 +1587,29 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      confirmar_correlativo: {
+        Args: {
+          p_id: number
+        }
+        Returns: undefined
+      }
+      liberar_correlativo: {
+        Args: {
+          p_id: number
+          p_motivo: string
+        }
+        Returns: undefined
+      }
+      reservar_correlativo: {
+        Args: {
+          p_familia: string
+        }
+        Returns: {
+          id: number
+          numero: number
+          numero_completo: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,153 @@
+import { CREDIT_NOTE_ANULACION_CODES, CREDIT_NOTE_DESCUENTO_GLOBAL_CODES, CREDIT_NOTE_DESCUENTO_ITEM_CODES } from './constants';
+
+// --- Cálculos de montos para comprobantes electrónicos (boletas, facturas y notas) ---
+
+/**
+ * Convierte un precio unitario con IGV a su valor base (sin IGV).
+ */
+export const calculateBaseValue = (totalPrice: number, igvPercentage: number): number => {
+  if (igvPercentage === 0) return totalPrice;
+  const igvRate = igvPercentage / 100;
+  const baseValue = totalPrice / (1 + igvRate);
+  return parseFloat(baseValue.toFixed(2));
+};
+
+/**
+ * Línea mínima necesaria para calcular totales.
+ * NOTE: mto_valor_unitario es el precio unitario CON IGV, tal como se ingresa en los formularios.
+ */
+export interface LineaCalculable {
+  cantidad: number;
+  mto_valor_unitario: number;
+  porcentaje_igv: number;
+  tip_afe_igv: string;
+}
+
+export interface InvoiceTotals {
+  mto_oper_gravadas: number;
+  mto_oper_exoneradas: number;
+  mto_oper_inafectas: number;
+  mto_oper_exportacion: number;
+  mto_igv: number;
+  mto_imp_venta: number;
+}
+
+const round2 = (value: number): number => parseFloat(value.toFixed(2));
+
+/**
+ * Calcula el desglose de bases imponibles e IGV de un comprobante según el tipo de afectación de cada línea.
+ * 10 = Gravado, 20 = Exonerado, 30 = Inafecto, 40 = Exportación.
+ */
+export const calculateInvoiceTotals = (detalles: LineaCalculable[]): InvoiceTotals => {
+  const totals: InvoiceTotals = {
+    mto_oper_gravadas: 0,
+    mto_oper_exoneradas: 0,
+    mto_oper_inafectas: 0,
+    mto_oper_exportacion: 0,
+    mto_igv: 0,
+    mto_imp_venta: 0,
+  };
+
+  detalles.forEach(d => {
+    const cantidad = Number(d.cantidad) || 0;
+    const precioConIgv = Number(d.mto_valor_unitario) || 0;
+    const lineTotal = cantidad * precioConIgv;
+
+    switch (d.tip_afe_igv) {
+      case '10': {
+        const base = lineTotal / (1 + Number(d.porcentaje_igv) / 100);
+        totals.mto_oper_gravadas += base;
+        totals.mto_igv += lineTotal - base;
+        break;
+      }
+      case '20':
+        totals.mto_oper_exoneradas += lineTotal;
+        break;
+      case '40':
+        totals.mto_oper_exportacion += lineTotal;
+        break;
+      default:
+        totals.mto_oper_inafectas += lineTotal;
+        break;
+    }
+    totals.mto_imp_venta += lineTotal;
+  });
+
+  return {
+    mto_oper_gravadas: round2(totals.mto_oper_gravadas),
+    mto_oper_exoneradas: round2(totals.mto_oper_exoneradas),
+    mto_oper_inafectas: round2(totals.mto_oper_inafectas),
+    mto_oper_exportacion: round2(totals.mto_oper_exportacion),
+    mto_igv: round2(totals.mto_igv),
+    mto_imp_venta: round2(totals.mto_imp_venta),
+  };
+};
+
+// --- Notas de crédito parciales ---
+
+/**
+ * Cómo se arma el detalle de una Nota de Crédito según su motivo:
+ * total (se acredita el comprobante completo), items (unidades devueltas por línea),
+ * descuento_item (monto rebajado a líneas puntuales) o descuento_global (monto repartido entre todas).
+ */
+export type ModoNotaCredito = 'total' | 'items' | 'descuento_item' | 'descuento_global';
+
+export const getModoNotaCredito = (motivoCodigo: string): ModoNotaCredito => {
+  if (CREDIT_NOTE_ANULACION_CODES.includes(motivoCodigo)) return 'total';
+  if (CREDIT_NOTE_DESCUENTO_GLOBAL_CODES.includes(motivoCodigo)) return 'descuento_global';
+  if (CREDIT_NOTE_DESCUENTO_ITEM_CODES.includes(motivoCodigo)) return 'descuento_item';
+  return 'items';
+};
+
+/**
+ * Lo elegido para cada línea del comprobante original: unidades a devolver o descuento (con IGV).
+ */
+export interface SeleccionLineaNota {
+  cantidad: number;
+  descuento: number;
+}
+
+const lineTotal = (d: LineaCalculable) => (Number(d.cantidad) || 0) * (Number(d.mto_valor_unitario) || 0);
+
+/**
+ * Construye las líneas de la Nota de Crédito a partir de las líneas originales.
+ * Cada línea conserva la afectación y el % de IGV de la original, así las bases gravadas,
+ * exoneradas e inafectas y el IGV se recalculan con `calculateInvoiceTotals`.
+ * Las cantidades y descuentos se limitan a lo que tenía cada línea.
+ */
+export const buildLineasNotaCredito = <T extends LineaCalculable & { descripcion: string }>(
+  modo: ModoNotaCredito,
+  originales: T[],
+  seleccion: SeleccionLineaNota[],
+  descuentoGlobal: number,
+): T[] => {
+  switch (modo) {
+    case 'total':
+      return originales;
+    case 'items':
+      return originales.flatMap((linea, index) => {
+        const cantidad = Math.min(Number(seleccion[index]?.cantidad) || 0, Number(linea.cantidad));
+        return cantidad > 0 ? [{ ...linea, cantidad }] : [];
+      });
+    case 'descuento_item':
+      return originales.flatMap((linea, index) => {
+        const descuento = round2(Math.min(Number(seleccion[index]?.descuento) || 0, lineTotal(linea)));
+        return descuento > 0 ? [{ ...linea, descripcion: `Descuento: ${linea.descripcion}`, cantidad: 1, mto_valor_unitario: descuento }] : [];
+      });
+    case 'descuento_global': {
+      const totalOriginal = originales.reduce((acc, linea) => acc + lineTotal(linea), 0);
+      const monto = round2(Math.min(Number(descuentoGlobal) || 0, totalOriginal));
+      if (monto <= 0 || totalOriginal <= 0) return [];
+
+      // Reparto proporcional al total de cada línea; la última absorbe el redondeo.
+      let asignado = 0;
+      return originales.flatMap((linea, index) => {
+        const parte = index === originales.length - 1
+          ? round2(monto - asignado)
+          : round2(monto * lineTotal(linea) / totalOriginal);
+        asignado += parte;
+        return parte > 0 ? [{ ...linea, descripcion: `Descuento global: ${linea.descripcion}`, cantidad: 1, mto_valor_unitario: parte }] : [];
+      });
+    }
+  }
+};
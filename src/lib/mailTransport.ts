@@ -0,0 +1,79 @@
+// --- Transportes de correo ---
+// El navegador no puede abrir conexiones SMTP: el transporte `smtp` entrega el mensaje a un servicio
+// de envío (VITE_MAIL_API_URL) que lo despacha por SMTP; `capture` lo deja en el buzón de desarrollo
+// (mock-server/mailCaptureServer.ts). Se elige con VITE_MAIL_TRANSPORT.
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  contentBase64: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments: MailAttachment[];
+}
+
+export interface MailSendResult {
+  messageId: string | null;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage) => Promise<MailSendResult>;
+}
+
+export const MAIL_CAPTURE_PATH = '/__mock/mail';
+
+/**
+ * Transporte que publica el mensaje como JSON en un endpoint HTTP.
+ */
+const createHttpTransport = (name: string, url: string, headers: Record<string, string> = {}): MailTransport => ({
+  name,
+  send: async (message) => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(message),
+      });
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : 'sin conexión';
+      throw new Error(`No se pudo contactar al servicio de correo (${detail}).`);
+    }
+
+    const body = await response.json().catch(() => ({})) as { messageId?: string; message?: string };
+    if (!response.ok) {
+      throw new Error(body.message || `El servicio de correo respondió con el código ${response.status}.`);
+    }
+    return { messageId: body.messageId ?? null };
+  },
+});
+
+const MAIL_TRANSPORTS: Record<string, () => MailTransport> = {
+  smtp: () => {
+    const url = import.meta.env.VITE_MAIL_API_URL;
+    if (!url) {
+      throw new Error('El envío de correos no está configurado (VITE_MAIL_API_URL).');
+    }
+    const token = import.meta.env.VITE_MAIL_API_TOKEN;
+    return createHttpTransport('smtp', url, token ? { Authorization: `Bearer ${token}` } : {});
+  },
+  capture: () => createHttpTransport('capture', `${MAIL_CAPTURE_PATH}/send`),
+};
+
+/**
+ * Transporte configurado en VITE_MAIL_TRANSPORT (`smtp` por defecto).
+ */
+export const getMailTransport = (): MailTransport => {
+  const name = import.meta.env.VITE_MAIL_TRANSPORT || 'smtp';
+  const factory = MAIL_TRANSPORTS[name];
+  if (!factory) {
+    throw new Error(`Transporte de correo desconocido: "${name}".`);
+  }
+  return factory();
+};
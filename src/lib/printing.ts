@@ -0,0 +1,61 @@
+// --- Impresión de comprobantes desde el navegador ---
+
+// Tiempo que el PDF queda cargado tras abrir el diálogo; el visor no avisa cuando termina de imprimir.
+const PRINT_CLEANUP_DELAY_MS = 60 * 1000;
+
+/**
+ * Abre el diálogo de impresión del navegador para un PDF sin salir de la página.
+ * El tamaño de página lo define el propio PDF (A4 o ticket de 80 mm).
+ */
+export const printPdfBlob = (pdfBlob: Blob): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const url = window.URL.createObjectURL(pdfBlob);
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.right = '0';
+    iframe.style.bottom = '0';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+
+    const cleanup = () => {
+      iframe.remove();
+      window.URL.revokeObjectURL(url);
+    };
+
+    iframe.onload = () => {
+      try {
+        iframe.contentWindow?.focus();
+        iframe.contentWindow?.print();
+        resolve();
+      } catch (error) {
+        cleanup();
+        reject(error instanceof Error ? error : new Error('No se pudo abrir el diálogo de impresión.'));
+        return;
+      }
+      window.setTimeout(cleanup, PRINT_CLEANUP_DELAY_MS);
+    };
+
+    iframe.src = url;
+    document.body.appendChild(iframe);
+  });
+};
+
+/**
+ * Descarga un archivo generado en el navegador (PDF, TXT, CSV, ...) con el nombre indicado.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Descarga un PDF ya generado con el nombre indicado.
+ */
+export const downloadPdfBlob = (pdfBlob: Blob, fileName: string): void => downloadBlob(pdfBlob, fileName);
@@ -1,5 +1,6 @@
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
+import { FormatoImpresion } from './types/invoicing';
 // Importación de ReciboPagoFormValues eliminada ya que ReceiptData se define explícitamente
 // import { ReciboPagoFormValues } from './types/invoicing'; 
 
@@ -57,7 +58,7 @@ export function amountToWords(amount: number): string {
  * FIX TS2345: Redefinido para incluir SOLO los campos públicos necesarios para el PDF.
  * Los campos de observación interna se excluyen por completo.
  */
-interface ReceiptData {
+export interface ReceiptData {
     correlative: string;
     client_full_name: string;
     client_dni: string;
@@ -66,8 +67,15 @@ interface ReceiptData {
     concepto: string;
     metodo_pago: string; // Usamos string genérico para evitar problemas de tipado de enum
     numero_operacion: string | undefined;
+    anulacion?: { motivo: string; fecha: string }; // Presente si el recibo fue anulado: se imprime el sello
+    reemplaza_a?: string | null; // Recibo anulado que este corrige
 }
 
+const formatFecha = (value: string): string => {
+    const [year, month, day] = value.split('-');
+    return `${day}/${month}/${year}`;
+};
+
 /**
  * Genera el HTML del recibo de pago con un diseño profesional y moderno.
  */
@@ -92,6 +100,21 @@ const generateReceiptHtml = (data: ReceiptData): string => {
     // HTML condicional para la observación de pago ELIMINADO, ya que es interno.
     const observationHtml = '';
 
+    const reemplazoHtml = data.reemplaza_a ? `
+                    <div class="detail-row">
+                        <span class="detail-label">Reemplaza a:</span>
+                        <span class="detail-value">Recibo N° ${data.reemplaza_a} (anulado)</span>
+                    </div>` : '';
+    const anulacionHtml = data.anulacion ? `
+                    <div class="detail-row" style="color: #b91c1c;">
+                        <span class="detail-label" style="color: #b91c1c;">Anulado el:</span>
+                        <span class="detail-value">${formatFecha(data.anulacion.fecha)} — ${data.anulacion.motivo}</span>
+                    </div>` : '';
+    const selloAnuladoHtml = data.anulacion ? `
+            <div style="position: absolute; top: 480px; left: 0; width: 100%; text-align: center; transform: rotate(-30deg); pointer-events: none;">
+                <span style="display: inline-block; padding: 10px 40px; border: 8px solid rgba(185, 28, 28, 0.7); border-radius: 16px; color: rgba(185, 28, 28, 0.7); font-size: 96pt; font-weight: bold; letter-spacing: 8px;">ANULADO</span>
+            </div>` : '';
+
 
     return `
         <div id="receipt-content" style="
@@ -203,7 +226,7 @@ const generateReceiptHtml = (data: ReceiptData): string => {
                         <span class="detail-value strong">${amountInWords}</span>
                     </div>
                     
-                    ${observationHtml}
+                    ${observationHtml}${reemplazoHtml}${anulacionHtml}
                 </div>
 
                 <div class="payment-summary">
@@ -237,11 +260,76 @@ const generateReceiptHtml = (data: ReceiptData): string => {
                     </div>
                 </div>
             </div>
+            ${selloAnuladoHtml}
         </div>
     `;
 };
 
-const preloadImage = (url: string): Promise<void> => {
+// Ancho del rollo térmico: 80 mm de papel, unos 302 px a 96 ppp.
+const TICKET_WIDTH_MM = 80;
+const TICKET_WIDTH_PX = 302;
+
+/**
+ * Genera el HTML del recibo en formato ticket: una sola columna, sin membrete ni fondos,
+ * con texto negro para que la impresora térmica lo reproduzca nítido.
+ */
+const generateReceiptTicketHtml = (data: ReceiptData): string => {
+    const date = new Date(data.fecha_emision);
+    const localDate = new Date(date.getTime() + date.getTimezoneOffset() * 60000);
+    const day = localDate.getDate().toString().padStart(2, '0');
+    const month = (localDate.getMonth() + 1).toString().padStart(2, '0');
+    const year = localDate.getFullYear();
+
+    return `
+        <div id="receipt-content" style="
+            width: ${TICKET_WIDTH_PX}px;
+            padding: 12px 14px 20px 14px;
+            font-family: 'Courier New', Courier, monospace;
+            font-size: 9pt;
+            line-height: 1.35;
+            color: #000000;
+            background-color: #FFFFFF;
+            box-sizing: border-box;
+        ">
+            <style>
+                .ticket-center { text-align: center; }
+                .ticket-title { font-size: 12pt; font-weight: bold; margin: 0; }
+                .ticket-sep { border-top: 1px dashed #000000; margin: 8px 0; }
+                .ticket-row { display: flex; justify-content: space-between; gap: 8px; }
+                .ticket-label { font-weight: bold; }
+                .ticket-block { margin-bottom: 4px; word-break: break-word; }
+                .ticket-total { font-size: 12pt; font-weight: bold; }
+            </style>
+            <div class="ticket-center">
+                <p class="ticket-title">RECIBO DE PAGO</p>
+                <p style="margin: 2px 0 0 0; font-weight: bold;">N° ${data.correlative}</p>
+                <p style="margin: 2px 0 0 0;">Fecha: ${day}/${month}/${year}</p>
+                ${data.anulacion ? '<p class="ticket-title" style="margin-top: 6px; border: 2px solid #000000; padding: 2px;">*** ANULADO ***</p>' : ''}
+            </div>
+            ${data.anulacion ? `<div class="ticket-block" style="margin-top: 6px;"><span class="ticket-label">Anulado el ${formatFecha(data.anulacion.fecha)}:</span><br>${data.anulacion.motivo}</div>` : ''}
+            ${data.reemplaza_a ? `<div class="ticket-block" style="margin-top: 6px;">Reemplaza al recibo N° ${data.reemplaza_a}</div>` : ''}
+            <div class="ticket-sep"></div>
+            <div class="ticket-block"><span class="ticket-label">Recibido de:</span><br>${data.client_full_name}</div>
+            <div class="ticket-block"><span class="ticket-label">DNI:</span> ${data.client_dni}</div>
+            <div class="ticket-sep"></div>
+            <div class="ticket-block"><span class="ticket-label">Concepto:</span><br>${data.concepto}</div>
+            <div class="ticket-row"><span class="ticket-label">Método de pago:</span><span>${data.metodo_pago}</span></div>
+            <div class="ticket-row"><span class="ticket-label">N° Operación:</span><span>${data.numero_operacion || '---'}</span></div>
+            <div class="ticket-sep"></div>
+            <div class="ticket-row ticket-total"><span>TOTAL</span><span>S/ ${data.monto.toFixed(2)}</span></div>
+            <div class="ticket-block" style="margin-top: 4px;">SON: ${amountToWords(data.monto)}</div>
+            <div class="ticket-sep"></div>
+            <div class="ticket-center" style="margin-top: 36px;">
+                <div style="border-top: 1px solid #000000; margin: 0 24px; padding-top: 4px; font-weight: bold;">FIRMA Y/O SELLO</div>
+            </div>
+        </div>
+    `;
+};
+
+/**
+ * Espera a que una imagen de fondo esté disponible para que html2canvas la incluya en la captura.
+ */
+export const preloadImage = (url: string): Promise<void> => {
     return new Promise((resolve, reject) => {
         const img = new Image();
         img.crossOrigin = 'Anonymous'; 
@@ -254,17 +342,21 @@ const preloadImage = (url: string): Promise<void> => {
 /**
  * Genera el PDF del recibo de pago a partir de los datos del formulario.
  * @param data Datos del recibo.
+ * @param formato A4 con membrete, o ticket de 80 mm cuyo alto se ajusta al contenido.
  * @returns Blob del archivo PDF.
  */
-export const generateReceiptPdf = async (data: ReceiptData): Promise<Blob> => {
-    const htmlContent = generateReceiptHtml(data);
+export const generateReceiptPdf = async (data: ReceiptData, formato: FormatoImpresion = 'A4'): Promise<Blob> => {
+    const esTicket = formato === 'TICKET';
+    const htmlContent = esTicket ? generateReceiptTicketHtml(data) : generateReceiptHtml(data);
     const backgroundUrl = 'https://n8n-supabase.mv7mvl.easypanel.host/storage/v1/object/public/assets/modelo%20pdf.png';
 
-    try {
-        await preloadImage(backgroundUrl);
-    } catch (error) {
-        console.error("Error preloading images for PDF:", error);
-        throw new Error("Fallo al cargar la imagen de membrete. Verifique la URL y que el bucket sea público.");
+    if (!esTicket) {
+        try {
+            await preloadImage(backgroundUrl);
+        } catch (error) {
+            console.error("Error preloading images for PDF:", error);
+            throw new Error("Fallo al cargar la imagen de membrete. Verifique la URL y que el bucket sea público.");
+        }
     }
 
     const tempDiv = document.createElement('div');
@@ -281,8 +373,16 @@ export const generateReceiptPdf = async (data: ReceiptData): Promise<Blob> => {
             backgroundColor: null, // Hacemos el fondo transparente para que la imagen de fondo del div se renderice
         });
 
-        const pdf = new jsPDF('p', 'mm', 'a4');
         const imgData = canvas.toDataURL('image/jpeg', 1.0);
+
+        if (esTicket) {
+            const ticketHeight = (canvas.height * TICKET_WIDTH_MM) / canvas.width;
+            const ticket = new jsPDF({ orientation: 'p', unit: 'mm', format: [TICKET_WIDTH_MM, ticketHeight] });
+            ticket.addImage(imgData, 'JPEG', 0, 0, TICKET_WIDTH_MM, ticketHeight);
+            return ticket.output('blob');
+        }
+
+        const pdf = new jsPDF('p', 'mm', 'a4');
         
         const pdfWidth = pdf.internal.pageSize.getWidth();
         const pdfHeight = pdf.internal.pageSize.getHeight();
@@ -0,0 +1,230 @@
+import { format, parseISO } from 'date-fns';
+import { DEFAULT_MONEDA, TIPO_DOCUMENTO_CLIENTE } from './constants';
+
+// --- Registro de Ventas e Ingresos electrónico (PLE, formato 14.1) ---
+
+export type TipoComprobanteVenta = '01' | '03' | '07' | '08';
+
+export const TIPO_COMPROBANTE_VENTA_LABELS: Record<TipoComprobanteVenta, string> = {
+  '01': 'Factura',
+  '03': 'Boleta',
+  '07': 'Nota de Crédito',
+  '08': 'Nota de Débito',
+};
+
+export interface DocumentoModificado {
+  tipo: TipoComprobanteVenta;
+  serie: string;
+  numero: string;
+  fechaEmision: string | null; // null si el comprobante modificado no está registrado
+}
+
+/**
+ * Comprobante de venta del periodo con sus importes en la moneda de emisión.
+ * Las notas de crédito llevan importes positivos; el signo se aplica al generar el libro.
+ */
+export interface ComprobanteRegistroVentas {
+  tipo: TipoComprobanteVenta;
+  serie: string;
+  numero: string;
+  fechaEmision: string;
+  fechaVencimiento: string | null;
+  clienteTipoDocumento: string;
+  clienteNumeroDocumento: string;
+  clienteRazonSocial: string;
+  moneda: string;
+  tipoCambio: number | null; // null en soles o si falta registrar el tipo de cambio del día
+  exportacion: number;
+  gravado: number;
+  igv: number;
+  exonerado: number;
+  inafecto: number;
+  total: number;
+  estadoSunat: string | null;
+  modificado: DocumentoModificado | null;
+}
+
+export type SeveridadIncidencia = 'error' | 'advertencia';
+
+export interface IncidenciaRegistroVentas {
+  documento: string | null; // null para incidencias del libro completo
+  severidad: SeveridadIncidencia;
+  mensaje: string;
+}
+
+export interface RegistroVentasPle {
+  fileName: string;
+  contenido: string;
+  lineas: number;
+  totales: { gravado: number; igv: number; exonerado: number; inafecto: number; total: number };
+  incidencias: IncidenciaRegistroVentas[];
+}
+
+// Por encima de este importe SUNAT exige identificar al adquirente de una boleta.
+const MONTO_BOLETA_SIN_IDENTIFICAR = 700;
+const TOLERANCIA_CUADRE = 0.02;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const LONGITUD_DOCUMENTO: Record<string, number> = { '1': 8, '6': 11 };
+
+const formatFecha = (fecha: string | null): string => (fecha ? format(parseISO(fecha), 'dd/MM/yyyy') : '');
+
+const formatMonto = (value: number): string => value.toFixed(2);
+
+// El separador de campos no puede aparecer dentro de un valor.
+const limpiarTexto = (value: string): string => value.replace(/[|\r\n]+/g, ' ').trim();
+
+export const numeroCompleto = (comprobante: Pick<ComprobanteRegistroVentas, 'serie' | 'numero'>): string =>
+  `${comprobante.serie}-${comprobante.numero}`;
+
+const esAnulado = (comprobante: ComprobanteRegistroVentas) => comprobante.estadoSunat?.toUpperCase() === 'ANULADO';
+
+/**
+ * Revisa los datos que SUNAT valida al cargar el libro. Los errores impiden generar el archivo;
+ * las advertencias se muestran pero no lo bloquean.
+ */
+export const validarComprobantesVenta = (comprobantes: ComprobanteRegistroVentas[], ruc: string): IncidenciaRegistroVentas[] => {
+  const incidencias: IncidenciaRegistroVentas[] = [];
+  const tiposDocumento = TIPO_DOCUMENTO_CLIENTE.map(t => t.code);
+
+  if (!/^\d{11}$/.test(ruc)) {
+    incidencias.push({ documento: null, severidad: 'error', mensaje: 'El RUC del emisor no está configurado (VITE_COMPANY_RUC) o no tiene 11 dígitos.' });
+  }
+
+  comprobantes.forEach(c => {
+    const documento = numeroCompleto(c);
+    const error = (mensaje: string) => incidencias.push({ documento, severidad: 'error', mensaje });
+    const advertencia = (mensaje: string) => incidencias.push({ documento, severidad: 'advertencia', mensaje });
+
+    if (!tiposDocumento.includes(c.clienteTipoDocumento)) {
+      error(`Tipo de documento del cliente "${c.clienteTipoDocumento}" no está en el catálogo.`);
+    } else {
+      const longitud = LONGITUD_DOCUMENTO[c.clienteTipoDocumento];
+      if (longitud && !new RegExp(`^\\d{${longitud}}$`).test(c.clienteNumeroDocumento)) {
+        error(`El número de documento del cliente "${c.clienteNumeroDocumento}" debe tener ${longitud} dígitos.`);
+      }
+    }
+    if (c.tipo === '01' && c.clienteTipoDocumento !== '6') {
+      error('Una factura debe emitirse a un cliente con RUC.');
+    }
+    if (c.tipo === '03' && c.clienteTipoDocumento === '0' && c.total > MONTO_BOLETA_SIN_IDENTIFICAR) {
+      advertencia(`Boleta mayor a S/ ${MONTO_BOLETA_SIN_IDENTIFICAR} sin identificar al cliente.`);
+    }
+    if (c.moneda !== DEFAULT_MONEDA && !c.tipoCambio) {
+      error(`No hay tipo de cambio ${c.moneda} registrado al ${formatFecha(c.fechaEmision)}.`);
+    }
+    if (Math.abs(c.exportacion + c.gravado + c.igv + c.exonerado + c.inafecto - c.total) > TOLERANCIA_CUADRE) {
+      error('La suma de bases imponibles e IGV no coincide con el importe total.');
+    }
+    if ((c.tipo === '07' || c.tipo === '08') && !c.modificado?.fechaEmision) {
+      error('El comprobante modificado no está registrado en el sistema.');
+    }
+    if (!c.estadoSunat || ['PENDIENTE', 'ENVIADO'].includes(c.estadoSunat.toUpperCase())) {
+      advertencia('Aún no tiene respuesta de SUNAT.');
+    }
+  });
+
+  return incidencias;
+};
+
+/**
+ * Arma el archivo del Registro de Ventas e Ingresos (formato 14.1) de un periodo: una línea por
+ * comprobante, campos separados por "|". Los importes se expresan en soles; las notas de crédito
+ * van en negativo y los comprobantes anulados se informan con estado 2 e importes en cero.
+ */
+export const buildRegistroVentasPle = (comprobantes: ComprobanteRegistroVentas[], ruc: string, periodo: Date): RegistroVentasPle => {
+  const incidencias = validarComprobantesVenta(comprobantes, ruc);
+  const periodoPle = `${format(periodo, 'yyyyMM')}00`;
+  const totales = { gravado: 0, igv: 0, exonerado: 0, inafecto: 0, total: 0 };
+
+  const ordenados = [...comprobantes].sort((a, b) =>
+    a.fechaEmision.localeCompare(b.fechaEmision) || a.tipo.localeCompare(b.tipo) || numeroCompleto(a).localeCompare(numeroCompleto(b)));
+
+  const lineas = ordenados.map((c, index) => {
+    const anulado = esAnulado(c);
+    const tipoCambio = c.moneda === DEFAULT_MONEDA ? 1 : c.tipoCambio ?? 0;
+    const signo = c.tipo === '07' ? -1 : 1;
+    const importe = (value: number) => (anulado ? 0 : round2(value * tipoCambio * signo));
+    const montos = {
+      exportacion: importe(c.exportacion),
+      gravado: importe(c.gravado),
+      igv: importe(c.igv),
+      exonerado: importe(c.exonerado),
+      inafecto: importe(c.inafecto),
+      total: importe(c.total),
+    };
+    totales.gravado += montos.gravado;
+    totales.igv += montos.igv;
+    totales.exonerado += montos.exonerado;
+    totales.inafecto += montos.inafecto;
+    totales.total += montos.total;
+
+    const campos = [
+      periodoPle,                                              // 1 Periodo
+      `${c.tipo}${c.serie}${c.numero}`,                        // 2 CUO
+      `M${String(index + 1).padStart(9, '0')}`,                // 3 Correlativo del asiento
+      formatFecha(c.fechaEmision),                             // 4 Fecha de emisión
+      formatFecha(c.fechaVencimiento),                         // 5 Fecha de vencimiento
+      c.tipo,                                                  // 6 Tipo de comprobante
+      c.serie,                                                 // 7 Serie
+      c.numero,                                                // 8 Número
+      '',                                                      // 9 Número final (resúmenes consolidados)
+      c.clienteTipoDocumento,                                  // 10 Tipo de documento del cliente
+      limpiarTexto(c.clienteNumeroDocumento) || '-',           // 11 Número de documento
+      limpiarTexto(c.clienteRazonSocial) || '-',               // 12 Razón social
+      formatMonto(montos.exportacion),                         // 13 Valor de exportación
+      formatMonto(montos.gravado),                             // 14 Base imponible gravada
+      formatMonto(0),                                          // 15 Descuento de la base imponible
+      formatMonto(montos.igv),                                 // 16 IGV
+      formatMonto(0),                                          // 17 Descuento del IGV
+      formatMonto(montos.exonerado),                           // 18 Exonerado
+      formatMonto(montos.inafecto),                            // 19 Inafecto
+      formatMonto(0),                                          // 20 ISC
+      formatMonto(0),                                          // 21 Base arroz pilado
+      formatMonto(0),                                          // 22 Impuesto arroz pilado
+      formatMonto(0),                                          // 23 ICBPER
+      formatMonto(0),                                          // 24 Otros tributos
+      formatMonto(montos.total),                               // 25 Importe total
+      c.moneda,                                                // 26 Moneda
+      tipoCambio.toFixed(3),                                   // 27 Tipo de cambio
+      formatFecha(c.modificado?.fechaEmision ?? null),         // 28 Fecha del comprobante modificado
+      c.modificado?.tipo ?? '',                                // 29 Tipo del comprobante modificado
+      c.modificado?.serie ?? '',                               // 30 Serie del comprobante modificado
+      c.modificado?.numero ?? '',                              // 31 Número del comprobante modificado
+      '',                                                      // 32 Contrato de sociedad irregular
+      '',                                                      // 33 Error tipo 1 (tipo de cambio)
+      '',                                                      // 34 Cancelado con medio de pago
+      anulado ? '2' : '1',                                     // 35 Estado de la anotación
+    ];
+    return `${campos.join('|')}|`;
+  });
+
+  const indicadorContenido = lineas.length > 0 ? '1' : '0';
+  return {
+    // LE + RUC + periodo + libro 140100 + oportunidad 00 + operaciones, contenido, moneda (soles) y generador PLE.
+    fileName: `LE${ruc}${periodoPle}140100001${indicadorContenido}11.txt`,
+    contenido: lineas.length > 0 ? `${lineas.join('\r\n')}\r\n` : '',
+    lineas: lineas.length,
+    totales: {
+      gravado: round2(totales.gravado),
+      igv: round2(totales.igv),
+      exonerado: round2(totales.exonerado),
+      inafecto: round2(totales.inafecto),
+      total: round2(totales.total),
+    },
+    incidencias,
+  };
+};
+
+/**
+ * El PLE lee los archivos en ISO-8859-1: los caracteres fuera de ese juego se reemplazan por "?".
+ */
+export const encodeLatin1 = (text: string): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code < 256 ? code : 63;
+  }
+  return bytes;
+};
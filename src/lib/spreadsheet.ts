@@ -0,0 +1,187 @@
+// --- Lectura de hojas de cálculo (CSV y XLSX) en el navegador ---
+
+/**
+ * Separa un texto CSV en filas y columnas. Detecta el separador (`,`, `;` o tabulación)
+ * en la primera línea y respeta los campos entre comillas.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const primeraLinea = text.split(/\r?\n/, 1)[0] ?? '';
+  const separador = [';', '\t', ','].reduce((mejor, candidato) =>
+    primeraLinea.split(candidato).length > primeraLinea.split(mejor).length ? candidato : mejor, ',');
+
+  const filas: string[][] = [];
+  let fila: string[] = [];
+  let campo = '';
+  let entreComillas = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (entreComillas) {
+      if (char === '"' && text[i + 1] === '"') {
+        campo += '"';
+        i++;
+      } else if (char === '"') {
+        entreComillas = false;
+      } else {
+        campo += char;
+      }
+    } else if (char === '"') {
+      entreComillas = true;
+    } else if (char === separador) {
+      fila.push(campo.trim());
+      campo = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fila.push(campo.trim());
+      filas.push(fila);
+      fila = [];
+      campo = '';
+    } else {
+      campo += char;
+    }
+  }
+  fila.push(campo.trim());
+  filas.push(fila);
+
+  return filas.filter(f => f.some(valor => valor !== ''));
+};
+
+/**
+ * Arma un CSV separado por comas con todos los campos entre comillas. Lleva BOM para que Excel lo abra en UTF-8.
+ */
+export const toCsv = (rows: (string | number | null)[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(value => `"${String(value ?? '').replace(/"/g, '""')}"`).join(',')).join('\r\n');
+
+/**
+ * Convierte un importe escrito en una celda a número. Acepta "1,234.50", "1234,50" y "S/ 50".
+ * Devuelve null si la celda está vacía y NaN si no es un número.
+ */
+export const parseMontoTexto = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const limpio = value.replace(/[^\d.,-]/g, '');
+  const normalizado = /,\d{1,2}$/.test(limpio) ? limpio.replace(/\./g, '').replace(',', '.') : limpio.replace(/,/g, '');
+  const monto = Number(normalizado);
+  return Number.isFinite(monto) ? monto : NaN;
+};
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipEntries = (view: DataView): ZipEntry[] => {
+  // Fin del directorio central: se busca desde el final (puede haber un comentario de hasta 64 KB).
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('El archivo no es un XLSX válido.');
+
+  const total = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < total; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipEntryText = async (buffer: ArrayBuffer, entry: ZipEntry): Promise<string> => {
+  const view = new DataView(buffer);
+  const local = entry.localHeaderOffset;
+  const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Compresión no soportada en ${entry.name}.`);
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const columnIndex = (ref: string): number => {
+  const letras = ref.replace(/\d+/g, '');
+  return letras.split('').reduce((acc, letra) => acc * 26 + (letra.charCodeAt(0) - 64), 0) - 1;
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+/**
+ * Lee la primera hoja de un libro XLSX como filas de texto. Los números se devuelven tal como
+ * están guardados (sin formato), por lo que un DNI escrito como número pierde sus ceros iniciales.
+ */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+  const leer = async (name: string) => {
+    const entry = entries.find(e => e.name === name);
+    return entry ? readZipEntryText(buffer, entry) : null;
+  };
+
+  // Primera hoja según el orden del libro, resuelta con las relaciones del workbook.
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbookXml = await leer('xl/workbook.xml');
+  const relsXml = await leer('xl/_rels/workbook.xml.rels');
+  if (workbookXml && relsXml) {
+    const primera = parseXml(workbookXml).getElementsByTagName('sheet')[0];
+    const relId = primera?.getAttribute('r:id');
+    const rel = Array.from(parseXml(relsXml).getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheetXml = await leer(sheetPath);
+  if (!sheetXml) throw new Error('El libro no tiene hojas legibles.');
+
+  const sharedXml = await leer('xl/sharedStrings.xml');
+  const shared = sharedXml
+    ? Array.from(parseXml(sharedXml).getElementsByTagName('si')).map(si =>
+      Array.from(si.getElementsByTagName('t')).map(t => t.textContent ?? '').join(''))
+    : [];
+
+  const filas = Array.from(parseXml(sheetXml).getElementsByTagName('row')).map(row => {
+    const fila: string[] = [];
+    Array.from(row.getElementsByTagName('c')).forEach((c, index) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : index;
+      const tipo = c.getAttribute('t');
+      const valor = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      let texto: string;
+      if (tipo === 's') texto = shared[Number(valor)] ?? '';
+      else if (tipo === 'inlineStr') texto = Array.from(c.getElementsByTagName('t')).map(t => t.textContent ?? '').join('');
+      else texto = valor;
+      fila[col] = texto.trim();
+    });
+    return Array.from(fila, valor => valor ?? '');
+  });
+
+  return filas.filter(f => f.some(valor => valor !== ''));
+};
+
+/**
+ * Lee un archivo CSV, TXT o XLSX como filas de texto (solo la primera hoja en XLSX).
+ */
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('El formato XLS (Excel 97-2003) no es compatible. Guarde el archivo como XLSX o CSV.');
+  }
+  return parseCsv(await file.text());
+};
@@ -0,0 +1,71 @@
+import { fetchDocumentosPendientesSunat, reconcileDocumentoSunat } from './api/invoicingApi';
+import { ESTADOS_SUNAT_PENDIENTES, SUNAT_RECONCILIATION_BASE_DELAY_MS, SUNAT_RECONCILIATION_MAX_DELAY_MS } from './constants';
+import { DocumentoPendienteSunat } from './types/invoicing';
+
+export interface SunatReconciliationResult {
+  checked: number;
+  updated: number;
+  rejected: number;
+  failed: number;
+}
+
+interface BackoffState {
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+// Estado de backoff por documento, compartido entre ciclos mientras la app esté abierta.
+const backoff = new Map<string, BackoffState>();
+
+const documentKey = (documento: DocumentoPendienteSunat) => `${documento.tabla}:${documento.id}`;
+
+const isFinalStatus = (status: string | null) =>
+  !!status && !ESTADOS_SUNAT_PENDIENTES.includes(status.toUpperCase());
+
+const scheduleRetry = (key: string, now: number) => {
+  const attempts = (backoff.get(key)?.attempts || 0) + 1;
+  const delay = Math.min(SUNAT_RECONCILIATION_BASE_DELAY_MS * 2 ** (attempts - 1), SUNAT_RECONCILIATION_MAX_DELAY_MS);
+  backoff.set(key, { attempts, nextAttemptAt: now + delay });
+};
+
+/**
+ * Ejecuta un ciclo de conciliación: consulta en la API cada documento pendiente cuyo backoff ya venció
+ * y guarda los estados nuevos. Los documentos que siguen pendientes o fallan esperan el doble la próxima vez.
+ */
+export const runSunatReconciliation = async (): Promise<SunatReconciliationResult> => {
+  const result: SunatReconciliationResult = { checked: 0, updated: 0, rejected: 0, failed: 0 };
+  const now = Date.now();
+  const pendientes = await fetchDocumentosPendientesSunat();
+
+  // Se descarta el backoff de documentos que ya no están pendientes (p. ej. actualizados a mano).
+  const pendingKeys = new Set(pendientes.map(documentKey));
+  for (const key of backoff.keys()) {
+    if (!pendingKeys.has(key)) backoff.delete(key);
+  }
+
+  // Secuencial para no saturar la API de facturación.
+  for (const documento of pendientes) {
+    const key = documentKey(documento);
+    const state = backoff.get(key);
+    if (state && state.nextAttemptAt > now) continue;
+
+    result.checked++;
+    try {
+      const status = await reconcileDocumentoSunat(documento);
+      if (status !== documento.estadoSunat) result.updated++;
+
+      if (isFinalStatus(status)) {
+        backoff.delete(key);
+        if (status?.toLowerCase() === 'rechazado') result.rejected++;
+      } else {
+        scheduleRetry(key, now);
+      }
+    } catch (error) {
+      console.error(`Error al conciliar ${documento.numero}:`, error);
+      result.failed++;
+      scheduleRetry(key, now);
+    }
+  }
+
+  return result;
+};
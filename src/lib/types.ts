@@ -30,6 +30,11 @@ export interface SocioTitular extends SocioTitularBase {
  */
 export type Gasto = Tables<'gastos'>;
 
+/**
+ * Movimiento de dinero entre dos cuentas propias. No es ingreso ni gasto: solo cambia los saldos.
+ */
+export type Transferencia = Tables<'transferencias'>;
+
 /**
  * Represents a generic financial transaction, which can be either an Ingreso (Income) or un Gasto (Expense).
  */
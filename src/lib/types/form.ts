@@ -11,7 +11,7 @@ export interface EconomicSituationOption {
  */
 export interface TransactionFormValues {
   accountName: string; // Matches form field
-  transactionType: 'Ingreso' | 'Anulacion' | 'Devolucion' | 'Gasto'; // Matches form.watch('transactionType')
+  transactionType: 'Ingreso' | 'Anulacion' | 'Devolucion' | 'Gasto' | 'Transferencia'; // Matches form.watch('transactionType')
   amount: number;
   date: Date;
   description?: string;
@@ -27,4 +27,7 @@ export interface TransactionFormValues {
   dni?: string;
   fullName?: string;
   numeroOperacion?: string;
+
+  // Field specific to Transferencia (accountName is the source account)
+  destinationAccountName?: string;
 }
@@ -133,14 +133,25 @@ export interface Client {
   pais?: string;
 }
 
+export type InvoicingCalendarDocumentType = 'Boleta' | 'Factura' | 'Nota Crédito' | 'Nota Débito' | 'Recibo' | 'Resumen Diario';
+
+export type InvoicingCalendarStatus = 'Aceptado' | 'Pendiente' | 'Rechazado' | 'Anulado' | 'Interno';
+
 export interface InvoicingCalendarItem {
+  key: string; // Único entre tablas: `${type}-${id}`
   id: number;
-  type: 'Boleta' | 'Factura' | 'Nota Crédito';
+  type: InvoicingCalendarDocumentType;
   serie: string;
   clientName: string;
-  amount: number;
+  amount: number | null; // null para resúmenes diarios
+  moneda: string;
   date: string;
-  status: 'Aceptado' | 'Pendiente' | 'Rechazado';
+  status: InvoicingCalendarStatus;
+  estadoSunat: string | null; // Estado original guardado en la base de datos
+  documentoAfectado?: string;
+  pdfUrl: string | null;
+  xmlUrl: string | null;
+  cdrUrl: string | null;
 }
 
 export const ResumenDiarioSchema = z.object({
@@ -256,10 +267,133 @@ export const DocumentoAfectadoSchema = z.object({
     client: ClientBoletaSchema,
     detalles: z.array(DetalleBoletaSchema),
     mto_imp_venta: z.number(),
+    // Tabla de donde se obtuvo el documento. 'ingresos' indica un comprobante antiguo sin detalle real.
+    origen: z.enum(['boletas_electronicas', 'facturas_electronicas', 'ingresos']).optional(),
 });
 
 export type DocumentoAfectado = z.infer<typeof DocumentoAfectadoSchema>;
 
+// --- Esquemas y Tipos para NOTA DE DÉBITO ---
+
+export const NotaDebitoFormSchema = z.object({
+  documento_afectado_tipo: z.enum(['boleta', 'factura'], { required_error: "Seleccione el tipo de documento a modificar." }),
+  documento_afectado_serie: z.string().min(4, "La serie debe tener 4 caracteres (ej: B001).").max(4),
+  documento_afectado_numero: z.string().min(1, "El número es requerido."),
+  motivo_codigo: z.string().min(1, "Seleccione un motivo."),
+  motivo_descripcion: z.string().min(1, "La descripción del motivo es requerida."),
+  serie: z.string(),
+  fecha_emision: z.string(),
+  moneda: z.string(),
+  client: ClientBoletaSchema,
+  detalles: z.array(DetalleBoletaSchema).min(1, "Debe agregar al menos un cargo."),
+  create_income_record: z.boolean().default(true),
+  income_date: z.string().optional(),
+  income_numero_operacion: z.string().optional(),
+  income_account: z.string().optional(),
+}).refine(data => {
+    if (data.create_income_record) {
+        return !!data.income_date && !!data.income_account;
+    }
+    return true;
+}, {
+    message: "La fecha y cuenta son requeridos para registrar el ingreso.",
+    path: ["create_income_record"],
+});
+
+export type NotaDebitoFormValues = z.infer<typeof NotaDebitoFormSchema>;
+
+export const NotaDebitoPayloadSchema = NotaCreditoPayloadSchema.omit({ guias: true, forma_pago_tipo: true, forma_pago_cuotas: true });
+
+export type NotaDebitoPayload = z.infer<typeof NotaDebitoPayloadSchema>;
+
+// --- Esquemas y Tipos para FACTURA ELECTRÓNICA ---
+
+// RUC peruano: 11 dígitos, iniciando en 10 (persona natural), 15, 17 o 20 (persona jurídica).
+export const RUC_REGEX = /^(10|15|17|20)\d{9}$/;
+
+export const ClientFacturaSchema = ClientBoletaSchema.extend({
+  tipo_documento: z.literal('6', { errorMap: () => ({ message: "La factura solo puede emitirse a clientes con RUC." }) }),
+  numero_documento: z.string().regex(RUC_REGEX, "El RUC debe tener 11 dígitos y empezar con 10, 15, 17 o 20."),
+  direccion: z.string().min(1, "La dirección fiscal es requerida para facturas."),
+});
+
+export const FacturaFormSchema = z.object({
+  serie: z.string(),
+  fecha_emision: z.string(),
+  fecha_vencimiento: z.string().optional(),
+  moneda: z.string().min(1, "Seleccione una moneda."),
+  tipo_operacion: z.string(),
+  forma_pago_tipo: z.string().min(1, "Seleccione la forma de pago."),
+  forma_pago_cuotas: z.array(FormaPagoCuotaSchema).optional().default([]),
+  usuario_creacion: z.string(),
+  client: ClientFacturaSchema,
+  detalles: z.array(DetalleBoletaSchema).min(1, "Debe agregar al menos un producto o servicio."),
+  create_income_record: z.boolean().default(true),
+  income_date: z.string().optional(),
+  income_numero_operacion: z.string().optional(),
+  income_account: z.string().optional(),
+}).refine(data => {
+    if (data.create_income_record) {
+        return !!data.income_date && !!data.income_account;
+    }
+    return true;
+}, {
+    message: "La fecha y cuenta son requeridos para registrar el ingreso.",
+    path: ["create_income_record"],
+}).superRefine((data, ctx) => {
+    if (data.forma_pago_tipo !== 'Credito') return;
+
+    const cuotas = data.forma_pago_cuotas || [];
+    if (cuotas.length === 0) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Debe registrar al menos una cuota para ventas al crédito.",
+            path: ["forma_pago_cuotas"],
+        });
+        return;
+    }
+
+    const total = data.detalles.reduce((acc, d) => acc + Number(d.cantidad) * Number(d.mto_valor_unitario), 0);
+    const totalCuotas = cuotas.reduce((acc, c) => acc + Number(c.monto), 0);
+    if (Math.abs(total - totalCuotas) > 0.01) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `La suma de las cuotas (${totalCuotas.toFixed(2)}) debe coincidir con el total de la factura (${total.toFixed(2)}).`,
+            path: ["forma_pago_cuotas"],
+        });
+    }
+
+    cuotas.forEach((cuota, index) => {
+        if (cuota.fecha_pago && cuota.fecha_pago <= data.fecha_emision) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "La fecha de pago debe ser posterior a la fecha de emisión.",
+                path: ["forma_pago_cuotas", index, "fecha_pago"],
+            });
+        }
+    });
+});
+
+export type FacturaFormValues = z.infer<typeof FacturaFormSchema>;
+
+export const FacturaPayloadSchema = BoletaPayloadSchema.extend({
+  fecha_vencimiento: z.string().optional(),
+  forma_pago_cuotas: z.array(z.object({ monto: z.number(), fecha_pago: z.string() })).optional(),
+});
+
+export type FacturaPayload = z.infer<typeof FacturaPayloadSchema>;
+
+export const FacturaIssueResponseSchema = IssueResponseSchema.extend({
+  data: IssueResponseSchema.shape.data.extend({
+    mto_oper_gravadas: z.number().nullish(),
+    mto_oper_exoneradas: z.number().nullish(),
+    mto_igv: z.number().nullish(),
+    mto_imp_venta: z.number().nullish(),
+  }),
+});
+
+export type FacturaIssueResponse = z.infer<typeof FacturaIssueResponseSchema>;
+
 // --- Esquemas y Tipos para CONSULTA DE ESTADO DE RESUMEN ---
 
 export const CheckSummaryStatusDataSchema = z.object({
@@ -274,6 +408,97 @@ export const CheckSummaryStatusResponseSchema = z.object({
   ticket: z.string().optional(),
 });
 
+// --- Tipos para COBERTURA DE RESÚMENES DIARIOS ---
+
+export interface CoberturaResumenDia {
+  fecha: string;
+  totalBoletas: number;
+  resumidas: number;
+  sinResumen: string[]; // Boletas que no aparecen en ningún resumen
+  enResumenRechazado: string[]; // Boletas cuyo único resumen fue rechazado por SUNAT
+  fechaLimite: string;
+  diasRestantes: number; // Negativo si el plazo ya venció
+}
+
+// --- Tipos para CONCILIACIÓN DE ESTADOS SUNAT ---
+
+export type TablaConciliableSunat = 'resumenes_diarios' | 'boletas_electronicas' | 'facturas_electronicas' | 'notas_credito' | 'notas_debito';
+
+export interface DocumentoPendienteSunat {
+  tabla: TablaConciliableSunat;
+  id: number;
+  apiId: number;
+  numero: string;
+  estadoSunat: string | null;
+}
+
+// --- Esquemas y Tipos para COMUNICACIÓN DE BAJA ---
+
+export const ComunicacionBajaSchema = z.object({
+  fecha_referencia: z.string({ required_error: "La fecha de emisión es obligatoria." }).min(1, "Por favor, seleccione una fecha válida."),
+  motivo: z.string().min(3, "Indique el motivo de la baja."),
+});
+
+export type ComunicacionBajaFormValues = z.infer<typeof ComunicacionBajaSchema>;
+
+// Comprobante emitido que puede incluirse en una comunicación de baja
+export type DocumentoBajaCandidato = {
+  id: number;
+  tipo: 'boleta' | 'factura';
+  serie_numero: string;
+  fecha_emision: string;
+  cliente_numero_documento: string;
+  cliente_razon_social: string;
+  moneda: string;
+  monto_total: number;
+  estado_sunat: string | null;
+};
+
+export const ComunicacionBajaPayloadSchema = z.object({
+  company_id: z.number(),
+  branch_id: z.number(),
+  fecha_referencia: z.string(),
+  detalles: z.array(z.object({
+    tipo_documento: z.enum(['01', '03']), // 01 = Factura, 03 = Boleta
+    serie: z.string(),
+    correlativo: z.string(),
+    motivo: z.string(),
+  })),
+});
+
+export type ComunicacionBajaPayload = z.infer<typeof ComunicacionBajaPayloadSchema>;
+
+const ComunicacionBajaDataSchema = z.object({
+  id: z.number(),
+  numero_completo: z.string(),
+  fecha_referencia: z.string(),
+  estado_proceso: z.string().optional(),
+  estado_sunat: z.string().nullable(),
+  ticket: z.string().nullish(),
+  detalles: z.array(SummaryDetailSchema).optional().default([]),
+});
+
+export type ComunicacionBajaData = z.infer<typeof ComunicacionBajaDataSchema>;
+
+export const ComunicacionBajaResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: ComunicacionBajaDataSchema,
+});
+
+export type ComunicacionBajaResponse = z.infer<typeof ComunicacionBajaResponseSchema>;
+
+export type ComunicacionBaja = {
+  id: number;
+  created_at: string;
+  fecha_referencia: string;
+  numero_completo: string;
+  motivo: string;
+  ticket: string | null;
+  estado_sunat: string | null;
+  baja_api_id: number | null;
+};
+
 // Nuevo tipo para el resumen de ingresos anulados/devueltos
 export type AnnulledIncomeSummary = {
   id: number;
@@ -329,3 +554,145 @@ export const ReciboPagoFormSchema = z.object({
 });
 
 export type ReciboPagoFormValues = z.infer<typeof ReciboPagoFormSchema>;
+
+// Recibo emitido, armado desde su ingreso y su registro en `recibos_pago`.
+// Los recibos anteriores al registro no guardaron el concepto.
+export interface ReciboEmitido {
+  numero: string;
+  socioId: string | null;
+  clienteNombre: string;
+  clienteDni: string;
+  fechaEmision: string;
+  monto: number;
+  metodoPago: string;
+  numeroOperacion: string | null;
+  concepto: string | null;
+  anulado: boolean;
+  motivoAnulacion: string | null;
+  fechaAnulacion: string | null;
+  reemplazaA: string | null;
+  reemplazadoPor: string | null;
+}
+
+export const AnularReciboSchema = z.object({
+  motivo: z.string().trim().min(5, "Indique el motivo de la anulación (mínimo 5 caracteres)."),
+  concepto: z.string().trim().min(1, "El concepto es requerido para regenerar el PDF."),
+  reemitir: z.boolean().default(false),
+});
+
+export type AnularReciboFormValues = z.infer<typeof AnularReciboSchema>;
+
+// --- Esquemas y Tipos para SERIES DE COMPROBANTES ---
+
+export type SerieComprobante = {
+  id: number;
+  created_at: string;
+  tipo_documento: string;
+  tipo_documento_afectado: string | null;
+  serie: string;
+  branch_id: number;
+  correlativo_actual: number;
+  activo: boolean;
+  predeterminada: boolean;
+  descripcion: string | null;
+};
+
+const TIPOS_NOTA = ['07', '08'];
+
+export const SerieComprobanteFormSchema = z.object({
+  tipo_documento: z.enum(['01', '03', '07', '08'], { required_error: "Seleccione el tipo de comprobante." }),
+  tipo_documento_afectado: z.enum(['01', '03']).nullable().optional(),
+  serie: z.string().regex(/^[A-Z0-9]{4}$/, "La serie debe tener 4 caracteres alfanuméricos en mayúscula."),
+  branch_id: z.coerce.number().int().positive("Indique un código de sucursal válido."),
+  correlativo_actual: z.coerce.number().int().min(0, "El correlativo no puede ser negativo."),
+  activo: z.boolean().default(true),
+  predeterminada: z.boolean().default(false),
+  descripcion: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const esNota = TIPOS_NOTA.includes(data.tipo_documento);
+  if (esNota && !data.tipo_documento_afectado) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Indique si la nota modifica boletas o facturas.", path: ['tipo_documento_afectado'] });
+  }
+  // SUNAT exige que la serie empiece con B (boletas y sus notas) o F (facturas y sus notas).
+  const tipoBase = esNota ? data.tipo_documento_afectado : data.tipo_documento;
+  const prefijo = tipoBase === '03' ? 'B' : tipoBase === '01' ? 'F' : null;
+  if (prefijo && !data.serie.startsWith(prefijo)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `La serie debe empezar con "${prefijo}".`, path: ['serie'] });
+  }
+});
+
+export type SerieComprobanteFormValues = z.infer<typeof SerieComprobanteFormSchema>;
+
+// --- Esquemas y Tipos para CATÁLOGO DE PRODUCTOS Y SERVICIOS ---
+
+export type ProductoServicio = {
+  id: number;
+  created_at: string;
+  codigo: string;
+  descripcion: string;
+  unidad: string;
+  precio_con_igv: number;
+  tip_afe_igv: string;
+  codigo_producto_sunat: string | null;
+  activo: boolean;
+};
+
+export const ProductoServicioFormSchema = z.object({
+  codigo: z.string().min(1, "El código es requerido.").max(30),
+  descripcion: z.string().min(3, "La descripción es requerida."),
+  unidad: z.string().min(1, "La unidad es requerida (ej: NIU, ZZ)."),
+  precio_con_igv: z.coerce.number().min(0, "El precio no puede ser negativo."),
+  tip_afe_igv: z.string().min(1, "Seleccione un tipo de afectación."),
+  codigo_producto_sunat: z.string().optional(),
+  activo: z.boolean().default(true),
+});
+
+export type ProductoServicioFormValues = z.infer<typeof ProductoServicioFormSchema>;
+
+// --- Tipos para COLA DE EMISIÓN DE BOLETAS ---
+
+export type PasoEmisionBoleta = 'emision' | 'registro' | 'pdf' | 'almacenamiento' | 'ingreso';
+
+export type EstadoPasoEmision = 'pendiente' | 'en_curso' | 'completado' | 'error' | 'omitido';
+
+export type EstadoEmisionBoleta = 'en_proceso' | 'completada' | 'atascada' | 'descartada';
+
+export interface PasoEmisionState {
+  estado: EstadoPasoEmision;
+  intentos: number;
+  error?: string;
+}
+
+// Datos del formulario que necesitan los pasos posteriores a la emisión.
+export interface EmisionBoletaContexto {
+  socioId: string | null;
+  montoTotal: number;
+  detalles: BoletaFormValues['detalles']; // Líneas con IGV incluido, tal como se guardan en boletas_electronicas
+  ingreso: {
+    account: string;
+    date: string;
+    numeroOperacion: number | null;
+  } | null;
+}
+
+export interface EmisionBoleta {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  idempotency_key: string;
+  user_id: string | null;
+  estado: EstadoEmisionBoleta;
+  pasos: Record<PasoEmisionBoleta, PasoEmisionState>;
+  payload: BoletaPayload;
+  contexto: EmisionBoletaContexto;
+  api_invoice_id: number | null;
+  numero_completo: string | null;
+  respuesta_api: IssueResponse['data'] | null;
+  boleta_id: number | null;
+  ultimo_error: string | null;
+}
+
+// --- Tipos para IMPRESIÓN DE COMPROBANTES ---
+
+// A4 para archivo y envío; TICKET para las impresoras térmicas de 80 mm de recepción.
+export type FormatoImpresion = 'A4' | 'TICKET';
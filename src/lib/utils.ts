@@ -6,14 +6,15 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Formatea un número como moneda en soles peruanos (PEN).
+ * Formatea un número como moneda; por defecto en soles peruanos (PEN).
  * @param amount El número a formatear.
+ * @param currency Código ISO de la moneda (PEN, USD).
  * @returns Una cadena de texto con el formato de moneda.
  */
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, currency: string = 'PEN'): string {
   return new Intl.NumberFormat('es-PE', {
     style: 'currency',
-    currency: 'PEN',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   }).format(amount);
@@ -0,0 +1,90 @@
+// --- Escritura de archivos ZIP sin compresión (método "store") ---
+
+export interface ZipArchivo {
+  nombre: string; // Ruta dentro del ZIP, con "/" para carpetas
+  datos: Uint8Array;
+  fecha?: Date;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (datos: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < datos.length; i++) crc = CRC32_TABLE[(crc ^ datos[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Fecha y hora en el formato de MS-DOS que usan las cabeceras ZIP (resolución de 2 segundos).
+const fechaDos = (fecha: Date) => ({
+  hora: (fecha.getHours() << 11) | (fecha.getMinutes() << 5) | Math.floor(fecha.getSeconds() / 2),
+  dia: ((Math.max(fecha.getFullYear(), 1980) - 1980) << 9) | ((fecha.getMonth() + 1) << 5) | fecha.getDate(),
+});
+
+/**
+ * Arma un ZIP con los archivos tal cual, sin comprimir: los comprobantes (JPG, PNG, PDF) ya vienen
+ * comprimidos, así que deflate apenas reduciría el tamaño. Los nombres se guardan en UTF-8.
+ */
+export const crearZip = (archivos: ZipArchivo[]): Blob => {
+  const encoder = new TextEncoder();
+  const partes: Uint8Array<ArrayBuffer>[] = [];
+  const directorio: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  archivos.forEach(archivo => {
+    const nombre = encoder.encode(archivo.nombre);
+    const { hora, dia } = fechaDos(archivo.fecha ?? new Date());
+    const crc = crc32(archivo.datos);
+    const size = archivo.datos.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Versión necesaria: 2.0
+    local.setUint16(6, 0x0800, true); // Bit 11: nombre en UTF-8
+    local.setUint16(8, 0, true); // Método: store
+    local.setUint16(10, hora, true);
+    local.setUint16(12, dia, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, nombre.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, hora, true);
+    central.setUint16(14, dia, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, nombre.length, true);
+    central.setUint32(42, offset, true);
+
+    const datos = new Uint8Array(size);
+    datos.set(archivo.datos);
+    partes.push(new Uint8Array(local.buffer), new Uint8Array(nombre), datos);
+    directorio.push(new Uint8Array(central.buffer), new Uint8Array(nombre));
+    offset += 30 + nombre.length + size;
+  });
+
+  const sizeDirectorio = directorio.reduce((sum, parte) => sum + parte.length, 0);
+  const fin = new DataView(new ArrayBuffer(22));
+  fin.setUint32(0, 0x06054b50, true);
+  fin.setUint16(8, archivos.length, true);
+  fin.setUint16(10, archivos.length, true);
+  fin.setUint32(12, sizeDirectorio, true);
+  fin.setUint32(16, offset, true);
+
+  return new Blob([...partes, ...directorio, new Uint8Array(fin.buffer)], { type: 'application/zip' });
+};
@@ -1,10 +1,14 @@
 import React, { useEffect, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
 import { Cuenta, Ingreso, Gasto } from '@/lib/types';
-import { Loader2 } from 'lucide-react';
+import { ArrowLeftRight, Landmark, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
+import { calcularSaldoCuenta, fetchTransferencias, montoTransferenciaEnCuenta, TransferenciaConCuentas } from '@/lib/api/cuentasApi';
+import { TIPOS_CUENTA } from '@/lib/constants';
+import EstadoCuentaCard from '@/components/custom/EstadoCuentaCard';
 
 interface AccountWithBalance extends Cuenta {
   balance: number;
@@ -20,6 +24,7 @@ const AccountDetails: React.FC = () => {
   const [account, setAccount] = useState<AccountWithBalance | null>(null);
   const [dailyIncomes, setDailyIncomes] = useState<DailyTransaction[]>([]);
   const [dailyExpenses, setDailyExpenses] = useState<DailyTransaction[]>([]);
+  const [transferencias, setTransferencias] = useState<TransferenciaConCuentas[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -64,6 +69,10 @@ const AccountDetails: React.FC = () => {
         if (gastosError) throw gastosError;
         const fetchedGastos: Gasto[] = gastosData || [];
 
+        // Fetch transfers from or to this account
+        const fetchedTransferencias = await fetchTransferencias(fetchedAccount.id);
+        setTransferencias(fetchedTransferencias);
+
         // Calculate daily incomes
         const dailyIncomeMap = new Map<string, number>();
         fetchedIngresos.forEach(ingreso => {
@@ -91,15 +100,8 @@ const AccountDetails: React.FC = () => {
           .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()); // Sort descending by date
         setDailyExpenses(sortedDailyExpenses);
 
-        // Calculate total balance
-        let balance = 0;
-        fetchedIngresos.forEach(ingreso => {
-            // All income types add to balance, credit notes are stored as negative
-            balance += ingreso.amount;
-        });
-        fetchedGastos.forEach(gasto => {
-          balance += gasto.amount; // Gastos are stored as negative
-        });
+        // Calculate total balance from the opening balance; earlier movements are already included in it
+        const balance = calcularSaldoCuenta(fetchedAccount, fetchedIngresos, fetchedGastos, fetchedTransferencias);
 
         setAccount({ ...fetchedAccount, balance });
 
@@ -147,7 +149,15 @@ const AccountDetails: React.FC = () => {
 
   return (
     <div className="p-6 space-y-6">
-      <h1 className="text-4xl font-bold text-white">Detalles de la Cuenta: {account.name}</h1>
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-4xl font-bold text-white">Detalles de la Cuenta: {account.name}</h1>
+        <Link to={`/accounts/${account.id}/conciliacion`}>
+          <Button variant="outline">
+            <Landmark className="mr-2 h-4 w-4" />
+            Conciliar Extracto
+          </Button>
+        </Link>
+      </div>
       <p className="text-textSecondary text-lg">
         Información detallada y movimientos diarios de {account.name}.
       </p>
@@ -161,6 +171,17 @@ const AccountDetails: React.FC = () => {
             <span className="text-textSecondary">Nombre de la Cuenta:</span>
             <span className="text-text font-medium">{account.name}</span>
           </div>
+          <div className="flex justify-between items-center">
+            <span className="text-textSecondary">Tipo:</span>
+            <span className="text-text font-medium">{TIPOS_CUENTA.find(t => t.code === account.tipo)?.name ?? account.tipo}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-textSecondary">Saldo Inicial:</span>
+            <span className="text-text font-medium">
+              S/ {account.saldo_inicial.toLocaleString('es-PE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              {account.saldo_inicial_fecha && ` al ${formatDate(`${account.saldo_inicial_fecha}T00:00:00`)}`}
+            </span>
+          </div>
           <div className="flex justify-between items-center">
             <span className="text-textSecondary">Saldo Actual:</span>
             <span className={`text-2xl font-extrabold ${account.balance >= 0 ? 'text-success' : 'text-error'}`}>
@@ -174,6 +195,8 @@ const AccountDetails: React.FC = () => {
         </CardContent>
       </Card>
 
+      <EstadoCuentaCard cuenta={account} />
+
       {/* Sección de Ingresos Diarios */}
       <h2 className="text-3xl font-bold text-white mt-8">Ingresos Diarios</h2>
       <p className="text-textSecondary text-lg">
@@ -217,6 +240,39 @@ const AccountDetails: React.FC = () => {
           ))}
         </div>
       )}
+
+      {/* Sección de Transferencias */}
+      <h2 className="text-3xl font-bold text-white mt-8">Transferencias</h2>
+      <p className="text-textSecondary text-lg">
+        Movimientos entre esta cuenta y las demás. No se cuentan como ingresos ni gastos.
+      </p>
+      {transferencias.length === 0 ? (
+        <p className="text-textSecondary text-center py-8">No hay transferencias registradas para esta cuenta.</p>
+      ) : (
+        <div className="space-y-4">
+          {transferencias.map(transferencia => {
+            const monto = montoTransferenciaEnCuenta(transferencia, account.id);
+            const otraCuenta = monto >= 0 ? transferencia.origen?.name : transferencia.destino?.name;
+            return (
+              <Card key={`transfer-${transferencia.id}`} className="bg-surface border-border rounded-xl shadow-md">
+                <CardContent className="p-4 flex justify-between items-center gap-4">
+                  <div>
+                    <span className="text-lg font-semibold text-text">{formatDate(transferencia.fecha)}</span>
+                    <span className="flex items-center gap-2 text-sm text-textSecondary">
+                      <ArrowLeftRight className="h-4 w-4" />
+                      {monto >= 0 ? `Desde ${otraCuenta ?? 'otra cuenta'}` : `Hacia ${otraCuenta ?? 'otra cuenta'}`}
+                      {transferencia.descripcion && ` · ${transferencia.descripcion}`}
+                    </span>
+                  </div>
+                  <span className={`text-xl font-bold ${monto >= 0 ? 'text-success' : 'text-error'}`}>
+                    S/ {monto.toLocaleString('es-PE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </span>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
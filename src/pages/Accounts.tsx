@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
-import { PlusCircle, Loader2 } from 'lucide-react';
+import { PlusCircle, Loader2, Settings2 } from 'lucide-react';
 import { supabase } from '@/lib/supabaseClient';
 import { Cuenta, Ingreso, Gasto } from '@/lib/types';
 import {
@@ -14,6 +14,10 @@ import {
 } from '@/components/ui/dialog';
 import TransactionForm from '@/components/custom/TransactionForm';
 import { toast } from 'sonner';
+import { calcularSaldoCuenta, fetchTransferencias } from '@/lib/api/cuentasApi';
+import CuentaFormDialog from '@/components/custom/CuentaFormDialog';
+import { Badge } from '@/components/ui/badge';
+import { TIPOS_CUENTA } from '@/lib/constants';
 import { Link } from 'react-router-dom'; // Import Link
 
 interface AccountWithBalance extends Cuenta {
@@ -25,6 +29,8 @@ const Accounts: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isTransactionDialogOpen, setIsTransactionDialogOpen] = useState(false);
+  const [isCuentaDialogOpen, setIsCuentaDialogOpen] = useState(false);
+  const [editingCuenta, setEditingCuenta] = useState<Cuenta | null>(null);
 
   const fetchAccountsAndBalances = useCallback(async () => {
     setLoading(true);
@@ -34,7 +40,7 @@ const Accounts: React.FC = () => {
       console.log('Fetching accounts...');
       const { data: accountsData, error: accountsError } = await supabase
         .from('cuentas')
-        .select('id, name, created_at')
+        .select('*')
         .order('name', { ascending: true });
 
       if (accountsError) throw accountsError;
@@ -73,32 +79,15 @@ const Accounts: React.FC = () => {
         console.warn('No gastos found in "gastos" table.');
       }
 
-      // 4. Calculate balances for each account
+      // 4. Fetch transfers between accounts (they move balances but are neither ingresos nor gastos)
+      const fetchedTransferencias = await fetchTransferencias();
+
+      // 5. Calculate balances for each account, starting from its opening balance
       console.log('Calculating balances...');
-      const accountsWithBalances: AccountWithBalance[] = fetchedAccounts.map(account => {
-        let balance = 0;
-
-        // Add ingresos
-        fetchedIngresos
-          .filter(ingreso => ingreso.account === account.name)
-          .forEach(ingreso => {
-            if (ingreso.transaction_type === 'Ingreso') {
-              balance += ingreso.amount;
-            } else if (ingreso.transaction_type === 'Devolucion') {
-              balance += ingreso.amount; // Amount is already stored as negative for Devolucion
-            }
-            // Anulacion amount is 0, so no change
-          });
-
-        // Subtract gastos
-        fetchedGastos
-          .filter(gasto => gasto.account === account.name)
-          .forEach(gasto => {
-            balance += gasto.amount; // Amount is already stored as negative for Gasto
-          });
-
-        return { ...account, balance };
-      });
+      const accountsWithBalances: AccountWithBalance[] = fetchedAccounts.map(account => ({
+        ...account,
+        balance: calcularSaldoCuenta(account, fetchedIngresos, fetchedGastos, fetchedTransferencias),
+      }));
 
       console.log('Accounts with calculated balances:', accountsWithBalances);
       setAccounts(accountsWithBalances);
@@ -136,28 +125,41 @@ const Accounts: React.FC = () => {
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-4xl font-bold text-white">Cuentas</h1>
-        <Dialog open={isTransactionDialogOpen} onOpenChange={setIsTransactionDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="bg-primary hover:bg-primary/90 text-white rounded-lg px-6 py-3 shadow-lg transition-all duration-300 ease-in-out transform hover:-translate-y-1">
-              <PlusCircle className="mr-2 h-5 w-5" />
-              Registrar Nueva Transacción
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[600px] bg-card text-text border-border rounded-xl shadow-2xl p-6">
-            <DialogHeader>
-              <DialogTitle className="text-3xl font-bold text-primary">Registrar Transacción</DialogTitle>
-              <DialogDescription className="text-textSecondary">
-                Añade un nuevo ingreso, anulación, devolución o gasto a una cuenta.
-              </DialogDescription>
-            </DialogHeader>
-            <TransactionForm
-              onClose={() => setIsTransactionDialogOpen(false)}
-              onSuccess={fetchAccountsAndBalances}
-            />
-          </DialogContent>
-        </Dialog>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" className="rounded-lg" onClick={() => { setEditingCuenta(null); setIsCuentaDialogOpen(true); }}>
+            <PlusCircle className="mr-2 h-5 w-5" />
+            Nueva Cuenta
+          </Button>
+          <Dialog open={isTransactionDialogOpen} onOpenChange={setIsTransactionDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-primary hover:bg-primary/90 text-white rounded-lg px-6 py-3 shadow-lg transition-all duration-300 ease-in-out transform hover:-translate-y-1">
+                <PlusCircle className="mr-2 h-5 w-5" />
+                Registrar Nueva Transacción
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[600px] bg-card text-text border-border rounded-xl shadow-2xl p-6">
+              <DialogHeader>
+                <DialogTitle className="text-3xl font-bold text-primary">Registrar Transacción</DialogTitle>
+                <DialogDescription className="text-textSecondary">
+                  Añade un nuevo ingreso, anulación, devolución o gasto a una cuenta, o transfiere dinero entre cuentas.
+                </DialogDescription>
+              </DialogHeader>
+              <TransactionForm
+                onClose={() => setIsTransactionDialogOpen(false)}
+                onSuccess={fetchAccountsAndBalances}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <CuentaFormDialog
+        open={isCuentaDialogOpen}
+        onOpenChange={setIsCuentaDialogOpen}
+        cuenta={editingCuenta}
+        onSaved={fetchAccountsAndBalances}
+      />
+
       <p className="text-textSecondary text-lg">
         Gestiona todas tus cuentas financieras en un solo lugar. Visualiza saldos, tipos y movimientos.
       </p>
@@ -167,13 +169,25 @@ const Accounts: React.FC = () => {
           <Card key={account.id} className="bg-surface border-border rounded-xl shadow-lg hover:shadow-xl transition-shadow duration-300 ease-in-out">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-xl font-semibold text-primary">{account.name}</CardTitle>
+              <Badge variant="outline">{TIPOS_CUENTA.find(t => t.code === account.tipo)?.name ?? account.tipo}</Badge>
             </CardHeader>
             <CardContent className="pt-4">
               <div className={`text-3xl font-extrabold mb-2 ${account.balance >= 0 ? 'text-success' : 'text-error'}`}>
                 S/ {account.balance.toLocaleString('es-PE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </div>
-              <p className="text-textSecondary text-sm">Saldo actual</p>
+              <p className="text-textSecondary text-sm">
+                Saldo actual
+                {account.saldo_inicial_fecha && ` · desde el saldo inicial del ${new Date(`${account.saldo_inicial_fecha}T00:00:00`).toLocaleDateString()}`}
+              </p>
               <div className="mt-4 flex justify-end space-x-2">
+                <Button
+                  variant="ghost"
+                  className="text-textSecondary hover:text-white hover:bg-background rounded-lg"
+                  onClick={() => { setEditingCuenta(account); setIsCuentaDialogOpen(true); }}
+                >
+                  <Settings2 className="mr-2 h-4 w-4" />
+                  Configurar
+                </Button>
                 <Link to={`/accounts/${account.id}`}> {/* Use Link for navigation */}
                   <Button variant="ghost" className="text-textSecondary hover:text-white hover:bg-background rounded-lg">Ver Detalles</Button>
                 </Link>
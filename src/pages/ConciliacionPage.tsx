@@ -0,0 +1,423 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, ArrowLeft, Check, CheckCheck, EyeOff, FileUp, Loader2, Lock, PlusCircle, Undo2, X } from 'lucide-react';
+import { useUser } from '@/context/UserContext';
+import { fetchCuenta } from '@/lib/api/cuentasApi';
+import {
+  cerrarConciliacion,
+  ESTADO_LINEA_CONCILIACION_LABELS,
+  EstadoLineaConciliacion,
+  fetchConciliaciones,
+  fetchLineasConciliacion,
+  fetchMovimientosCuenta,
+  importarExtracto,
+  LineaConciliacion,
+  registrarMovimientoDesdeLinea,
+  resolverLineasConciliacion,
+} from '@/lib/api/conciliacionApi';
+import { CRITERIO_CONCILIACION_LABELS, CriterioConciliacion, MovimientoConciliable, readExtractoFile } from '@/lib/bankStatement';
+import { formatCurrency } from '@/lib/utils';
+
+const EstadoLineaBadge = ({ estado }: { estado: EstadoLineaConciliacion }) => {
+  const label = ESTADO_LINEA_CONCILIACION_LABELS[estado];
+  switch (estado) {
+    case 'confirmada':
+    case 'creada':
+      return <Badge variant="success">{label}</Badge>;
+    case 'sugerida':
+      return <Badge variant="outline" className="bg-warning/20 text-warning-foreground border-warning/40">{label}</Badge>;
+    case 'ignorada':
+      return <Badge variant="secondary">{label}</Badge>;
+    default:
+      return <Badge variant="destructive">{label}</Badge>;
+  }
+};
+
+const claveMovimiento = (tipo: MovimientoConciliable['tipo'], id: number) => `${tipo}-${id}`;
+
+const TIPO_MOVIMIENTO_LABELS: Record<MovimientoConciliable['tipo'], string> = {
+  ingreso: 'Ingreso',
+  gasto: 'Gasto',
+  transferencia: 'Transferencia',
+};
+
+const formatFecha = (fecha: string) => format(parseISO(fecha), 'dd/MM/yyyy');
+
+/**
+ * Conciliación de una cuenta con su extracto bancario. Cada importación crea una sesión con las
+ * líneas del extracto y las coincidencias propuestas; las líneas se confirman, se registran como
+ * ingreso/gasto nuevo o se ignoran, y la sesión se cierra cuando no queda ninguna por resolver.
+ */
+const ConciliacionPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const cuentaId = Number(id);
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [processing, setProcessing] = useState<number | 'todas' | null>(null);
+
+  const { data: cuenta } = useQuery({
+    queryKey: ['cuenta', cuentaId],
+    queryFn: () => fetchCuenta(cuentaId),
+    enabled: Number.isFinite(cuentaId),
+  });
+
+  const { data: conciliaciones = [], isLoading } = useQuery({
+    queryKey: ['conciliaciones', cuentaId],
+    queryFn: () => fetchConciliaciones(cuentaId),
+    enabled: Number.isFinite(cuentaId),
+  });
+
+  const conciliacion = conciliaciones.find(c => c.id === selectedId) ?? conciliaciones[0] ?? null;
+  const abierta = conciliacion?.estado === 'abierta';
+
+  const { data: lineas = [], isLoading: isLoadingLineas } = useQuery({
+    queryKey: ['conciliacionLineas', conciliacion?.id],
+    queryFn: () => fetchLineasConciliacion(conciliacion!.id),
+    enabled: !!conciliacion,
+  });
+
+  const { data: movimientos = [] } = useQuery({
+    queryKey: ['movimientosConciliacion', cuenta?.name, conciliacion?.fecha_desde, conciliacion?.fecha_hasta],
+    queryFn: () => fetchMovimientosCuenta(cuenta!, conciliacion!.fecha_desde!, conciliacion!.fecha_hasta!),
+    enabled: !!cuenta && !!conciliacion?.fecha_desde && !!conciliacion?.fecha_hasta,
+  });
+
+  const movimientosPorClave = useMemo(
+    () => new Map(movimientos.map(m => [claveMovimiento(m.tipo, m.id), m])),
+    [movimientos]
+  );
+  // Movimientos del sistema en el periodo del extracto que no aparecen en ninguna línea.
+  const sinConciliar = movimientos.filter(m => m.conciliacionId === null && m.monto !== 0);
+  const sugeridas = lineas.filter(l => l.estado === 'sugerida');
+  const porResolver = lineas.filter(l => l.estado === 'pendiente' || l.estado === 'sugerida').length;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['conciliaciones', cuentaId] });
+    queryClient.invalidateQueries({ queryKey: ['conciliacionLineas'] });
+    queryClient.invalidateQueries({ queryKey: ['movimientosConciliacion'] });
+  };
+
+  const ejecutar = async (clave: number | 'todas', accion: () => Promise<void>, mensaje?: string) => {
+    setProcessing(clave);
+    try {
+      await accion();
+      if (mensaje) toast.success(mensaje);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error en la conciliación', { description: errorMessage });
+    } finally {
+      setProcessing(null);
+      invalidate();
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !cuenta) return;
+
+    setIsImporting(true);
+    try {
+      const { formato, lineas: lineasExtracto, errors } = await readExtractoFile(file);
+      if (lineasExtracto.length === 0) {
+        toast.error('No se importó el extracto', { description: errors[0] || 'El archivo no tiene movimientos.' });
+        return;
+      }
+      const nueva = await importarExtracto(cuenta, file.name, formato, lineasExtracto, user?.id ?? null);
+      setSelectedId(nueva.id);
+      invalidate();
+      if (errors.length > 0) {
+        toast.warning(`Se importaron ${lineasExtracto.length} movimiento(s); ${errors.length} fila(s) se omitieron`, { description: errors.slice(0, 3).join(' ') });
+      } else {
+        toast.success('Extracto importado', { description: `${lineasExtracto.length} movimiento(s) del ${formatFecha(nueva.fecha_desde!)} al ${formatFecha(nueva.fecha_hasta!)}.` });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al importar el extracto', { description: errorMessage });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleVincular = (linea: LineaConciliacion, clave: string) => {
+    const movimiento = movimientosPorClave.get(clave);
+    if (!movimiento) return;
+    ejecutar(linea.id, () => resolverLineasConciliacion([linea.id], 'confirmada', user?.id ?? null, { movimiento, criterio: 'manual' }));
+  };
+
+  const handleRegistrar = (linea: LineaConciliacion) => {
+    if (linea.monto <= 0) {
+      ejecutar(linea.id, () => registrarMovimientoDesdeLinea(linea, cuenta!.name, user?.id ?? null), 'Gasto registrado');
+      return;
+    }
+    // Todo ingreso pertenece a un socio: se pide su DNI antes de registrar el abono.
+    const dni = window.prompt(`DNI del socio que abonó ${formatCurrency(linea.monto, 'PEN')}:`)?.trim();
+    if (!dni) return;
+    if (!/^\d{8}$/.test(dni)) {
+      toast.error('DNI no válido', { description: 'El DNI debe tener 8 dígitos.' });
+      return;
+    }
+    ejecutar(linea.id, () => registrarMovimientoDesdeLinea(linea, cuenta!.name, user?.id ?? null, dni), 'Ingreso registrado');
+  };
+
+  const handleCerrar = () => {
+    if (!conciliacion) return;
+    if (!window.confirm('¿Cerrar la conciliación? Sus líneas ya no se podrán modificar.')) return;
+    ejecutar('todas', () => cerrarConciliacion(conciliacion.id), 'Conciliación cerrada');
+  };
+
+  const movimientoDeLinea = (linea: LineaConciliacion) =>
+    linea.ingreso_id ? movimientosPorClave.get(claveMovimiento('ingreso', linea.ingreso_id))
+      : linea.gasto_id ? movimientosPorClave.get(claveMovimiento('gasto', linea.gasto_id))
+        : linea.transferencia_id ? movimientosPorClave.get(claveMovimiento('transferencia', linea.transferencia_id))
+          : undefined;
+
+  const renderAcciones = (linea: LineaConciliacion) => {
+    if (!abierta) return null;
+    if (processing === linea.id) return <Loader2 className="h-4 w-4 animate-spin ml-auto" />;
+    const disabled = processing !== null;
+    const userId = user?.id ?? null;
+
+    switch (linea.estado as EstadoLineaConciliacion) {
+      case 'sugerida':
+        return (
+          <>
+            <Button variant="ghost" size="icon" disabled={disabled} title="Confirmar coincidencia"
+              onClick={() => ejecutar(linea.id, () => resolverLineasConciliacion([linea.id], 'confirmada', userId))}>
+              <Check className="h-4 w-4 text-success" />
+            </Button>
+            <Button variant="ghost" size="icon" disabled={disabled} title="Descartar coincidencia"
+              onClick={() => ejecutar(linea.id, () => resolverLineasConciliacion([linea.id], 'pendiente', userId))}>
+              <X className="h-4 w-4 text-error" />
+            </Button>
+          </>
+        );
+      case 'pendiente': {
+        const opciones = sinConciliar.filter(m => Math.sign(m.monto) === Math.sign(linea.monto));
+        return (
+          <div className="flex items-center justify-end gap-1">
+            <Select value="" onValueChange={(value) => handleVincular(linea, value)} disabled={disabled || opciones.length === 0}>
+              <SelectTrigger className="w-[160px] h-8">
+                <SelectValue placeholder="Vincular…" />
+              </SelectTrigger>
+              <SelectContent>
+                {opciones.map(m => (
+                  <SelectItem key={claveMovimiento(m.tipo, m.id)} value={claveMovimiento(m.tipo, m.id)}>
+                    {formatFecha(m.fecha)} · {formatCurrency(m.monto, 'PEN')} · {m.descripcion}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" disabled={disabled} title={linea.monto > 0 ? 'Registrar como ingreso' : 'Registrar como gasto'}
+              onClick={() => handleRegistrar(linea)}>
+              <PlusCircle className="h-4 w-4 text-primary" />
+            </Button>
+            <Button variant="ghost" size="icon" disabled={disabled} title="Ignorar línea"
+              onClick={() => ejecutar(linea.id, () => resolverLineasConciliacion([linea.id], 'ignorada', userId))}>
+              <EyeOff className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      }
+      default:
+        return (
+          <Button variant="ghost" size="icon" disabled={disabled} title="Deshacer"
+            onClick={() => ejecutar(linea.id, () => resolverLineasConciliacion([linea.id], 'pendiente', userId))}>
+            <Undo2 className="h-4 w-4" />
+          </Button>
+        );
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Link to={`/accounts/${cuentaId}`} className="text-textSecondary hover:text-white inline-flex items-center text-sm mb-2">
+            <ArrowLeft className="mr-1 h-4 w-4" /> Volver a la cuenta
+          </Link>
+          <h1 className="text-4xl font-bold text-white">Conciliación Bancaria{cuenta ? `: ${cuenta.name}` : ''}</h1>
+        </div>
+        <div>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,.xlsx,.ofx,.qfx" className="hidden" onChange={handleImport} />
+          <Button onClick={() => fileInputRef.current?.click()} disabled={!cuenta || isImporting}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+            Importar Extracto
+          </Button>
+        </div>
+      </div>
+      <p className="text-textSecondary text-lg">
+        Importe el extracto del banco (CSV, XLSX u OFX). Las líneas se comparan con los ingresos y gastos de la cuenta por número de operación, monto y fecha.
+      </p>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full rounded-xl" />
+      ) : conciliaciones.length === 0 ? (
+        <p className="text-textSecondary text-center py-8">Aún no se ha importado ningún extracto para esta cuenta.</p>
+      ) : (
+        <Card className="bg-surface border-border rounded-xl shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-2xl font-semibold text-primary">Sesiones de Conciliación</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Importado</TableHead>
+                  <TableHead>Archivo</TableHead>
+                  <TableHead>Periodo</TableHead>
+                  <TableHead>Resultado</TableHead>
+                  <TableHead>Estado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conciliaciones.map(c => (
+                  <TableRow key={c.id} onClick={() => setSelectedId(c.id)}
+                    className={`cursor-pointer ${c.id === conciliacion?.id ? 'bg-primary/10' : ''}`}>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(c.created_at), 'dd/MM/yyyy HH:mm', { locale: es })}</TableCell>
+                    <TableCell>{c.archivo_nombre}</TableCell>
+                    <TableCell className="whitespace-nowrap">{c.fecha_desde && c.fecha_hasta ? `${formatFecha(c.fecha_desde)} – ${formatFecha(c.fecha_hasta)}` : '—'}</TableCell>
+                    <TableCell className="text-sm text-textSecondary">
+                      {c.resumen.confirmada} confirmadas · {c.resumen.creada} registradas · {c.resumen.ignorada} ignoradas
+                      {c.resumen.pendiente + c.resumen.sugerida > 0 && ` · ${c.resumen.pendiente + c.resumen.sugerida} por resolver`}
+                    </TableCell>
+                    <TableCell>
+                      {c.estado === 'cerrada' ? <Badge variant="secondary"><Lock className="mr-1 h-3 w-3" />Cerrada</Badge> : <Badge variant="outline">Abierta</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {conciliacion && (
+        <Card className="bg-surface border-border rounded-xl shadow-lg">
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl font-semibold text-primary">Líneas del Extracto</CardTitle>
+              <CardDescription className="text-textSecondary">
+                {conciliacion.archivo_nombre} · {abierta ? `${porResolver} línea(s) por resolver` : 'Conciliación cerrada'}
+              </CardDescription>
+            </div>
+            {abierta && (
+              <div className="flex gap-2">
+                <Button variant="outline" disabled={sugeridas.length === 0 || processing !== null}
+                  onClick={() => ejecutar('todas', () => resolverLineasConciliacion(sugeridas.map(l => l.id), 'confirmada', user?.id ?? null), `${sugeridas.length} coincidencia(s) confirmada(s)`)}>
+                  <CheckCheck className="mr-2 h-4 w-4" />
+                  Confirmar Sugeridas ({sugeridas.length})
+                </Button>
+                <Button onClick={handleCerrar} disabled={porResolver > 0 || processing !== null} title={porResolver > 0 ? 'Resuelva todas las líneas antes de cerrar' : undefined}>
+                  <Lock className="mr-2 h-4 w-4" />
+                  Cerrar Conciliación
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoadingLineas ? (
+              <div className="space-y-2">
+                <Skeleton className="h-10 w-full rounded-lg" />
+                <Skeleton className="h-10 w-full rounded-lg" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Descripción</TableHead>
+                    <TableHead>N° Operación</TableHead>
+                    <TableHead className="text-right">Monto</TableHead>
+                    <TableHead>Movimiento del Sistema</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lineas.map(linea => {
+                    const movimiento = movimientoDeLinea(linea);
+                    return (
+                      <TableRow key={linea.id}>
+                        <TableCell className="whitespace-nowrap">{formatFecha(linea.fecha)}</TableCell>
+                        <TableCell className="max-w-[240px]">{linea.descripcion || '—'}</TableCell>
+                        <TableCell className="font-mono">{linea.numero_operacion || '—'}</TableCell>
+                        <TableCell className={`text-right font-semibold ${linea.monto >= 0 ? 'text-success' : 'text-error'}`}>{formatCurrency(linea.monto, 'PEN')}</TableCell>
+                        <TableCell className="text-sm">
+                          {movimiento ? (
+                            <>
+                              <span className="block">{movimiento.descripcion}</span>
+                              <span className="text-xs text-textSecondary">
+                                {TIPO_MOVIMIENTO_LABELS[movimiento.tipo]} del {formatFecha(movimiento.fecha)}
+                                {linea.criterio && ` · ${CRITERIO_CONCILIACION_LABELS[linea.criterio as CriterioConciliacion]}`}
+                              </span>
+                            </>
+                          ) : '—'}
+                        </TableCell>
+                        <TableCell><EstadoLineaBadge estado={linea.estado as EstadoLineaConciliacion} /></TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{renderAcciones(linea)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {conciliacion && sinConciliar.length > 0 && (
+        <Card className="bg-surface border-warning/40 rounded-xl shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-2xl font-semibold text-warning flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Movimientos sin Línea en el Extracto
+            </CardTitle>
+            <CardDescription className="text-textSecondary">
+              Ingresos y gastos de {cuenta?.name} en el periodo del extracto que no coinciden con ninguna línea. Revise si están duplicados o registrados en otra cuenta.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Descripción</TableHead>
+                  <TableHead>N° Operación</TableHead>
+                  <TableHead className="text-right">Monto</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sinConciliar.map(m => (
+                  <TableRow key={claveMovimiento(m.tipo, m.id)}>
+                    <TableCell className="whitespace-nowrap">{formatFecha(m.fecha)}</TableCell>
+                    <TableCell>{TIPO_MOVIMIENTO_LABELS[m.tipo]}</TableCell>
+                    <TableCell>{m.descripcion || '—'}</TableCell>
+                    <TableCell className="font-mono">{m.numeroOperacion || '—'}</TableCell>
+                    <TableCell className={`text-right font-semibold ${m.monto >= 0 ? 'text-success' : 'text-error'}`}>{formatCurrency(m.monto, 'PEN')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ConciliacionPage;
@@ -1,6 +1,7 @@
 import { useParams } from 'react-router-dom';
 import SocioTitularRegistrationForm from '@/components/custom/SocioTitularRegistrationForm';
 import SocioStatusAndDocuments from '@/components/custom/SocioStatusAndDocuments';
+import CorreosSocioHistory from '@/components/custom/CorreosSocioHistory';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'; // Importación de componentes Tabs
 
 function EditSocioPage() {
@@ -40,7 +41,7 @@ function EditSocioPage() {
       <main className="py-12 max-w-6xl mx-auto px-4">
         
         <Tabs defaultValue="general" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 bg-surface border border-border shadow-lg">
+          <TabsList className="grid w-full grid-cols-3 bg-surface border border-border shadow-lg">
             <TabsTrigger 
               value="general" 
               className="text-lg font-semibold data-[state=active]:bg-primary data-[state=active]:text-primary-foreground transition-all duration-300"
@@ -53,6 +54,12 @@ function EditSocioPage() {
             >
               Documentos
             </TabsTrigger>
+            <TabsTrigger 
+              value="correos" 
+              className="text-lg font-semibold data-[state=active]:bg-primary data-[state=active]:text-primary-foreground transition-all duration-300"
+            >
+              Correos
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="general" className="mt-6">
@@ -67,6 +74,10 @@ function EditSocioPage() {
           <TabsContent value="documents" className="mt-6">
             <SocioStatusAndDocuments socioId={id} />
           </TabsContent>
+
+          <TabsContent value="correos" className="mt-6">
+            <CorreosSocioHistory socioId={id} />
+          </TabsContent>
         </Tabs>
 
       </main>
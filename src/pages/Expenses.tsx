@@ -1,8 +1,9 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { ColumnDef, Row } from '@tanstack/react-table'; // Import Row type
 import { format, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { PlusCircle, Edit, ArrowUpDown, CalendarIcon, XCircle, Search, Trash2 } from 'lucide-react'; // Added Search icon and Trash2
+import { PlusCircle, Edit, ArrowUpDown, CalendarIcon, XCircle, Search, Trash2, FileArchive, Loader2 } from 'lucide-react'; // Added Search icon and Trash2
 import { Button } from '@/components/ui/button';
 import { DataTable } from '@/components/ui-custom/DataTable';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
@@ -23,6 +24,19 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { cn, formatCurrency } from '@/lib/utils';
 import { FormField, FormItem, FormLabel, FormControl, FormMessage, Form } from '@/components/ui/form';
+import MontoOriginal from '@/components/ui-custom/MontoOriginal';
+import { convertirASoles, MontoEnSoles } from '@/lib/api/exchangeRatesApi';
+import { useTipoCambio } from '@/hooks/useTipoCambio';
+import { DEFAULT_MONEDA, FAMILIA_CORRELATIVO_GASTO, MONEDAS } from '@/lib/constants';
+import { confirmarCorrelativo, CorrelativoReservado, liberarCorrelativo, reservarCorrelativo } from '@/lib/api/correlativosApi';
+import { useUser } from '@/context/UserContext';
+import { verificarPeriodosAbiertos } from '@/lib/api/periodosApi';
+import { usePeriodosCerrados } from '@/hooks/usePeriodosCerrados';
+import { Checkbox } from '@/components/ui/checkbox';
+import { descargarComprobantesMes, eliminarArchivosDeGasto, fetchComprobantesGastos, GastoComprobanteConUrl, subirComprobantesGasto } from '@/lib/api/gastoComprobantesApi';
+import { downloadBlob } from '@/lib/printing';
+import ComprobanteGastoThumbnail from '@/components/custom/ComprobanteGastoThumbnail';
+import ComprobantesGastoField from '@/components/custom/ComprobantesGastoField';
 
 
 // --- Form Schema for Gasto ---
@@ -38,6 +52,7 @@ const expenseFormSchema = z.object({
     })
     .positive({ message: 'El monto debe ser positivo.' }) // User inputs positive, we negate for storage
   ),
+  moneda: z.string().min(1, { message: 'La moneda es requerida.' }),
   account: z.string().min(1, { message: 'La cuenta es requerida.' }),
   date: z.string().min(1, { message: 'La fecha es requerida.' }),
   category: z.string().min(1, { message: 'La categoría es requerida.' }),
@@ -50,9 +65,13 @@ const expenseFormSchema = z.object({
 // Type for the data after Zod transformation (what onSubmit receives from resolver)
 type ExpenseFormValues = z.infer<typeof expenseFormSchema>;
 
+// Type for data passed to ConfirmationDialog (amount already in PEN)
+type ConfirmedExpenseData = ExpenseFormValues & MontoEnSoles;
+
 // Type for the form's internal state (before Zod transformation, for useForm defaultValues)
 type ExpenseFormInputValues = {
   amount: string; // Input field will hold a string
+  moneda: string;
   account: string;
   date: string;
   category: string;
@@ -144,10 +163,19 @@ const expenseColumns: ColumnDef<GastoType>[] = [
           colorClass
         )}>
           {formattedAmount}
+          <MontoOriginal moneda={row.original.moneda} montoOriginal={row.original.monto_original} tipoCambio={row.original.tipo_cambio} />
         </div>
       );
     },
   },
+  {
+    id: 'comprobante',
+    header: 'Comprobante',
+    cell: () => {
+      // Thumbnail is defined inside the component, where the vouchers are loaded
+      return null;
+    },
+  },
   {
     id: 'actions',
     enableHiding: false,
@@ -186,26 +214,6 @@ const VIATICOS_SUB_CATEGORIES = [
   { value: 'ocasional', label: 'Ocasional' },
 ];
 
-// Helper function to generate the next sequential numero_gasto
-const generateNextNumeroGasto = (expenses: GastoType[]): string => {
-  let maxNumber = 0;
-
-  // Filter for valid 'GAXXX' format and find the maximum number
-  expenses.forEach(expense => {
-    if (expense.numero_gasto && expense.numero_gasto.startsWith('GA')) {
-      const numPart = parseInt(expense.numero_gasto.substring(2), 10);
-      if (!isNaN(numPart) && numPart > maxNumber) {
-        maxNumber = numPart;
-      }
-    }
-  });
-
-  const nextNumber = maxNumber + 1;
-  // Pad with leading zeros to ensure a 3-digit number (e.g., 1 -> 001, 17 -> 017)
-  return `GA${String(nextNumber).padStart(3, '0')}`;
-};
-
-
 export default function Expenses() { // FIX: Export as default for lazy loading
   const {
     data: expenseData,
@@ -223,16 +231,25 @@ export default function Expenses() { // FIX: Export as default for lazy loading
   const { data: colaboradoresData } = useSupabaseData<Colaborador>({ tableName: 'colaboradores', enabled: true });
   const { data: accountsData, loading: accountsLoading, error: accountsError } = useSupabaseData<Cuenta>({ tableName: 'cuentas' });
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { user } = useUser();
+  const { estaCerrado } = usePeriodosCerrados();
   const [editingExpense, setEditingExpense] = useState<GastoType | null>(null);
   const [globalFilter, setGlobalFilter] = useState('');
 
   // Estados para los filtros (solo fecha y colaborador)
   const [dateFilter, setDateFilter] = useState<Date | undefined>(undefined);
   const [colaboradorFilter, setColaboradorFilter] = useState<string | null>(null);
+  const [soloSinComprobante, setSoloSinComprobante] = useState(false);
+
+  // Comprobantes: archivos elegidos en el formulario y descarga mensual para el contador
+  const queryClient = useQueryClient();
+  const [archivosComprobante, setArchivosComprobante] = useState<File[]>([]);
+  const [mesComprobantes, setMesComprobantes] = useState(() => format(new Date(), 'yyyy-MM'));
+  const [isDownloadingComprobantes, setIsDownloadingComprobantes] = useState(false);
 
   // State for confirmation dialog
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
-  const [dataToConfirm, setDataToConfirm] = useState<ExpenseFormValues | null>(null);
+  const [dataToConfirm, setDataToConfirm] = useState<ConfirmedExpenseData | null>(null);
   const [isConfirmingSubmission, setIsConfirmingSubmission] = useState(false);
 
 
@@ -240,6 +257,7 @@ export default function Expenses() { // FIX: Export as default for lazy loading
     resolver: zodResolver(expenseFormSchema),
     defaultValues: {
       amount: '',
+      moneda: DEFAULT_MONEDA,
       account: '',
       date: format(new Date(), 'yyyy-MM-dd'),
       category: '',
@@ -251,6 +269,24 @@ export default function Expenses() { // FIX: Export as default for lazy loading
   });
 
   const watchedCategory = form.watch('category');
+  const watchedMoneda = form.watch('moneda');
+  const { data: tipoCambioVigente, isFetching: isFetchingTipoCambio } = useTipoCambio(form.watch('date'), watchedMoneda);
+
+  const { data: comprobantes = [] } = useQuery<GastoComprobanteConUrl[]>({
+    queryKey: ['gastoComprobantes'],
+    queryFn: fetchComprobantesGastos,
+  });
+
+  const comprobantesPorGasto = useMemo(() => {
+    const map = new Map<number, GastoComprobanteConUrl[]>();
+    comprobantes.forEach(c => map.set(c.gasto_id, [...(map.get(c.gasto_id) ?? []), c]));
+    return map;
+  }, [comprobantes]);
+
+  const visibleExpenses = useMemo(
+    () => soloSinComprobante ? expenseData.filter(e => !comprobantesPorGasto.has(e.id)) : expenseData,
+    [expenseData, soloSinComprobante, comprobantesPorGasto]
+  );
 
   // Fetch accounts from Supabase
   const availableAccounts = accountsData.map(account => account.name);
@@ -271,6 +307,7 @@ export default function Expenses() { // FIX: Export as default for lazy loading
   const clearAllFilters = () => {
     setDateFilter(undefined);
     setColaboradorFilter(null);
+    setSoloSinComprobante(false);
     setGlobalFilter(''); // Limpiar el filtro global de la tabla
   };
 
@@ -316,9 +353,11 @@ export default function Expenses() { // FIX: Export as default for lazy loading
 
   const handleOpenDialog = (expense?: GastoType) => {
     setEditingExpense(expense || null);
+    setArchivosComprobante([]);
     if (expense) {
       form.reset({
-        amount: Math.abs(expense.amount).toString(), // Display positive for editing, will be negated on save
+        amount: Math.abs(expense.monto_original ?? expense.amount).toString(), // Display positive for editing, will be negated on save
+        moneda: expense.moneda || DEFAULT_MONEDA,
         account: expense.account || '',
         date: expense.date,
         category: expense.category || '',
@@ -328,15 +367,15 @@ export default function Expenses() { // FIX: Export as default for lazy loading
         colaborador_id: expense.colaborador_id || null,
       });
     } else {
-      const nextNumeroGasto = generateNextNumeroGasto(expenseData);
       form.reset({
         amount: '',
+        moneda: DEFAULT_MONEDA,
         account: '',
         date: format(new Date(), 'yyyy-MM-dd'),
         category: '',
         sub_category: null, // Corrected to sub_category
         description: '',
-        numero_gasto: nextNumeroGasto,
+        numero_gasto: null, // Se asigna al confirmar el registro
         colaborador_id: null,
       });
     }
@@ -346,14 +385,55 @@ export default function Expenses() { // FIX: Export as default for lazy loading
   const handleCloseDialog = () => {
     setIsDialogOpen(false);
     setEditingExpense(null);
+    setArchivosComprobante([]);
     form.reset();
     handleCloseConfirmationOnly();
   };
 
+  // The expense is already saved at this point, so a failed upload only warns
+  const subirComprobantes = async (gastoId: number) => {
+    if (archivosComprobante.length === 0) return;
+    try {
+      await subirComprobantesGasto(gastoId, archivosComprobante, user?.id ?? null);
+    } catch (uploadError) {
+      toast.warning('El gasto se guardó sin todos sus comprobantes', {
+        description: uploadError instanceof Error ? uploadError.message : undefined,
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['gastoComprobantes'] });
+    }
+  };
+
+  const handleDownloadComprobantes = async () => {
+    setIsDownloadingComprobantes(true);
+    try {
+      const { zip, archivos, gastosSinComprobante } = await descargarComprobantesMes(mesComprobantes);
+      downloadBlob(zip, `comprobantes-gastos-${mesComprobantes}.zip`);
+      toast.success('Comprobantes descargados', {
+        description: `${archivos} archivo(s).${gastosSinComprobante > 0 ? ` ${gastosSinComprobante} gasto(s) sin comprobante, ver indice.csv.` : ''}`,
+      });
+    } catch (downloadError) {
+      const errorMessage = downloadError instanceof Error ? downloadError.message : 'Ocurrió un error desconocido.';
+      toast.error('Error al descargar los comprobantes', { description: errorMessage });
+    } finally {
+      setIsDownloadingComprobantes(false);
+    }
+  };
+
   const onSubmit = async (inputValues: ExpenseFormInputValues, event?: React.BaseSyntheticEvent) => {
     event?.preventDefault();
     const parsedValues: ExpenseFormValues = expenseFormSchema.parse(inputValues);
-    setDataToConfirm(parsedValues);
+
+    // Amounts in foreign currency are stored in PEN using the exchange rate of the expense date
+    try {
+      const montoEnSoles = await convertirASoles(parsedValues.amount, parsedValues.moneda, parsedValues.date);
+      setDataToConfirm({ ...parsedValues, ...montoEnSoles });
+    } catch (conversionError) {
+      const message = conversionError instanceof Error ? conversionError.message : 'No se pudo obtener el tipo de cambio.';
+      form.setError('moneda', { type: 'manual', message });
+      toast.error('Tipo de cambio no disponible', { description: message });
+      return;
+    }
     setIsConfirmDialogOpen(true);
   };
 
@@ -364,48 +444,54 @@ export default function Expenses() { // FIX: Export as default for lazy loading
     try {
       // Negate the amount here before sending to Supabase
       const amountToStore = -Math.abs(dataToConfirm.amount); // Ensure it's negative for storage
+      const montoOriginalToStore = dataToConfirm.monto_original === null ? null : -Math.abs(dataToConfirm.monto_original);
+      // Closed periods block both the original and the new date
+      await verificarPeriodosAbiertos(dataToConfirm.date, editingExpense?.date);
 
       if (editingExpense) {
         // Ensure numero_gasto is explicitly string | null for updateRecord
         const dataToUpdate = {
           ...dataToConfirm,
           amount: amountToStore, // Use the negated amount
+          monto_original: montoOriginalToStore,
           numero_gasto: dataToConfirm.numero_gasto === undefined ? null : dataToConfirm.numero_gasto,
         };
         await updateRecord(editingExpense.id, dataToUpdate);
+        await subirComprobantes(editingExpense.id);
         toast.success('Gasto actualizado', { description: 'El gasto ha sido actualizado exitosamente.' });
         handleCloseDialog();
       } else {
-        // Ensure numero_gasto is explicitly string | null for addRecord
+        // The GA number is allocated by the database so two users never get the same one
+        const reserva: CorrelativoReservado = await reservarCorrelativo(FAMILIA_CORRELATIVO_GASTO);
         const dataToAdd = {
           ...dataToConfirm,
           amount: amountToStore, // Use the negated amount
-          numero_gasto: dataToConfirm.numero_gasto === undefined ? null : dataToConfirm.numero_gasto,
+          monto_original: montoOriginalToStore,
+          numero_gasto: reserva.numero_completo,
         };
         const newRecord = await addRecord(dataToAdd);
-        toast.success('Gasto añadido', { description: 'El nuevo gasto ha sido registrado exitosamente.' });
-        
-        let nextNumeroGastoForForm: string | null = null;
-        if (newRecord && newRecord.numero_gasto) {
-          const numPart = parseInt(newRecord.numero_gasto.substring(2), 10);
-          if (!isNaN(numPart)) {
-            nextNumeroGastoForForm = `GA${String(numPart + 1).padStart(3, '0')}`;
-          }
-        } else {
-          nextNumeroGastoForForm = generateNextNumeroGasto(expenseData);
+        if (!newRecord) {
+          // addRecord already reported the error; the reserved number is not reused and stays as a documented gap
+          liberarCorrelativo(reserva.id, 'No se pudo registrar el gasto.').catch(err => console.error('No se pudo liberar el número de gasto:', err));
+          return;
         }
+        confirmarCorrelativo(reserva.id).catch(err => console.error('No se pudo confirmar el número de gasto:', err));
+        await subirComprobantes(newRecord.id);
+        toast.success('Gasto añadido', { description: `El gasto ${reserva.numero_completo} ha sido registrado exitosamente.` });
 
         form.reset({
           amount: '',
+          moneda: DEFAULT_MONEDA,
           account: '',
           date: format(new Date(), 'yyyy-MM-dd'),
           category: '',
           sub_category: null, // Corrected to sub_category
           description: '',
-          numero_gasto: nextNumeroGastoForForm,
+          numero_gasto: null,
           colaborador_id: null,
         });
         setEditingExpense(null);
+        setArchivosComprobante([]);
         handleCloseConfirmationOnly();
         await refreshData();
       }
@@ -417,23 +503,39 @@ export default function Expenses() { // FIX: Export as default for lazy loading
     }
   };
 
-  const handleDelete = async (id: number) => {
+  const handleDelete = async (expense: GastoType) => {
     if (window.confirm('¿Estás seguro de que quieres eliminar este gasto?')) {
-      await deleteRecord(id);
+      try {
+        await verificarPeriodosAbiertos(expense.date);
+      } catch (periodoError) {
+        toast.error('No se puede eliminar el gasto', { description: periodoError instanceof Error ? periodoError.message : undefined });
+        return;
+      }
+      // deleteRecord ya avisa si falla; los archivos solo se quitan cuando el gasto se eliminó.
+      if (!(await deleteRecord(expense.id))) return;
+      await eliminarArchivosDeGasto(expense.id);
+      queryClient.invalidateQueries({ queryKey: ['gastoComprobantes'] });
       toast.success('Gasto eliminado', { description: 'El gasto ha sido eliminado exitosamente.' });
     }
   };
 
   const columnsWithActions: ColumnDef<GastoType>[] = expenseColumns.map(col => {
+    if (col.id === 'comprobante') {
+      return {
+        ...col,
+        cell: ({ row }) => <ComprobanteGastoThumbnail comprobantes={comprobantesPorGasto.get(row.original.id) ?? []} />,
+      };
+    }
     if (col.id === 'actions') {
       return {
         ...col,
         cell: ({ row }) => {
           const expense = row.original;
+          const cerrado = estaCerrado(expense.date);
           return (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
-                <Button variant="ghost" className="h-8 w-8 p-0">
+                <Button variant="ghost" className="h-8 w-8 p-0" disabled={cerrado} title={cerrado ? 'Periodo cerrado' : undefined}>
                   <span className="sr-only">Abrir menú</span>
                   <Edit className="h-4 w-4 text-muted-foreground hover:text-foreground transition-colors" />
                 </Button>
@@ -442,7 +544,7 @@ export default function Expenses() { // FIX: Export as default for lazy loading
                 <DropdownMenuItem onClick={() => handleOpenDialog(expense)} className="hover:bg-muted/50 cursor-pointer">
                   Editar
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => handleDelete(expense.id)} className="hover:bg-destructive/20 text-destructive cursor-pointer">
+                <DropdownMenuItem onClick={() => handleDelete(expense)} className="hover:bg-destructive/20 text-destructive cursor-pointer">
                   Eliminar
                 </DropdownMenuItem>
               </DropdownMenuContent>
@@ -477,10 +579,28 @@ export default function Expenses() { // FIX: Export as default for lazy loading
                 Visualiza, busca y gestiona tus gastos.
               </CardDescription>
             </div>
-            <Button onClick={() => handleOpenDialog()} className="flex items-center gap-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-all duration-300">
-              <PlusCircle className="h-4 w-4" />
-              Añadir Gasto
-            </Button>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="month"
+                value={mesComprobantes}
+                onChange={(event) => setMesComprobantes(event.target.value)}
+                className="w-[160px] rounded-lg border-border bg-background text-foreground"
+                aria-label="Mes de los comprobantes"
+              />
+              <Button
+                variant="outline"
+                onClick={handleDownloadComprobantes}
+                disabled={!mesComprobantes || isDownloadingComprobantes}
+                className="flex items-center gap-2 rounded-lg border-border"
+              >
+                {isDownloadingComprobantes ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileArchive className="h-4 w-4" />}
+                Descargar comprobantes del mes
+              </Button>
+              <Button onClick={() => handleOpenDialog()} className="flex items-center gap-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-all duration-300">
+                <PlusCircle className="h-4 w-4" />
+                Añadir Gasto
+              </Button>
+            </div>
           </div>
 
           {/* Filter Section */}
@@ -548,8 +668,19 @@ export default function Expenses() { // FIX: Export as default for lazy loading
               </Select>
             </div>
 
+            {/* Missing Voucher Filter */}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="filter-sin-comprobante"
+                checked={soloSinComprobante}
+                onCheckedChange={(checked) => setSoloSinComprobante(checked === true)}
+                className="border-border data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
+              />
+              <Label htmlFor="filter-sin-comprobante" className="text-textSecondary cursor-pointer">Solo sin comprobante</Label>
+            </div>
+
             {/* Clear Filters Button */}
-            {(dateFilter || colaboradorFilter || globalFilter) && (
+            {(dateFilter || colaboradorFilter || soloSinComprobante || globalFilter) && (
               <Button
                 variant="outline"
                 onClick={clearAllFilters}
@@ -566,7 +697,7 @@ export default function Expenses() { // FIX: Export as default for lazy loading
           <div className="hidden md:block">
             <DataTable
               columns={columnsWithActions}
-              data={expenseData}
+              data={visibleExpenses}
               globalFilter={globalFilter}
               setGlobalFilter={setGlobalFilter}
               customGlobalFilterFn={expenseGlobalFilterFn}
@@ -575,7 +706,7 @@ export default function Expenses() { // FIX: Export as default for lazy loading
 
           {/* VISTA MÓVIL: Tarjetas (Oculta en md+) */}
           <div className="grid gap-4 md:hidden">
-            {expenseData.map((expense) => {
+            {visibleExpenses.map((expense) => {
               // FIX: expense.amount is already a number
               const amount = expense.amount;
               const formattedAmount = formatCurrency(amount);
@@ -591,8 +722,9 @@ export default function Expenses() { // FIX: Export as default for lazy loading
                 <Card key={expense.id} className="w-full bg-card border-border shadow-lg transition-all duration-300">
                   <CardHeader className="p-4 flex flex-row items-center justify-between border-b border-border/50">
                     <span className="text-sm font-medium text-textSecondary">{formattedDate}</span>
-                    <CardTitle className={cn("text-xl font-bold", colorClass)}>
+                    <CardTitle className={cn("text-xl font-bold text-right", colorClass)}>
                       {formattedAmount}
+                      <MontoOriginal moneda={expense.moneda} montoOriginal={expense.monto_original} tipoCambio={expense.tipo_cambio} />
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="p-4 space-y-2 text-sm">
@@ -622,11 +754,15 @@ export default function Expenses() { // FIX: Export as default for lazy loading
                       <span className="text-textSecondary">Colaborador:</span>
                       <span className="font-medium text-foreground text-right truncate max-w-[60%]">{collaboratorName}</span>
                     </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-textSecondary">Comprobante:</span>
+                      <ComprobanteGastoThumbnail comprobantes={comprobantesPorGasto.get(expense.id) ?? []} />
+                    </div>
                     <div className="pt-3 flex justify-end gap-2 border-t border-border/50">
-                      <Button variant="outline" size="icon" className="h-8 w-8 text-accent hover:bg-accent/10" onClick={() => handleOpenDialog(expense)}>
+                      <Button variant="outline" size="icon" className="h-8 w-8 text-accent hover:bg-accent/10" onClick={() => handleOpenDialog(expense)} disabled={estaCerrado(expense.date)}>
                         <Edit className="h-4 w-4" />
                       </Button>
-                      <Button variant="outline" size="icon" className="h-8 w-8 text-destructive hover:bg-destructive/10" onClick={() => handleDelete(expense.id)}>
+                      <Button variant="outline" size="icon" className="h-8 w-8 text-destructive hover:bg-destructive/10" onClick={() => handleDelete(expense)} disabled={estaCerrado(expense.date)}>
                         <Trash2 className="h-4 w-4" />
                       </Button>
                     </div>
@@ -662,6 +798,33 @@ export default function Expenses() { // FIX: Export as default for lazy loading
                 />
                 {form.formState.errors.amount && <p className="col-span-4 text-right text-error text-sm">{form.formState.errors.amount.message}</p>}
               </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="moneda" className="text-right text-textSecondary">
+                  Moneda
+                </Label>
+                <Select onValueChange={(value) => form.setValue('moneda', value, { shouldValidate: true })} value={watchedMoneda}>
+                  <SelectTrigger id="moneda" className="col-span-3 rounded-lg border-border bg-background text-foreground focus:ring-primary focus:border-primary transition-all duration-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border rounded-lg shadow-lg">
+                    {MONEDAS.map(moneda => (
+                      <SelectItem key={moneda.code} value={moneda.code} className="hover:bg-muted/50 cursor-pointer">
+                        {moneda.code} - {moneda.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {watchedMoneda !== DEFAULT_MONEDA && (
+                  <p className="col-span-3 col-start-2 text-xs text-textSecondary">
+                    {isFetchingTipoCambio
+                      ? 'Consultando tipo de cambio...'
+                      : tipoCambioVigente
+                        ? `Se registrará en soles con T.C. venta ${tipoCambioVigente.venta.toFixed(3)} (${format(parseISO(tipoCambioVigente.fecha), 'dd/MM/yyyy')}).`
+                        : 'No hay tipo de cambio registrado para esta fecha.'}
+                  </p>
+                )}
+                {form.formState.errors.moneda && <p className="col-span-4 text-right text-error text-sm">{form.formState.errors.moneda.message}</p>}
+              </div>
               <div className="grid grid-cols-4 items-center gap-4">
                 <Label htmlFor="account" className="text-right text-textSecondary">
                   Cuenta
@@ -750,6 +913,7 @@ export default function Expenses() { // FIX: Export as default for lazy loading
                 <Input
                   id="numero_gasto"
                   {...form.register('numero_gasto')}
+                  placeholder="Se asigna al registrar"
                   className="col-span-3 rounded-lg border-border bg-background text-foreground focus:ring-primary focus:border-primary transition-all duration-300"
                   readOnly
                 />
@@ -811,6 +975,13 @@ export default function Expenses() { // FIX: Export as default for lazy loading
                   </FormItem>
                 )}
               />
+              <ComprobantesGastoField
+                archivos={archivosComprobante}
+                onArchivosChange={setArchivosComprobante}
+                gasto={editingExpense}
+                comprobantes={editingExpense ? comprobantesPorGasto.get(editingExpense.id) ?? [] : []}
+                onComprobanteEliminado={() => queryClient.invalidateQueries({ queryKey: ['gastoComprobantes'] })}
+              />
               <DialogFooter className="mt-4">
                 <Button type="button" variant="outline" onClick={handleCloseDialog} className="rounded-lg border-border hover:bg-muted/50 transition-all duration-300">
                   Cancelar
@@ -28,6 +28,12 @@ import { Command, CommandInput, CommandList, CommandEmpty, CommandGroup, Command
 import { useUser } from '@/context/UserContext';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea'; // Import Textarea
+import MontoOriginal from '@/components/ui-custom/MontoOriginal';
+import { convertirASoles, MontoEnSoles } from '@/lib/api/exchangeRatesApi';
+import { useTipoCambio } from '@/hooks/useTipoCambio';
+import { DEFAULT_MONEDA, MONEDAS } from '@/lib/constants';
+import { verificarPeriodosAbiertos } from '@/lib/api/periodosApi';
+import { usePeriodosCerrados } from '@/hooks/usePeriodosCerrados';
 
 // --- Form Schema for Ingreso ---
 const incomeFormSchema = z.object({
@@ -44,6 +50,7 @@ const incomeFormSchema = z.object({
       invalid_type_error: 'El monto debe ser un número.'
     })
   ),
+  moneda: z.string().min(1, { message: 'La moneda es requerida.' }),
   account: z.string().min(1, { message: 'La cuenta es requerida.' }),
   date: z.string().min(1, { message: 'La fecha es requerida.' }),
   transaction_type: z.enum(['Ingreso', 'Anulacion', 'Devolucion'], { message: 'Tipo de transacción inválido.' }),
@@ -127,6 +134,7 @@ type IncomeFormInputValues = {
   dni: string;
   full_name: string;
   amount: string; // Input field will hold a string
+  moneda: string;
   account: string;
   date: string;
   transaction_type: 'Ingreso' | 'Anulacion' | 'Devolucion';
@@ -137,8 +145,8 @@ type IncomeFormInputValues = {
   payment_observation_detail: string;
 };
 
-// Type for data passed to ConfirmationDialog (excludes the temporary flag)
-type ConfirmedIncomeData = Omit<IncomeFormValues, 'allow_duplicate_numero_operacion'>;
+// Type for data passed to ConfirmationDialog (excludes the temporary flag; amount already in PEN)
+type ConfirmedIncomeData = Omit<IncomeFormValues, 'allow_duplicate_numero_operacion'> & MontoEnSoles;
 
 
 // --- Column Definitions for Ingreso ---
@@ -172,6 +180,7 @@ function Income() {
 
   // --- Estados para la gestión de roles y números de recibo restringidos ---
   const { user, roles, loading: userLoading } = useUser();
+  const { estaCerrado } = usePeriodosCerrados();
   const [receiptNumbersMap, setReceiptNumbersMap] = useState<Map<number, string>>(new Map());
   const [fetchingRestrictedReceipts, setFetchingRestrictedReceipts] = useState(false);
   // --- Fin de estados ---
@@ -184,6 +193,7 @@ function Income() {
       dni: '',
       full_name: '',
       amount: '',
+      moneda: DEFAULT_MONEDA,
       account: '',
       date: format(new Date(), 'yyyy-MM-dd'),
       transaction_type: 'Ingreso',
@@ -198,6 +208,8 @@ function Income() {
   const { handleSubmit, register, setValue, watch, formState: { errors } } = form;
   const watchedDni = watch('dni');
   const watchedTransactionType = watch('transaction_type');
+  const watchedMoneda = watch('moneda');
+  const { data: tipoCambioVigente, isFetching: isFetchingTipoCambio } = useTipoCambio(watch('date'), watchedMoneda);
   const watchedAccount = watch('account');
   const watchedNumeroOperacion = watch('numeroOperacion');
   const watchedIsPaymentObserved = watch('is_payment_observed'); // Watch new field
@@ -339,7 +351,8 @@ function Income() {
         receipt_number: income.receipt_number || '',
         dni: income.dni || '',
         full_name: income.full_name || '',
-        amount: Math.abs(income.amount).toString(),
+        amount: Math.abs(income.monto_original ?? income.amount).toString(),
+        moneda: income.moneda || DEFAULT_MONEDA,
         account: income.account || '',
         date: income.date,
         transaction_type: income.transaction_type as IncomeFormInputValues['transaction_type'] || 'Ingreso',
@@ -355,6 +368,7 @@ function Income() {
         dni: '',
         full_name: '',
         amount: '',
+        moneda: DEFAULT_MONEDA,
         account: '',
         date: format(new Date(), 'yyyy-MM-dd'),
         transaction_type: 'Ingreso',
@@ -377,6 +391,7 @@ function Income() {
       dni: '',
       full_name: '',
       amount: '',
+      moneda: DEFAULT_MONEDA,
       account: '',
       date: format(new Date(), 'yyyy-MM-dd'),
       transaction_type: 'Ingreso',
@@ -430,10 +445,21 @@ function Income() {
       }
     }
 
+    // Amounts in foreign currency are stored in PEN using the exchange rate of the income date
+    let montoEnSoles: MontoEnSoles;
+    try {
+      montoEnSoles = await convertirASoles(parsedValues.amount, parsedValues.moneda, parsedValues.date);
+    } catch (conversionError) {
+      const message = conversionError instanceof Error ? conversionError.message : 'No se pudo obtener el tipo de cambio.';
+      form.setError('moneda', { type: 'manual', message });
+      toast.error('Tipo de cambio no disponible', { description: message });
+      return;
+    }
+
     // If all checks pass, proceed to confirmation
     // Omit allow_duplicate_numero_operacion before passing to confirmation dialog
     const { allow_duplicate_numero_operacion, ...dataToConfirmWithoutFlag } = parsedValues;
-    setDataToConfirm(dataToConfirmWithoutFlag);
+    setDataToConfirm({ ...dataToConfirmWithoutFlag, ...montoEnSoles });
     setIsConfirmDialogOpen(true);
   };
 
@@ -446,7 +472,8 @@ function Income() {
     const { is_payment_observed, payment_observation_detail, ...incomeData } = dataToConfirm; 
 
     try {
-      // 2. Insertar/Actualizar Ingreso
+      // 2. Insertar/Actualizar Ingreso (no se permite en meses cerrados, ni para la fecha anterior ni para la nueva)
+      await verificarPeriodosAbiertos(incomeData.date, editingIncome?.date);
       if (editingIncome) {
         // incomeData ya excluye los campos de observación
         await updateRecord(editingIncome.id, incomeData);
@@ -484,6 +511,7 @@ function Income() {
           dni: '',
           full_name: '',
           amount: '',
+          moneda: DEFAULT_MONEDA,
           account: '',
           date: format(new Date(), 'yyyy-MM-dd'),
           transaction_type: 'Ingreso',
@@ -503,9 +531,15 @@ function Income() {
     }
   };
 
-  const handleDelete = async (id: number) => {
+  const handleDelete = async (income: IngresoType) => {
     if (window.confirm('¿Estás seguro de que quieres eliminar este ingreso?')) {
-      await deleteRecord(id);
+      try {
+        await verificarPeriodosAbiertos(income.date);
+      } catch (periodoError) {
+        toast.error('No se puede eliminar el ingreso', { description: periodoError instanceof Error ? periodoError.message : undefined });
+        return;
+      }
+      await deleteRecord(income.id);
       toast.success('Ingreso eliminado', { description: 'El ingreso ha sido eliminado exitosamente.' });
     }
   };
@@ -608,6 +642,7 @@ function Income() {
               colorClass
             )}>
               {formattedAmount}
+              <MontoOriginal moneda={row.original.moneda} montoOriginal={row.original.monto_original} tipoCambio={row.original.tipo_cambio} />
             </div>
           );
         },
@@ -626,10 +661,11 @@ function Income() {
         enableHiding: false,
         cell: ({ row }: { row: Row<IngresoType> }) => {
           const income = row.original;
+          const cerrado = estaCerrado(income.date);
           return (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
-                <Button variant="ghost" className="h-8 w-8 p-0">
+                <Button variant="ghost" className="h-8 w-8 p-0" disabled={cerrado} title={cerrado ? 'Periodo cerrado' : undefined}>
                   <span className="sr-only">Abrir menú</span>
                   <Edit className="h-4 w-4 text-muted-foreground hover:text-foreground transition-colors" />
                 </Button>
@@ -638,7 +674,7 @@ function Income() {
                 <DropdownMenuItem onClick={() => handleOpenDialog(income)} className="hover:bg-muted/50 cursor-pointer">
                   Editar
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => handleDelete(income.id)} className="hover:bg-destructive/20 text-destructive cursor-pointer">
+                <DropdownMenuItem onClick={() => handleDelete(income)} className="hover:bg-destructive/20 text-destructive cursor-pointer">
                   Eliminar
                 </DropdownMenuItem>
               </DropdownMenuContent>
@@ -647,7 +683,7 @@ function Income() {
         },
       },
     ],
-    [roles, userLoading, fetchingRestrictedReceipts, receiptNumbersMap] // Dependencias para useMemo
+    [roles, userLoading, fetchingRestrictedReceipts, receiptNumbersMap, estaCerrado] // Dependencias para useMemo
   );
 
   // Custom global filter function for DataTable (now only handles text search)
@@ -835,8 +871,9 @@ function Income() {
                           <CalendarIcon className="h-3 w-3" /> {formattedDate}
                        </span>
                     </div>
-                    <div className={cn("text-xl font-bold", colorClass)}>
+                    <div className={cn("text-xl font-bold text-right", colorClass)}>
                       {formattedAmount}
+                      <MontoOriginal moneda={income.moneda} montoOriginal={income.monto_original} tipoCambio={income.tipo_cambio} />
                     </div>
                   </div>
 
@@ -883,10 +920,10 @@ function Income() {
                       </Badge>
                       
                       <div className="flex gap-2">
-                        <Button variant="outline" size="sm" className="h-8 px-3 text-accent hover:bg-accent/10 border-accent/30" onClick={() => handleOpenDialog(income)}>
+                        <Button variant="outline" size="sm" className="h-8 px-3 text-accent hover:bg-accent/10 border-accent/30" onClick={() => handleOpenDialog(income)} disabled={estaCerrado(income.date)}>
                           <Edit className="h-3.5 w-3.5 mr-1.5" /> Editar
                         </Button>
-                        <Button variant="outline" size="sm" className="h-8 w-8 p-0 text-destructive hover:bg-destructive/10 border-destructive/30" onClick={() => handleDelete(income.id)}>
+                        <Button variant="outline" size="sm" className="h-8 w-8 p-0 text-destructive hover:bg-destructive/10 border-destructive/30" onClick={() => handleDelete(income)} disabled={estaCerrado(income.date)}>
                           <Trash2 className="h-3.5 w-3.5" />
                         </Button>
                       </div>
@@ -976,6 +1013,33 @@ function Income() {
                 />
                 {errors.amount && <p className="col-span-4 text-right text-error text-sm">{errors.amount.message}</p>}
               </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="moneda" className="text-right text-textSecondary">
+                  Moneda
+                </Label>
+                <Select onValueChange={(value) => setValue('moneda', value, { shouldValidate: true })} value={watchedMoneda}>
+                  <SelectTrigger id="moneda" className="col-span-3 rounded-lg border-border bg-background text-foreground focus:ring-primary focus:border-primary transition-all duration-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border rounded-lg shadow-lg">
+                    {MONEDAS.map(moneda => (
+                      <SelectItem key={moneda.code} value={moneda.code} className="hover:bg-muted/50 cursor-pointer">
+                        {moneda.code} - {moneda.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {watchedMoneda !== DEFAULT_MONEDA && (
+                  <p className="col-span-3 col-start-2 text-xs text-textSecondary">
+                    {isFetchingTipoCambio
+                      ? 'Consultando tipo de cambio...'
+                      : tipoCambioVigente
+                        ? `Se registrará en soles con T.C. venta ${tipoCambioVigente.venta.toFixed(3)} (${format(parseISO(tipoCambioVigente.fecha), 'dd/MM/yyyy')}).`
+                        : 'No hay tipo de cambio registrado para esta fecha.'}
+                  </p>
+                )}
+                {errors.moneda && <p className="col-span-4 text-right text-error text-sm">{errors.moneda.message}</p>}
+              </div>
               <div className="grid grid-cols-4 items-center gap-4">
                 <Label htmlFor="account" className="text-right text-textSecondary">
                   Cuenta
@@ -3,7 +3,8 @@ import {
   ColumnDef,
   Row,
 } from '@tanstack/react-table';
-import { ArrowUpDown, PlusCircle, Loader2, Edit, Trash2, Search, ChevronDown, Check, FileText, ListChecks } from 'lucide-react'; // Added FileText and ListChecks icons
+import { useNavigate } from 'react-router-dom';
+import { ArrowUpDown, PlusCircle, Loader2, Edit, Trash2, Search, ChevronDown, Check, FileText, ListChecks, Receipt } from 'lucide-react'; // Added FileText and ListChecks icons
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -92,6 +93,9 @@ function People() {
 
   // State for data displayed in the table, pre-filtered by locality and status
   const [displaySocios, setDisplaySocios] = useState<SocioTitular[]>([]);
+  // Socios marcados para emitir boletas en lote; se limpia al cambiar los filtros.
+  const [rowSelection, setRowSelection] = useState({});
+  const navigate = useNavigate();
 
   // --- Nuevos estados para la configuración de exportación CSV ---
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
@@ -239,6 +243,7 @@ function People() {
       filtered = filtered.filter(socio => socio.isActive === (selectedStatusFilter === 'active'));
     }
     setDisplaySocios(filtered);
+    setRowSelection({});
   }, [socios, selectedLocalidadFilter, selectedStatusFilter]);
 
 
@@ -275,6 +280,30 @@ function People() {
 
   const columns: ColumnDef<SocioTitular>[] = useMemo(
     () => [
+      {
+        id: 'select',
+        header: ({ table }) => (
+          <Checkbox
+            checked={
+              table.getIsAllPageRowsSelected() ||
+              (table.getIsSomePageRowsSelected() && 'indeterminate')
+            }
+            onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+            aria-label="Seleccionar todos"
+            className="translate-y-[2px]"
+          />
+        ),
+        cell: ({ row }) => (
+          <Checkbox
+            checked={row.getIsSelected()}
+            onCheckedChange={(value) => row.toggleSelected(!!value)}
+            aria-label="Seleccionar fila"
+            className="translate-y-[2px]"
+          />
+        ),
+        enableSorting: false,
+        enableHiding: false,
+      },
       {
         accessorKey: 'dni',
         header: ({ column }) => (
@@ -823,6 +852,21 @@ function People() {
               globalFilter={globalFilter}
               setGlobalFilter={setGlobalFilter}
               customGlobalFilterFn={customGlobalFilterFn} // This now handles combined text search
+              rowSelection={rowSelection}
+              onRowSelectionChange={setRowSelection}
+              renderAboveTable={(tableInstance) => {
+                const seleccionados = tableInstance.getSelectedRowModel().rows.map(row => row.original.dni);
+                if (seleccionados.length === 0) return null;
+                return (
+                  <div className="flex items-center justify-between gap-4 mb-4 p-3 rounded-lg border border-border bg-surface">
+                    <span className="text-sm text-textSecondary">{seleccionados.length} socio(s) seleccionado(s)</span>
+                    <Button onClick={() => navigate('/invoicing/boletas-lote', { state: { dnis: seleccionados } })}>
+                      <Receipt className="mr-2 h-4 w-4" />
+                      Emitir Boletas
+                    </Button>
+                  </div>
+                );
+              }}
             />
           </div>
 
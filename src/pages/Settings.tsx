@@ -1,6 +1,11 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Settings as SettingsIcon } from 'lucide-react';
+import SeriesManager from '@/components/invoicing/SeriesManager';
+import ExchangeRatesManager from '@/components/custom/ExchangeRatesManager';
+import CorrelativosManager from '@/components/custom/CorrelativosManager';
+import PeriodosContablesManager from '@/components/custom/PeriodosContablesManager';
+import PlantillasCorreoManager from '@/components/custom/PlantillasCorreoManager';
 
 const SettingsPage: React.FC = () => {
   return (
@@ -19,6 +24,21 @@ const SettingsPage: React.FC = () => {
           </p>
         </CardContent>
       </Card>
+      <div className="mt-6">
+        <SeriesManager />
+      </div>
+      <div className="mt-6">
+        <CorrelativosManager />
+      </div>
+      <div className="mt-6">
+        <PeriodosContablesManager />
+      </div>
+      <div className="mt-6">
+        <ExchangeRatesManager />
+      </div>
+      <div className="mt-6">
+        <PlantillasCorreoManager />
+      </div>
     </div>
   );
 };
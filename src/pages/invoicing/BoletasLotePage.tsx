@@ -0,0 +1,374 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, FileSpreadsheet, Loader2, Play, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import SerieSelect from '@/components/invoicing/SerieSelect';
+import { useUser } from '@/context/UserContext';
+import { supabase } from '@/lib/supabaseClient';
+import { readSpreadsheetFile } from '@/lib/spreadsheet';
+import {
+  crearItemsLote,
+  emitirItemLote,
+  EstadoItemLote,
+  FilaLoteBoleta,
+  ItemLoteBoleta,
+  montoItemLote,
+  OpcionesLoteBoleta,
+  parseFilasLote,
+  validarItemLote,
+} from '@/lib/boletaBatch';
+import { EMISIONES_BOLETA_QUERY_KEY } from '@/hooks/useBoletaIssuanceQueue';
+import { BRANCH_ID, DEFAULT_SERIE_BOLETA } from '@/lib/constants';
+import { formatCurrency } from '@/lib/utils';
+
+// Socios elegidos en la tabla de socios (pages/People.tsx).
+export interface BoletasLoteLocationState {
+  dnis?: string[];
+}
+
+const ESTADO_LABELS: Record<EstadoItemLote, string> = {
+  validando: 'Validando…',
+  valido: 'Lista',
+  invalido: 'Inválida',
+  emitiendo: 'Emitiendo…',
+  emitida: 'Emitida',
+  incompleta: 'Incompleta',
+  error: 'Error',
+};
+
+const EstadoBadge = ({ estado }: { estado: EstadoItemLote }) => {
+  switch (estado) {
+    case 'emitida':
+      return <Badge variant="success">{ESTADO_LABELS[estado]}</Badge>;
+    case 'invalido':
+    case 'error':
+      return <Badge variant="destructive">{ESTADO_LABELS[estado]}</Badge>;
+    case 'incompleta':
+      return <Badge variant="outline" className="bg-warning/20 text-warning-foreground border-warning/40">{ESTADO_LABELS[estado]}</Badge>;
+    case 'valido':
+      return <Badge variant="outline">{ESTADO_LABELS[estado]}</Badge>;
+    default:
+      return <Badge variant="secondary">{ESTADO_LABELS[estado]}</Badge>;
+  }
+};
+
+// Filas que aún deben pasar por la API; las incompletas ya tienen número y solo repiten los pasos fallidos.
+const PENDIENTES: EstadoItemLote[] = ['valido', 'error', 'incompleta'];
+
+function BoletasLotePage() {
+  const { toast } = useToast();
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const location = useLocation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [items, setItems] = useState<ItemLoteBoleta[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [progreso, setProgreso] = useState({ actual: 0, total: 0 });
+
+  const [serie, setSerie] = useState(DEFAULT_SERIE_BOLETA);
+  const [branchId, setBranchId] = useState(BRANCH_ID);
+  const [fechaEmision, setFechaEmision] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [montoComun, setMontoComun] = useState('');
+  const [conceptoComun, setConceptoComun] = useState('');
+  const [crearIngreso, setCrearIngreso] = useState(true);
+  const [cuentaIngreso, setCuentaIngreso] = useState('Caja Principal');
+  const [accounts, setAccounts] = useState<{ name: string }[]>([]);
+
+  useEffect(() => {
+    const fetchAccounts = async () => {
+      const { data, error } = await supabase.from('cuentas').select('name');
+      if (error) {
+        console.error('Error fetching accounts:', error);
+        toast({ title: "Error", description: "No se pudieron cargar las cuentas.", variant: "destructive" });
+      } else {
+        setAccounts(data || []);
+      }
+    };
+    fetchAccounts();
+  }, [toast]);
+
+  const updateItem = (actualizado: ItemLoteBoleta) =>
+    setItems(prev => prev.map(item => (item.key === actualizado.key ? actualizado : item)));
+
+  const cargarFilas = useCallback(async (filas: FilaLoteBoleta[]) => {
+    const nuevos = crearItemsLote(filas);
+    setItems(nuevos);
+    setIsValidating(true);
+    try {
+      // Secuencial: un lote de cientos de socios no debe saturar la base de datos.
+      for (const item of nuevos) {
+        const validado = await validarItemLote(item);
+        setItems(prev => prev.map(actual => (actual.key === validado.key ? validado : actual)));
+      }
+    } finally {
+      setIsValidating(false);
+    }
+  }, []);
+
+  // Socios seleccionados desde la tabla de socios.
+  useEffect(() => {
+    const dnis = (location.state as BoletasLoteLocationState | null)?.dnis;
+    if (dnis && dnis.length > 0) {
+      setFileName(null);
+      setParseErrors([]);
+      cargarFilas(dnis.map(dni => ({ fila: null, dni, monto: null, concepto: null })));
+    }
+  }, [location.state, cargarFilas]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { filas, errors } = parseFilasLote(await readSpreadsheetFile(file));
+      setFileName(file.name);
+      setParseErrors(errors);
+      if (filas.length === 0) {
+        setItems([]);
+        toast({ title: "Archivo sin filas válidas", description: "Revise que la primera columna contenga los DNI de los socios.", variant: "warning" });
+        return;
+      }
+      await cargarFilas(filas);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast({ title: "Error al Leer el Archivo", description: errorMessage, variant: "destructive" });
+    }
+  };
+
+  const opciones: OpcionesLoteBoleta = {
+    serie,
+    branchId,
+    fechaEmision,
+    monto: Number(montoComun) || 0,
+    concepto: conceptoComun.trim(),
+    ingreso: crearIngreso ? { account: cuentaIngreso, numeroOperacion: null } : null,
+  };
+
+  const resumen = useMemo(() => {
+    const monto = (item: ItemLoteBoleta) => item.monto ?? (Number(montoComun) || 0);
+    const validos = items.filter(item => item.estado !== 'invalido' && item.estado !== 'validando');
+    return {
+      validos: validos.length,
+      invalidos: items.filter(item => item.estado === 'invalido').length,
+      emitidas: items.filter(item => item.estado === 'emitida').length,
+      pendientes: items.filter(item => PENDIENTES.includes(item.estado)),
+      total: validos.reduce((sum, item) => sum + monto(item), 0),
+      sinMonto: validos.filter(item => !(monto(item) > 0)).length,
+      sinConcepto: validos.filter(item => !item.concepto && !conceptoComun.trim()).length,
+    };
+  }, [items, montoComun, conceptoComun]);
+
+  const emitir = async (lote: ItemLoteBoleta[]) => {
+    if (resumen.sinMonto > 0 || resumen.sinConcepto > 0) {
+      toast({ title: "Faltan Datos", description: "Indique un monto y un concepto comunes para las filas que no los tienen.", variant: "warning" });
+      return;
+    }
+    if (!window.confirm(`Se emitirán ${lote.length} boleta(s) con la serie ${serie}. ¿Continuar?`)) return;
+
+    setIsIssuing(true);
+    setProgreso({ actual: 0, total: lote.length });
+    let emitidas = 0;
+    let conProblemas = 0;
+    try {
+      // Secuencial para respetar el orden de los correlativos de la serie.
+      for (const [index, item] of lote.entries()) {
+        updateItem({ ...item, estado: 'emitiendo', error: undefined });
+        const resultado = await emitirItemLote(item, opciones, user?.id ?? null);
+        updateItem(resultado);
+        if (resultado.estado === 'emitida') emitidas++; else conProblemas++;
+        setProgreso({ actual: index + 1, total: lote.length });
+      }
+    } finally {
+      setIsIssuing(false);
+      queryClient.invalidateQueries({ queryKey: EMISIONES_BOLETA_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['invoicingCalendar'] });
+    }
+
+    if (conProblemas === 0) {
+      toast({ title: "Lote Emitido", description: `Se emitieron ${emitidas} boleta(s).`, variant: "success" });
+    } else {
+      toast({ title: "Lote con Errores", description: `${emitidas} emitida(s), ${conProblemas} con errores. Puede reintentar las filas fallidas.`, variant: "warning" });
+    }
+  };
+
+  const handleRemove = (key: string) => setItems(prev => prev.filter(item => item.key !== key));
+
+  const busy = isValidating || isIssuing;
+
+  return (
+    <div className="space-y-6">
+      <CardHeader className="p-0">
+        <CardTitle className="text-2xl font-bold text-primary">Emisión de Boletas en Lote</CardTitle>
+        <CardDescription className="text-textSecondary">
+          Cargue un archivo CSV o XLSX con las columnas DNI, Monto y Concepto, o seleccione socios en la tabla de socios. Las boletas se emiten una por una; las filas con error se pueden reintentar sin duplicar comprobantes.
+        </CardDescription>
+      </CardHeader>
+
+      <Card className="bg-surface border-border shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-xl text-primary">Datos del Lote</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="space-y-2">
+              <Label>Serie</Label>
+              <SerieSelect
+                tipoDocumento="03"
+                value={serie}
+                fallbackSerie={DEFAULT_SERIE_BOLETA}
+                onChange={(nuevaSerie, nuevoBranchId) => {
+                  setSerie(nuevaSerie);
+                  setBranchId(nuevoBranchId);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lote-fecha">Fecha de Emisión</Label>
+              <Input id="lote-fecha" type="date" value={fechaEmision} onChange={e => setFechaEmision(e.target.value)} disabled={busy} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lote-monto">Monto Común (S/)</Label>
+              <Input id="lote-monto" type="number" min="0" step="0.01" placeholder="Para filas sin monto" value={montoComun} onChange={e => setMontoComun(e.target.value)} disabled={busy} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lote-concepto">Concepto Común</Label>
+              <Input id="lote-concepto" placeholder="Para filas sin concepto" value={conceptoComun} onChange={e => setConceptoComun(e.target.value)} disabled={busy} />
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center gap-4 rounded-md border p-4 bg-card/50">
+            <div className="flex items-center space-x-3">
+              <Checkbox id="lote-ingreso" checked={crearIngreso} onCheckedChange={checked => setCrearIngreso(checked === true)} disabled={busy} />
+              <Label htmlFor="lote-ingreso">Registrar un ingreso por cada boleta</Label>
+            </div>
+            {crearIngreso && (
+              <Select value={cuentaIngreso} onValueChange={setCuentaIngreso} disabled={busy}>
+                <SelectTrigger className="md:w-64">
+                  <SelectValue placeholder="Seleccione una cuenta" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map(acc => (
+                    <SelectItem key={acc.name} value={acc.name}>{acc.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <input ref={fileInputRef} type="file" accept=".csv,.txt,.xlsx" className="hidden" onChange={handleFileChange} />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+              <Upload className="mr-2 h-4 w-4" />
+              Cargar Archivo
+            </Button>
+            {fileName && (
+              <span className="flex items-center text-sm text-textSecondary">
+                <FileSpreadsheet className="mr-1 h-4 w-4" />
+                {fileName}
+              </span>
+            )}
+          </div>
+
+          {parseErrors.length > 0 && (
+            <div className="rounded-md border border-warning/40 bg-warning/10 p-3 text-sm">
+              <p className="flex items-center font-semibold text-warning mb-1">
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                {parseErrors.length} fila(s) del archivo se omitieron
+              </p>
+              <ul className="list-disc pl-6 text-textSecondary max-h-32 overflow-y-auto">
+                {parseErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {items.length > 0 && (
+        <Card className="bg-surface border-border shadow-lg">
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-xl text-primary">Vista Previa</CardTitle>
+              <CardDescription className="text-textSecondary">
+                {resumen.validos} boleta(s) por {formatCurrency(resumen.total, 'PEN')}
+                {resumen.invalidos > 0 && ` · ${resumen.invalidos} fila(s) inválida(s) no se emitirán`}
+                {resumen.emitidas > 0 && ` · ${resumen.emitidas} emitida(s)`}
+              </CardDescription>
+            </div>
+            <Button onClick={() => emitir(resumen.pendientes)} disabled={busy || resumen.pendientes.length === 0}>
+              {isIssuing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : resumen.emitidas > 0 ? <RotateCcw className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+              {resumen.emitidas > 0 ? `Reintentar Pendientes (${resumen.pendientes.length})` : `Emitir ${resumen.pendientes.length} Boleta(s)`}
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isIssuing && (
+              <div className="space-y-1">
+                <Progress value={progreso.total ? (progreso.actual / progreso.total) * 100 : 0} />
+                <p className="text-sm text-textSecondary">{progreso.actual} de {progreso.total} procesada(s)</p>
+              </div>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fila</TableHead>
+                  <TableHead>DNI</TableHead>
+                  <TableHead>Socio</TableHead>
+                  <TableHead>Concepto</TableHead>
+                  <TableHead className="text-right">Monto</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead>Boleta / Detalle</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.key}>
+                    <TableCell className="text-textSecondary">{item.fila ?? '—'}</TableCell>
+                    <TableCell className="font-mono">{item.dni}</TableCell>
+                    <TableCell>{item.cliente?.razon_social || '—'}</TableCell>
+                    <TableCell>{item.concepto || <span className="text-textSecondary">{conceptoComun || 'Sin concepto'}</span>}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatCurrency(montoItemLote(item, opciones), 'PEN')}</TableCell>
+                    <TableCell><EstadoBadge estado={item.estado} /></TableCell>
+                    <TableCell className="max-w-[280px] text-sm">
+                      {item.numeroCompleto && <span className="font-mono">{item.numeroCompleto}</span>}
+                      {item.error && <p className="text-error">{item.error}</p>}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {(item.estado === 'error' || item.estado === 'incompleta') && (
+                        <Button variant="ghost" size="icon" onClick={() => emitir([item])} disabled={busy} title="Reintentar esta fila">
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(item.estado === 'valido' || item.estado === 'invalido') && (
+                        <Button variant="ghost" size="icon" onClick={() => handleRemove(item.key)} disabled={busy} title="Quitar del lote">
+                          <Trash2 className="h-4 w-4 text-error" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default BoletasLotePage;
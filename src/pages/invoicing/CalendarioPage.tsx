@@ -0,0 +1,19 @@
+import InvoicingCalendar from '@/components/invoicing/InvoicingCalendar';
+import { CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+
+function CalendarioPage() {
+  return (
+    <div className="space-y-6">
+      <CardHeader className="p-0">
+        <CardTitle className="text-2xl font-bold text-primary">Calendario de Documentos Emitidos</CardTitle>
+        <CardDescription className="text-textSecondary">
+          Revise por día los comprobantes, notas, recibos y resúmenes del mes, y consulte su estado en SUNAT.
+        </CardDescription>
+      </CardHeader>
+
+      <InvoicingCalendar />
+    </div>
+  );
+}
+
+export default CalendarioPage;
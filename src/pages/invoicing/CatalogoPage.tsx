@@ -0,0 +1,263 @@
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, Pencil, PlusCircle, Search } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { fetchProductosServicios, saveProductoServicio } from '@/lib/api/invoicingApi';
+import { ProductoServicio, ProductoServicioFormSchema, ProductoServicioFormValues } from '@/lib/types/invoicing';
+import { DEFAULT_SUNAT_PRODUCT_CODE, TIPO_AFECTACION_IGV } from '@/lib/constants';
+
+const emptyProducto: ProductoServicioFormValues = {
+  codigo: '',
+  descripcion: '',
+  unidad: 'ZZ',
+  precio_con_igv: 0,
+  tip_afe_igv: '10',
+  codigo_producto_sunat: DEFAULT_SUNAT_PRODUCT_CODE,
+  activo: true,
+};
+
+function CatalogoPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<ProductoServicio | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: productos = [], isLoading } = useQuery<ProductoServicio[]>({
+    queryKey: ['productosServicios', 'todos'],
+    queryFn: () => fetchProductosServicios(),
+  });
+
+  const form = useForm<ProductoServicioFormValues>({
+    resolver: zodResolver(ProductoServicioFormSchema),
+    defaultValues: emptyProducto,
+  });
+
+  const filteredProductos = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return productos;
+    return productos.filter(p => p.codigo.toLowerCase().includes(term) || p.descripcion.toLowerCase().includes(term));
+  }, [productos, search]);
+
+  const openDialog = (producto: ProductoServicio | null) => {
+    setEditing(producto);
+    form.reset(producto ? {
+      codigo: producto.codigo,
+      descripcion: producto.descripcion,
+      unidad: producto.unidad,
+      precio_con_igv: producto.precio_con_igv,
+      tip_afe_igv: producto.tip_afe_igv,
+      codigo_producto_sunat: producto.codigo_producto_sunat || '',
+      activo: producto.activo,
+    } : emptyProducto);
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = async (values: ProductoServicioFormValues) => {
+    setIsSaving(true);
+    try {
+      await saveProductoServicio(values, editing?.id);
+      toast({ title: editing ? "Producto Actualizado" : "Producto Registrado", description: `${values.descripcion} quedó guardado en el catálogo.`, variant: "success" });
+      queryClient.invalidateQueries({ queryKey: ['productosServicios'] });
+      setIsDialogOpen(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast({ title: "Error al Guardar", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <CardHeader className="p-0">
+        <CardTitle className="text-2xl font-bold text-primary">Catálogo de Productos y Servicios</CardTitle>
+        <CardDescription className="text-textSecondary">
+          Administre los servicios que se venden con boleta. Al emitir, cada línea puede llenarse desde este catálogo.
+        </CardDescription>
+      </CardHeader>
+
+      <div className="flex flex-col md:flex-row gap-4 justify-between">
+        <div className="relative w-full md:w-[320px]">
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-textSecondary" />
+          <Input placeholder="Buscar por código o descripción..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-9" />
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Nuevo Producto/Servicio
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full rounded-lg" />
+          <Skeleton className="h-10 w-full rounded-lg" />
+          <Skeleton className="h-10 w-full rounded-lg" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Código</TableHead>
+              <TableHead>Descripción</TableHead>
+              <TableHead>Unidad</TableHead>
+              <TableHead className="text-right">Precio (con IGV)</TableHead>
+              <TableHead>Afectación IGV</TableHead>
+              <TableHead>Cód. SUNAT</TableHead>
+              <TableHead>Estado</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredProductos.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-textSecondary py-6">
+                  {productos.length === 0 ? 'El catálogo está vacío.' : 'No hay productos que coincidan con la búsqueda.'}
+                </TableCell>
+              </TableRow>
+            ) : filteredProductos.map(producto => (
+              <TableRow key={producto.id}>
+                <TableCell className="font-mono">{producto.codigo}</TableCell>
+                <TableCell>{producto.descripcion}</TableCell>
+                <TableCell>{producto.unidad}</TableCell>
+                <TableCell className="text-right font-semibold">S/ {producto.precio_con_igv.toFixed(2)}</TableCell>
+                <TableCell>{TIPO_AFECTACION_IGV.find(t => t.code === producto.tip_afe_igv)?.name || producto.tip_afe_igv}</TableCell>
+                <TableCell>{producto.codigo_producto_sunat || '—'}</TableCell>
+                <TableCell>
+                  <Badge variant={producto.activo ? 'success' : 'outline'}>{producto.activo ? 'Activo' : 'Inactivo'}</Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(producto)} title="Editar producto">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="bg-surface border-border">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Editar Producto/Servicio' : 'Nuevo Producto/Servicio'}</DialogTitle>
+            <DialogDescription>El precio se registra con IGV incluido, igual que en la boleta.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="codigo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código</FormLabel>
+                    <FormControl><Input placeholder="SERV002" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="unidad"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unidad</FormLabel>
+                    <FormControl><Input placeholder="NIU, ZZ" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="descripcion"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Descripción</FormLabel>
+                    <FormControl><Input placeholder="Medición de lote" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="precio_con_igv"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Precio Unitario (con IGV)</FormLabel>
+                    <FormControl><Input type="number" step="0.01" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tip_afe_igv"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Afectación IGV</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {TIPO_AFECTACION_IGV.map(type => (
+                          <SelectItem key={type.code} value={type.code}>{type.code} - {type.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="codigo_producto_sunat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código Producto SUNAT</FormLabel>
+                    <FormControl><Input {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="activo"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-3 self-end">
+                    <FormLabel>Activo</FormLabel>
+                    <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter className="col-span-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancelar</Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default CatalogoPage;
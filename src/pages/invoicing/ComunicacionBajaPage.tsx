@@ -0,0 +1,450 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CardHeader, CardTitle, CardDescription, Card, CardContent, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { Calendar as CalendarIcon, Loader2, Terminal, Send, CheckCircle, AlertTriangle, Search, FileX } from 'lucide-react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import {
+  fetchDocumentosParaBaja,
+  createComunicacionBaja,
+  sendComunicacionBajaToSunat,
+  saveComunicacionBajaResult,
+  fetchComunicacionesBaja,
+  checkComunicacionBajaStatus,
+  updateComunicacionBajaStatusInDb,
+} from '@/lib/api/invoicingApi';
+import { ComunicacionBaja, ComunicacionBajaData, ComunicacionBajaFormValues, ComunicacionBajaSchema, DocumentoBajaCandidato } from '@/lib/types/invoicing';
+import { BRANCH_ID, COMPANY_ID, PLAZO_COMUNICACION_BAJA_DIAS } from '@/lib/constants';
+import { useToast } from '@/components/ui/use-toast';
+import { Label } from '@/components/ui/label';
+import { DataTable } from '@/components/ui-custom/DataTable';
+import { getBajaColumns } from '@/components/invoicing/bajaColumns';
+import { Skeleton } from '@/components/ui/skeleton';
+
+// Consulta automática del ticket después del envío
+const POLL_INTERVAL_MS = 10000;
+const MAX_POLL_ATTEMPTS = 12;
+
+const isFinalStatus = (status: string | null | undefined) =>
+  ['aceptado', 'rechazado'].includes((status || '').toLowerCase());
+
+function ComunicacionBajaPage() {
+  const [allBajas, setAllBajas] = useState<ComunicacionBaja[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Estado para la selección de comprobantes
+  const [candidatos, setCandidatos] = useState<DocumentoBajaCandidato[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Estado para la creación y envío
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [bajaData, setBajaData] = useState<ComunicacionBajaData | null>(null);
+  const [finalMessage, setFinalMessage] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [pollingBaja, setPollingBaja] = useState<{ id: number; apiId: number } | null>(null);
+  const pollAttempts = useRef(0);
+
+  const { toast } = useToast();
+
+  const form = useForm<ComunicacionBajaFormValues>({
+    resolver: zodResolver(ComunicacionBajaSchema),
+    defaultValues: {
+      fecha_referencia: new Date().toISOString().split('T')[0],
+      motivo: '',
+    },
+  });
+
+  const fechaReferencia = form.watch('fecha_referencia');
+  const diasTranscurridos = fechaReferencia
+    ? differenceInCalendarDays(new Date(), new Date(fechaReferencia + 'T00:00:00'))
+    : 0;
+  const fueraDePlazo = diasTranscurridos > PLAZO_COMUNICACION_BAJA_DIAS;
+
+  const loadBajas = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await fetchComunicacionesBaja();
+      setAllBajas(data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido al cargar las bajas.';
+      setError(errorMessage);
+      toast({ variant: "destructive", title: "Error al Cargar", description: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadBajas();
+  }, [loadBajas]);
+
+  const handleStatusUpdate = useCallback((bajaId: number, newStatus: string) => {
+    setAllBajas(current =>
+      current.map(b => (b.id === bajaId ? { ...b, estado_sunat: newStatus } : b))
+    );
+  }, []);
+
+  // Consulta periódica del ticket de la última baja enviada hasta obtener un estado final.
+  useEffect(() => {
+    if (!pollingBaja) return;
+    pollAttempts.current = 0;
+
+    const intervalId = window.setInterval(async () => {
+      pollAttempts.current += 1;
+      try {
+        const newStatus = await checkComunicacionBajaStatus(pollingBaja.apiId);
+        if (newStatus && isFinalStatus(newStatus)) {
+          await updateComunicacionBajaStatusInDb(pollingBaja.id, newStatus);
+          handleStatusUpdate(pollingBaja.id, newStatus);
+          setPollingBaja(null);
+          toast({
+            title: newStatus.toLowerCase() === 'aceptado' ? "Baja Aceptada" : "Baja Rechazada",
+            description: newStatus.toLowerCase() === 'aceptado'
+              ? "Los comprobantes fueron anulados y sus ingresos marcados como Anulación."
+              : "SUNAT rechazó la comunicación de baja. Revise el ticket.",
+            variant: newStatus.toLowerCase() === 'aceptado' ? "success" : "destructive",
+          });
+          return;
+        }
+      } catch (pollError) {
+        console.error("Error al consultar el ticket de la baja:", pollError);
+      }
+
+      if (pollAttempts.current >= MAX_POLL_ATTEMPTS) {
+        setPollingBaja(null);
+        toast({
+          title: "Ticket Pendiente",
+          description: "SUNAT aún no responde. Consulte el ticket más tarde desde el historial.",
+          variant: "warning",
+        });
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => window.clearInterval(intervalId);
+  }, [pollingBaja, handleStatusUpdate, toast]);
+
+  const handleSearchDocuments = async () => {
+    const fecha = form.getValues('fecha_referencia');
+    setIsSearching(true);
+    setSelected(new Set());
+    setBajaData(null);
+    setFinalMessage(null);
+    try {
+      const data = await fetchDocumentosParaBaja(fecha);
+      setCandidatos(data);
+      if (data.length === 0) {
+        toast({ title: "Sin Comprobantes", description: "No hay comprobantes disponibles para dar de baja en esa fecha.", variant: "warning" });
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
+      toast({ variant: "destructive", title: "Error de Búsqueda", description: errorMessage });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const toggleSelected = (serieNumero: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) next.add(serieNumero);
+      else next.delete(serieNumero);
+      return next;
+    });
+  };
+
+  const selectedDocuments = useMemo(
+    () => candidatos.filter(doc => selected.has(doc.serie_numero)),
+    [candidatos, selected]
+  );
+
+  const handleCreateBaja = async (values: ComunicacionBajaFormValues) => {
+    if (selectedDocuments.length === 0) {
+      toast({ title: "Sin Selección", description: "Seleccione al menos un comprobante.", variant: "warning" });
+      return;
+    }
+
+    setIsCreating(true);
+    setBajaData(null);
+    setFinalMessage(null);
+    try {
+      const response = await createComunicacionBaja({
+        company_id: COMPANY_ID,
+        branch_id: BRANCH_ID,
+        fecha_referencia: values.fecha_referencia,
+        detalles: selectedDocuments.map(doc => {
+          const [serie, correlativo] = doc.serie_numero.split('-');
+          return {
+            tipo_documento: doc.tipo === 'factura' ? '01' : '03',
+            serie,
+            correlativo,
+            motivo: values.motivo,
+          };
+        }),
+      });
+      if (response.success) {
+        setBajaData(response.data);
+        toast({
+          title: "Comunicación de Baja Generada",
+          description: "Revise los comprobantes incluidos y proceda a enviarla.",
+          variant: "default",
+        });
+      } else {
+        throw new Error(response.message);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
+      toast({ title: "Error al Generar la Baja", description: errorMessage, variant: "destructive" });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSendBaja = async () => {
+    if (!bajaData) return;
+    setIsSending(true);
+    setFinalMessage(null);
+    try {
+      const response = await sendComunicacionBajaToSunat(bajaData.id);
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+
+      const bajaId = await saveComunicacionBajaResult(response.data, form.getValues('motivo'), selectedDocuments);
+      toast({
+        title: "Éxito",
+        description: "Comunicación de baja enviada a SUNAT y registrada en la base de datos.",
+        className: "bg-success text-white",
+      });
+      setFinalMessage({ type: 'success', message: `Comunicación de baja enviada. Ticket: ${response.data.ticket || 'pendiente'}` });
+
+      if (isFinalStatus(response.data.estado_sunat)) {
+        await updateComunicacionBajaStatusInDb(bajaId, response.data.estado_sunat);
+      } else {
+        setPollingBaja({ id: bajaId, apiId: response.data.id });
+      }
+
+      setBajaData(null);
+      setCandidatos(current => current.filter(doc => !selected.has(doc.serie_numero)));
+      setSelected(new Set());
+      await loadBajas();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
+      toast({ title: "Error al Enviar a SUNAT", description: errorMessage, variant: "destructive" });
+      setFinalMessage({ type: 'error', message: `Error al enviar a SUNAT: ${errorMessage}` });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const columns = useMemo(() => getBajaColumns(handleStatusUpdate), [handleStatusUpdate]);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <CardHeader className="p-0">
+        <CardTitle className="text-2xl font-bold text-primary">Comunicación de Baja</CardTitle>
+        <CardDescription className="text-textSecondary">
+          Seleccione boletas o facturas emitidas en una misma fecha para anularlas ante la SUNAT sin emitir una nota de crédito.
+        </CardDescription>
+      </CardHeader>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleCreateBaja)} className="space-y-6">
+          <div className="flex flex-col md:flex-row items-start md:items-end justify-between gap-4 p-4 border border-border rounded-lg bg-card/50">
+            <FormField
+              control={form.control}
+              name="fecha_referencia"
+              render={({ field }) => (
+                <FormItem className="flex flex-col gap-1.5">
+                  <Label className="text-sm font-medium text-textSecondary">
+                    Fecha de Emisión de los Comprobantes
+                  </Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant={"outline"}
+                          className={cn(
+                            "w-[280px] justify-start text-left font-normal",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          <CalendarIcon className="mr-2 h-4 w-4" />
+                          {field.value ? format(new Date(field.value + 'T00:00:00'), "PPP", { locale: es }) : <span>Seleccione una fecha</span>}
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0 bg-card border-border">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ? new Date(field.value + 'T00:00:00') : undefined}
+                        onSelect={(date) => {
+                          field.onChange(date ? format(date, 'yyyy-MM-dd') : '');
+                          setCandidatos([]);
+                          setSelected(new Set());
+                        }}
+                        initialFocus
+                        locale={es}
+                        toDate={new Date()}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="motivo"
+              render={({ field }) => (
+                <FormItem className="flex flex-col gap-1.5 flex-1">
+                  <Label className="text-sm font-medium text-textSecondary">Motivo de la Baja</Label>
+                  <FormControl>
+                    <Input placeholder="Ej: Error en los datos del cliente" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="outline" onClick={handleSearchDocuments} disabled={isSearching}>
+              {isSearching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+              Buscar Comprobantes
+            </Button>
+          </div>
+
+          {fueraDePlazo && (
+            <Alert variant="destructive" className="bg-warning/10 border-warning/30 text-warning">
+              <AlertTriangle className="h-4 w-4 !text-warning" />
+              <AlertTitle>Fuera de Plazo</AlertTitle>
+              <AlertDescription>
+                Han pasado {diasTranscurridos} días desde la emisión. SUNAT solo acepta bajas dentro de los {PLAZO_COMUNICACION_BAJA_DIAS} días calendario; para estos comprobantes emita una nota de crédito.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {candidatos.length > 0 && (
+            <Card className="border-border shadow-lg animate-fade-in">
+              <CardContent className="pt-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={selected.size === candidatos.length}
+                          onCheckedChange={(checked) =>
+                            setSelected(checked ? new Set(candidatos.map(doc => doc.serie_numero)) : new Set())
+                          }
+                        />
+                      </TableHead>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Comprobante</TableHead>
+                      <TableHead>Cliente</TableHead>
+                      <TableHead className="text-right">Monto</TableHead>
+                      <TableHead>Estado SUNAT</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidatos.map(doc => (
+                      <TableRow key={doc.serie_numero}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(doc.serie_numero)}
+                            onCheckedChange={(checked) => toggleSelected(doc.serie_numero, !!checked)}
+                          />
+                        </TableCell>
+                        <TableCell className="capitalize">{doc.tipo}</TableCell>
+                        <TableCell className="font-medium">{doc.serie_numero}</TableCell>
+                        <TableCell>
+                          <div>{doc.cliente_razon_social}</div>
+                          <div className="text-xs text-textSecondary">{doc.cliente_numero_documento}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{doc.moneda} {doc.monto_total.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{doc.estado_sunat || 'Sin estado'}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                <span className="text-sm text-textSecondary">{selected.size} comprobante(s) seleccionado(s)</span>
+                <Button type="submit" disabled={isCreating || !!bajaData || selected.size === 0 || fueraDePlazo}>
+                  {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileX className="mr-2 h-4 w-4" />}
+                  Generar Comunicación de Baja
+                </Button>
+              </CardFooter>
+            </Card>
+          )}
+        </form>
+      </Form>
+
+      {bajaData && (
+        <Card className="mt-6 border-primary shadow-lg animate-fade-in">
+          <CardContent className="pt-6 space-y-2">
+            <p className="text-lg font-semibold">{bajaData.numero_completo}</p>
+            <p className="text-sm text-textSecondary">
+              {selectedDocuments.length} comprobante(s): {selectedDocuments.map(doc => doc.serie_numero).join(', ')}
+            </p>
+          </CardContent>
+          <CardFooter className="flex justify-end">
+            <Button onClick={handleSendBaja} disabled={isSending} variant="default" className="bg-success hover:bg-success/90">
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Enviar Baja a SUNAT
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {finalMessage && (
+        <Alert variant={finalMessage.type === 'success' ? 'default' : 'destructive'} className={`mt-6 ${finalMessage.type === 'success' ? 'bg-success/10 border-success' : ''}`}>
+          {finalMessage.type === 'success' ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+          <AlertTitle>{finalMessage.type === 'success' ? 'Operación Completada' : 'Ocurrió un Problema'}</AlertTitle>
+          <AlertDescription>
+            {finalMessage.message}
+            {pollingBaja && finalMessage.type === 'success' && (
+              <span className="flex items-center mt-2 text-textSecondary">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Consultando el ticket en SUNAT...
+              </span>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-4">
+        <h3 className="text-xl font-semibold tracking-tight">Historial de Comunicaciones de Baja</h3>
+        {error && !isLoading && (
+          <Alert variant="destructive" className="bg-error/10 border-error/30 text-error-foreground">
+            <Terminal className="h-4 w-4" />
+            <AlertTitle>Error al Cargar Bajas</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {isLoading ? (
+           <div className="space-y-4">
+             <Skeleton className="h-12 w-full rounded-lg" />
+             <Skeleton className="h-48 w-full rounded-xl" />
+           </div>
+        ) : (
+          <DataTable columns={columns} data={allBajas} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ComunicacionBajaPage;
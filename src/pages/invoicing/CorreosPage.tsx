@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, MailCheck, RefreshCw, RotateCcw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import EstadoCorreoBadge from '@/components/invoicing/EstadoCorreoBadge';
+import { CorreoSaliente, enviarCorreo, fetchCorreosSalientes, TIPOS_DOCUMENTO_CORREO } from '@/lib/api/correosApi';
+
+/**
+ * Bandeja de salida de los correos con comprobantes. Los que fallaron se pueden reenviar;
+ * el reenvío usa el PDF que quedó guardado en el almacenamiento.
+ */
+function CorreosPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [soloPendientes, setSoloPendientes] = useState(true);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const { data: correos = [], isLoading, isFetching, refetch } = useQuery<CorreoSaliente[]>({
+    queryKey: ['correosSalientes', soloPendientes],
+    queryFn: () => fetchCorreosSalientes(soloPendientes),
+  });
+
+  const handleRetry = async (correo: CorreoSaliente) => {
+    setProcessingId(correo.id);
+    try {
+      const result = await enviarCorreo(correo);
+      if (result.estado === 'enviado') {
+        toast({ title: "Correo Enviado", description: `${result.documento} se envió a ${result.destinatario}.`, variant: "success" });
+      } else {
+        toast({ title: "Correo No Enviado", description: result.ultimo_error || 'El transporte rechazó el mensaje.', variant: "warning" });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast({ title: "Error al Reintentar", description: errorMessage, variant: "destructive" });
+    } finally {
+      setProcessingId(null);
+      queryClient.invalidateQueries({ queryKey: ['correosSalientes'] });
+      queryClient.invalidateQueries({ queryKey: ['correosSocio'] });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <CardHeader className="p-0 flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-2xl font-bold text-primary">Correos de Comprobantes</CardTitle>
+          <CardDescription className="text-textSecondary">
+            Boletas, notas de crédito y recibos enviados por correo. Los envíos con error se pueden reintentar sin volver a redactarlos.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Checkbox id="correos-pendientes" checked={soloPendientes} onCheckedChange={(checked) => setSoloPendientes(checked === true)} />
+            <Label htmlFor="correos-pendientes">Solo no enviados</Label>
+          </div>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            Actualizar
+          </Button>
+        </div>
+      </CardHeader>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full rounded-lg" />
+          <Skeleton className="h-10 w-full rounded-lg" />
+        </div>
+      ) : correos.length === 0 ? (
+        <div className="flex items-center justify-center py-10 text-success">
+          <MailCheck className="h-5 w-5 mr-2" />
+          {soloPendientes ? 'No hay correos pendientes de envío.' : 'Aún no se han enviado comprobantes por correo.'}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Fecha</TableHead>
+              <TableHead>Comprobante</TableHead>
+              <TableHead>Destinatario</TableHead>
+              <TableHead>Asunto</TableHead>
+              <TableHead>Estado</TableHead>
+              <TableHead>Último Error</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {correos.map(correo => (
+              <TableRow key={correo.id}>
+                <TableCell className="whitespace-nowrap">{format(parseISO(correo.enviado_at || correo.created_at), 'dd/MM/yyyy HH:mm', { locale: es })}</TableCell>
+                <TableCell>
+                  <span className="font-mono">{correo.documento}</span>
+                  <span className="block text-xs text-textSecondary">{TIPOS_DOCUMENTO_CORREO.find(t => t.code === correo.tipo_documento)?.name}</span>
+                </TableCell>
+                <TableCell>{correo.destinatario}</TableCell>
+                <TableCell className="max-w-[240px] truncate" title={correo.asunto}>{correo.asunto}</TableCell>
+                <TableCell><EstadoCorreoBadge correo={correo} /></TableCell>
+                <TableCell className="max-w-[280px] text-sm text-error">{correo.estado === 'enviado' ? '—' : correo.ultimo_error || '—'}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {correo.estado !== 'enviado' && (
+                    <Button variant="ghost" size="icon" onClick={() => handleRetry(correo)} disabled={processingId !== null} title="Reintentar envío">
+                      {processingId === correo.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export default CorreosPage;
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CheckCircle2, Loader2, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { fetchEmisionesBoletaIncompletas, updateEmisionBoleta } from '@/lib/api/invoicingApi';
+import { PASO_EMISION_LABELS, PASOS_EMISION_BOLETA, processEmisionBoleta } from '@/lib/boletaIssuanceQueue';
+import { EMISIONES_BOLETA_QUERY_KEY } from '@/hooks/useBoletaIssuanceQueue';
+import { EmisionBoleta, PasoEmisionState } from '@/lib/types/invoicing';
+import { formatCurrency } from '@/lib/utils';
+
+const PasoBadge = ({ label, paso }: { label: string; paso: PasoEmisionState }) => {
+  const title = paso.error ? `${label}: ${paso.error}` : `${label} (${paso.intentos} intento(s))`;
+  switch (paso.estado) {
+    case 'completado':
+      return <Badge variant="success" title={title}>{label}</Badge>;
+    case 'error':
+      return <Badge variant="destructive" title={title}>{label}</Badge>;
+    case 'en_curso':
+      return <Badge variant="secondary" title={title}>{label}…</Badge>;
+    case 'omitido':
+      return <Badge variant="outline" className="opacity-50 line-through" title="No aplica">{label}</Badge>;
+    default:
+      return <Badge variant="outline" title={title}>{label}</Badge>;
+  }
+};
+
+function EmisionesPendientesPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const { data: emisiones = [], isLoading, isFetching, refetch } = useQuery<EmisionBoleta[]>({
+    queryKey: EMISIONES_BOLETA_QUERY_KEY,
+    queryFn: () => fetchEmisionesBoletaIncompletas(),
+  });
+
+  const handleRetry = async (emision: EmisionBoleta) => {
+    setProcessingId(emision.id);
+    try {
+      const result = await processEmisionBoleta(emision);
+      if (result.estado === 'completada') {
+        toast({ title: "Emisión Completada", description: `${result.numero_completo} terminó todos sus pasos.`, variant: "success" });
+      } else {
+        toast({ title: "Emisión Aún Incompleta", description: result.ultimo_error || 'Quedan pasos con error.', variant: "warning" });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast({ title: "Error al Reintentar", description: errorMessage, variant: "destructive" });
+    } finally {
+      setProcessingId(null);
+      queryClient.invalidateQueries({ queryKey: EMISIONES_BOLETA_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['invoicingCalendar'] });
+    }
+  };
+
+  const handleDiscard = async (emision: EmisionBoleta) => {
+    const emitida = emision.pasos.emision.estado === 'completado';
+    const mensaje = emitida
+      ? `La boleta ${emision.numero_completo} ya fue emitida en SUNAT. Descartar solo quita la operación de esta lista; los pasos pendientes no se realizarán. ¿Continuar?`
+      : '¿Descartar esta emisión? La boleta no llegó a emitirse.';
+    if (!window.confirm(mensaje)) return;
+
+    try {
+      await updateEmisionBoleta(emision.id, { estado: 'descartada' });
+      queryClient.invalidateQueries({ queryKey: EMISIONES_BOLETA_QUERY_KEY });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Ocurrió un error desconocido.';
+      toast({ title: "Error al Descartar", description: errorMessage, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <CardHeader className="p-0 flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-2xl font-bold text-primary">Emisiones de Boletas Pendientes</CardTitle>
+          <CardDescription className="text-textSecondary">
+            Operaciones de emisión que no completaron todos sus pasos. Reintentar continúa desde el paso pendiente sin volver a emitir la boleta.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          Actualizar
+        </Button>
+      </CardHeader>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full rounded-lg" />
+          <Skeleton className="h-10 w-full rounded-lg" />
+        </div>
+      ) : emisiones.length === 0 ? (
+        <div className="flex items-center justify-center py-10 text-success">
+          <CheckCircle2 className="h-5 w-5 mr-2" />
+          No hay emisiones pendientes.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Iniciada</TableHead>
+              <TableHead>Comprobante</TableHead>
+              <TableHead>Cliente</TableHead>
+              <TableHead className="text-right">Monto</TableHead>
+              <TableHead>Pasos</TableHead>
+              <TableHead>Último Error</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {emisiones.map(emision => (
+              <TableRow key={emision.id}>
+                <TableCell className="whitespace-nowrap">{format(parseISO(emision.created_at), 'dd/MM/yyyy HH:mm', { locale: es })}</TableCell>
+                <TableCell className="font-mono">{emision.numero_completo || <span className="text-textSecondary">Sin emitir ({emision.payload.serie})</span>}</TableCell>
+                <TableCell>{emision.payload.client.razon_social}</TableCell>
+                <TableCell className="text-right font-semibold">{formatCurrency(emision.contexto.montoTotal, emision.payload.moneda)}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {PASOS_EMISION_BOLETA.map(paso => (
+                      <PasoBadge key={paso} label={PASO_EMISION_LABELS[paso]} paso={emision.pasos[paso]} />
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="max-w-[280px] text-sm text-error">
+                  {emision.ultimo_error || (emision.estado === 'en_proceso' ? <span className="text-textSecondary">Interrumpida</span> : '—')}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="icon" onClick={() => handleRetry(emision)} disabled={processingId !== null} title="Reintentar pasos pendientes">
+                    {processingId === emision.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDiscard(emision)} disabled={processingId !== null} title="Descartar">
+                    <Trash2 className="h-4 w-4 text-error" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export default EmisionesPendientesPage;
@@ -0,0 +1,19 @@
+import FacturaForm from '@/components/invoicing/FacturaForm';
+import { CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+
+function FacturasPage() {
+  return (
+    <div className="space-y-6">
+      <CardHeader className="p-0">
+        <CardTitle className="text-2xl font-bold text-primary">Emisión de Factura Electrónica</CardTitle>
+        <CardDescription className="text-textSecondary">
+          Ingrese el RUC del cliente, los detalles de la venta y las condiciones de pago para generar y enviar la factura a la SUNAT.
+        </CardDescription>
+      </CardHeader>
+      
+      <FacturaForm />
+    </div>
+  );
+}
+
+export default FacturasPage;
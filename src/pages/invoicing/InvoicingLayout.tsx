@@ -1,19 +1,30 @@
 import { Outlet, useLocation, useNavigate } from 'react-router-dom';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
-import { FileText, Receipt, NotebookPen, ClipboardList, Wallet } from 'lucide-react'; // Importar Wallet
+import { Badge } from '@/components/ui/badge';
+import { useRejectedDocumentsCount } from '@/hooks/useSunatReconciliation';
+import { FileText, Receipt, NotebookPen, ClipboardList, Wallet, FileX, FilePlus, CalendarDays, AlertTriangle, Package, ListRestart, Layers, BookOpen, Mail } from 'lucide-react'; // Importar Wallet
 
 const invoicingTabs = [
   { id: 'boletas', label: 'Emitir Boleta', icon: Receipt, path: '/invoicing/boletas' },
+  { id: 'boletas-lote', label: 'Boletas en Lote', icon: Layers, path: '/invoicing/boletas-lote' },
   { id: 'recibos', label: 'Generar Recibo de Pago', icon: Wallet, path: '/invoicing/recibos' }, // <-- NUEVA PESTAÑA
-  { id: 'resumen-diario', label: 'Resúmenes y Bajas', icon: ClipboardList, path: '/invoicing/resumen-diario' },
-  { id: 'facturas', label: 'Emitir Factura', icon: FileText, path: '/invoicing/facturas', disabled: true },
+  { id: 'resumen-diario', label: 'Resúmenes Diarios', icon: ClipboardList, path: '/invoicing/resumen-diario' },
+  { id: 'bajas', label: 'Comunicación de Baja', icon: FileX, path: '/invoicing/bajas' },
+  { id: 'facturas', label: 'Emitir Factura', icon: FileText, path: '/invoicing/facturas' },
   { id: 'notas-credito', label: 'Notas de Crédito', icon: NotebookPen, path: '/invoicing/notas-credito', disabled: false },
+  { id: 'notas-debito', label: 'Notas de Débito', icon: FilePlus, path: '/invoicing/notas-debito' },
+  { id: 'calendario', label: 'Calendario', icon: CalendarDays, path: '/invoicing/calendario' },
+  { id: 'catalogo', label: 'Catálogo', icon: Package, path: '/invoicing/catalogo' },
+  { id: 'emisiones', label: 'Emisiones', icon: ListRestart, path: '/invoicing/emisiones' },
+  { id: 'registro-ventas', label: 'Registro de Ventas', icon: BookOpen, path: '/invoicing/registro-ventas' },
+  { id: 'correos', label: 'Correos', icon: Mail, path: '/invoicing/correos' },
 ];
 
 function InvoicingLayout() {
   const location = useLocation();
   const navigate = useNavigate();
+  const { data: rejectedCount = 0 } = useRejectedDocumentsCount();
 
   // Determine the active tab based on the current path
   const activeTab = invoicingTabs.find(tab => location.pathname.startsWith(tab.path))?.id || 'boletas';
@@ -27,10 +38,23 @@ function InvoicingLayout() {
 
   return (
     <div className="space-y-6">
-      <h2 className="text-3xl font-extrabold text-foreground border-b border-border pb-2">Gestión de Facturación Electrónica</h2>
+      <div className="flex items-center justify-between gap-4 border-b border-border pb-2">
+        <h2 className="text-3xl font-extrabold text-foreground">Gestión de Facturación Electrónica</h2>
+        {rejectedCount > 0 && (
+          <Badge
+            variant="destructive"
+            className="cursor-pointer flex items-center gap-1 text-sm"
+            onClick={() => navigate('/invoicing/calendario')}
+            title="Ver documentos en el calendario de facturación"
+          >
+            <AlertTriangle className="h-4 w-4" />
+            {rejectedCount} rechazado{rejectedCount === 1 ? '' : 's'} por SUNAT
+          </Badge>
+        )}
+      </div>
       
       <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-        <TabsList className="grid w-full md:w-auto grid-cols-2 lg:grid-cols-5 bg-surface border border-border p-1 rounded-xl shadow-lg">
+        <TabsList className="grid w-full md:w-auto grid-cols-2 lg:grid-cols-[repeat(13,minmax(0,1fr))] bg-surface border border-border p-1 rounded-xl shadow-lg">
           {invoicingTabs.map((tab) => (
             <TabsTrigger 
               key={tab.id} 
@@ -0,0 +1,19 @@
+import NotaDebitoForm from '@/components/invoicing/NotaDebitoForm';
+import { CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+
+function NotasDebitoPage() {
+  return (
+    <div className="space-y-6">
+      <CardHeader className="p-0">
+        <CardTitle className="text-2xl font-bold text-primary">Emisión de Nota de Débito Electrónica</CardTitle>
+        <CardDescription className="text-textSecondary">
+          Busque el comprobante a modificar, seleccione el motivo y emita la nota de débito por intereses, penalidades u otros cargos.
+        </CardDescription>
+      </CardHeader>
+      
+      <NotaDebitoForm />
+    </div>
+  );
+}
+
+export default NotasDebitoPage;
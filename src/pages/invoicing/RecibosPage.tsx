@@ -1,20 +1,30 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Loader2, Search, Download, FileText } from 'lucide-react';
+import { Loader2, Search, Download, FileText, Printer, X, Mail } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form'; // FIX: Added FormDescription
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
 import { ReciboPagoFormSchema, ReciboPagoFormValues } from '@/lib/types/invoicing';
-import { fetchClientByDocument, fetchNextReceiptCorrelative, createIncomeFromBoleta, saveReceiptPdfToSupabase } from '@/lib/api/invoicingApi';
-import { Client } from '@/lib/types/invoicing';
+import { fetchClientByDocument, createIncomeFromBoleta, saveReceiptPdfToSupabase, registerReciboPago } from '@/lib/api/invoicingApi';
+import { Client, ReciboEmitido } from '@/lib/types/invoicing';
 import { TablesInsert } from '@/lib/database.types';
 import { format } from 'date-fns';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { supabase } from '@/lib/supabaseClient';
+import type { ReceiptData } from '@/lib/receiptPdfGenerator';
+import { downloadPdfBlob } from '@/lib/printing';
+import { useFormatoImpresion } from '@/hooks/useFormatoImpresion';
+import FormatoImpresionSelect from '@/components/invoicing/FormatoImpresionSelect';
+import PrintPreviewDialog from '@/components/invoicing/PrintPreviewDialog';
+import RecibosEmitidos from '@/components/invoicing/RecibosEmitidos';
+import EnviarCorreoDialog from '@/components/invoicing/EnviarCorreoDialog';
+import { confirmarCorrelativo, CorrelativoReservado, liberarCorrelativo, reservarCorrelativo } from '@/lib/api/correlativosApi';
+import { FAMILIA_CORRELATIVO_RECIBO } from '@/lib/constants';
 
 const PAYMENT_METHODS = [
   { value: 'BBVA Empresa', label: 'BBVA Empresa' },
@@ -24,10 +34,20 @@ const PAYMENT_METHODS = [
 
 function RecibosPage() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isSearching, setIsSearching] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Número reservado para el recibo en curso; solo se conoce una vez asignado por la base de datos.
   const [correlative, setCorrelative] = useState('');
   const [clientData, setClientData] = useState<Client | null>(null);
+  // Último recibo emitido: el PDF A4 es el que quedó archivado en los documentos del socio.
+  const [lastRecibo, setLastRecibo] = useState<{ data: ReceiptData; pdfA4: Blob; socioId: string | null; email: string } | null>(null);
+  const [isCorreoOpen, setIsCorreoOpen] = useState(false);
+  const { formato } = useFormatoImpresion();
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [previewPdf, setPreviewPdf] = useState<Blob | null>(null);
+  // Recibo anulado que corrige el que se está emitiendo.
+  const [reemplazaA, setReemplazaA] = useState<string | null>(null);
 
   const form = useForm<ReciboPagoFormValues>({
     resolver: zodResolver(ReciboPagoFormSchema),
@@ -50,28 +70,8 @@ function RecibosPage() {
   const metodoPago = form.watch('metodo_pago');
   const watchedIsPaymentObserved = form.watch('is_payment_observed');
 
-  const loadCorrelative = async () => {
-    try {
-        const nextCorrelative = await fetchNextReceiptCorrelative();
-        setCorrelative(nextCorrelative);
-        return nextCorrelative;
-    } catch (error) {
-        console.error(error);
-        toast({
-          title: "Error de Correlativo",
-          description: "No se pudo obtener el siguiente número de recibo (R-00xxx).",
-          variant: "destructive",
-        });
-        return '';
-    }
-  };
-
-  useEffect(() => {
-    loadCorrelative();
-  }, []);
-
-  const handleDniSearch = async () => {
-    if (!dni || dni.length !== 8) {
+  const handleDniSearch = async (documento: string = dni) => {
+    if (!documento || documento.length !== 8) {
       toast({
         title: "DNI Inválido",
         description: "Ingrese un DNI de 8 dígitos.",
@@ -86,7 +86,7 @@ function RecibosPage() {
     form.setValue('client_id', null);
 
     try {
-      const client = await fetchClientByDocument(dni);
+      const client = await fetchClientByDocument(documento);
       
       if (client && client.id) {
         setClientData(client);
@@ -115,20 +115,28 @@ function RecibosPage() {
   };
 
   const onSubmit = async (values: ReciboPagoFormValues) => {
-    if (!clientData || !clientData.id || !correlative) {
+    if (!clientData || !clientData.id) {
         toast({
             title: "Datos Incompletos",
-            description: "Asegúrese de buscar y cargar los datos del socio y que el correlativo esté disponible.",
+            description: "Asegúrese de buscar y cargar los datos del socio.",
             variant: "destructive",
         });
         return;
     }
 
     setIsSubmitting(true);
+    setLastRecibo(null);
+    let reserva: CorrelativoReservado | null = null;
+    let numeroUsado = false;
 
     try {
+        // 0. Reservar el número en la base de datos; dos cajeros nunca reciben el mismo
+        reserva = await reservarCorrelativo(FAMILIA_CORRELATIVO_RECIBO);
+        const correlative = reserva.numero_completo;
+        setCorrelative(correlative);
+
         // 1. Preparar datos para el PDF (SOLO DATOS PÚBLICOS - EXCLUYE OBSERVACIÓN)
-        const receiptData = {
+        const receiptData: ReceiptData = {
             correlative: correlative,
             client_full_name: clientData.razon_social,
             client_dni: clientData.numero_documento,
@@ -137,6 +145,7 @@ function RecibosPage() {
             concepto: values.concepto,
             metodo_pago: values.metodo_pago,
             numero_operacion: values.numero_operacion,
+            reemplaza_a: reemplazaA,
             // Nota: is_payment_observed y payment_observation_detail se omiten intencionalmente para que no aparezcan en el PDF.
         };
         
@@ -161,6 +170,30 @@ function RecibosPage() {
 
         // 5. Crear el registro de ingreso en la tabla 'ingresos'
         await createIncomeFromBoleta(incomeData);
+        numeroUsado = true;
+        confirmarCorrelativo(reserva.id).catch(err => console.error("No se pudo confirmar el número de recibo:", err));
+
+        // 5.1 Registrar el recibo (concepto y enlace con el anulado que corrige); el cobro ya quedó registrado
+        try {
+            await registerReciboPago({
+                numero: correlative,
+                socio_id: clientData.id,
+                cliente_nombre: clientData.razon_social,
+                cliente_dni: clientData.numero_documento,
+                fecha_emision: values.fecha_emision,
+                monto: values.monto,
+                concepto: values.concepto,
+                metodo_pago: values.metodo_pago,
+                numero_operacion: values.numero_operacion || null,
+                reemplaza_a: reemplazaA,
+            });
+        } catch (registroError) {
+            toast({
+                title: "Advertencia de Registro",
+                description: `El recibo se emitió, pero no se pudo registrar su concepto: ${(registroError as Error).message}`,
+                variant: "warning",
+            });
+        }
 
         // 6. Actualizar estado de observación de pago del Socio Titular si se marcó la bandera (Lógica interna)
         if (values.is_payment_observed && clientData.id) {
@@ -194,16 +227,7 @@ function RecibosPage() {
             description: `El Recibo N° ${correlative} ha sido creado, guardado y el ingreso registrado.`,
             action: (
                 <Button 
-                    onClick={() => {
-                        const url = window.URL.createObjectURL(pdfBlob);
-                        const link = document.createElement('a');
-                        link.href = url;
-                        link.setAttribute('download', `${correlative}.pdf`);
-                        document.body.appendChild(link);
-                        link.click();
-                        link.remove();
-                        window.URL.revokeObjectURL(url);
-                    }}
+                    onClick={() => downloadPdfBlob(pdfBlob, `${correlative}.pdf`)}
                     variant="secondary"
                     className="gap-2"
                 >
@@ -213,6 +237,8 @@ function RecibosPage() {
             duration: 8000,
         });
 
+        setLastRecibo({ data: receiptData, pdfA4: pdfBlob, socioId: clientData.id ?? null, email: clientData.email || '' });
+
         // 8. Resetear el formulario y estado para el siguiente recibo
         form.reset({
             dni: '',
@@ -227,10 +253,17 @@ function RecibosPage() {
             payment_observation_detail: '',
         });
         setClientData(null);
-        loadCorrelative();
+        setReemplazaA(null);
+        setCorrelative('');
+        queryClient.invalidateQueries({ queryKey: ['recibosEmitidos'] });
 
     } catch (error) {
         console.error("Error en el proceso de generación de recibo:", error);
+        // El número reservado no se reutiliza; queda como hueco con el motivo.
+        if (reserva && !numeroUsado) {
+            liberarCorrelativo(reserva.id, `Emisión fallida: ${(error as Error).message}`).catch(err => console.error("No se pudo liberar el número de recibo:", err));
+        }
+        setCorrelative('');
         toast({
             title: "Error al Generar Recibo",
             description: (error as Error).message || "Ocurrió un error inesperado.",
@@ -241,6 +274,63 @@ function RecibosPage() {
     }
   };
 
+  const handleReemitir = (recibo: ReciboEmitido) => {
+    setLastRecibo(null);
+    setReemplazaA(recibo.numero);
+    form.reset({
+        dni: recibo.clienteDni,
+        client_name: '',
+        client_id: null,
+        fecha_emision: format(new Date(), 'yyyy-MM-dd'),
+        monto: recibo.monto,
+        concepto: recibo.concepto ?? '',
+        metodo_pago: PAYMENT_METHODS.some(m => m.value === recibo.metodoPago)
+            ? recibo.metodoPago as ReciboPagoFormValues['metodo_pago']
+            : 'Efectivo',
+        numero_operacion: recibo.numeroOperacion ?? '',
+        is_payment_observed: false,
+        payment_observation_detail: '',
+    });
+    handleDniSearch(recibo.clienteDni);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const getReciboPdf = async (recibo: { data: ReceiptData; pdfA4: Blob }): Promise<Blob> => {
+    if (formato === 'A4') return recibo.pdfA4;
+    const { generateReceiptPdf } = await import('@/lib/receiptPdfGenerator');
+    return generateReceiptPdf(recibo.data, formato);
+  };
+
+  const handlePrintPreview = async () => {
+    if (!lastRecibo) return;
+
+    setPreviewPdf(null);
+    setIsPreviewOpen(true);
+    try {
+        setPreviewPdf(await getReciboPdf(lastRecibo));
+    } catch (error) {
+        setIsPreviewOpen(false);
+        toast({
+            title: "Error de Impresión",
+            description: (error as Error).message || "No se pudo generar el PDF.",
+            variant: "destructive",
+        });
+    }
+  };
+
+  const handleDownloadLastRecibo = async () => {
+    if (!lastRecibo) return;
+    try {
+        downloadPdfBlob(await getReciboPdf(lastRecibo), `${lastRecibo.data.correlative}.pdf`);
+    } catch (error) {
+        toast({
+            title: "Error de Descarga",
+            description: (error as Error).message || "No se pudo generar el PDF.",
+            variant: "destructive",
+        });
+    }
+  };
+
   return (
     <div className="container mx-auto p-4 md:p-8 max-w-4xl">
       <header className="mb-8">
@@ -255,10 +345,21 @@ function RecibosPage() {
             <h2 className="text-2xl font-semibold text-text">Formulario de Emisión</h2>
             <div className="text-right">
                 <span className="text-sm text-textSecondary block">Número de Recibo</span>
-                <span className="text-2xl font-bold text-primary">{correlative || <Loader2 className="h-6 w-6 animate-spin inline-block" />}</span>
+                {correlative
+                    ? <span className="text-2xl font-bold text-primary">{correlative}</span>
+                    : <span className="text-sm text-textSecondary">Se asigna al emitir</span>}
             </div>
         </div>
 
+        {reemplazaA && (
+            <div className="flex items-center justify-between gap-4 mb-6 p-3 rounded-md border border-warning/50 bg-warning/10 text-sm text-warning">
+                <span>Este recibo corrige al recibo anulado <strong>{reemplazaA}</strong>; el PDF lo indicará.</span>
+                <Button type="button" variant="ghost" size="icon" onClick={() => setReemplazaA(null)} title="No enlazar con el recibo anulado">
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -273,7 +374,7 @@ function RecibosPage() {
                         <FormControl>
                           <Input placeholder="Buscar por DNI..." {...field} maxLength={8} />
                         </FormControl>
-                        <Button type="button" onClick={handleDniSearch} disabled={isSearching || !dni || dni.length !== 8}>
+                        <Button type="button" onClick={() => handleDniSearch()} disabled={isSearching || !dni || dni.length !== 8}>
                           {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
                           <span className="ml-2 hidden sm:inline">Buscar</span>
                         </Button>
@@ -437,7 +538,7 @@ function RecibosPage() {
             <div className="flex justify-end pt-6 border-t border-border">
                 <Button 
                     type="submit" 
-                    disabled={isSubmitting || !clientData || !correlative}
+                    disabled={isSubmitting || !clientData}
                     className="w-full md:w-auto gap-2"
                     size="lg"
                 >
@@ -453,6 +554,51 @@ function RecibosPage() {
           </form>
         </Form>
       </div>
+
+      {lastRecibo && (
+        <div className="mt-6 bg-surface p-6 rounded-lg border border-success/30 shadow-md">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <h2 className="text-xl font-semibold text-success">Recibo Emitido: {lastRecibo.data.correlative}</h2>
+                <div className="flex flex-wrap gap-2">
+                    <FormatoImpresionSelect />
+                    <Button type="button" onClick={handlePrintPreview} className="gap-2">
+                        <Printer className="h-4 w-4" /> Imprimir
+                    </Button>
+                    <Button type="button" variant="outline" onClick={handleDownloadLastRecibo} className="gap-2">
+                        <Download className="h-4 w-4" /> Descargar PDF
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setIsCorreoOpen(true)} className="gap-2">
+                        <Mail className="h-4 w-4" /> Enviar por Correo
+                    </Button>
+                </div>
+            </div>
+            <PrintPreviewDialog
+                open={isPreviewOpen}
+                onOpenChange={setIsPreviewOpen}
+                title={`Imprimir Recibo ${lastRecibo.data.correlative}`}
+                fileName={`${lastRecibo.data.correlative}.pdf`}
+                formato={formato}
+                pdfBlob={previewPdf}
+                isLoading={!previewPdf}
+            />
+            <EnviarCorreoDialog
+                open={isCorreoOpen}
+                onOpenChange={setIsCorreoOpen}
+                tipo="recibo"
+                socioId={lastRecibo.socioId}
+                destinatario={lastRecibo.email}
+                variables={{
+                    cliente: lastRecibo.data.client_full_name,
+                    documento: lastRecibo.data.correlative,
+                    monto: `S/ ${lastRecibo.data.monto.toFixed(2)}`,
+                    fecha: format(new Date(lastRecibo.data.fecha_emision + 'T00:00:00'), 'dd/MM/yyyy'),
+                }}
+                obtenerPdf={async () => lastRecibo.pdfA4}
+            />
+        </div>
+      )}
+
+      <RecibosEmitidos onReemitir={handleReemitir} />
     </div>
   );
 }
@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parse, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, CheckCircle2, Download, RefreshCw, XCircle } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { fetchComprobantesRegistroVentas } from '@/lib/api/registroVentasApi';
+import { buildRegistroVentasPle, encodeLatin1, numeroCompleto, TIPO_COMPROBANTE_VENTA_LABELS } from '@/lib/registroVentasPle';
+import { downloadBlob } from '@/lib/printing';
+import { COMPANY_RUC } from '@/lib/constants';
+import { formatCurrency } from '@/lib/utils';
+
+function RegistroVentasPage() {
+  const { toast } = useToast();
+  const [mes, setMes] = useState(format(new Date(), 'yyyy-MM'));
+  const periodo = useMemo(() => parse(mes, 'yyyy-MM', new Date()), [mes]);
+
+  const { data: comprobantes = [], isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['registroVentas', mes],
+    queryFn: () => fetchComprobantesRegistroVentas(periodo),
+  });
+
+  const registro = useMemo(() => buildRegistroVentasPle(comprobantes, COMPANY_RUC, periodo), [comprobantes, periodo]);
+  const errores = registro.incidencias.filter(i => i.severidad === 'error');
+  const advertencias = registro.incidencias.filter(i => i.severidad === 'advertencia');
+
+  const handleDownload = () => {
+    if (errores.length > 0) return;
+    downloadBlob(new Blob([encodeLatin1(registro.contenido)], { type: 'text/plain' }), registro.fileName);
+    toast({ title: "Registro Generado", description: `${registro.fileName} con ${registro.lineas} comprobante(s).`, variant: "success" });
+  };
+
+  return (
+    <div className="space-y-6">
+      <CardHeader className="p-0 flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-2xl font-bold text-primary">Registro de Ventas e Ingresos (PLE 14.1)</CardTitle>
+          <CardDescription className="text-textSecondary">
+            Genera el archivo del libro electrónico del mes con las boletas, facturas y notas registradas. Los comprobantes anulados se informan en cero y los rechazados por SUNAT no se incluyen.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          Actualizar
+        </Button>
+      </CardHeader>
+
+      <Card className="bg-surface border-border shadow-lg">
+        <CardContent className="pt-6 flex flex-col md:flex-row md:items-end gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="registro-periodo">Periodo</Label>
+            <Input id="registro-periodo" type="month" value={mes} onChange={e => e.target.value && setMes(e.target.value)} className="w-48" />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 flex-1 text-sm">
+            <div>
+              <p className="text-textSecondary">Base imponible</p>
+              <p className="font-semibold">{formatCurrency(registro.totales.gravado, 'PEN')}</p>
+            </div>
+            <div>
+              <p className="text-textSecondary">IGV</p>
+              <p className="font-semibold">{formatCurrency(registro.totales.igv, 'PEN')}</p>
+            </div>
+            <div>
+              <p className="text-textSecondary">Exonerado / Inafecto</p>
+              <p className="font-semibold">{formatCurrency(registro.totales.exonerado + registro.totales.inafecto, 'PEN')}</p>
+            </div>
+            <div>
+              <p className="text-textSecondary">Total ({registro.lineas} comprobantes)</p>
+              <p className="font-semibold">{formatCurrency(registro.totales.total, 'PEN')}</p>
+            </div>
+          </div>
+          <Button onClick={handleDownload} disabled={isLoading || errores.length > 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Descargar TXT
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full rounded-lg" />
+          <Skeleton className="h-10 w-full rounded-lg" />
+        </div>
+      ) : (
+        <>
+          {registro.incidencias.length === 0 ? (
+            <div className="flex items-center text-success">
+              <CheckCircle2 className="h-5 w-5 mr-2" />
+              {registro.lineas > 0 ? 'Sin observaciones: el archivo está listo para descargar.' : 'No hay comprobantes en el periodo; se generará un libro sin información.'}
+            </div>
+          ) : (
+            <Card className="bg-surface border-border shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-xl text-primary">Validación</CardTitle>
+                <CardDescription className="text-textSecondary">
+                  {errores.length > 0
+                    ? `Corrija ${errores.length} error(es) antes de descargar el archivo.`
+                    : 'Solo hay advertencias; el archivo se puede descargar.'}
+                  {advertencias.length > 0 && ` ${advertencias.length} advertencia(s).`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-32">Tipo</TableHead>
+                      <TableHead>Comprobante</TableHead>
+                      <TableHead>Observación</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...errores, ...advertencias].map((incidencia, index) => (
+                      <TableRow key={`${incidencia.documento}-${index}`}>
+                        <TableCell>
+                          {incidencia.severidad === 'error' ? (
+                            <Badge variant="destructive"><XCircle className="mr-1 h-3 w-3" />Error</Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-warning/20 text-warning-foreground border-warning/40"><AlertTriangle className="mr-1 h-3 w-3" />Advertencia</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono">{incidencia.documento || 'Libro'}</TableCell>
+                        <TableCell>{incidencia.mensaje}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {comprobantes.length > 0 && (
+            <Card className="bg-surface border-border shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-xl text-primary">Comprobantes del Periodo</CardTitle>
+                <CardDescription className="text-textSecondary capitalize">{format(periodo, 'MMMM yyyy', { locale: es })}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Fecha</TableHead>
+                      <TableHead>Tipo</TableHead>
+                      <TableHead>Comprobante</TableHead>
+                      <TableHead>Cliente</TableHead>
+                      <TableHead>Modifica</TableHead>
+                      <TableHead className="text-right">Base</TableHead>
+                      <TableHead className="text-right">IGV</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead>Estado</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comprobantes.map(c => (
+                      <TableRow key={`${c.tipo}-${numeroCompleto(c)}`}>
+                        <TableCell className="whitespace-nowrap">{format(parseISO(c.fechaEmision), 'dd/MM/yyyy')}</TableCell>
+                        <TableCell>{TIPO_COMPROBANTE_VENTA_LABELS[c.tipo]}</TableCell>
+                        <TableCell className="font-mono">{numeroCompleto(c)}</TableCell>
+                        <TableCell>{c.clienteRazonSocial || '—'}</TableCell>
+                        <TableCell className="font-mono">{c.modificado ? numeroCompleto(c.modificado) : '—'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(c.gravado, c.moneda)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(c.igv, c.moneda)}</TableCell>
+                        <TableCell className="text-right font-semibold">{formatCurrency(c.tipo === '07' ? -c.total : c.total, c.moneda)}</TableCell>
+                        <TableCell>{c.estadoSunat || 'PENDIENTE'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RegistroVentasPage;
@@ -16,6 +16,7 @@ import { DailySummary, ResumenDiarioSchema, ResumenDiarioFormValues, SummaryData
 import { useToast } from '@/components/ui/use-toast';
 import { Label } from '@/components/ui/label';
 import ResumenDiarioResult from '@/components/invoicing/ResumenDiarioResult';
+import ResumenesPendientes from '@/components/invoicing/ResumenesPendientes';
 import { DataTable } from '@/components/ui-custom/DataTable';
 import { getColumns } from '@/components/invoicing/columns';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -132,9 +133,9 @@ function ResumenDiarioPage() {
   return (
     <div className="space-y-6 animate-fade-in">
       <CardHeader className="p-0">
-        <CardTitle className="text-2xl font-bold text-primary">Resúmenes Diarios y Bajas</CardTitle>
+        <CardTitle className="text-2xl font-bold text-primary">Resúmenes Diarios</CardTitle>
         <CardDescription className="text-textSecondary">
-          Genere, envíe y consulte el estado de los resúmenes diarios de boletas y comunicaciones de baja.
+          Genere, envíe y consulte el estado de los resúmenes diarios de boletas.
         </CardDescription>
       </CardHeader>
 
@@ -215,6 +216,8 @@ function ResumenDiarioPage() {
         </Alert>
       )}
 
+      <ResumenesPendientes onBatchCompleted={loadSummaries} />
+
       <div className="space-y-4">
         <h3 className="text-xl font-semibold tracking-tight">Historial de Resúmenes Enviados</h3>
         {error && !isLoading && (
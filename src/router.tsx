@@ -9,8 +9,17 @@ const DashboardPage = lazy(() => import('./pages/Dashboard'));
 const PeoplePage = lazy(() => import('./pages/People')); // Carga diferida para la página de Socios
 const InvoicingLayout = lazy(() => import('./pages/invoicing/InvoicingLayout'));
 const BoletasPage = lazy(() => import('./pages/invoicing/BoletasPage'));
+const BoletasLotePage = lazy(() => import('./pages/invoicing/BoletasLotePage'));
+const FacturasPage = lazy(() => import('./pages/invoicing/FacturasPage'));
 const ResumenDiarioPage = lazy(() => import('./pages/invoicing/ResumenDiarioPage'));
+const ComunicacionBajaPage = lazy(() => import('./pages/invoicing/ComunicacionBajaPage'));
 const NotasCreditoPage = lazy(() => import('./pages/invoicing/NotasCreditoPage'));
+const NotasDebitoPage = lazy(() => import('./pages/invoicing/NotasDebitoPage'));
+const CalendarioPage = lazy(() => import('./pages/invoicing/CalendarioPage'));
+const CatalogoPage = lazy(() => import('./pages/invoicing/CatalogoPage'));
+const EmisionesPendientesPage = lazy(() => import('./pages/invoicing/EmisionesPendientesPage'));
+const RegistroVentasPage = lazy(() => import('./pages/invoicing/RegistroVentasPage'));
+const CorreosPage = lazy(() => import('./pages/invoicing/CorreosPage'));
 const RecibosPage = lazy(() => import('./pages/invoicing/RecibosPage'));
 
 // --- Suspense Wrapper ---
@@ -43,21 +52,53 @@ const router = createBrowserRouter([
             path: 'boletas',
             element: withSuspense(BoletasPage),
           },
+          {
+            path: 'boletas-lote',
+            element: withSuspense(BoletasLotePage),
+          },
           {
             path: 'resumen-diario',
             element: withSuspense(ResumenDiarioPage),
           },
+          {
+            path: 'bajas',
+            element: withSuspense(ComunicacionBajaPage),
+          },
           {
             path: 'notas-credito',
             element: withSuspense(NotasCreditoPage),
           },
+          {
+            path: 'notas-debito',
+            element: withSuspense(NotasDebitoPage),
+          },
+          {
+            path: 'calendario',
+            element: withSuspense(CalendarioPage),
+          },
+          {
+            path: 'catalogo',
+            element: withSuspense(CatalogoPage),
+          },
+          {
+            path: 'emisiones',
+            element: withSuspense(EmisionesPendientesPage),
+          },
+          {
+            path: 'registro-ventas',
+            element: withSuspense(RegistroVentasPage),
+          },
+          {
+            path: 'correos',
+            element: withSuspense(CorreosPage),
+          },
           {
             path: 'recibos',
             element: withSuspense(RecibosPage),
           },
           {
             path: 'facturas',
-            element: <div>Facturación de Facturas (Próximamente)</div>,
+            element: withSuspense(FacturasPage),
           },
         ],
       },
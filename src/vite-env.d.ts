@@ -3,6 +3,10 @@
 interface ImportMetaEnv {
   readonly VITE_INVOICING_API_BASE_URL: string;
   readonly VITE_INVOICING_API_AUTH_TOKEN: string;
+  readonly VITE_COMPANY_RUC?: string;
+  readonly VITE_MAIL_TRANSPORT?: string;
+  readonly VITE_MAIL_API_URL?: string;
+  readonly VITE_MAIL_API_TOKEN?: string;
   // más variables de entorno aquí...
 }
 
@@ -0,0 +1,129 @@
+-- Numeración interna de recibos de pago y gastos asignada por la base de datos.
+-- `reservar_correlativo` incrementa el último número de la familia en una sola sentencia
+-- (el UPDATE bloquea la fila), así dos usuarios simultáneos nunca reciben el mismo número.
+
+create table if not exists public.correlativos_internos (
+  familia text primary key,
+  prefijo text not null,
+  longitud integer not null default 5 check (longitud > 0),
+  ultimo_numero integer not null default 0 check (ultimo_numero >= 0),
+  descripcion text,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.correlativos_reservados (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  familia text not null references public.correlativos_internos (familia),
+  numero integer not null,
+  numero_completo text not null,
+  estado text not null default 'reservado' check (estado in ('reservado', 'usado', 'liberado')),
+  reservado_por uuid references auth.users (id) on delete set null,
+  usado_at timestamptz,
+  motivo_liberacion text,
+  unique (familia, numero)
+);
+
+create index if not exists correlativos_reservados_familia_estado_idx
+  on public.correlativos_reservados (familia, estado);
+
+-- Las reservas solo se escriben con estas funciones (security definer): los usuarios no tienen
+-- permiso para modificar las tablas directamente ni para elegir a quién se atribuye una reserva.
+create or replace function public.reservar_correlativo(p_familia text)
+returns table (id bigint, numero integer, numero_completo text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_numero integer;
+  v_prefijo text;
+  v_longitud integer;
+  v_numero_completo text;
+begin
+  update public.correlativos_internos c
+     set ultimo_numero = c.ultimo_numero + 1,
+         updated_at = now()
+   where c.familia = p_familia
+  returning c.ultimo_numero, c.prefijo, c.longitud
+       into v_numero, v_prefijo, v_longitud;
+
+  -- Familia no configurada: sin filas, el cliente lo informa.
+  if not found then
+    return;
+  end if;
+
+  -- lpad trunca los textos más largos que la longitud, por eso solo se rellena si hace falta.
+  v_numero_completo := v_prefijo || case
+    when length(v_numero::text) >= v_longitud then v_numero::text
+    else lpad(v_numero::text, v_longitud, '0')
+  end;
+
+  return query
+    insert into public.correlativos_reservados as r (familia, numero, numero_completo, reservado_por)
+    values (p_familia, v_numero, v_numero_completo, auth.uid())
+    returning r.id, r.numero, r.numero_completo;
+end;
+$$;
+
+-- Marca una reserva como usada, una vez guardado el documento que lleva el número.
+create or replace function public.confirmar_correlativo(p_id bigint)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.correlativos_reservados
+     set estado = 'usado', usado_at = now()
+   where id = p_id
+     and estado = 'reservado';
+$$;
+
+-- Justifica un número que no se usará. Un número ya usado no se puede liberar.
+create or replace function public.liberar_correlativo(p_id bigint, p_motivo text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.correlativos_reservados
+     set estado = 'liberado', motivo_liberacion = p_motivo
+   where id = p_id
+     and estado <> 'usado';
+$$;
+
+-- Familias con el formato que ya usaban los documentos emitidos (R-00001, GA001), y cada secuencia
+-- arranca en el mayor número emitido hasta hoy para que los nuevos no choquen con los existentes.
+insert into public.correlativos_internos (familia, prefijo, longitud, ultimo_numero, descripcion)
+values
+  ('RECIBO', 'R-', 5, coalesce((
+     select max(substring(receipt_number from '^R-(\d+)$')::integer)
+       from public.ingresos
+      where receipt_number ~ '^R-\d+$'
+   ), 0), 'Recibos de pago'),
+  ('GASTO', 'GA', 3, coalesce((
+     select max(substring(numero_gasto from '^GA(\d+)$')::integer)
+       from public.gastos
+      where numero_gasto ~ '^GA\d+$'
+   ), 0), 'Gastos')
+on conflict (familia) do update
+  set ultimo_numero = greatest(public.correlativos_internos.ultimo_numero, excluded.ultimo_numero),
+      updated_at = now();
+
+alter table public.correlativos_internos enable row level security;
+alter table public.correlativos_reservados enable row level security;
+
+create policy "Usuarios autenticados leen correlativos"
+  on public.correlativos_internos for select
+  to authenticated using (true);
+
+create policy "Usuarios autenticados leen reservas"
+  on public.correlativos_reservados for select
+  to authenticated using (true);
+
+revoke execute on function public.reservar_correlativo(text) from public;
+revoke execute on function public.confirmar_correlativo(bigint) from public;
+revoke execute on function public.liberar_correlativo(bigint, text) from public;
+grant execute on function public.reservar_correlativo(text) to authenticated;
+grant execute on function public.confirmar_correlativo(bigint) to authenticated;
+grant execute on function public.liberar_correlativo(bigint, text) to authenticated;
@@ -0,0 +1,9 @@
+-- Al eliminar un gasto, sus filas en `gasto_comprobantes` se borran con él.
+-- Los archivos del bucket `comprobantes-gastos` los quita la aplicación después, solo si el gasto se eliminó.
+
+alter table public.gasto_comprobantes
+  drop constraint if exists gasto_comprobantes_gasto_id_fkey;
+
+alter table public.gasto_comprobantes
+  add constraint gasto_comprobantes_gasto_id_fkey
+  foreign key (gasto_id) references public.gastos (id) on delete cascade;
@@ -0,0 +1,50 @@
+-- Cierre de periodos aplicado en la base de datos: ningún cliente (la aplicación o llamadas directas
+-- a la API) puede registrar, modificar ni eliminar ingresos, gastos o transferencias con fecha en un
+-- mes cerrado. La aplicación verifica lo mismo antes de escribir para mostrar un mensaje claro.
+
+create or replace function public.verificar_periodo_abierto()
+returns trigger
+language plpgsql
+as $$
+declare
+  -- Columna con la fecha del movimiento: `date` en ingresos y gastos, `fecha` en transferencias.
+  v_columna text := tg_argv[0];
+  v_periodos text[] := array[]::text[];
+  v_cerrado text;
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    v_periodos := v_periodos || left(to_jsonb(old) ->> v_columna, 7);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    v_periodos := v_periodos || left(to_jsonb(new) ->> v_columna, 7);
+  end if;
+
+  select p.periodo into v_cerrado
+    from public.periodos_contables p
+   where p.estado = 'cerrado'
+     and p.periodo = any (v_periodos)
+   limit 1;
+
+  if v_cerrado is not null then
+    raise exception 'El periodo % está cerrado: no se pueden registrar, modificar ni eliminar movimientos con esa fecha.', v_cerrado
+      using errcode = 'check_violation';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists ingresos_periodo_abierto on public.ingresos;
+create trigger ingresos_periodo_abierto
+  before insert or update or delete on public.ingresos
+  for each row execute function public.verificar_periodo_abierto('date');
+
+drop trigger if exists gastos_periodo_abierto on public.gastos;
+create trigger gastos_periodo_abierto
+  before insert or update or delete on public.gastos
+  for each row execute function public.verificar_periodo_abierto('date');
+
+drop trigger if exists transferencias_periodo_abierto on public.transferencias;
+create trigger transferencias_periodo_abierto
+  before insert or update or delete on public.transferencias
+  for each row execute function public.verificar_periodo_abierto('fecha');